@@ -6,8 +6,18 @@ export { TimeSliderControl } from './lib/core/TimeSliderControl';
 
 // Adapters (for custom integrations)
 export { createAdapter } from './lib/adapters/registry';
-export { buildTimeFilter } from './lib/adapters/GeoJsonAdapter';
-export type { SourceAdapter, AdapterContext } from './lib/adapters/types';
+export {
+  buildIntervalFilter,
+  buildRangeFilter,
+  buildTimeFilter,
+} from './lib/adapters/GeoJsonAdapter';
+export type {
+  SourceAdapter,
+  AdapterContext,
+  SourceTimeExtent,
+  InspectTarget,
+  InspectContent,
+} from './lib/adapters/types';
 
 // Time utilities
 export {
@@ -43,9 +53,12 @@ export {
   isDateListUrl,
 } from './lib/time/dateSource';
 export type { DateListFormat } from './lib/time/dateSource';
+export { expandTimeExtent, parseIsoDuration } from './lib/time/isoTime';
+export type { IsoDuration } from './lib/time/isoTime';
+export { cfTimesToDates, parseCfTimeUnits } from './lib/time/cfTime';
 
 // Templating
-export { formatDate } from './lib/template/dateFormat';
+export { formatDate, parseDate } from './lib/template/dateFormat';
 export { expandTokens, resolveUrl } from './lib/template/urlTemplate';
 
 // Type exports
@@ -59,10 +72,31 @@ export type {
   MosaicSourceSpec,
   XyzSourceSpec,
   WmsSourceSpec,
+  StacSourceSpec,
+  WmtsSourceSpec,
+  ArcGisSourceSpec,
+  ZarrSourceSpec,
+  ImageSourceSpec,
+  ImageCoordinates,
+  VideoSourceSpec,
   GeoJsonSourceSpec,
+  VectorSourceSpec,
   CustomSourceSpec,
   GeoJsonTimeWindow,
+  GeoJsonTrail,
+  GeoJsonCluster,
+  GeoJsonSublayer,
+  GeoJsonStyle,
   GeoJsonPaint,
+  LegendEntry,
+  SourceLegend,
+  FeatureLayout,
+  TimeRange,
+  HistogramCounter,
+  RasterTransition,
+  SourceInspect,
+  AnimationFormat,
+  ExportAnimationOptions,
   TimeSliderOptions,
   TimeSliderState,
   TimeSliderConfig,
@@ -81,7 +115,51 @@ export {
   buildTiTilerTileUrl,
   getTiTilerBounds,
   getTiTilerInfo,
+  getTiTilerPoint,
   getTiTilerStatistics,
+  searchStac,
+  stacItemTime,
+  discoverWms,
+  parseWmsCapabilities,
+  wmsCapabilitiesUrl,
+  discoverWmts,
+  parseWmtsCapabilities,
+  wmtsCapabilitiesUrl,
+  wmtsTileTemplate,
+  getArcGisServiceInfo,
+  arcgisTimeExtent,
+  arcgisTimeUnit,
+  arcgisBounds,
+  openZarrArray,
+  readZarrRegion,
+  CLIENT_COLORMAPS,
+  colorizeGrid,
+  colormapColors,
+  colormapTable,
+  valueRange,
 } from './lib/utils';
 
-export type { TiTilerOptions } from './lib/utils';
+export type {
+  TiTilerOptions,
+  StacItem,
+  StacSearchBody,
+  StacSearchOptions,
+  WmsCapabilities,
+  WmsLayerInfo,
+  WmtsCapabilities,
+  WmtsDimension,
+  WmtsLayerInfo,
+  WmtsResourceUrl,
+  WmtsTileMatrix,
+  WmtsTileMatrixSet,
+  WmtsTileOptions,
+  WmtsTileTemplate,
+  ArcGisServiceInfo,
+  ArcGisTimeInfo,
+  ArcGisTimeExtent,
+  ArcGisExtent,
+  ArcGisSpatialReference,
+  ZarrArray,
+  ZarrArrayMetadata,
+  ZarrRegion,
+} from './lib/utils';
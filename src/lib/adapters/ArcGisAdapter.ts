@@ -0,0 +1,102 @@
+import type { ArcGisSourceSpec } from '../core/types';
+import { addUnits, floorToGranularity } from '../time/granularity';
+import {
+  arcgisBounds,
+  arcgisTimeExtent,
+  arcgisTimeUnit,
+  getArcGisServiceInfo,
+  type ArcGisServiceInfo,
+} from '../utils/arcgis';
+import { RasterAdapter } from './BaseAdapter';
+import type { AdapterContext } from './types';
+
+/**
+ * Renders a time-aware ArcGIS MapServer (`export`) or ImageServer
+ * (`exportImage`) as Web Mercator raster tiles. Each tile request asks for the
+ * `time=` window of the current date: one of the service's time intervals
+ * (six hours, a month), or the unit {@link ArcGisSourceSpec.timeWindow}
+ * names. The service JSON is read once, on the first render, for that default
+ * window, the extent, and the attribution.
+ */
+export class ArcGisAdapter extends RasterAdapter {
+  readonly spec: ArcGisSourceSpec;
+  private readonly onTimeExtent?: AdapterContext['onTimeExtent'];
+  /** The service JSON, or undefined when it cannot be read. */
+  private info?: Promise<ArcGisServiceInfo | undefined>;
+
+  /**
+   * @param spec - The ArcGIS source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: ArcGisSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.onTimeExtent = ctx.onTimeExtent;
+    this.tileSize = spec.tileSize ?? 256;
+    this.attribution = spec.attribution;
+    this.bounds = spec.bounds;
+  }
+
+  /**
+   * Reads the service JSON, once. Unless the spec sets them, the bounds and
+   * attribution come from it.
+   */
+  private load(): Promise<ArcGisServiceInfo | undefined> {
+    this.info ??= getArcGisServiceInfo(this.spec.url)
+      .then((info) => {
+        this.attribution ??= info.copyrightText || undefined;
+        this.bounds ??= arcgisBounds(info);
+        const extent = arcgisTimeExtent(info);
+        if (this.spec.syncTimeline && extent) this.onTimeExtent?.(this.id, extent);
+        return info;
+      })
+      // Reported as "no data" on every date; see probeAvailability.
+      .catch(() => undefined);
+    return this.info;
+  }
+
+  /**
+   * A service whose JSON cannot be read (missing, or behind a token the spec
+   * lacks) has no data on any date.
+   */
+  protected override async probeAvailability(): Promise<boolean> {
+    return (await this.load()) !== undefined;
+  }
+
+  protected async resolveTiles(date: Date): Promise<string> {
+    const info = await this.load();
+    if (!info) throw new Error(`ArcGIS source ${this.id} has no service info.`);
+    const { url, layers, renderingRule, format = 'png32', params } = this.spec;
+    const imageServer = /\/ImageServer\/?$/i.test(url);
+    const size = `${this.tileSize},${this.tileSize}`;
+    const query = [
+      'bbox={bbox-epsg-3857}',
+      'bboxSR=3857',
+      'imageSR=3857',
+      `size=${size}`,
+      `format=${encodeURIComponent(format)}`,
+      'transparent=true',
+      'f=image',
+    ];
+    if (!imageServer && layers) query.push(`layers=${encodeURIComponent(layers)}`);
+    if (imageServer && renderingRule) {
+      query.push(`renderingRule=${encodeURIComponent(JSON.stringify(renderingRule))}`);
+    }
+    // A service without timeInfo ignores time; leave it off.
+    if (info.timeInfo) {
+      // The window spans one of the service's steps, as the timeline does.
+      const { timeIntervalUnits, timeInterval } = info.timeInfo;
+      const step = this.spec.timeWindow
+        ? { granularity: this.spec.timeWindow, interval: 1 }
+        : (arcgisTimeUnit(timeIntervalUnits, timeInterval) ?? { granularity: 'day', interval: 1 });
+      const start = floorToGranularity(date, step.granularity, this.timeZone);
+      const end = addUnits(start, step.granularity, step.interval, this.timeZone).getTime() - 1;
+      query.push(`time=${start.getTime()},${end}`);
+    }
+    for (const [key, value] of Object.entries(params ?? {})) {
+      query.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+    }
+    const operation = imageServer ? 'exportImage' : 'export';
+    return `${url.replace(/\/+$/, '')}/${operation}?${query.join('&')}`;
+  }
+}
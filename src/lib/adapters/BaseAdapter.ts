@@ -1,11 +1,12 @@
-import type { Map as MapLibreMap, RasterTileSource } from 'maplibre-gl';
-import type { SourceSpec } from '../core/types';
+import type { Map as MapLibreMap, MapSourceDataEvent, RasterTileSource } from 'maplibre-gl';
+import type { SourceSpec, TimeRange } from '../core/types';
+import { intersectBounds, tileUrl, tilesInBounds, tileZoom } from '../prefetch/tiles';
 import { clamp } from '../utils/helpers';
 import type { AdapterContext, SourceAdapter } from './types';
 
 /**
  * Shared base for all adapters: holds identity, the map handle, opacity, and the
- * last rendered date, and tears down its layer + source on removal.
+ * last rendered date, and tears down its layers + source on removal.
  */
 export abstract class BaseAdapter implements SourceAdapter {
   readonly id: string;
@@ -17,6 +18,12 @@ export abstract class BaseAdapter implements SourceAdapter {
   protected lastDate?: Date;
   /** Reports per-date data availability up to the control; see AdapterContext. */
   protected onDataStatus?: (id: string, available: boolean) => void;
+  /** Reports a failed load up to the control; see AdapterContext. */
+  protected onError?: (id: string, error: Error) => void;
+  /** Applied to the requests the adapter makes itself; see AdapterContext. */
+  protected transformRequest?: AdapterContext['transformRequest'];
+  /** Zone URL date tokens expand in; see AdapterContext. */
+  protected timeZone?: string;
 
   /**
    * @param id - Stable id used for the source and layer
@@ -28,32 +35,46 @@ export abstract class BaseAdapter implements SourceAdapter {
     this.map = ctx.map;
     this.beforeId = ctx.beforeId;
     this.onDataStatus = ctx.onDataStatus;
+    this.onError = ctx.onError;
+    this.transformRequest = ctx.transformRequest;
+    this.timeZone = ctx.timeZone;
     this.opacity = clamp(opacity, 0, 1);
   }
 
-  abstract add(date: Date): Promise<void> | void;
-  abstract update(date: Date): Promise<void> | void;
+  abstract add(date: Date, range?: TimeRange): Promise<void> | void;
+  abstract update(date: Date, range?: TimeRange): Promise<void> | void;
   abstract setOpacity(opacity: number): void;
 
   /**
-   * Shows or hides the managed layer via its MapLibre `visibility` layout
-   * property. Every adapter renders a single layer keyed by {@link id}, so this
-   * is handled uniformly here.
+   * The managed layers: a single layer keyed by {@link id}, unless the adapter
+   * draws its source with several.
+   */
+  getLayerIds(): string[] {
+    return [this.id];
+  }
+
+  /**
+   * Shows or hides the managed layers via their MapLibre `visibility` layout
+   * property, so a source drawn by several layers toggles as one.
    *
-   * @param visible - Whether the layer should be visible
+   * @param visible - Whether the layers should be visible
    */
   setVisible(visible: boolean): void {
-    if (this.map.getLayer?.(this.id)) {
-      this.map.setLayoutProperty(this.id, 'visibility', visible ? 'visible' : 'none');
+    for (const id of this.getLayerIds()) {
+      if (this.map.getLayer?.(id)) {
+        this.map.setLayoutProperty(id, 'visibility', visible ? 'visible' : 'none');
+      }
     }
   }
 
   /**
-   * Removes the managed layer then source if they exist.
+   * Removes the managed layers then source if they exist.
    */
   remove(): void {
-    if (this.map.getLayer?.(this.id)) {
-      this.map.removeLayer(this.id);
+    for (const id of this.getLayerIds()) {
+      if (this.map.getLayer?.(id)) {
+        this.map.removeLayer(id);
+      }
     }
     if (this.map.getSource?.(this.id)) {
       this.map.removeSource(this.id);
@@ -75,6 +96,12 @@ function whenResolved<T>(value: T | Promise<T>, fn: (v: T) => void): void | Prom
   fn(value);
 }
 
+/**
+ * Longest a cross-fade waits for the incoming date's tiles before fading
+ * anyway, so a tile that never arrives cannot hold the old date on screen.
+ */
+const FADE_LOAD_TIMEOUT = 5000;
+
 /**
  * Base for raster-backed adapters (COG, XYZ, WMS). Subclasses only implement
  * {@link RasterAdapter.resolveTiles}; this class manages the raster source,
@@ -86,10 +113,40 @@ export abstract class RasterAdapter extends BaseAdapter {
   protected attribution?: string;
   /** Optional `[west, south, east, north]` extent limiting tile requests. */
   protected bounds?: [number, number, number, number];
+  /** Zoom range the tile service covers; MapLibre overzooms past `maxzoom`. */
+  protected minzoom?: number;
+  protected maxzoom?: number;
   private requestSeq = 0;
   /** Set by remove(); guards async render() continuations so a probe/tile
    * resolution that finishes after removal cannot re-add the layer. */
   private removed = false;
+  /**
+   * The layer showing the current date. With a cross-fade transition it
+   * alternates between {@link id} and {@link fadeId} on every date change.
+   */
+  private front = this.id;
+  /** Pending end of a cross-fade, after which the faded-out layer is hidden. */
+  private fadeTimer?: ReturnType<typeof setTimeout>;
+  /** Stops waiting for a cross-fade's incoming tiles, while it waits. */
+  private cancelFadeWait?: () => void;
+  /** Whether the user hid the layer (see setVisible). */
+  private hidden = false;
+
+  /**
+   * Id of the second source + layer a cross-fade alternates with.
+   */
+  protected get fadeId(): string {
+    return `${this.id}-fade`;
+  }
+
+  /**
+   * The other layer of the cross-fade pair.
+   *
+   * @param id - One of {@link id} and {@link fadeId}
+   */
+  private partnerOf(id: string): string {
+    return id === this.id ? this.fadeId : this.id;
+  }
 
   /**
    * Builds the tile URL template for a given date.
@@ -117,34 +174,136 @@ export abstract class RasterAdapter extends BaseAdapter {
    * instead of the previous frame. The next available date re-adds them.
    */
   protected clearLayer(): void {
-    if (this.map.getLayer?.(this.id)) this.map.removeLayer(this.id);
-    if (this.map.getSource?.(this.id)) this.map.removeSource(this.id);
+    clearTimeout(this.fadeTimer);
+    this.fadeTimer = undefined;
+    this.cancelFadeWait?.();
+    this.cancelFadeWait = undefined;
+    for (const id of [this.id, this.fadeId]) {
+      if (this.map.getLayer?.(id)) this.map.removeLayer(id);
+      if (this.map.getSource?.(id)) this.map.removeSource(id);
+    }
+    this.front = this.id;
   }
 
   /**
-   * Creates the raster source + layer if missing, otherwise updates its tiles.
+   * Creates the raster source + layer if missing, otherwise updates its tiles,
+   * cross-fading when the spec asks for a transition.
    */
   private applyTiles(tiles: string): void {
-    const source = this.map.getSource?.(this.id) as RasterTileSource | undefined;
+    const source = this.map.getSource?.(this.front) as RasterTileSource | undefined;
+    if (!source) {
+      this.addRasterLayer(this.front, tiles, this.opacity);
+      return;
+    }
+    const duration = this.spec.transition?.duration ?? 0;
+    if (duration > 0) {
+      this.crossFade(tiles, duration);
+      return;
+    }
+    if (typeof source.setTiles === 'function') source.setTiles([tiles]);
+  }
+
+  /**
+   * Loads the new date into the idle layer of the A/B pair and, once its tiles
+   * have loaded, lets MapLibre's paint transition fade it up to the layer
+   * opacity while the current layer fades out. Until then the current layer
+   * stays at full strength, so a step never fades through to the basemap; a
+   * step that arrives meanwhile loads into the same idle layer instead. Once
+   * the fade ends the old layer is hidden, so it stops loading tiles as the map
+   * moves.
+   *
+   * @param tiles - The new date's tile URL template
+   * @param duration - Fade length in milliseconds
+   */
+  private crossFade(tiles: string, duration: number): void {
+    if (this.cancelFadeWait) {
+      const incoming = this.map.getSource?.(this.front) as RasterTileSource | undefined;
+      if (typeof incoming?.setTiles === 'function') incoming.setTiles([tiles]);
+      return;
+    }
+    const from = this.front;
+    const to = this.partnerOf(from);
+    // A fade still running ends here: its old layer is about to load this date.
+    clearTimeout(this.fadeTimer);
+    this.fadeTimer = undefined;
+    const source = this.map.getSource?.(to) as RasterTileSource | undefined;
     if (source) {
       if (typeof source.setTiles === 'function') source.setTiles([tiles]);
-      return;
+      if (!this.hidden) this.map.setLayoutProperty(to, 'visibility', 'visible');
+    } else {
+      this.addRasterLayer(to, tiles, 0);
     }
-    this.map.addSource(this.id, {
+    this.front = to;
+
+    this.cancelFadeWait = this.whenSourceLoaded(to, () => {
+      this.cancelFadeWait = undefined;
+      const transition = { duration, delay: 0 };
+      this.map.setPaintProperty(to, 'raster-opacity-transition', transition);
+      this.map.setPaintProperty(from, 'raster-opacity-transition', transition);
+      this.map.setPaintProperty(to, 'raster-opacity', this.opacity);
+      this.map.setPaintProperty(from, 'raster-opacity', 0);
+      this.fadeTimer = setTimeout(() => {
+        this.fadeTimer = undefined;
+        if (this.map.getLayer?.(from)) this.map.setLayoutProperty(from, 'visibility', 'none');
+      }, duration);
+    });
+  }
+
+  /**
+   * Calls back once a source has loaded the tiles in view, or after
+   * {@link FADE_LOAD_TIMEOUT} when they do not all arrive.
+   *
+   * @param id - The source
+   * @param done - The callback
+   * @returns A function that stops waiting without calling back
+   */
+  private whenSourceLoaded(id: string, done: () => void): () => void {
+    const onData = (event: MapSourceDataEvent): void => {
+      if (event.sourceId === id && event.tile && this.map.isSourceLoaded?.(id)) finish();
+    };
+    const stop = (): void => {
+      clearTimeout(timer);
+      this.map.off('sourcedata', onData);
+    };
+    const finish = (): void => {
+      stop();
+      done();
+    };
+    const timer = setTimeout(finish, FADE_LOAD_TIMEOUT);
+    this.map.on('sourcedata', onData);
+    return stop;
+  }
+
+  /**
+   * Adds a raster source and its layer.
+   *
+   * @param id - Id for both the source and the layer
+   * @param tiles - The tile URL template
+   * @param opacity - Initial `raster-opacity`
+   */
+  private addRasterLayer(id: string, tiles: string, opacity: number): void {
+    const duration = this.spec.transition?.duration ?? 0;
+    this.map.addSource(id, {
       type: 'raster',
       tiles: [tiles],
       tileSize: this.tileSize,
       // Constraining the source to the data extent stops MapLibre from
       // requesting (and erroring on) tiles outside the footprint.
       ...(this.bounds ? { bounds: this.bounds } : {}),
+      ...(this.minzoom !== undefined ? { minzoom: this.minzoom } : {}),
+      ...(this.maxzoom !== undefined ? { maxzoom: this.maxzoom } : {}),
       ...(this.attribution ? { attribution: this.attribution } : {}),
     });
     this.map.addLayer(
       {
-        id: this.id,
+        id,
         type: 'raster',
-        source: this.id,
-        paint: { 'raster-opacity': this.opacity },
+        source: id,
+        paint: {
+          'raster-opacity': opacity,
+          ...(duration > 0 ? { 'raster-opacity-transition': { duration, delay: 0 } } : {}),
+        },
+        ...(this.hidden ? { layout: { visibility: 'none' as const } } : {}),
       },
       this.beforeId
     );
@@ -180,7 +339,28 @@ export abstract class RasterAdapter extends BaseAdapter {
     // resolution that resolves after this cannot resurrect the layer.
     this.removed = true;
     this.requestSeq++;
+    clearTimeout(this.fadeTimer);
+    this.cancelFadeWait?.();
+    this.cancelFadeWait = undefined;
     super.remove();
+    if (this.map.getLayer?.(this.fadeId)) this.map.removeLayer(this.fadeId);
+    if (this.map.getSource?.(this.fadeId)) this.map.removeSource(this.fadeId);
+  }
+
+  /**
+   * Shows or hides the layer. A cross-fade's partner layer follows along while
+   * it is still fading out.
+   *
+   * @param visible - Whether the layer should be visible
+   */
+  override setVisible(visible: boolean): void {
+    this.hidden = !visible;
+    for (const id of [this.id, this.fadeId]) {
+      if (!this.map.getLayer?.(id)) continue;
+      const fading = this.fadeTimer !== undefined || this.cancelFadeWait !== undefined;
+      const shown = visible && (id === this.front || fading);
+      this.map.setLayoutProperty(id, 'visibility', shown ? 'visible' : 'none');
+    }
   }
 
   add(date: Date): void | Promise<void> {
@@ -191,10 +371,32 @@ export abstract class RasterAdapter extends BaseAdapter {
     return this.render(date);
   }
 
+  /**
+   * The tile URLs covering the current viewport (within the source's bounds)
+   * for a date, at the zoom MapLibre would request them. Availability is not
+   * probed: a date without data just costs a few failed requests.
+   *
+   * @param date - An upcoming timeline date
+   * @returns The tile URLs, nearest the view center first
+   */
+  async prefetchUrls(date: Date): Promise<string[]> {
+    const view = this.map.getBounds().toArray();
+    const box = intersectBounds(
+      [view[0][0], view[0][1], view[1][0], view[1][1]],
+      this.bounds ?? [-Infinity, -90, Infinity, 90]
+    );
+    if (!box) return [];
+    const template = await this.resolveTiles(date);
+    const z = Math.min(tileZoom(this.map.getZoom(), this.tileSize), this.maxzoom ?? Infinity);
+    return tilesInBounds(box, z).map((tile) => tileUrl(template, tile));
+  }
+
   setOpacity(opacity: number): void {
     this.opacity = clamp(opacity, 0, 1);
-    if (this.map.getLayer?.(this.id)) {
-      this.map.setPaintProperty(this.id, 'raster-opacity', this.opacity);
+    // While a fade waits on its tiles, the layer showing is the outgoing one.
+    const showing = this.cancelFadeWait ? this.partnerOf(this.front) : this.front;
+    if (this.map.getLayer?.(showing)) {
+      this.map.setPaintProperty(showing, 'raster-opacity', this.opacity);
     }
   }
 }
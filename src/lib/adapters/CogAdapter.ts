@@ -1,8 +1,9 @@
 import type { CogSourceSpec, SourceSpec } from '../core/types';
-import { buildTiTilerTileUrl, DEFAULT_TITILER_ENDPOINT } from '../utils/titiler';
+import { buildTiTilerTileUrl, DEFAULT_TITILER_ENDPOINT, getTiTilerPoint } from '../utils/titiler';
 import { resolveUrl } from '../template/urlTemplate';
 import { RasterAdapter } from './BaseAdapter';
-import type { AdapterContext } from './types';
+import { inspectContent, inspectOptions } from './inspect';
+import type { AdapterContext, InspectContent, InspectTarget } from './types';
 
 /**
  * Renders a Cloud Optimized GeoTIFF through a TiTiler endpoint, re-templating
@@ -37,7 +38,7 @@ export class CogAdapter extends RasterAdapter {
    * @returns Whether the date's COG is available
    */
   protected override async probeAvailability(date: Date): Promise<boolean> {
-    const resolved = resolveUrl(this.spec.url, date);
+    const resolved = resolveUrl(this.spec.url, date, this.timeZone);
     const cogUrl = resolved instanceof Promise ? await resolved : resolved;
     if (this.missing.has(cogUrl)) return false;
     const base = (this.spec.endpoint ?? DEFAULT_TITILER_ENDPOINT).replace(/\/$/, '');
@@ -66,10 +67,36 @@ export class CogAdapter extends RasterAdapter {
         bidx: this.spec.bidx,
         nodata: this.spec.nodata,
       });
-    const cogUrl = resolveUrl(this.spec.url, date);
+    const cogUrl = resolveUrl(this.spec.url, date, this.timeZone);
     return cogUrl instanceof Promise ? cogUrl.then(build) : build(cogUrl);
   }
 
+  /**
+   * The value of each band at the clicked point in the current date's COG,
+   * queried from TiTiler. A date without a COG, a point outside it, or an
+   * endpoint that cannot be reached has none.
+   */
+  async inspect(target: InspectTarget): Promise<InspectContent | undefined> {
+    const options = inspectOptions(this.spec.inspect);
+    if (!options || !this.lastDate) return undefined;
+    const resolved = resolveUrl(this.spec.url, this.lastDate, this.timeZone);
+    const cogUrl = resolved instanceof Promise ? await resolved : resolved;
+    if (this.missing.has(cogUrl)) return undefined;
+    try {
+      const { values, band_names } = await getTiTilerPoint(
+        cogUrl,
+        target.lngLat,
+        this.spec.endpoint,
+        this.spec.bidx
+      );
+      if (values.every((value) => value == null)) return undefined;
+      const bands = Object.fromEntries(band_names.map((name, i) => [name, values[i]]));
+      return inspectContent(this.spec.name ?? this.id, bands, options.template);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Updates colormap/rescale (and other COG fields) and re-renders the current
    * date's tiles.
@@ -1,50 +1,81 @@
+import type { FilterSpecification, GeoJSONSource, MapLayerMouseEvent } from 'maplibre-gl';
+import type { FeatureCollection } from 'geojson';
 import type {
-  CircleLayerSpecification,
-  FillLayerSpecification,
-  FilterSpecification,
-  LineLayerSpecification,
-} from 'maplibre-gl';
-import type { GeoJsonSourceSpec, GeoJsonTimeWindow } from '../core/types';
+  FeatureLayout,
+  GeoJsonCluster,
+  GeoJsonPaint,
+  GeoJsonSourceSpec,
+  GeoJsonTimeWindow,
+  SourceLegend,
+  SourceSpec,
+  TimeRange,
+} from '../core/types';
 import { addUnits } from '../time/granularity';
+import { parseTimeValue } from '../time/timeValue';
 import { clamp } from '../utils/helpers';
+import { fetchResource } from '../utils/request';
 import { BaseAdapter } from './BaseAdapter';
-import type { AdapterContext } from './types';
+import {
+  DEFAULT_WINDOW,
+  type FeatureGeometry,
+  GEOMETRY_CONFIG,
+  featureLayerStyle,
+} from './featureLayers';
+import { type CompiledStyle, compileFeatureStyle } from './featureStyle';
+import {
+  bindHover,
+  formatTimes,
+  highlightLayerStyle,
+  inspectContent,
+  inspectOptions,
+} from './inspect';
+import type { AdapterContext, InspectContent, InspectTarget } from './types';
 
 /**
- * Default window applied when a spec omits one: show features dated within the
- * current day.
- */
-const DEFAULT_WINDOW: Required<GeoJsonTimeWindow> = { unit: 'day', before: 0, after: 1 };
-
-/**
- * Layer type and opacity paint key for each supported geometry kind.
+ * Builds a MapLibre filter expression that keeps features whose time property
+ * falls inside the half-open span `[range.start, range.end)`. When `cumulative`
+ * is true the lower bound is dropped, so every feature up to the span's end
+ * stays visible.
+ *
+ * The time property is coerced with `to-number`, so values must be epoch
+ * milliseconds (or numeric strings).
+ *
+ * @param timeProperty - Feature property holding the timestamp
+ * @param range - The span to keep
+ * @param cumulative - Keep every feature before the span as well
+ * @returns A MapLibre filter expression
  */
-const GEOMETRY_CONFIG = {
-  circle: { layerType: 'circle' as const, opacityKey: 'circle-opacity' },
-  fill: { layerType: 'fill' as const, opacityKey: 'fill-opacity' },
-  line: { layerType: 'line' as const, opacityKey: 'line-opacity' },
-};
+export function buildRangeFilter(
+  timeProperty: string,
+  range: TimeRange,
+  cumulative = false
+): FilterSpecification {
+  const value = ['to-number', ['get', timeProperty]];
+  const upper = range.end.getTime();
+  if (cumulative) {
+    return ['<', value, upper] as unknown as FilterSpecification;
+  }
+  return [
+    'all',
+    ['>=', value, range.start.getTime()],
+    ['<', value, upper],
+  ] as unknown as FilterSpecification;
+}
 
 /**
- * Visible default paint per geometry, used when a spec provides none. MapLibre's
- * built-in defaults (tiny black fills) are easy to miss, so these give an
- * unstyled layer a sensible, clearly visible appearance. User-supplied paint
- * always overrides these.
+ * The span of the window `[date - before, date + after)` around a date.
+ *
+ * @param date - The current timeline date
+ * @param window - The time window
+ * @param timeZone - IANA zone whose calendar the window's units follow
+ * @returns The window's span
  */
-const DEFAULT_PAINT: {
-  circle: CircleLayerSpecification['paint'];
-  fill: FillLayerSpecification['paint'];
-  line: LineLayerSpecification['paint'];
-} = {
-  circle: {
-    'circle-radius': 6,
-    'circle-color': '#ff5533',
-    'circle-stroke-color': '#ffffff',
-    'circle-stroke-width': 1,
-  },
-  fill: { 'fill-color': '#3388ff' },
-  line: { 'line-color': '#3388ff', 'line-width': 2 },
-};
+function windowRange(date: Date, window: GeoJsonTimeWindow, timeZone?: string): TimeRange {
+  return {
+    start: addUnits(date, window.unit, -(window.before ?? 0), timeZone),
+    end: addUnits(date, window.unit, window.after ?? 1, timeZone),
+  };
+}
 
 /**
  * Builds a MapLibre filter expression that keeps features whose time property
@@ -52,95 +83,741 @@ const DEFAULT_PAINT: {
  * `cumulative` is true the lower bound is dropped, so every feature up to the
  * window's end stays visible (past time steps accumulate rather than clear).
  *
- * The time property is coerced with `to-number`, so values must be epoch
- * milliseconds (or numeric strings).
- *
  * @param timeProperty - Feature property holding the timestamp
  * @param date - The current timeline date
  * @param window - The time window
  * @param cumulative - Keep features from previous steps instead of removing them
+ * @param timeZone - IANA zone whose calendar the window's units follow (default
+ *   UTC), so a one-day window spans a local day even when it is 23 hours long
  * @returns A MapLibre filter expression
  */
 export function buildTimeFilter(
   timeProperty: string,
   date: Date,
   window: GeoJsonTimeWindow,
+  cumulative = false,
+  timeZone?: string
+): FilterSpecification {
+  return buildRangeFilter(timeProperty, windowRange(date, window, timeZone), cumulative);
+}
+
+/**
+ * An expression testing whether a feature lacks a value for a property (no
+ * property, `null`, or `''`), which leaves an interval open on that side.
+ */
+function open(property: string): unknown[] {
+  return ['any', ['==', ['get', property], null], ['==', ['get', property], '']];
+}
+
+/**
+ * Builds a MapLibre filter expression that keeps features whose validity
+ * interval `[start, end]` overlaps the half-open span `[range.start,
+ * range.end)`: those that start before the span ends and end at or after it
+ * starts. A feature missing either bound (no property, `null`, or `''`) is
+ * open-ended on that side. When `cumulative` is true the end bound is ignored,
+ * so every feature that has started by the span's end stays visible.
+ *
+ * Both properties are coerced with `to-number`, as in {@link buildRangeFilter}.
+ *
+ * @param startProperty - Feature property holding the interval's start, if any
+ * @param endProperty - Feature property holding the interval's end, if any
+ * @param range - The span to overlap
+ * @param cumulative - Keep features that have already ended as well
+ * @returns A MapLibre filter expression
+ * @throws TypeError when neither property is given, which would keep every
+ *   feature on every date
+ */
+export function buildIntervalFilter(
+  startProperty: string | undefined,
+  endProperty: string | undefined,
+  range: TimeRange,
   cumulative = false
 ): FilterSpecification {
-  const before = window.before ?? 0;
-  const after = window.after ?? 1;
-  const upper = addUnits(date, window.unit, after).getTime();
-  const value = ['to-number', ['get', timeProperty]];
-  if (cumulative) {
-    return ['<', value, upper] as unknown as FilterSpecification;
+  if (!startProperty && !endProperty) {
+    throw new TypeError('buildIntervalFilter requires a startProperty or an endProperty.');
+  }
+  const filter: unknown[] = ['all'];
+  if (startProperty) {
+    filter.push([
+      'any',
+      open(startProperty),
+      ['<', ['to-number', ['get', startProperty]], range.end.getTime()],
+    ]);
+  }
+  if (endProperty && !cumulative) {
+    filter.push([
+      'any',
+      open(endProperty),
+      ['>=', ['to-number', ['get', endProperty]], range.start.getTime()],
+    ]);
+  }
+  return filter as unknown as FilterSpecification;
+}
+
+/**
+ * The paint properties styles and trails drive for each geometry kind: the
+ * opacities a trail fades, and the size and colour a style sets and a trail
+ * blends. A heatmap's opacity and colour apply to the whole layer, not per
+ * feature, so a trail fades each feature's weight instead and a style has
+ * nothing to colour.
+ */
+const FEATURE_PAINT: Record<
+  FeatureGeometry,
+  { opacity: string[]; weight?: string; size?: string; color?: string }
+> = {
+  circle: {
+    opacity: ['circle-opacity', 'circle-stroke-opacity'],
+    size: 'circle-radius',
+    color: 'circle-color',
+  },
+  line: { opacity: ['line-opacity'], size: 'line-width', color: 'line-color' },
+  fill: { opacity: ['fill-opacity'], color: 'fill-color' },
+  // Text size is a layout property, which cannot follow the date smoothly.
+  symbol: { opacity: ['text-opacity', 'icon-opacity'], color: 'text-color' },
+  heatmap: { opacity: [], weight: 'heatmap-weight', size: 'heatmap-radius' },
+};
+
+/**
+ * Cluster circles that grow and warm with their count, and dark count labels.
+ */
+const CLUSTER_PAINT: Required<NonNullable<GeoJsonCluster['paint']>> = {
+  circle: {
+    'circle-color': ['step', ['get', 'point_count'], '#51bbd6', 100, '#f1f075', 750, '#f28cb1'],
+    'circle-radius': ['step', ['get', 'point_count'], 15, 100, 20, 750, 25],
+    'circle-stroke-color': '#ffffff',
+    'circle-stroke-width': 1,
+  },
+  symbol: { 'text-color': '#222222' },
+};
+
+/**
+ * Cluster radius and deepest clustering zoom, unless the spec sets its own.
+ */
+const DEFAULT_CLUSTER = { radius: 50, maxZoom: 14 };
+
+/**
+ * A filter keeping the clusters MapLibre makes of a clustered source.
+ */
+const IS_CLUSTER = ['has', 'point_count'];
+
+/**
+ * An empty collection: the source's data until a URL has loaded, and what a
+ * failed load leaves.
+ */
+const EMPTY_COLLECTION: FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+/**
+ * Reads a property value the way `to-number` coerces it in a filter: a missing
+ * value is 0, and a non-numeric string NaN, which no comparison keeps.
+ */
+function toNumber(value: unknown): number {
+  return value == null ? 0 : Number(value);
+}
+
+/**
+ * Whether a feature passes the filter {@link buildRangeFilter} or
+ * {@link buildIntervalFilter} builds for a span, evaluated here for a
+ * clustered source, whose clusters MapLibre makes before any layer filter.
+ *
+ * @param properties - The feature's properties
+ * @param spec - The properties holding its time or interval
+ * @param span - The span to keep
+ * @param cumulative - Keep features before the span as well
+ * @returns Whether the filter keeps the feature
+ */
+function keepsFeature(
+  properties: Record<string, unknown> | null,
+  spec: Pick<GeoJsonSourceSpec, 'timeProperty' | 'startProperty' | 'endProperty'>,
+  span: TimeRange,
+  cumulative: boolean
+): boolean {
+  const { timeProperty, startProperty, endProperty } = spec;
+  const value = (property: string): unknown => properties?.[property];
+  const isOpen = (property: string): boolean => value(property) == null || value(property) === '';
+  const start = span.start.getTime();
+  const end = span.end.getTime();
+  if (timeProperty && !startProperty && !endProperty) {
+    const time = toNumber(value(timeProperty));
+    return time < end && (cumulative || time >= start);
+  }
+  return (
+    (!startProperty || isOpen(startProperty) || toNumber(value(startProperty)) < end) &&
+    (!endProperty || cumulative || isOpen(endProperty) || toNumber(value(endProperty)) >= start)
+  );
+}
+
+/**
+ * Copies a collection with its time properties rewritten as epoch
+ * milliseconds, the form the time filter compares. Values that are not times
+ * are left as they are, so the filter treats them as it always has.
+ *
+ * @param data - The feature collection
+ * @param properties - Feature properties holding times
+ * @param format - How to read ambiguous values (see {@link parseTimeValue})
+ * @param timeZone - IANA zone of offset-less wall-clock times
+ * @returns The normalized copy; the input is not modified
+ */
+function normalizeTimes(
+  data: FeatureCollection,
+  properties: string[],
+  format?: string,
+  timeZone?: string
+): FeatureCollection {
+  const features = (data.features ?? []).map((feature) => {
+    let props = feature.properties;
+    for (const property of properties) {
+      const time = parseTimeValue(props?.[property], format, timeZone);
+      if (time !== undefined) props = { ...props, [property]: time };
+    }
+    return props === feature.properties ? feature : { ...feature, properties: props };
+  });
+  return { ...data, features };
+}
+
+/**
+ * Reads each feature's timestamp the way the time filter coerces it
+ * (`to-number`), skipping features the filter could never match.
+ *
+ * @param data - The feature collection
+ * @param timeProperty - Feature property holding the timestamp
+ * @returns Epoch-millisecond timestamps, in feature order
+ */
+function featureTimes(data: FeatureCollection, timeProperty: string): number[] {
+  const times: number[] = [];
+  for (const feature of data.features ?? []) {
+    const value = feature.properties?.[timeProperty];
+    const time = value == null || value === '' ? NaN : Number(value);
+    if (Number.isFinite(time)) times.push(time);
   }
-  const lower = addUnits(date, window.unit, -before).getTime();
-  return ['all', ['>=', value, lower], ['<', value, upper]] as unknown as FilterSpecification;
+  return times;
+}
+
+/**
+ * A MapLibre layer drawing the source: its id, geometry, and the paint and
+ * layout it is created with.
+ */
+interface Sublayer {
+  id: string;
+  geometry: FeatureGeometry;
+  paint?: GeoJsonPaint;
+  layout?: FeatureLayout;
 }
 
 /**
  * Renders a GeoJSON source and filters its features by a time property as the
- * timeline advances. No network requests are made on update; only the layer
- * filter changes.
+ * timeline advances. The data is loaded once (a URL is fetched here rather than
+ * by MapLibre) and its time properties normalized to epoch milliseconds, so ISO
+ * strings and epoch seconds filter like epoch milliseconds. No network requests
+ * are made on update; only the layer filter (and any time-dependent paint)
+ * changes. In range mode the filter keeps the selected window rather than the
+ * spec's {@link GeoJsonTimeWindow} around the current date. Features with a
+ * start/end interval are kept while it overlaps that window. A source with
+ * `layers` draws the data with each of them, all sharing that one filter.
  */
 export class GeoJsonAdapter extends BaseAdapter {
   readonly spec: GeoJsonSourceSpec;
   private window: GeoJsonTimeWindow;
   private cumulative: boolean;
-  private opacityKey: string;
+  /** The normalized data: inline data as soon as it is read, a URL once fetched. */
+  private collection?: FeatureCollection | Promise<FeatureCollection>;
+  /** The normalized data once available, for styles derived from it. */
+  private loaded?: FeatureCollection;
+  /** A graduated or categorical style as compiled from {@link loaded}, kept
+   * until the style or the data changes. */
+  private compiledFromData?: { data?: FeatureCollection; compiled?: CompiledStyle };
+  /** The selected window at the last add/update, in range mode. */
+  private lastRange?: TimeRange;
+  /** Clears the hover highlight and unbinds its listeners, while bound. */
+  private unbindHover?: () => void;
+  /** Zooms in on a clicked cluster until it breaks apart. */
+  private readonly expandCluster = (event: MapLayerMouseEvent): void => {
+    const feature = event.features?.[0];
+    const source = this.map.getSource?.(this.id) as GeoJSONSource | undefined;
+    if (feature?.geometry.type !== 'Point' || !source) return;
+    const center = feature.geometry.coordinates as [number, number];
+    source
+      .getClusterExpansionZoom(feature.properties.cluster_id)
+      .then((zoom) => this.map.easeTo({ center, zoom }))
+      .catch(() => undefined);
+  };
 
   /**
    * @param spec - The GeoJSON source specification
    * @param ctx - Shared adapter context
+   * @throws TypeError when the spec names no time property, start property,
+   *   or end property, since nothing would tie its features to the timeline
    */
   constructor(spec: GeoJsonSourceSpec, ctx: AdapterContext) {
+    if (!spec.timeProperty && !spec.startProperty && !spec.endProperty) {
+      throw new TypeError(
+        `GeoJSON source ${spec.id} requires a timeProperty, or a startProperty and/or endProperty.`
+      );
+    }
     super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
     this.spec = spec;
     this.window = spec.window ?? DEFAULT_WINDOW;
     this.cumulative = spec.cumulative ?? false;
-    this.opacityKey = GEOMETRY_CONFIG[spec.geometry ?? 'circle'].opacityKey;
   }
 
-  add(date: Date): void {
+  add(date: Date, range?: TimeRange): Promise<void> | void {
     this.lastDate = date;
+    this.lastRange = range;
     if (this.map.getSource?.(this.id)) return;
 
-    this.map.addSource(this.id, { type: 'geojson', data: this.spec.data });
+    const data = this.load();
+    const cluster = this.clusterOptions();
+    this.map.addSource(this.id, {
+      type: 'geojson',
+      data: data instanceof Promise ? EMPTY_COLLECTION : this.sourceData(date, range),
+      ...(cluster
+        ? {
+            cluster: true,
+            clusterRadius: cluster.radius ?? DEFAULT_CLUSTER.radius,
+            clusterMaxZoom: cluster.maxZoom ?? DEFAULT_CLUSTER.maxZoom,
+          }
+        : {}),
+      // Feature state, which the hover highlight is drawn from, needs ids.
+      ...(inspectOptions(this.spec.inspect) ? { generateId: true } : {}),
+    });
 
-    const geometry = this.spec.geometry ?? 'circle';
-    const { layerType } = GEOMETRY_CONFIG[geometry];
-    const paint = {
-      ...DEFAULT_PAINT[geometry],
-      ...(this.spec.paint?.[geometry] ?? {}),
-      [this.opacityKey]: this.opacity,
-    };
+    // A clustered source holds only the window's features, so its layers need
+    // no time filter, only to tell clusters from the points left over.
+    const filter = cluster ? ['!', IS_CLUSTER] : this.filterFor(date, range);
+    const compiled = this.compileStyle(date, range);
+    // Each is inserted below `beforeId`, so they stack in the order listed.
+    for (const layer of this.sublayers()) {
+      const style = featureLayerStyle(layer.geometry, this.opacity, layer.paint, layer.layout);
+      this.map.addLayer(
+        {
+          id: layer.id,
+          source: this.id,
+          ...style,
+          paint: { ...style.paint, ...this.dynamicPaint(layer, date, compiled) },
+          filter,
+        } as never,
+        this.beforeId
+      );
+    }
+    const highlight = this.highlightLayer();
+    if (highlight) {
+      this.map.addLayer(
+        { id: highlight.id, source: this.id, ...highlight.style, filter } as never,
+        this.beforeId
+      );
+      this.unbindHover = bindHover(this.map, this.inspectedLayers(), { source: this.id });
+    }
+    for (const layer of this.clusterLayers()) {
+      this.map.addLayer(
+        {
+          id: layer.id,
+          source: this.id,
+          ...featureLayerStyle(layer.geometry, this.opacity, layer.paint, layer.layout),
+          filter: IS_CLUSTER,
+        } as never,
+        this.beforeId
+      );
+    }
+    if (cluster) this.map.on('click', `${this.id}-clusters`, this.expandCluster);
 
-    this.map.addLayer(
-      {
-        id: this.id,
-        type: layerType,
-        source: this.id,
-        paint,
-        filter: buildTimeFilter(this.spec.timeProperty, date, this.window, this.cumulative),
-      } as never,
-      this.beforeId
-    );
+    if (data instanceof Promise) {
+      return data.then(() => {
+        (this.map.getSource?.(this.id) as GeoJSONSource | undefined)?.setData(
+          this.sourceData(this.lastDate ?? date, this.lastRange)
+        );
+        // A style whose classes come from the data can only compile now.
+        this.applyPaint();
+      });
+    }
   }
 
-  update(date: Date): void {
+  update(date: Date, range?: TimeRange): void {
     this.lastDate = date;
+    this.lastRange = range;
     if (this.map.getLayer?.(this.id)) {
-      this.map.setFilter(
-        this.id,
-        buildTimeFilter(this.spec.timeProperty, date, this.window, this.cumulative)
-      );
+      if (this.clusterOptions()) {
+        // Re-cluster the new window's features, once there are any to cluster.
+        if (this.loaded) {
+          (this.map.getSource?.(this.id) as GeoJSONSource | undefined)?.setData(
+            this.sourceData(date, range)
+          );
+        }
+      } else {
+        const filter = this.filterFor(date, range);
+        for (const layer of this.sublayers()) this.map.setFilter(layer.id, filter);
+        const highlight = this.highlightLayer();
+        if (highlight && this.map.getLayer?.(highlight.id)) {
+          this.map.setFilter(highlight.id, filter);
+        }
+      }
+      this.applyPaint();
     }
   }
 
   setOpacity(opacity: number): void {
     this.opacity = clamp(opacity, 0, 1);
-    if (this.map.getLayer?.(this.id)) {
-      this.map.setPaintProperty(this.id, this.opacityKey, this.opacity);
+    if (!this.map.getLayer?.(this.id)) return;
+    for (const layer of [...this.sublayers(), ...this.clusterLayers()]) {
+      for (const key of GEOMETRY_CONFIG[layer.geometry].opacityKeys) {
+        this.map.setPaintProperty(layer.id, key, this.opacity);
+      }
+    }
+    // A trail's opacities scale with the layer's.
+    this.applyPaint();
+  }
+
+  /**
+   * Restyles the layer after its `style`, `trail`, or `paint` changed. The
+   * spec has already been patched by the control.
+   */
+  setProperty(patch: Partial<SourceSpec>): void {
+    if ('style' in patch) this.compiledFromData = undefined;
+    if ('style' in patch || 'trail' in patch || 'paint' in patch) this.applyPaint(true);
+  }
+
+  /**
+   * The layers drawing the source, bottom to top: one per sublayer, or just
+   * the spec's `geometry`, then any hover highlight, clusters, and their
+   * counts.
+   */
+  override getLayerIds(): string[] {
+    const highlight = this.highlightLayer();
+    return [
+      ...this.sublayers().map((layer) => layer.id),
+      ...(highlight ? [highlight.id] : []),
+      ...this.clusterLayers().map((layer) => layer.id),
+    ];
+  }
+
+  override remove(): void {
+    this.map.off('click', `${this.id}-clusters`, this.expandCluster);
+    this.unbindHover?.();
+    this.unbindHover = undefined;
+    super.remove();
+  }
+
+  /**
+   * The properties of the topmost feature drawn at the clicked point, through
+   * the spec's `inspect` template. Clusters and heatmaps are not features to
+   * describe, so they are skipped.
+   */
+  inspect(target: InspectTarget): InspectContent | undefined {
+    const options = inspectOptions(this.spec.inspect);
+    const layers = this.inspectedLayers().filter((id) => this.map.getLayer?.(id));
+    if (!options || layers.length === 0) return undefined;
+    const [feature] = this.map.queryRenderedFeatures(target.point, { layers });
+    if (!feature) return undefined;
+    const { timeProperty, startProperty, endProperty } = this.spec;
+    return inspectContent(
+      this.spec.name ?? this.id,
+      formatTimes(feature.properties, [timeProperty, startProperty, endProperty], this.timeZone),
+      options.template
+    );
+  }
+
+  /**
+   * The legend of the spec's `style`, once the data it may be derived from
+   * has loaded.
+   */
+  getLegend(): SourceLegend | undefined | Promise<SourceLegend | undefined> {
+    if (!this.spec.style) return undefined;
+    const legend = (): SourceLegend | undefined =>
+      this.compileStyle(this.lastDate ?? new Date(), this.lastRange)?.legend;
+    const data = this.load();
+    return data instanceof Promise ? data.then(legend) : legend();
+  }
+
+  /**
+   * Timestamps of every feature (the start of an interval), for the axis
+   * histogram, read from the same normalized data the layer draws.
+   */
+  getTimes(): number[] | Promise<number[]> {
+    const timeProperty = this.spec.startProperty ?? this.spec.timeProperty ?? this.spec.endProperty;
+    if (!timeProperty) return [];
+    const data = this.load();
+    return data instanceof Promise
+      ? data.then((collection) => featureTimes(collection, timeProperty))
+      : featureTimes(data, timeProperty);
+  }
+
+  /**
+   * The data with its time properties normalized, read once. Inline data is
+   * ready at once; a URL is fetched through the map's request transform, and a
+   * failed fetch is reported as a source error and counts as no features.
+   */
+  private load(): FeatureCollection | Promise<FeatureCollection> {
+    if (this.collection) return this.collection;
+    const { data, timeProperty, startProperty, endProperty, timeFormat } = this.spec;
+    const properties = [timeProperty, startProperty, endProperty].filter(
+      (property): property is string => !!property
+    );
+    const normalize = (collection: FeatureCollection): FeatureCollection =>
+      normalizeTimes(collection, properties, timeFormat, this.timeZone);
+    if (typeof data !== 'string') {
+      this.loaded = normalize(data);
+      this.collection = this.loaded;
+      return this.loaded;
+    }
+    this.collection = fetchResource(data, 'Source', this.transformRequest)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`GeoJSON request failed: ${data} responded ${response.status}`);
+        }
+        return response.json() as Promise<FeatureCollection>;
+      })
+      .then(normalize)
+      .catch((error: unknown) => {
+        this.onError?.(this.id, error instanceof Error ? error : new Error(String(error)));
+        return EMPTY_COLLECTION;
+      })
+      .then((collection) => (this.loaded = collection));
+    return this.collection;
+  }
+
+  /**
+   * Sets the paint that depends on the date (and on the data), or with `all`
+   * the layer's whole paint, as after the style itself changed.
+   */
+  private applyPaint(all = false): void {
+    if (!this.lastDate || !this.map.getLayer?.(this.id)) return;
+    const compiled = this.compileStyle(this.lastDate, this.lastRange);
+    for (const layer of this.sublayers()) {
+      const dynamic = this.dynamicPaint(layer, this.lastDate, compiled);
+      const paint = all
+        ? { ...featureLayerStyle(layer.geometry, this.opacity, layer.paint).paint, ...dynamic }
+        : dynamic;
+      for (const [key, value] of Object.entries(paint)) {
+        this.map.setPaintProperty(layer.id, key, value);
+      }
+    }
+  }
+
+  /**
+   * The layers the source is drawn with: its `layers`, or one of its
+   * `geometry`. Sublayer paint and layout replace the source's own per
+   * geometry kind.
+   */
+  private sublayers(): Sublayer[] {
+    const { layers, geometry = 'circle', paint, layout } = this.spec;
+    if (!layers?.length) return [{ id: this.id, geometry, paint, layout }];
+    return layers.map((layer, i) => ({
+      id: i === 0 ? this.id : `${this.id}-${i}`,
+      geometry: layer.geometry,
+      paint: { ...paint, ...layer.paint },
+      layout: { ...layout, ...layer.layout },
+    }));
+  }
+
+  /**
+   * Ids of the sublayers whose features can be inspected and highlighted:
+   * all but heatmaps.
+   */
+  private inspectedLayers(): string[] {
+    return this.sublayers()
+      .filter((layer) => layer.geometry !== 'heatmap')
+      .map((layer) => layer.id);
+  }
+
+  /**
+   * The layer outlining the feature under the pointer, above the sublayers,
+   * when the spec inspects with hover on: drawn for the first sublayer that
+   * is not a heatmap.
+   */
+  private highlightLayer(): { id: string; style: object } | undefined {
+    const options = inspectOptions(this.spec.inspect);
+    if (!options || options.hover === false) return undefined;
+    const layer = this.sublayers().find((sublayer) => sublayer.geometry !== 'heatmap');
+    const style = layer && highlightLayerStyle(layer.geometry);
+    return style && { id: `${this.id}-highlight`, style };
+  }
+
+  /**
+   * The spec's clustering options, or undefined when it does not cluster.
+   */
+  private clusterOptions(): GeoJsonCluster | undefined {
+    const { cluster } = this.spec;
+    return cluster === true ? {} : cluster || undefined;
+  }
+
+  /**
+   * The layers drawing clusters and their counts, above the sublayers, when
+   * the spec clusters.
+   */
+  private clusterLayers(): Sublayer[] {
+    const cluster = this.clusterOptions();
+    if (!cluster) return [];
+    return [
+      {
+        id: `${this.id}-clusters`,
+        geometry: 'circle',
+        paint: { circle: { ...CLUSTER_PAINT.circle, ...cluster.paint?.circle } },
+      },
+      {
+        id: `${this.id}-cluster-count`,
+        geometry: 'symbol',
+        paint: { symbol: { ...CLUSTER_PAINT.symbol, ...cluster.paint?.symbol } },
+        layout: { symbol: { 'text-field': ['get', 'point_count_abbreviated'] } },
+      },
+    ];
+  }
+
+  /**
+   * The data to give the source at a date: all of it, or for a clustered
+   * source just the features inside the window, so only those are clustered.
+   *
+   * @param date - The current timeline date
+   * @param range - The selected window, when the timeline is in range mode
+   * @returns The collection to set
+   */
+  private sourceData(date: Date, range?: TimeRange): FeatureCollection {
+    const data = this.loaded ?? EMPTY_COLLECTION;
+    if (!this.clusterOptions()) return data;
+    const span = this.spanFor(date, range);
+    const features = data.features.filter((feature) =>
+      keepsFeature(feature.properties, this.spec, span, this.cumulative)
+    );
+    return { ...data, features };
+  }
+
+  /**
+   * The span the features are filtered to: the selected window in range
+   * mode, else the spec's window around the date.
+   */
+  private spanFor(date: Date, range?: TimeRange): TimeRange {
+    return range ?? windowRange(date, this.window, this.timeZone);
+  }
+
+  /**
+   * A feature's time as an expression: its timestamp, or the end of its
+   * interval (an interval still open counts as current).
+   *
+   * @param now - The current date, in epoch milliseconds
+   */
+  private featureTime(now: number): unknown {
+    const { timeProperty, startProperty, endProperty } = this.spec;
+    const property = endProperty ?? startProperty;
+    if (timeProperty && !property) return ['to-number', ['get', timeProperty]];
+    return property ? ['case', open(property), now, ['to-number', ['get', property]]] : now;
+  }
+
+  /**
+   * The spec's `style` compiled for a date, when it can be and some layer
+   * colours features by it. Only a time style depends on the date; the others
+   * scan the data for their classes once, not on every step.
+   */
+  private compileStyle(date: Date, range?: TimeRange): CompiledStyle | undefined {
+    const { style } = this.spec;
+    if (!style || !this.sublayers().some((layer) => FEATURE_PAINT[layer.geometry].color)) {
+      return undefined;
+    }
+    const compile = (): CompiledStyle | undefined =>
+      compileFeatureStyle(style, {
+        data: this.loaded,
+        time: this.featureTime(date.getTime()),
+        span: this.spanFor(date, range),
+      });
+    if (style.by === 'time') return compile();
+    if (!this.compiledFromData || this.compiledFromData.data !== this.loaded) {
+      this.compiledFromData = { data: this.loaded, compiled: compile() };
+    }
+    return this.compiledFromData.compiled;
+  }
+
+  /**
+   * The paint the style and trail set over a layer's static paint at a date:
+   * the style's colour and size, then the trail's fading of them.
+   *
+   * @param layer - The layer to paint
+   * @param date - The current timeline date
+   * @param compiled - The spec's style, compiled for the date
+   * @returns Paint properties to set
+   */
+  private dynamicPaint(
+    layer: Sublayer,
+    date: Date,
+    compiled?: CompiledStyle
+  ): Record<string, unknown> {
+    const keys = FEATURE_PAINT[layer.geometry];
+    const paint: Record<string, unknown> = {};
+    if (compiled && keys.color) {
+      paint[keys.color] = compiled.color;
+      if (compiled.size !== undefined && keys.size) paint[keys.size] = compiled.size;
+    }
+    return { ...paint, ...this.trailPaint(layer, date, paint) };
+  }
+
+  /**
+   * The paint that fades features with their age at a date, per the spec's
+   * `trail`: each driven property interpolates, by the feature's time, from
+   * its full value at the date to its trail-end value `duration` earlier.
+   *
+   * @param layer - The layer to paint
+   * @param date - The current timeline date
+   * @param styled - Colour and size the style sets, which the trail fades from
+   * @returns Paint properties to set, or none without a trail
+   */
+  private trailPaint(
+    layer: Sublayer,
+    date: Date,
+    styled: Record<string, unknown>
+  ): Record<string, unknown> {
+    const { trail } = this.spec;
+    if (!trail) return {};
+    const now = date.getTime();
+    const start = addUnits(
+      date,
+      trail.unit ?? this.window.unit,
+      -trail.duration,
+      this.timeZone
+    ).getTime();
+    if (!(start < now)) return {};
+
+    const time = this.featureTime(now);
+    const fade = (fresh: unknown, old: unknown): unknown[] => [
+      'interpolate',
+      ['linear'],
+      time,
+      start,
+      old,
+      now,
+      fresh,
+    ];
+
+    const keys = FEATURE_PAINT[layer.geometry];
+    const base = {
+      ...featureLayerStyle(layer.geometry, this.opacity, layer.paint).paint,
+      ...styled,
+    };
+    const paint: Record<string, unknown> = {};
+    for (const key of keys.opacity) {
+      paint[key] = fade(this.opacity, this.opacity * (trail.fadeTo ?? 0));
+    }
+    if (keys.weight) {
+      const weight = fade(1, trail.fadeTo ?? 0);
+      paint[keys.weight] =
+        base[keys.weight] === undefined ? weight : ['*', base[keys.weight], weight];
+    }
+    if (trail.sizeTo !== undefined && keys.size && base[keys.size] !== undefined) {
+      paint[keys.size] = fade(base[keys.size], trail.sizeTo);
+    }
+    if (trail.colorTo && keys.color && base[keys.color] !== undefined) {
+      paint[keys.color] = fade(['to-color', base[keys.color]], ['to-color', trail.colorTo]);
+    }
+    return paint;
+  }
+
+  /**
+   * The layer filter for a date, or for the selected window in range mode.
+   *
+   * @param date - The current timeline date
+   * @param range - The selected window, when the timeline is in range mode
+   * @returns A MapLibre filter expression
+   */
+  private filterFor(date: Date, range?: TimeRange): FilterSpecification {
+    const { timeProperty, startProperty, endProperty } = this.spec;
+    const span = this.spanFor(date, range);
+    if (timeProperty && !startProperty && !endProperty) {
+      return buildRangeFilter(timeProperty, span, this.cumulative);
     }
+    return buildIntervalFilter(startProperty, endProperty, span, this.cumulative);
   }
 }
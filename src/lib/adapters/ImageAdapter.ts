@@ -0,0 +1,174 @@
+import type { ImageSource } from 'maplibre-gl';
+import type { ImageCoordinates, ImageSourceSpec } from '../core/types';
+import { resolveUrl } from '../template/urlTemplate';
+import { clamp } from '../utils/helpers';
+import { fetchResource } from '../utils/request';
+import { BaseAdapter } from './BaseAdapter';
+import type { AdapterContext } from './types';
+
+/**
+ * Frees a frame's object URL, if it loaded.
+ *
+ * @param frame - The settled frame
+ */
+function release(frame: string | Error | undefined): void {
+  if (typeof frame === 'string') URL.revokeObjectURL(frame);
+}
+
+/**
+ * Draws one georeferenced image per date through a MapLibre `image` source,
+ * swapping it with `updateImage` as the date changes. Images are fetched into
+ * memory (as object URLs) for the current date and the
+ * {@link ImageSourceSpec.preload} steps around it, so playback flips between
+ * frames already loaded; frames that fall out of that window are released.
+ * Images are requested through the map's request transform. A date whose image
+ * is missing (404) shows nothing and reports "no data"; any other failure
+ * shows nothing and is reported as a source error.
+ */
+export class ImageAdapter extends BaseAdapter {
+  readonly spec: ImageSourceSpec;
+  private readonly getAdjacentDates?: AdapterContext['getAdjacentDates'];
+  /** Frames in memory by image URL: an object URL, undefined for a missing
+   * image, or the error a failed fetch met. */
+  private readonly frames = new Map<string, Promise<string | Error | undefined>>();
+  private requestSeq = 0;
+  /** Set by remove(); guards async render() continuations. */
+  private removed = false;
+  /** Whether the user hid the layer (see setVisible). */
+  private hidden = false;
+
+  /**
+   * @param spec - The image source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: ImageSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.getAdjacentDates = ctx.getAdjacentDates;
+  }
+
+  /**
+   * Fetches an image into memory, once.
+   *
+   * @returns An object URL for the image, undefined when the server has no
+   *   image there (404), or the error the fetch failed with
+   */
+  private loadFrame(url: string): Promise<string | Error | undefined> {
+    let frame = this.frames.get(url);
+    if (!frame) {
+      frame = fetchResource(url, 'Image', this.transformRequest)
+        .then(async (response) => {
+          if (response.status === 404) return undefined;
+          if (!response.ok)
+            throw new Error(`Image request failed: ${url} responded ${response.status}`);
+          return URL.createObjectURL(await response.blob());
+        })
+        .catch((error: unknown) => (error instanceof Error ? error : new Error(String(error))));
+      this.frames.set(url, frame);
+    }
+    return frame;
+  }
+
+  /**
+   * Loads the images of a date and its adjacent steps, releasing every other
+   * frame held.
+   *
+   * @returns The date's own image URL
+   */
+  private async preload(date: Date): Promise<string> {
+    const around = this.getAdjacentDates?.(date, this.spec.preload ?? 2) ?? [];
+    const urls = await Promise.all(
+      [date, ...around].map((d) => resolveUrl(this.spec.url, d, this.timeZone))
+    );
+    const keep = new Set(urls);
+    for (const [url, frame] of this.frames) {
+      if (keep.has(url)) continue;
+      this.frames.delete(url);
+      void frame.then(release);
+    }
+    urls.forEach((url) => void this.loadFrame(url));
+    return urls[0];
+  }
+
+  /**
+   * Shows an image: updates the image source in place, or adds the source and
+   * its layer.
+   */
+  private applyImage(url: string, coordinates: ImageCoordinates): void {
+    const source = this.map.getSource?.(this.id) as ImageSource | undefined;
+    if (source) {
+      source.updateImage({ url, coordinates });
+      return;
+    }
+    this.map.addSource(this.id, { type: 'image', url, coordinates });
+    this.map.addLayer(
+      {
+        id: this.id,
+        type: 'raster',
+        source: this.id,
+        paint: { 'raster-opacity': this.opacity },
+        ...(this.hidden ? { layout: { visibility: 'none' as const } } : {}),
+      },
+      this.beforeId
+    );
+  }
+
+  /**
+   * Shows a date's image, ignoring the result if a newer render started
+   * meanwhile.
+   */
+  private async render(date: Date): Promise<void> {
+    this.lastDate = date;
+    const seq = ++this.requestSeq;
+    const { coordinates } = this.spec;
+    const [url, corners] = await Promise.all([
+      this.preload(date),
+      typeof coordinates === 'function' ? coordinates(date) : coordinates,
+    ]);
+    const frame = await this.loadFrame(url);
+    if (this.removed || seq !== this.requestSeq) return;
+    if (typeof frame !== 'string') {
+      // Clear the previous frame rather than leave it standing for this date.
+      super.remove();
+      if (frame === undefined) {
+        this.onDataStatus?.(this.id, false);
+      } else {
+        // Forget the failure, so the date is fetched again when next shown.
+        this.frames.delete(url);
+        this.onError?.(this.id, frame);
+      }
+      return;
+    }
+    this.applyImage(frame, corners);
+    this.onDataStatus?.(this.id, true);
+  }
+
+  add(date: Date): Promise<void> {
+    return this.render(date);
+  }
+
+  update(date: Date): Promise<void> {
+    return this.render(date);
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = clamp(opacity, 0, 1);
+    if (this.map.getLayer?.(this.id)) {
+      this.map.setPaintProperty(this.id, 'raster-opacity', this.opacity);
+    }
+  }
+
+  override setVisible(visible: boolean): void {
+    this.hidden = !visible;
+    super.setVisible(visible);
+  }
+
+  remove(): void {
+    // Invalidate any in-flight render so it cannot re-add the layer.
+    this.removed = true;
+    this.requestSeq++;
+    super.remove();
+    for (const frame of this.frames.values()) void frame.then(release);
+    this.frames.clear();
+  }
+}
@@ -250,7 +250,7 @@ export class MosaicAdapter extends BaseAdapter {
       this.mercatorEnsured = true;
       this.ensureMercator();
     }
-    const url = await resolveUrl(this.spec.url, date);
+    const url = await resolveUrl(this.spec.url, date, this.timeZone);
     if (this.removed || url === this.currentUrl) return;
     const seq = ++this.requestSeq;
 
@@ -0,0 +1,284 @@
+import type { CogSourceSpec, SourceSpec, StacSourceSpec } from '../core/types';
+import { intersectBounds, tileUrl, tilesInBounds, tileZoom } from '../prefetch/tiles';
+import { floorToGranularity } from '../time/granularity';
+import { clamp } from '../utils/helpers';
+import { searchStac, stacItemTime, type StacItem } from '../utils/stac';
+import { buildTiTilerTileUrl } from '../utils/titiler';
+import { BaseAdapter } from './BaseAdapter';
+import { CogAdapter } from './CogAdapter';
+import type { AdapterContext } from './types';
+
+/** Spec fields that change which items the search returns. */
+const SEARCH_FIELDS = ['url', 'collection', 'asset', 'bbox', 'datetime', 'search', 'maxItems'];
+
+/**
+ * Runs a STAC API search when added, reports the items' dates to the control,
+ * and draws the items of the current date as COG layers through TiTiler, one
+ * {@link CogAdapter} per item. The first item's layer takes the source id, so
+ * the source behaves like any single-layer source; further items of the same
+ * date get `<id>-1`, `<id>-2`, ….
+ */
+export class StacAdapter extends BaseAdapter {
+  readonly spec: StacSourceSpec;
+  private readonly ctx: AdapterContext;
+  /** Items found by the last search, oldest first. */
+  private items: StacItem[] = [];
+  /** The search in flight or last finished; renders wait on it. */
+  private searched?: Promise<void>;
+  private searchSeq = 0;
+  /** One COG layer per item of the rendered date. */
+  private children: CogAdapter[] = [];
+  /** Ids of the items the children draw, to skip rebuilding for the same set. */
+  private shown = '';
+  private hidden = false;
+  private removed = false;
+
+  /**
+   * @param spec - The STAC source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: StacSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.ctx = { ...ctx, beforeId: this.beforeId };
+  }
+
+  async add(date: Date): Promise<void> {
+    this.lastDate = date;
+    this.searched = this.search();
+    await this.searched;
+    if (this.lastDate) await this.render(this.lastDate);
+  }
+
+  async update(date: Date): Promise<void> {
+    this.lastDate = date;
+    if (!this.searched) {
+      await this.add(date);
+      return;
+    }
+    // A search still running renders its result itself once it finishes.
+    await this.searched;
+    if (this.lastDate === date) await this.render(date);
+  }
+
+  /**
+   * Searches the API and hands the items' dates to the control. A failed
+   * search leaves the source empty and reports "no data".
+   */
+  private async search(): Promise<void> {
+    const seq = ++this.searchSeq;
+    const { url, collection, bbox, datetime, search, maxItems = 500 } = this.spec;
+    let items: StacItem[];
+    try {
+      items = await searchStac(
+        url,
+        {
+          ...search,
+          collections: Array.isArray(collection) ? collection : [collection],
+          bbox: bbox ?? this.viewport(),
+          datetime: datetime ?? this.timelineInterval(),
+        },
+        { maxItems }
+      );
+    } catch {
+      items = [];
+    }
+    if (this.removed || seq !== this.searchSeq) return;
+    this.items = items
+      .filter((item) => item.assets[this.spec.asset] && !Number.isNaN(stacItemTime(item)))
+      .sort((a, b) => stacItemTime(a) - stacItemTime(b));
+    this.shown = '';
+    if (this.items.length > 0) {
+      this.ctx.onDates?.(
+        this.id,
+        this.items.map((item) => new Date(stacItemTime(item)))
+      );
+    }
+  }
+
+  /**
+   * The map viewport as a search bbox, clamped to valid coordinates: a zoomed
+   * out map reports longitudes past ±180, which STAC APIs reject.
+   */
+  private viewport(): [number, number, number, number] {
+    const [[west, south], [east, north]] = this.map.getBounds().toArray();
+    return [
+      clamp(west, -180, 180),
+      clamp(south, -90, 90),
+      clamp(east, -180, 180),
+      clamp(north, -90, 90),
+    ];
+  }
+
+  /**
+   * The timeline's span as an RFC 3339 interval, or undefined (search all
+   * time) when the control does not expose it.
+   */
+  private timelineInterval(): string | undefined {
+    const range = this.ctx.getTimelineRange?.();
+    return range ? `${range.start.toISOString()}/${range.end.toISOString()}` : undefined;
+  }
+
+  /**
+   * The items falling in the same {@link StacSourceSpec.groupBy} unit as a date.
+   *
+   * @param date - A timeline date
+   */
+  private itemsFor(date: Date): StacItem[] {
+    const unit = this.spec.groupBy ?? 'day';
+    const key = floorToGranularity(date, unit, this.timeZone).getTime();
+    return this.items.filter(
+      (item) =>
+        floorToGranularity(new Date(stacItemTime(item)), unit, this.timeZone).getTime() === key
+    );
+  }
+
+  /**
+   * Draws the current date's items, replacing the layers of the previous date.
+   * A date with no items clears the map and reports "no data".
+   *
+   * @param date - The timeline date
+   */
+  private async render(date: Date): Promise<void> {
+    if (this.removed) return;
+    const items = this.itemsFor(date);
+    const key = items.map((item) => item.id).join('\n');
+    if (key === this.shown && this.children.length > 0) return;
+    this.shown = key;
+    this.clearChildren();
+    if (items.length === 0) {
+      this.onDataStatus?.(this.id, false);
+      return;
+    }
+    this.children = items.map((item, i) => this.createChild(item, i));
+    await Promise.all(
+      this.children.map(async (child) => {
+        await child.add(date);
+        if (this.hidden) child.setVisible(false);
+      })
+    );
+  }
+
+  /**
+   * Builds the COG layer for one item. Layers stack in item order, so the
+   * latest item of the date draws on top.
+   *
+   * @param item - The STAC item
+   * @param index - The item's position among the date's items
+   */
+  private createChild(item: StacItem, index: number): CogAdapter {
+    const id = index === 0 ? this.id : `${this.id}-${index}`;
+    const spec: CogSourceSpec = {
+      type: 'cog',
+      id,
+      url: item.assets[this.spec.asset].href,
+      opacity: this.opacity,
+      beforeId: this.beforeId,
+      bounds: this.itemBounds(item),
+      endpoint: this.spec.endpoint,
+      colormap: this.spec.colormap,
+      rescale: this.spec.rescale,
+      bidx: this.spec.bidx,
+      nodata: this.spec.nodata,
+      tileSize: this.spec.tileSize,
+    };
+    // Children report availability under the source id, which the control knows.
+    return new CogAdapter(spec, {
+      ...this.ctx,
+      onDataStatus: (_id, available) => this.onDataStatus?.(this.id, available),
+    });
+  }
+
+  /**
+   * An item's footprint, for limiting tile requests to it. A bbox crossing
+   * the antimeridian (west > east) cannot be passed to MapLibre, so it is
+   * dropped.
+   *
+   * @param item - The STAC item
+   */
+  private itemBounds(item: StacItem): [number, number, number, number] | undefined {
+    const b = item.bbox;
+    if (!b || (b.length !== 4 && b.length !== 6)) return undefined;
+    // A 3D bbox is [west, south, minZ, east, north, maxZ].
+    const [west, south, east, north] = b.length === 6 ? [b[0], b[1], b[3], b[4]] : b;
+    return west < east ? [west, south, east, north] : undefined;
+  }
+
+  private clearChildren(): void {
+    for (const child of this.children) child.remove();
+    this.children = [];
+  }
+
+  /**
+   * The TiTiler tile URLs covering the viewport for a date's items.
+   *
+   * @param date - An upcoming timeline date
+   * @returns The tile URLs, nearest the view center first
+   */
+  async prefetchUrls(date: Date): Promise<string[]> {
+    await this.searched;
+    const view = this.map.getBounds().toArray();
+    const z = tileZoom(this.map.getZoom(), this.spec.tileSize ?? 256);
+    return this.itemsFor(date).flatMap((item) => {
+      const box = intersectBounds(
+        [view[0][0], view[0][1], view[1][0], view[1][1]],
+        this.itemBounds(item) ?? [-Infinity, -90, Infinity, 90]
+      );
+      if (!box) return [];
+      const template = buildTiTilerTileUrl({
+        url: item.assets[this.spec.asset].href,
+        endpoint: this.spec.endpoint,
+        colormap: this.spec.colormap,
+        rescale: this.spec.rescale,
+        bidx: this.spec.bidx,
+        nodata: this.spec.nodata,
+      });
+      return tilesInBounds(box, z).map((tile) => tileUrl(template, tile));
+    });
+  }
+
+  /**
+   * Timestamps of the items found, for the axis histogram.
+   */
+  getTimes(): number[] {
+    return this.items.map(stacItemTime);
+  }
+
+  /**
+   * Updates the search or rendering fields. A change to a search field reruns
+   * the search, a new `groupBy` redraws the current date, and symbology changes
+   * restyle the current items in place.
+   *
+   * @param patch - Partial STAC spec fields to merge
+   */
+  async setProperty(patch: Partial<SourceSpec>): Promise<void> {
+    Object.assign(this.spec, patch);
+    if (SEARCH_FIELDS.some((field) => field in patch)) {
+      this.searched = this.search();
+      await this.searched;
+      if (this.lastDate) await this.render(this.lastDate);
+      return;
+    }
+    if ('groupBy' in patch) {
+      if (this.lastDate) await this.render(this.lastDate);
+      return;
+    }
+    await Promise.all(this.children.map((child) => child.setProperty(patch)));
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = clamp(opacity, 0, 1);
+    for (const child of this.children) child.setOpacity(this.opacity);
+  }
+
+  override setVisible(visible: boolean): void {
+    this.hidden = !visible;
+    for (const child of this.children) child.setVisible(visible);
+  }
+
+  remove(): void {
+    this.removed = true;
+    this.searchSeq++;
+    this.clearChildren();
+  }
+}
@@ -0,0 +1,163 @@
+import type { FilterSpecification } from 'maplibre-gl';
+import type { GeoJsonTimeWindow, TimeRange, VectorSourceSpec } from '../core/types';
+import { clamp } from '../utils/helpers';
+import { BaseAdapter } from './BaseAdapter';
+import { DEFAULT_WINDOW, GEOMETRY_CONFIG, featureLayerStyle } from './featureLayers';
+import { buildRangeFilter, buildTimeFilter } from './GeoJsonAdapter';
+import {
+  bindHover,
+  formatTimes,
+  highlightLayerStyle,
+  inspectContent,
+  inspectOptions,
+} from './inspect';
+import type { AdapterContext, InspectContent, InspectTarget } from './types';
+
+/**
+ * Renders one layer of a vector tile source (MVT or PMTiles) and filters its
+ * features by a time property as the timeline advances, exactly as the GeoJSON
+ * adapter does. Only the layer filter changes on update; MapLibre re-filters
+ * the tiles it already holds.
+ */
+export class VectorAdapter extends BaseAdapter {
+  readonly spec: VectorSourceSpec;
+  private window: GeoJsonTimeWindow;
+  private cumulative: boolean;
+  private opacityKeys: string[];
+  /** Clears the hover highlight and unbinds its listeners, while bound. */
+  private unbindHover?: () => void;
+
+  /**
+   * @param spec - The vector source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: VectorSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.window = spec.window ?? DEFAULT_WINDOW;
+    this.cumulative = spec.cumulative ?? false;
+    this.opacityKeys = GEOMETRY_CONFIG[spec.geometry ?? 'circle'].opacityKeys;
+  }
+
+  add(date: Date, range?: TimeRange): void {
+    this.lastDate = date;
+    if (this.map.getSource?.(this.id)) return;
+
+    const { url, minzoom, maxzoom, attribution } = this.spec;
+    // A URL with tile placeholders is a template; anything else (a TileJSON
+    // document or a pmtiles:// archive) describes the tiles itself.
+    this.map.addSource(this.id, {
+      type: 'vector',
+      ...(url.includes('{z}')
+        ? { tiles: [url], minzoom: minzoom ?? 0, maxzoom: maxzoom ?? 14 }
+        : { url }),
+      ...(attribution ? { attribution } : {}),
+    });
+
+    this.map.addLayer(
+      {
+        id: this.id,
+        source: this.id,
+        'source-layer': this.spec.sourceLayer,
+        ...featureLayerStyle(
+          this.spec.geometry ?? 'circle',
+          this.opacity,
+          this.spec.paint,
+          this.spec.layout
+        ),
+        filter: this.filterFor(date, range),
+      } as never,
+      this.beforeId
+    );
+
+    const highlight = this.highlightStyle();
+    if (highlight) {
+      this.map.addLayer(
+        {
+          id: `${this.id}-highlight`,
+          source: this.id,
+          'source-layer': this.spec.sourceLayer,
+          ...highlight,
+          filter: this.filterFor(date, range),
+        } as never,
+        this.beforeId
+      );
+      this.unbindHover = bindHover(this.map, [this.id], {
+        source: this.id,
+        sourceLayer: this.spec.sourceLayer,
+      });
+    }
+  }
+
+  update(date: Date, range?: TimeRange): void {
+    this.lastDate = date;
+    const filter = this.filterFor(date, range);
+    for (const id of this.getLayerIds()) {
+      if (this.map.getLayer?.(id)) this.map.setFilter(id, filter);
+    }
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = clamp(opacity, 0, 1);
+    if (this.map.getLayer?.(this.id)) {
+      for (const key of this.opacityKeys) this.map.setPaintProperty(this.id, key, this.opacity);
+    }
+  }
+
+  /**
+   * The layer, then the hover highlight above it when the spec inspects.
+   */
+  override getLayerIds(): string[] {
+    return this.highlightStyle() ? [this.id, `${this.id}-highlight`] : [this.id];
+  }
+
+  override remove(): void {
+    this.unbindHover?.();
+    this.unbindHover = undefined;
+    super.remove();
+  }
+
+  /**
+   * The properties of the feature drawn at the clicked point, through the
+   * spec's `inspect` template.
+   */
+  inspect(target: InspectTarget): InspectContent | undefined {
+    const options = inspectOptions(this.spec.inspect);
+    if (!options || !this.map.getLayer?.(this.id)) return undefined;
+    const [feature] = this.map.queryRenderedFeatures(target.point, { layers: [this.id] });
+    if (!feature) return undefined;
+    return inspectContent(
+      this.spec.name ?? this.id,
+      formatTimes(feature.properties, [this.spec.timeProperty], this.timeZone),
+      options.template
+    );
+  }
+
+  /**
+   * The style of the layer outlining the feature under the pointer, when the
+   * spec inspects with hover on.
+   */
+  private highlightStyle(): ReturnType<typeof highlightLayerStyle> {
+    const options = inspectOptions(this.spec.inspect);
+    if (!options || options.hover === false) return undefined;
+    return highlightLayerStyle(this.spec.geometry ?? 'circle');
+  }
+
+  /**
+   * The layer filter for a date, or for the selected window in range mode.
+   *
+   * @param date - The current timeline date
+   * @param range - The selected window, when the timeline is in range mode
+   * @returns A MapLibre filter expression
+   */
+  private filterFor(date: Date, range?: TimeRange): FilterSpecification {
+    if (range) return buildRangeFilter(this.spec.timeProperty, range, this.cumulative);
+    return buildTimeFilter(
+      this.spec.timeProperty,
+      date,
+      this.window,
+      this.cumulative,
+      this.timeZone
+    );
+  }
+}
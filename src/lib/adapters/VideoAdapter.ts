@@ -0,0 +1,163 @@
+import type { MapSourceDataEvent, VideoSource } from 'maplibre-gl';
+import type { VideoSourceSpec } from '../core/types';
+import { toDate } from '../time/granularity';
+import { unitsBetween } from '../time/timeline';
+import { clamp } from '../utils/helpers';
+import { BaseAdapter } from './BaseAdapter';
+import type { AdapterContext } from './types';
+
+/**
+ * Drives a MapLibre `video` source from the timeline. The video stays paused:
+ * each date seeks it to the middle of that date's frame (clear of the frame
+ * boundaries, which browsers round inconsistently), and the update resolves
+ * once the frame is showing, so wait-for-render playback and animation export
+ * stay in lockstep with the other layers. Dates before the first frame or past
+ * the last show nothing.
+ */
+export class VideoAdapter extends BaseAdapter {
+  readonly spec: VideoSourceSpec;
+  /** The source's video element, once MapLibre has created it. */
+  private video?: HTMLVideoElement;
+  /** The current date's frame, or undefined when the date has none. */
+  private frame?: number;
+  /** Whether the layer shows a frame (rather than being faded out for no data). */
+  private showing = false;
+  /** Seeks to the current frame as soon as MapLibre has created the video. */
+  private readonly onSourceData = (event: MapSourceDataEvent): void => {
+    if (event.sourceId === this.id && !this.video && this.attach()) void this.seek();
+  };
+  /** Undoes any `play()` on the video, MapLibre's own included. */
+  private readonly onPlay = (): void => {
+    this.video?.pause();
+  };
+
+  /**
+   * @param spec - The video source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: VideoSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+  }
+
+  /**
+   * The frame showing at a date: the latest listed frame at or before it, or
+   * the frame its step count from the start reaches.
+   *
+   * @returns The frame number, or undefined before the first frame
+   */
+  private frameAt(date: Date): number | undefined {
+    const t = date.getTime();
+    const { frameDates, start } = this.spec;
+    if (frameDates) {
+      let frame: number | undefined;
+      frameDates.forEach((d, i) => {
+        if (toDate(d).getTime() <= t) frame = i;
+      });
+      return frame;
+    }
+    if (start === undefined) return undefined;
+    const steps =
+      unitsBetween(toDate(start), date, this.spec.unit ?? 'day', this.timeZone) /
+      (this.spec.interval ?? 1);
+    // Rounding absorbs calendar units of uneven length (a 31-day month).
+    const frame = Math.round(steps * (this.spec.framesPerStep ?? 1));
+    return frame >= 0 ? frame : undefined;
+  }
+
+  /**
+   * Takes hold of the source's video element once MapLibre has loaded it.
+   * MapLibre starts a video source playing (and looping) as soon as it loads;
+   * here it is stopped, and kept stopped, so only the timeline moves it.
+   */
+  private attach(): HTMLVideoElement | undefined {
+    if (this.video) return this.video;
+    const source = this.map.getSource?.(this.id) as VideoSource | undefined;
+    const video = source?.getVideo?.();
+    if (!video) return undefined;
+    video.loop = false;
+    video.pause();
+    video.addEventListener('play', this.onPlay);
+    this.video = video;
+    return video;
+  }
+
+  /**
+   * Shows the current date's frame, or hides the layer when the date has
+   * none.
+   *
+   * @returns Resolves once the video has seeked to the frame
+   */
+  private seek(): Promise<void> {
+    const video = this.attach();
+    const frames =
+      video && Number.isFinite(video.duration)
+        ? Math.floor(video.duration * this.spec.frameRate)
+        : Infinity;
+    const frame = this.frame !== undefined && this.frame < frames ? this.frame : undefined;
+    this.showing = frame !== undefined;
+    if (this.map.getLayer?.(this.id)) {
+      this.map.setPaintProperty(this.id, 'raster-opacity', frame === undefined ? 0 : this.opacity);
+    }
+    this.onDataStatus?.(this.id, frame !== undefined);
+    if (!video || frame === undefined) return Promise.resolve();
+
+    const time = (frame + 0.5) / this.spec.frameRate;
+    if (Math.abs(video.currentTime - time) < 0.5 / this.spec.frameRate) return Promise.resolve();
+    return new Promise((resolve) => {
+      const done = (): void => {
+        video.removeEventListener('seeked', done);
+        video.removeEventListener('error', done);
+        // A paused video source only redraws when asked.
+        this.map.triggerRepaint();
+        resolve();
+      };
+      video.addEventListener('seeked', done);
+      video.addEventListener('error', done);
+      video.currentTime = time;
+    });
+  }
+
+  add(date: Date): Promise<void> {
+    if (!this.map.getSource?.(this.id)) {
+      this.map.addSource(this.id, {
+        type: 'video',
+        urls: this.spec.urls,
+        coordinates: this.spec.coordinates,
+      });
+      this.map.addLayer(
+        { id: this.id, type: 'raster', source: this.id, paint: { 'raster-opacity': this.opacity } },
+        this.beforeId
+      );
+      this.map.on('sourcedata', this.onSourceData);
+    }
+    return this.update(date);
+  }
+
+  update(date: Date): Promise<void> {
+    this.lastDate = date;
+    this.frame = this.frameAt(date);
+    return this.seek();
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = clamp(opacity, 0, 1);
+    if (this.showing && this.map.getLayer?.(this.id)) {
+      this.map.setPaintProperty(this.id, 'raster-opacity', this.opacity);
+    }
+  }
+
+  /**
+   * The dates of the listed frames, for the axis histogram.
+   */
+  getTimes(): number[] {
+    return (this.spec.frameDates ?? []).map((d) => toDate(d).getTime());
+  }
+
+  remove(): void {
+    this.map.off('sourcedata', this.onSourceData);
+    this.video?.removeEventListener('play', this.onPlay);
+    this.video = undefined;
+    super.remove();
+  }
+}
@@ -23,7 +23,7 @@ export class WmsAdapter extends RasterAdapter {
   }
 
   protected resolveTiles(date: Date): string {
-    const time = formatDate(date, this.spec.timeFormat ?? 'YYYY-MM-DD');
+    const time = formatDate(date, this.spec.timeFormat ?? 'YYYY-MM-DD', this.timeZone);
     const sep = this.spec.baseUrl.includes('?') ? '&' : '?';
     const params: string[] = [];
     if (this.spec.layers) {
@@ -0,0 +1,110 @@
+import type { WmtsSourceSpec } from '../core/types';
+import { formatDate } from '../template/dateFormat';
+import {
+  discoverWmts,
+  wmtsTileTemplate,
+  type WmtsCapabilities,
+  type WmtsLayerInfo,
+  type WmtsTileTemplate,
+} from '../utils/wmts';
+import { RasterAdapter } from './BaseAdapter';
+import type { AdapterContext } from './types';
+
+/**
+ * Capabilities documents by URL, shared by every WMTS source. A service like
+ * NASA GIBS answers with several megabytes describing hundreds of layers, so
+ * sources drawing different layers of one service (or re-created by
+ * `setConfig`) read it once. A failed request is dropped so a later add retries.
+ */
+const capabilitiesCache = new Map<string, Promise<WmtsCapabilities>>();
+
+function loadCapabilities(url: string): Promise<WmtsCapabilities> {
+  let loading = capabilitiesCache.get(url);
+  if (!loading) {
+    loading = discoverWmts(url);
+    capabilitiesCache.set(url, loading);
+    loading.catch(() => capabilitiesCache.delete(url));
+  }
+  return loading;
+}
+
+/**
+ * Renders a WMTS layer described by the service's GetCapabilities document.
+ * The document is read once, on the first render; after that each date only
+ * fills the time dimension of the layer's tile template. With
+ * {@link WmtsSourceSpec.syncDates} the layer's advertised times become the
+ * timeline's dates.
+ */
+export class WmtsAdapter extends RasterAdapter {
+  readonly spec: WmtsSourceSpec;
+  private readonly onDates?: AdapterContext['onDates'];
+  /** The layer and its tile template, or undefined when they cannot be read. */
+  private loaded?: Promise<{ layer: WmtsLayerInfo; tiles: WmtsTileTemplate } | undefined>;
+
+  /**
+   * @param spec - The WMTS source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: WmtsSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.onDates = ctx.onDates;
+    this.attribution = spec.attribution;
+    this.bounds = spec.bounds;
+  }
+
+  /**
+   * Reads the capabilities and resolves the layer's tile template, once. The
+   * tile size, zoom range and (unless the spec sets them) bounds come from the
+   * document.
+   */
+  private load(): Promise<{ layer: WmtsLayerInfo; tiles: WmtsTileTemplate } | undefined> {
+    this.loaded ??= loadCapabilities(this.spec.url)
+      .then((capabilities) => {
+        const layer = capabilities.layers.find((l) => l.identifier === this.spec.layer);
+        if (!layer) throw new Error(`WMTS layer not found: ${this.spec.layer}`);
+        const tiles = wmtsTileTemplate(capabilities, layer, this.spec);
+        this.tileSize = tiles.tileSize;
+        this.minzoom = tiles.minzoom;
+        this.maxzoom = tiles.maxzoom;
+        this.bounds ??= layer.bounds;
+        if (this.spec.syncDates && layer.dates.length > 0) this.onDates?.(this.id, layer.dates);
+        return { layer, tiles };
+      })
+      // Reported as "no data" on every date; see probeAvailability.
+      .catch(() => undefined);
+    return this.loaded;
+  }
+
+  /**
+   * A source whose capabilities cannot be read, or that names a layer the
+   * service lacks, has no data on any date.
+   */
+  protected override async probeAvailability(): Promise<boolean> {
+    return (await this.load()) !== undefined;
+  }
+
+  protected async resolveTiles(date: Date): Promise<string> {
+    const loaded = await this.load();
+    if (!loaded) throw new Error(`WMTS source ${this.id} has no tiles.`);
+    const { layer, tiles } = loaded;
+    if (!tiles.timeDimension) return tiles.template;
+    const { timeFormat } = this.spec;
+    // The capabilities name their times in UTC, so the default formats do too;
+    // a user's own format follows the timeline zone like other URL dates.
+    const time = encodeURIComponent(
+      timeFormat
+        ? formatDate(date, timeFormat, this.timeZone)
+        : formatDate(date, layer.hasTimeOfDay ? 'YYYY-MM-DDTHH:mm:ss[Z]' : 'YYYY-MM-DD')
+    );
+    return tiles.template.replace(new RegExp(`\\{${tiles.timeDimension}\\}`, 'gi'), () => time);
+  }
+
+  /**
+   * The layer's advertised times, for the axis histogram.
+   */
+  async getTimes(): Promise<number[]> {
+    const loaded = await this.load();
+    return loaded ? loaded.layer.dates.map((date) => date.getTime()) : [];
+  }
+}
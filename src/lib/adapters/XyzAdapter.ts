@@ -23,6 +23,6 @@ export class XyzAdapter extends RasterAdapter {
   }
 
   protected resolveTiles(date: Date): string | Promise<string> {
-    return resolveUrl(this.spec.tiles, date);
+    return resolveUrl(this.spec.tiles, date, this.timeZone);
   }
 }
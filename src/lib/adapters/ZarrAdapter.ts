@@ -0,0 +1,334 @@
+import type { ImageSource } from 'maplibre-gl';
+import type { ZarrSourceSpec } from '../core/types';
+import { cfTimesToDates } from '../time/cfTime';
+import { colorizeGrid, valueRange } from '../utils/colormap';
+import { clamp } from '../utils/helpers';
+import { openZarrArray, readZarrRegion, type ZarrArray, type ZarrRegion } from '../utils/zarr';
+import { BaseAdapter } from './BaseAdapter';
+import type { AdapterContext } from './types';
+
+/** The latitude Web Mercator stops at. */
+const MAX_MERCATOR_LAT = 85.0511;
+
+/**
+ * A variable opened with the coordinates the adapter draws it on.
+ */
+interface ZarrCube {
+  array: ZarrArray;
+  dates: Date[];
+  lats: Float64Array;
+  lons: Float64Array;
+  /** Positions of the time, latitude and longitude dimensions in the array. */
+  timeDim: number;
+  latDim: number;
+  lonDim: number;
+}
+
+/**
+ * Finds a dimension by its spec'd name or one of the conventional ones.
+ *
+ * @returns Its position, or -1 when the array has none of the names
+ */
+function findDimension(array: ZarrArray, names: string[]): number {
+  return array.dimensions.findIndex((dim) => names.includes(dim));
+}
+
+/**
+ * Converts a latitude to Web Mercator y, in radians of arc.
+ */
+function mercatorY(lat: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+}
+
+/**
+ * Draws a Zarr time cube client-side: the variable is opened once, on the
+ * first render, and its time coordinate hands the timeline its dates. Each
+ * date reads the chunks of the nearest time slice, colors them and shows the
+ * result through a MapLibre image source stretched over the grid's extent.
+ * Rows are resampled from the grid's regular latitudes to Web Mercator, so
+ * the image lines up with the basemap.
+ */
+export class ZarrAdapter extends BaseAdapter {
+  readonly spec: ZarrSourceSpec;
+  private readonly onDates?: AdapterContext['onDates'];
+  /** The opened variable, or undefined when it cannot be read. */
+  private loaded?: Promise<ZarrCube | undefined>;
+  /** The last slice read, so restyling or revisiting it skips the fetch. */
+  private slice?: { index: number; region: Promise<ZarrRegion> };
+  private requestSeq = 0;
+  /** Set by remove(); guards async render() continuations. */
+  private removed = false;
+  /** Whether the user hid the layer (see setVisible). */
+  private hidden = false;
+
+  /**
+   * @param spec - The Zarr source specification
+   * @param ctx - Shared adapter context
+   */
+  constructor(spec: ZarrSourceSpec, ctx: AdapterContext) {
+    super(spec.id!, { ...ctx, beforeId: spec.beforeId ?? ctx.beforeId }, spec.opacity ?? 1);
+    this.spec = spec;
+    this.onDates = ctx.onDates;
+  }
+
+  /**
+   * Opens the variable and reads its time, latitude and longitude
+   * coordinates, once.
+   */
+  private load(): Promise<ZarrCube | undefined> {
+    this.loaded ??= (async () => {
+      const { url, variable } = this.spec;
+      const array = await openZarrArray(url, variable);
+      const timeDim = findDimension(array, [this.spec.timeDimension ?? 'time']);
+      const latDim = findDimension(
+        array,
+        this.spec.latDimension ? [this.spec.latDimension] : ['lat', 'latitude']
+      );
+      const lonDim = findDimension(
+        array,
+        this.spec.lonDimension ? [this.spec.lonDimension] : ['lon', 'longitude']
+      );
+      if (timeDim < 0 || latDim < 0 || lonDim < 0) {
+        throw new Error(`Zarr variable ${variable} lacks a time, latitude or longitude dimension.`);
+      }
+      // xarray stores each dimension's coordinate as an array of the same name.
+      const [time, lat, lon] = await Promise.all(
+        [timeDim, latDim, lonDim].map((dim) => openZarrArray(url, array.dimensions[dim]))
+      );
+      const [times, lats, lons] = await Promise.all(
+        [time, lat, lon].map((coordinate) => readZarrRegion(coordinate, [null]))
+      );
+      const dates = cfTimesToDates(
+        times.data,
+        String(time.attrs.units ?? ''),
+        typeof time.attrs.calendar === 'string' ? time.attrs.calendar : undefined
+      );
+      if (this.spec.syncDates !== false && dates.length > 0) this.onDates?.(this.id, dates);
+      return { array, dates, lats: lats.data, lons: lons.data, timeDim, latDim, lonDim };
+    })()
+      // Reported as "no data" on every date; see render.
+      .catch(() => undefined);
+    return this.loaded;
+  }
+
+  /**
+   * The time step nearest a date. Dates more than half a step outside the
+   * coordinate's span have no data.
+   *
+   * @returns The step's index, or -1
+   */
+  private timeIndex(cube: ZarrCube, date: Date): number {
+    const times = cube.dates.map((d) => d.getTime());
+    const t = date.getTime();
+    const tolerance =
+      times.length > 1 ? (times[times.length - 1] - times[0]) / (times.length - 1) / 2 : 0;
+    if (t < times[0] - tolerance || t > times[times.length - 1] + tolerance) return -1;
+    let nearest = 0;
+    times.forEach((time, i) => {
+      if (Math.abs(time - t) < Math.abs(times[nearest] - t)) nearest = i;
+    });
+    return nearest;
+  }
+
+  /**
+   * Reads a time step's map, holding every other dimension at its
+   * {@link ZarrSourceSpec.selection} index.
+   */
+  private readSlice(cube: ZarrCube, index: number): Promise<ZarrRegion> {
+    if (this.slice?.index !== index) {
+      const selection = cube.array.dimensions.map((name, dim) => {
+        if (dim === cube.timeDim) return index;
+        if (dim === cube.latDim || dim === cube.lonDim) return null;
+        return this.spec.selection?.[name] ?? 0;
+      });
+      const region = readZarrRegion(cube.array, selection);
+      this.slice = { index, region };
+      // A failed read is retried on the next render rather than cached.
+      region.catch(() => {
+        if (this.slice?.region === region) this.slice = undefined;
+      });
+    }
+    return this.slice!.region;
+  }
+
+  /**
+   * Colors a slice into a PNG covering the grid's extent in Web Mercator.
+   *
+   * @returns The image as a data URL and its corner coordinates
+   */
+  private drawSlice(
+    cube: ZarrCube,
+    region: ZarrRegion
+  ): { url: string; coordinates: [number, number][] } {
+    const { lats, lons } = cube;
+    const width = lons.length;
+    const height = lats.length;
+    // The slice keeps the array's dimension order; read it as [lat][lon].
+    const latFirst = cube.latDim < cube.lonDim;
+    const valueAt = (row: number, col: number): number =>
+      region.data[latFirst ? row * width + col : col * height + row];
+
+    // Grid cells are centered on their coordinates; the image spans their edges.
+    const dLon = width > 1 ? (lons[width - 1] - lons[0]) / (width - 1) : 1;
+    const dLat = height > 1 ? (lats[height - 1] - lats[0]) / (height - 1) : 1;
+    const west = Math.min(lons[0], lons[width - 1]) - Math.abs(dLon) / 2;
+    const east = Math.max(lons[0], lons[width - 1]) + Math.abs(dLon) / 2;
+    const south = Math.max(
+      Math.min(lats[0], lats[height - 1]) - Math.abs(dLat) / 2,
+      -MAX_MERCATOR_LAT
+    );
+    const north = Math.min(
+      Math.max(lats[0], lats[height - 1]) + Math.abs(dLat) / 2,
+      MAX_MERCATOR_LAT
+    );
+
+    // Each image row takes the grid row nearest its Mercator-spaced latitude.
+    const grid = new Float64Array(width * height);
+    const top = mercatorY(north);
+    const bottom = mercatorY(south);
+    for (let y = 0; y < height; y++) {
+      const my = top - ((y + 0.5) / height) * (top - bottom);
+      const lat = (Math.atan(Math.sinh(my)) * 180) / Math.PI;
+      const row = clamp(Math.round((lat - lats[0]) / dLat), 0, height - 1);
+      for (let x = 0; x < width; x++) {
+        const col = dLon > 0 ? x : width - 1 - x;
+        const value = valueAt(row, col);
+        grid[y * width + x] = value === this.spec.nodata ? NaN : value;
+      }
+    }
+
+    const rgba = colorizeGrid(grid, this.rescale(cube, grid), this.spec.colormap);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const image = context.createImageData(width, height);
+    image.data.set(rgba);
+    context.putImageData(image, 0, 0);
+    return {
+      url: canvas.toDataURL('image/png'),
+      coordinates: [
+        [west, north],
+        [east, north],
+        [east, south],
+        [west, south],
+      ],
+    };
+  }
+
+  /**
+   * The values the colormap spans: the spec's, the variable's declared valid
+   * range, or the slice's own.
+   */
+  private rescale(cube: ZarrCube, grid: Float64Array): [number, number] {
+    if (this.spec.rescale) return this.spec.rescale;
+    const { valid_min: min, valid_max: max, valid_range: range } = cube.array.attrs;
+    if (typeof min === 'number' && typeof max === 'number') return [min, max];
+    if (Array.isArray(range) && range.length === 2) return [Number(range[0]), Number(range[1])];
+    return valueRange(grid) ?? [0, 1];
+  }
+
+  /**
+   * Shows an image: updates the image source in place, or adds the source and
+   * its layer.
+   */
+  private applyImage(image: { url: string; coordinates: [number, number][] }): void {
+    const source = this.map.getSource?.(this.id) as ImageSource | undefined;
+    if (source) {
+      source.updateImage({
+        url: image.url,
+        coordinates: image.coordinates as ImageSource['coordinates'],
+      });
+      return;
+    }
+    this.map.addSource(this.id, {
+      type: 'image',
+      url: image.url,
+      coordinates: image.coordinates as ImageSource['coordinates'],
+    });
+    this.map.addLayer(
+      {
+        id: this.id,
+        type: 'raster',
+        source: this.id,
+        // Show grid cells as cells rather than blurring them together.
+        paint: { 'raster-opacity': this.opacity, 'raster-resampling': 'nearest' },
+        ...(this.hidden ? { layout: { visibility: 'none' as const } } : {}),
+      },
+      this.beforeId
+    );
+  }
+
+  /**
+   * Draws the time step nearest a date, ignoring the result if a newer render
+   * started meanwhile. A date outside the cube, or whose chunks cannot be
+   * read, clears the layer and reports "no data".
+   */
+  private async render(date: Date): Promise<void> {
+    this.lastDate = date;
+    const seq = ++this.requestSeq;
+    const stale = (): boolean => this.removed || seq !== this.requestSeq;
+    const cube = await this.load();
+    if (stale()) return;
+    const index = cube ? this.timeIndex(cube, date) : -1;
+    const region =
+      cube && index >= 0 ? await this.readSlice(cube, index).catch(() => undefined) : undefined;
+    if (stale()) return;
+    if (!cube || !region) {
+      // Clear the previous frame rather than leave it standing for this date.
+      super.remove();
+      this.onDataStatus?.(this.id, false);
+      return;
+    }
+    this.applyImage(this.drawSlice(cube, region));
+    this.onDataStatus?.(this.id, true);
+  }
+
+  add(date: Date): Promise<void> {
+    return this.render(date);
+  }
+
+  update(date: Date): Promise<void> {
+    return this.render(date);
+  }
+
+  setOpacity(opacity: number): void {
+    this.opacity = clamp(opacity, 0, 1);
+    if (this.map.getLayer?.(this.id)) {
+      this.map.setPaintProperty(this.id, 'raster-opacity', this.opacity);
+    }
+  }
+
+  override setVisible(visible: boolean): void {
+    this.hidden = !visible;
+    super.setVisible(visible);
+  }
+
+  /**
+   * Updates the colormap, rescale or nodata and redraws the current date from
+   * the slice already read. A new {@link ZarrSourceSpec.selection} reads the
+   * slice again.
+   *
+   * @param patch - Partial Zarr spec fields to merge
+   */
+  async setProperty(patch: Partial<ZarrSourceSpec>): Promise<void> {
+    if ('selection' in patch) this.slice = undefined;
+    Object.assign(this.spec, patch);
+    if (this.lastDate) await this.render(this.lastDate);
+  }
+
+  /**
+   * The time coordinate's dates, for the axis histogram.
+   */
+  async getTimes(): Promise<number[]> {
+    const cube = await this.load();
+    return cube ? cube.dates.map((date) => date.getTime()) : [];
+  }
+
+  remove(): void {
+    // Invalidate any in-flight render so it cannot re-add the layer.
+    this.removed = true;
+    this.requestSeq++;
+    super.remove();
+  }
+}
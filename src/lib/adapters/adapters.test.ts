@@ -1,12 +1,27 @@
-import { describe, it, expect, vi, afterEach } from 'vitest';
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
 import { createStubMap } from '../../../tests/stubMap';
 import { CogAdapter } from './CogAdapter';
 import { MosaicAdapter } from './MosaicAdapter';
 import { XyzAdapter } from './XyzAdapter';
 import { WmsAdapter } from './WmsAdapter';
-import { GeoJsonAdapter, buildTimeFilter } from './GeoJsonAdapter';
+import { WmtsAdapter } from './WmtsAdapter';
+import { ArcGisAdapter } from './ArcGisAdapter';
+import { ZarrAdapter } from './ZarrAdapter';
+import { VideoAdapter } from './VideoAdapter';
+import { ImageAdapter } from './ImageAdapter';
+import {
+  GeoJsonAdapter,
+  buildIntervalFilter,
+  buildRangeFilter,
+  buildTimeFilter,
+} from './GeoJsonAdapter';
+import { compileFeatureStyle } from './featureStyle';
+import { StacAdapter } from './StacAdapter';
+import { VectorAdapter } from './VectorAdapter';
 import { createAdapter } from './registry';
 import { addUnits } from '../time/granularity';
+import { colormapColors } from '../utils/colormap';
+import { createZarrStore, stubZarrFetch } from '../../../tests/zarrStore';
 
 const d1 = new Date('2024-04-18T00:00:00Z');
 const d2 = new Date('2024-04-19T00:00:00Z');
@@ -67,10 +82,7 @@ describe('CogAdapter', () => {
       vi.fn(() => new Promise((resolve) => (settle = resolve)))
     );
     const { map } = createStubMap();
-    const adapter = new CogAdapter(
-      { type: 'cog', id: 'c-race', url: 'https://e/x.tif' },
-      { map }
-    );
+    const adapter = new CogAdapter({ type: 'cog', id: 'c-race', url: 'https://e/x.tif' }, { map });
     const pending = adapter.add(d1); // probe is in flight
     adapter.remove(); // removed before the probe resolves
     settle({ ok: true, json: async () => ({}) });
@@ -101,6 +113,42 @@ describe('CogAdapter', () => {
     await adapter.update(d1);
     expect(fetchSpy).not.toHaveBeenCalled();
   });
+
+  it("queries TiTiler for the value at a clicked point in the current date's COG", async () => {
+    const fetchMock = vi.fn(async (url: string) => ({
+      ok: true,
+      json: async (): Promise<unknown> =>
+        url.includes('/cog/point/') ? { values: [0.5], band_names: ['b1'] } : {},
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { map } = createStubMap();
+    const adapter = new CogAdapter(
+      {
+        type: 'cog',
+        id: 'c-inspect',
+        name: 'Rain',
+        url: 'https://e/{YYYY}-{MM}-{DD}.tif',
+        inspect: { template: '{b1} mm' },
+      },
+      { map }
+    );
+    await adapter.add(d1);
+    await adapter.update(d2);
+
+    const target = { lngLat: [10, 20] as [number, number], point: [0, 0] as [number, number] };
+    expect(await adapter.inspect(target)).toEqual({ title: 'Rain', text: '0.5 mm' });
+    const pointUrl = fetchMock.mock.calls[fetchMock.mock.calls.length - 1][0];
+    expect(pointUrl).toBe(
+      `https://titiler.d2s.org/cog/point/10,20?url=${encodeURIComponent('https://e/2024-04-19.tif')}`
+    );
+
+    // Outside the COG every band is masked.
+    fetchMock.mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ values: [null], band_names: ['b1'] }),
+    }));
+    expect(await adapter.inspect(target)).toBeUndefined();
+  });
 });
 
 describe('XyzAdapter', () => {
@@ -155,6 +203,98 @@ describe('XyzAdapter', () => {
     adapter.setVisible(true);
     expect(map.setLayoutProperty).toHaveBeenCalledWith('x3', 'visibility', 'visible');
   });
+
+  describe('with a cross-fade transition', () => {
+    const tiles = 'https://t/{z}/{x}/{y}.png?d={YYYY}-{MM}-{DD}';
+    afterEach(() => vi.useRealTimers());
+
+    // Fires the `sourcedata` MapLibre sends as a source's tile loads.
+    function loadTile(map: ReturnType<typeof createStubMap>['map'], sourceId: string): void {
+      for (const [type, listener] of (map.on as ReturnType<typeof vi.fn>).mock.calls) {
+        if (type === 'sourcedata') listener({ sourceId, tile: {} });
+      }
+    }
+
+    it('fades the next date in on the partner layer once its tiles load', async () => {
+      vi.useFakeTimers();
+      const { map, sources, layers } = createStubMap();
+      Object.assign(map, { isSourceLoaded: vi.fn(() => true) });
+      const adapter = new XyzAdapter(
+        { type: 'xyz', id: 'xf', tiles, opacity: 0.8, transition: { duration: 300 } },
+        { map }
+      );
+      await adapter.add(d1);
+      await adapter.update(d2);
+
+      expect(sources.get('xf-fade')).toBeDefined();
+      expect(layers.get('xf-fade')!.layer.paint).toEqual({
+        'raster-opacity': 0,
+        'raster-opacity-transition': { duration: 300, delay: 0 },
+      });
+      const addArgs = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[1][1];
+      expect(addArgs.tiles[0]).toBe('https://t/{z}/{x}/{y}.png?d=2024-04-19');
+      // The current date stays at full strength until the next one has loaded.
+      expect(map.setPaintProperty).not.toHaveBeenCalledWith('xf', 'raster-opacity', 0);
+      loadTile(map, 'xf');
+      expect(map.setPaintProperty).not.toHaveBeenCalledWith('xf', 'raster-opacity', 0);
+      loadTile(map, 'xf-fade');
+      expect(map.setPaintProperty).toHaveBeenCalledWith('xf-fade', 'raster-opacity', 0.8);
+      expect(map.setPaintProperty).toHaveBeenCalledWith('xf', 'raster-opacity', 0);
+
+      // Once faded out, the old layer stops loading tiles.
+      vi.advanceTimersByTime(300);
+      expect(map.setLayoutProperty).toHaveBeenCalledWith('xf', 'visibility', 'none');
+
+      // The next step swaps back onto the original layer, reusing its source.
+      await adapter.update(new Date('2024-04-20T00:00:00Z'));
+      expect(sources.get('xf')!.setTiles).toHaveBeenCalledWith([
+        'https://t/{z}/{x}/{y}.png?d=2024-04-20',
+      ]);
+      expect(map.setLayoutProperty).toHaveBeenLastCalledWith('xf', 'visibility', 'visible');
+
+      // While it loads, opacity applies to the layer still showing a date.
+      adapter.setOpacity(0.5);
+      expect(map.setPaintProperty).toHaveBeenLastCalledWith('xf-fade', 'raster-opacity', 0.5);
+
+      // A step that arrives before the tiles do loads into the same layer.
+      await adapter.update(new Date('2024-04-21T00:00:00Z'));
+      expect(sources.get('xf')!.setTiles).toHaveBeenLastCalledWith([
+        'https://t/{z}/{x}/{y}.png?d=2024-04-21',
+      ]);
+      loadTile(map, 'xf');
+      expect(map.setPaintProperty).toHaveBeenLastCalledWith('xf-fade', 'raster-opacity', 0);
+      adapter.setOpacity(0.6);
+      expect(map.setPaintProperty).toHaveBeenLastCalledWith('xf', 'raster-opacity', 0.6);
+    });
+
+    it('fades anyway when the tiles take too long', async () => {
+      vi.useFakeTimers();
+      const { map } = createStubMap();
+      const adapter = new XyzAdapter(
+        { type: 'xyz', id: 'xt', tiles, transition: { duration: 300 } },
+        { map }
+      );
+      await adapter.add(d1);
+      await adapter.update(d2);
+      expect(map.setPaintProperty).not.toHaveBeenCalledWith('xt', 'raster-opacity', 0);
+      vi.advanceTimersByTime(5000);
+      expect(map.setPaintProperty).toHaveBeenCalledWith('xt', 'raster-opacity', 0);
+      expect(map.off).toHaveBeenCalledWith('sourcedata', expect.any(Function));
+    });
+
+    it('removes both layers and sources', async () => {
+      const { map, sources, layers } = createStubMap();
+      const adapter = new XyzAdapter(
+        { type: 'xyz', id: 'xr', tiles, transition: { duration: 300 } },
+        { map }
+      );
+      await adapter.add(d1);
+      await adapter.update(d2);
+      adapter.remove();
+      expect([...sources.keys()]).toEqual([]);
+      expect([...layers.keys()]).toEqual([]);
+    });
+  });
 });
 
 describe('WmsAdapter', () => {
@@ -181,80 +321,1708 @@ describe('WmsAdapter', () => {
   });
 });
 
-describe('buildTimeFilter', () => {
-  it('builds a [lower, upper) range around the date', () => {
-    const filter = buildTimeFilter('time', d1, { unit: 'month' });
-    expect(filter).toEqual([
-      'all',
-      ['>=', ['to-number', ['get', 'time']], d1.getTime()],
-      ['<', ['to-number', ['get', 'time']], addUnits(d1, 'month', 1).getTime()],
-    ]);
+describe('WmtsAdapter', () => {
+  const CAPABILITIES = `<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1">
+    <Contents>
+      <Layer>
+        <ows:Identifier>TrueColor</ows:Identifier>
+        <Format>image/jpeg</Format>
+        <Dimension><ows:Identifier>Time</ows:Identifier><Value>2024-04-18/2024-04-19/P1D</Value></Dimension>
+        <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible_Level1</TileMatrixSet></TileMatrixSetLink>
+        <ResourceURL format="image/jpeg" resourceType="tile" template="https://gibs/TrueColor/default/{Time}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpg"/>
+      </Layer>
+      <TileMatrixSet>
+        <ows:Identifier>GoogleMapsCompatible_Level1</ows:Identifier>
+        <TileMatrix><ows:Identifier>0</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>1</MatrixWidth></TileMatrix>
+        <TileMatrix><ows:Identifier>1</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>2</MatrixWidth></TileMatrix>
+      </TileMatrixSet>
+    </Contents>
+  </Capabilities>`;
+
+  // Capabilities are cached per URL across adapters, so each test reads its own.
+  function stubCapabilities(): ReturnType<typeof vi.fn> {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      text: async () => CAPABILITIES,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('tiles the layer from its capabilities and fills {Time} per date', async () => {
+    const fetchMock = stubCapabilities();
+    const { map, sources } = createStubMap();
+    const adapter = new WmtsAdapter(
+      { type: 'wmts', id: 'wt1', url: 'https://gibs/a/WMTSCapabilities.xml', layer: 'TrueColor' },
+      { map }
+    );
+    await adapter.add(d1);
+    await adapter.update(d2);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1]).toMatchObject({
+      tiles: [
+        'https://gibs/TrueColor/default/2024-04-18/GoogleMapsCompatible_Level1/{z}/{y}/{x}.jpg',
+      ],
+      tileSize: 256,
+      minzoom: 0,
+      maxzoom: 1,
+    });
+    expect(sources.get('wt1')!.setTiles.mock.calls[0][0][0]).toContain('/2024-04-19/');
   });
 
-  it('drops the lower bound when cumulative so past features accumulate', () => {
-    const filter = buildTimeFilter('time', d1, { unit: 'month' }, true);
-    expect(filter).toEqual([
-      '<',
-      ['to-number', ['get', 'time']],
-      addUnits(d1, 'month', 1).getTime(),
-    ]);
+  it('fills {Time} in UTC whatever the timeline zone', async () => {
+    stubCapabilities();
+    const { map } = createStubMap();
+    const adapter = new WmtsAdapter(
+      {
+        type: 'wmts',
+        id: 'wt-zone',
+        url: 'https://gibs/z/WMTSCapabilities.xml',
+        layer: 'TrueColor',
+      },
+      { map, timeZone: 'America/Los_Angeles' }
+    );
+    await adapter.add(d1);
+    // Midnight UTC is the evening before in Los Angeles; the tiles are still the 18th's.
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].tiles[0]).toContain(
+      '/2024-04-18/'
+    );
   });
-});
 
-describe('GeoJsonAdapter', () => {
-  it('adds a filtered layer and re-filters on update', () => {
+  it("feeds the layer's times to the timeline when syncDates is set", async () => {
+    stubCapabilities();
     const { map } = createStubMap();
-    const adapter = new GeoJsonAdapter(
+    const onDates = vi.fn();
+    const adapter = new WmtsAdapter(
       {
-        type: 'geojson',
-        id: 'g1',
-        data: 'https://x.geojson',
-        timeProperty: 'time',
-        window: { unit: 'day' },
+        type: 'wmts',
+        id: 'wt2',
+        url: 'https://gibs/b/WMTSCapabilities.xml',
+        layer: 'TrueColor',
+        syncDates: true,
       },
+      { map, onDates }
+    );
+    await adapter.add(d1);
+    expect(onDates).toHaveBeenCalledWith('wt2', [d1, d2]);
+    expect(await adapter.getTimes()).toEqual([d1.getTime(), d2.getTime()]);
+  });
+
+  it('reports no data when the layer is not in the capabilities', async () => {
+    stubCapabilities();
+    const { map, sources } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new WmtsAdapter(
+      { type: 'wmts', id: 'wt3', url: 'https://gibs/c/WMTSCapabilities.xml', layer: 'Missing' },
+      { map, onDataStatus }
+    );
+    await adapter.add(d1);
+    expect(sources.size).toBe(0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('wt3', false);
+  });
+});
+
+describe('ArcGisAdapter', () => {
+  // Answers the service JSON request with the given body.
+  function stubService(info: Record<string, unknown>): ReturnType<typeof vi.fn> {
+    const fetchMock = vi.fn(async () => ({ ok: true, json: async () => info }));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it("exports a MapServer with the date's time window in the service's unit", async () => {
+    const fetchMock = stubService({
+      copyrightText: 'NOAA',
+      timeInfo: { timeExtent: [0, 1], timeInterval: 1, timeIntervalUnits: 'esriTimeUnitsMonths' },
+      fullExtent: { xmin: -10, ymin: 0, xmax: 10, ymax: 20, spatialReference: { wkid: 4326 } },
+    });
+    const { map } = createStubMap();
+    const adapter = new ArcGisAdapter(
+      { type: 'arcgis', id: 'ag1', url: 'https://e/rest/services/x/MapServer/', layers: 'show:0' },
       { map }
     );
-    adapter.add(d1);
-    expect(map.addSource).toHaveBeenCalledWith('g1', {
-      type: 'geojson',
-      data: 'https://x.geojson',
+    await adapter.add(d1);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://e/rest/services/x/MapServer?f=json', undefined);
+    const source = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1];
+    expect(source.tiles[0]).toBe(
+      'https://e/rest/services/x/MapServer/export?bbox={bbox-epsg-3857}&bboxSR=3857' +
+        '&imageSR=3857&size=256,256&format=png32&transparent=true&f=image&layers=show%3A0' +
+        `&time=${Date.UTC(2024, 3, 1)},${Date.UTC(2024, 4, 1) - 1}`
+    );
+    expect(source).toMatchObject({ bounds: [-10, 0, 10, 20], attribution: 'NOAA' });
+  });
+
+  it("spans the service's whole time interval unless timeWindow overrides it", async () => {
+    stubService({
+      timeInfo: { timeExtent: [0, 1], timeInterval: 6, timeIntervalUnits: 'esriTimeUnitsHours' },
     });
-    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
-    expect(layerArg.type).toBe('circle');
-    expect(layerArg.filter).toBeDefined();
+    const { map, sources } = createStubMap();
+    const adapter = new ArcGisAdapter(
+      { type: 'arcgis', id: 'ag-6h', url: 'https://e/rest/services/six/MapServer' },
+      { map }
+    );
+    const noon = new Date('2024-04-18T12:00:00Z');
+    await adapter.add(noon);
+    const tiles = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].tiles[0];
+    expect(tiles).toContain(`&time=${noon.getTime()},${Date.UTC(2024, 3, 18, 18) - 1}`);
 
-    adapter.update(d2);
-    expect(map.setFilter).toHaveBeenCalledWith('g1', buildTimeFilter('time', d2, { unit: 'day' }));
+    adapter.spec.timeWindow = 'day';
+    await adapter.update(noon);
+    expect(sources.get('ag-6h')!.setTiles.mock.calls[0][0][0]).toContain(
+      `&time=${d1.getTime()},${d2.getTime() - 1}`
+    );
   });
 
-  it('applies a visible default circle style when no paint is given', () => {
+  it('exports an ImageServer with a rendering rule and no time when not time-aware', async () => {
+    stubService({});
     const { map } = createStubMap();
-    const adapter = new GeoJsonAdapter(
-      { type: 'geojson', id: 'g2', data: 'https://x.geojson', timeProperty: 'time' },
+    const adapter = new ArcGisAdapter(
+      {
+        type: 'arcgis',
+        id: 'ag2',
+        url: 'https://e/rest/services/y/ImageServer',
+        renderingRule: { rasterFunction: 'Stretch' },
+        timeWindow: 'year',
+        params: { token: 't' },
+      },
       { map }
     );
-    adapter.add(d1);
-    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
-    expect(layerArg.paint['circle-radius']).toBe(6);
-    expect(layerArg.paint['circle-color']).toBe('#ff5533');
-    expect(layerArg.paint['circle-opacity']).toBe(1);
+    await adapter.add(d1);
+    const tiles = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].tiles[0];
+    expect(tiles).toMatch(/^https:\/\/e\/rest\/services\/y\/ImageServer\/exportImage\?/);
+    expect(tiles).toContain(`renderingRule=${encodeURIComponent('{"rasterFunction":"Stretch"}')}`);
+    expect(tiles).not.toContain('time=');
+    expect(tiles).toMatch(/&token=t$/);
   });
 
-  it('lets a spec override the default paint', () => {
+  it('reports the time extent when syncTimeline is set', async () => {
+    stubService({
+      timeInfo: {
+        timeExtent: [Date.UTC(2000, 0, 1), Date.UTC(2010, 0, 1)],
+        timeInterval: 1,
+        timeIntervalUnits: 'esriTimeUnitsDecades',
+      },
+    });
     const { map } = createStubMap();
-    const adapter = new GeoJsonAdapter(
+    const onTimeExtent = vi.fn();
+    const adapter = new ArcGisAdapter(
+      { type: 'arcgis', id: 'ag3', url: 'https://e/MapServer', syncTimeline: true },
+      { map, onTimeExtent }
+    );
+    await adapter.add(d1);
+    expect(onTimeExtent).toHaveBeenCalledWith('ag3', {
+      start: new Date(Date.UTC(2000, 0, 1)),
+      end: new Date(Date.UTC(2010, 0, 1)),
+      granularity: 'year',
+      interval: 10,
+    });
+  });
+
+  it('reports no data when the service answers with an error', async () => {
+    stubService({ error: { code: 499, message: 'Token Required' } });
+    const { map, sources } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new ArcGisAdapter(
+      { type: 'arcgis', id: 'ag4', url: 'https://e/MapServer' },
+      { map, onDataStatus }
+    );
+    await adapter.add(d1);
+    expect(sources.size).toBe(0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('ag4', false);
+  });
+});
+
+describe('ZarrAdapter', () => {
+  const STORE = 'https://e/sst.zarr';
+  // A (time: 3, lat: 2, lon: 3) cube valued t*10 + lat*3 + lon, on latitudes
+  // 0 and 10 (south first, as xarray often writes them).
+  const store = () =>
+    createZarrStore({
+      sst: {
+        shape: [3, 2, 3],
+        chunks: [1, 2, 3],
+        values: Array.from({ length: 18 }, (_, i) => i + Math.floor(i / 6) * 4),
+        attrs: { _ARRAY_DIMENSIONS: ['time', 'lat', 'lon'] },
+      },
+      time: {
+        shape: [3],
+        dtype: '<i4',
+        values: [0, 1, 2],
+        attrs: { _ARRAY_DIMENSIONS: ['time'], units: 'days since 2024-04-18' },
+      },
+      lat: { shape: [2], values: [0, 10], attrs: { _ARRAY_DIMENSIONS: ['lat'] } },
+      lon: { shape: [3], values: [0, 1, 2], attrs: { _ARRAY_DIMENSIONS: ['lon'] } },
+    });
+
+  // jsdom has no 2D canvas; the fake keeps the pixels each draw puts.
+  let pixels: Uint8ClampedArray[];
+  beforeEach(() => {
+    pixels = [];
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation((() => ({
+      createImageData: (w: number, h: number) => ({ data: new Uint8ClampedArray(w * h * 4) }),
+      putImageData: (image: { data: Uint8ClampedArray }) => pixels.push(image.data),
+    })) as never);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,');
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  // The red channel of each pixel: with the gray ramp over [0, 255], the value.
+  const reds = (rgba: Uint8ClampedArray): number[] =>
+    Array.from(rgba).filter((_, i) => i % 4 === 0);
+
+  it('hands over the time coordinate and draws the nearest slice north-up', async () => {
+    stubZarrFetch(STORE, store());
+    const { map } = createStubMap();
+    const onDates = vi.fn();
+    const adapter = new ZarrAdapter(
+      { type: 'zarr', id: 'z1', url: STORE, variable: 'sst', colormap: 'gray', rescale: [0, 255] },
+      { map, onDates }
+    );
+    await adapter.add(new Date('2024-04-19T05:00:00Z'));
+
+    expect(onDates).toHaveBeenCalledWith('z1', [
+      new Date('2024-04-18T00:00:00Z'),
+      new Date('2024-04-19T00:00:00Z'),
+      new Date('2024-04-20T00:00:00Z'),
+    ]);
+    const source = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1];
+    expect(source).toMatchObject({
+      type: 'image',
+      coordinates: [
+        [-0.5, 15],
+        [2.5, 15],
+        [2.5, -5],
+        [-0.5, -5],
+      ],
+    });
+    expect(map.getLayer('z1')).toMatchObject({ type: 'raster', source: 'z1' });
+    // The second time step, its northern row on top.
+    expect(reds(pixels[0])).toEqual([13, 14, 15, 10, 11, 12]);
+    expect(await adapter.getTimes()).toEqual([
+      Date.UTC(2024, 3, 18),
+      Date.UTC(2024, 3, 19),
+      Date.UTC(2024, 3, 20),
+    ]);
+  });
+
+  it('updates the image in place and reports no data outside the cube', async () => {
+    stubZarrFetch(STORE, store());
+    const { map, sources } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new ZarrAdapter(
+      { type: 'zarr', id: 'z2', url: STORE, variable: 'sst' },
+      { map, onDataStatus }
+    );
+    await adapter.add(d1);
+    await adapter.update(d2);
+    expect(sources.get('z2')!.updateImage).toHaveBeenCalledTimes(1);
+    expect(onDataStatus).toHaveBeenLastCalledWith('z2', true);
+
+    await adapter.update(new Date('2024-05-01T00:00:00Z'));
+    expect(sources.size).toBe(0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('z2', false);
+  });
+
+  it('restyles the current slice without reading it again', async () => {
+    const fetchMock = stubZarrFetch(STORE, store());
+    const { map } = createStubMap();
+    const adapter = new ZarrAdapter(
+      { type: 'zarr', id: 'z3', url: STORE, variable: 'sst', colormap: 'gray' },
+      { map }
+    );
+    await adapter.add(d1);
+    // Without a rescale the slice's own range spans the ramp.
+    expect(reds(pixels[0])).toEqual([153, 204, 255, 0, 51, 102]);
+    const requests = fetchMock.mock.calls.length;
+    await adapter.setProperty({ rescale: [0, 255] });
+    expect(fetchMock.mock.calls.length).toBe(requests);
+    expect(reds(pixels[1])).toEqual([3, 4, 5, 0, 1, 2]);
+  });
+
+  it('reports no data when the store cannot be read', async () => {
+    stubZarrFetch(STORE, new Map());
+    const { map, sources } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new ZarrAdapter(
+      { type: 'zarr', id: 'z4', url: STORE, variable: 'sst' },
+      { map, onDataStatus }
+    );
+    await adapter.add(d1);
+    expect(sources.size).toBe(0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('z4', false);
+  });
+});
+
+describe('VideoAdapter', () => {
+  // A stand-in for the element MapLibre creates: seeking completes on the
+  // next microtask.
+  function fakeVideo(duration = 10) {
+    const video = Object.assign(new EventTarget(), { loop: true, duration, pause: vi.fn() });
+    let currentTime = 0;
+    Object.defineProperty(video, 'currentTime', {
+      get: () => currentTime,
+      set: (time: number) => {
+        currentTime = time;
+        queueMicrotask(() => video.dispatchEvent(new Event('seeked')));
+      },
+    });
+    return video as typeof video & { currentTime: number };
+  }
+
+  // Hands the source its video and fires the `sourcedata` MapLibre sends once loaded.
+  function loadVideo(stub: ReturnType<typeof createStubMap>, id: string, video: object): void {
+    Object.assign(stub.sources.get(id)!, { getVideo: () => video });
+    const [, listener] = (stub.map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([type]) => type === 'sourcedata'
+    )!;
+    listener({ sourceId: id });
+  }
+
+  const coordinates: [[number, number], [number, number], [number, number], [number, number]] = [
+    [0, 10],
+    [10, 10],
+    [10, 0],
+    [0, 0],
+  ];
+
+  it("seeks the paused video to each date's frame", async () => {
+    const stub = createStubMap();
+    const { map } = stub;
+    const adapter = new VideoAdapter(
       {
-        type: 'geojson',
-        id: 'g3',
-        data: 'https://x.geojson',
-        timeProperty: 'time',
-        paint: { circle: { 'circle-color': '#000' } },
+        type: 'video',
+        id: 'v1',
+        urls: ['https://e/anim.mp4'],
+        coordinates,
+        frameRate: 10,
+        start: '2024-04-18',
+        framesPerStep: 2,
       },
       { map }
     );
-    adapter.add(d1);
-    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
-    expect(layerArg.paint['circle-color']).toBe('#000');
+    await adapter.add(d1);
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1]).toEqual({
+      type: 'video',
+      urls: ['https://e/anim.mp4'],
+      coordinates,
+    });
+    expect(map.getLayer('v1')).toMatchObject({ type: 'raster', source: 'v1' });
+
+    const video = fakeVideo();
+    loadVideo(stub, 'v1', video);
+    expect(video.loop).toBe(false);
+    expect(video.pause).toHaveBeenCalled();
+    expect(video.currentTime).toBeCloseTo(0.05);
+
+    await adapter.update(d2);
+    expect(video.currentTime).toBeCloseTo(0.25);
+    expect(map.triggerRepaint).toHaveBeenCalled();
+
+    // MapLibre's own play() is undone.
+    video.pause.mockClear();
+    video.dispatchEvent(new Event('play'));
+    expect(video.pause).toHaveBeenCalled();
+
+    // Once removed, the element is left to play.
+    adapter.remove();
+    video.pause.mockClear();
+    video.dispatchEvent(new Event('play'));
+    expect(video.pause).not.toHaveBeenCalled();
+  });
+
+  it('shows the latest listed frame and nothing outside the video', async () => {
+    const stub = createStubMap();
+    const { map } = stub;
+    const onDataStatus = vi.fn();
+    const adapter = new VideoAdapter(
+      {
+        type: 'video',
+        id: 'v2',
+        urls: ['https://e/anim.webm'],
+        coordinates,
+        frameRate: 1,
+        frameDates: ['2024-04-18', '2024-04-18T12:00:00Z', '2024-04-20'],
+      },
+      { map, onDataStatus }
+    );
+    const video = fakeVideo(2);
+    await adapter.add(d1);
+    loadVideo(stub, 'v2', video);
+
+    await adapter.update(d2);
+    expect(video.currentTime).toBe(1.5);
+    expect(onDataStatus).toHaveBeenLastCalledWith('v2', true);
+
+    await adapter.update(new Date('2024-04-17T00:00:00Z'));
+    expect(map.setPaintProperty).toHaveBeenLastCalledWith('v2', 'raster-opacity', 0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('v2', false);
+
+    // The third frame is past the two-second video.
+    await adapter.update(new Date('2024-04-21T00:00:00Z'));
+    expect(onDataStatus).toHaveBeenLastCalledWith('v2', false);
+    expect(adapter.getTimes()).toEqual([
+      Date.UTC(2024, 3, 18),
+      Date.UTC(2024, 3, 18, 12),
+      Date.UTC(2024, 3, 20),
+    ]);
+
+    adapter.remove();
+    expect(map.off).toHaveBeenCalledWith('sourcedata', expect.any(Function));
+    expect(stub.sources.size).toBe(0);
+  });
+});
+
+describe('ImageAdapter', () => {
+  const { createObjectURL, revokeObjectURL } = URL;
+  let revoked: string[];
+
+  // Serves each image URL as a blob, answering 404 for `missing` ones, and
+  // hands out a numbered object URL per blob.
+  function stubImages(missing: string[] = []): ReturnType<typeof vi.fn> {
+    let n = 0;
+    revoked = [];
+    Object.assign(URL, {
+      createObjectURL: () => `blob:${++n}`,
+      revokeObjectURL: (url: string) => revoked.push(url),
+    });
+    const fetchMock = vi.fn(async (url: string) =>
+      missing.includes(url) ? new Response(null, { status: 404 }) : new Response(url)
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  afterEach(() => {
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  const coordinates: [[number, number], [number, number], [number, number], [number, number]] = [
+    [0, 10],
+    [10, 10],
+    [10, 0],
+    [0, 0],
+  ];
+
+  it("shows each date's image and swaps it in place", async () => {
+    stubImages();
+    const { map, sources } = createStubMap();
+    const adapter = new ImageAdapter(
+      { type: 'image', id: 'i1', url: 'https://e/{YYYY}{MM}{DD}.png', coordinates },
+      { map }
+    );
+    await adapter.add(d1);
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1]).toEqual({
+      type: 'image',
+      url: 'blob:1',
+      coordinates,
+    });
+    expect(map.getLayer('i1')).toMatchObject({ type: 'raster', source: 'i1' });
+
+    await adapter.update(d2);
+    expect(map.addSource).toHaveBeenCalledTimes(1);
+    expect(sources.get('i1')!.updateImage).toHaveBeenCalledWith({ url: 'blob:2', coordinates });
+  });
+
+  it('places each image at the corners resolved for its date', async () => {
+    stubImages();
+    const { map, sources } = createStubMap();
+    const shifted = (date: Date) =>
+      coordinates.map(([x, y]) => [x + date.getUTCDate(), y]) as typeof coordinates;
+    const adapter = new ImageAdapter(
+      { type: 'image', id: 'i2', url: 'https://e/{YYYY}{MM}{DD}.png', coordinates: shifted },
+      { map }
+    );
+    await adapter.add(d1);
+    await adapter.update(d2);
+    expect(sources.get('i2')!.updateImage).toHaveBeenCalledWith({
+      url: 'blob:2',
+      coordinates: shifted(d2),
+    });
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].coordinates[0]).toEqual([
+      18, 10,
+    ]);
+  });
+
+  it('preloads adjacent dates and releases frames outside the window', async () => {
+    const fetchMock = stubImages();
+    const { map } = createStubMap();
+    const d3 = new Date('2024-04-20T00:00:00Z');
+    const getAdjacentDates = vi.fn((date: Date, count: number) =>
+      Array.from({ length: count }, (_, i) => addUnits(date, 'day', i + 1))
+    );
+    const adapter = new ImageAdapter(
+      { type: 'image', id: 'i3', url: 'https://e/{DD}.png', coordinates, preload: 1 },
+      { map, getAdjacentDates }
+    );
+    await adapter.add(d1);
+    expect(getAdjacentDates).toHaveBeenCalledWith(d1, 1);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://e/18.png',
+      'https://e/19.png',
+    ]);
+
+    // The 19th is already in memory; the 18th falls out of the window.
+    await adapter.update(d2);
+    await adapter.update(d2);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://e/18.png',
+      'https://e/19.png',
+      'https://e/20.png',
+    ]);
+    expect(revoked).toEqual(['blob:1']);
+
+    await adapter.update(d3);
+    adapter.remove();
+    await vi.waitFor(() => expect(revoked).toEqual(['blob:1', 'blob:2', 'blob:3', 'blob:4']));
+  });
+
+  it('clears the image and reports no data when a date has none', async () => {
+    stubImages(['https://e/19.png']);
+    const { map } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new ImageAdapter(
+      { type: 'image', id: 'i4', url: 'https://e/{DD}.png', coordinates },
+      { map, onDataStatus }
+    );
+    await adapter.add(d1);
+    expect(onDataStatus).toHaveBeenLastCalledWith('i4', true);
+    await adapter.update(d2);
+    expect(onDataStatus).toHaveBeenLastCalledWith('i4', false);
+    expect(map.getLayer('i4')).toBeUndefined();
+    expect(map.getSource('i4')).toBeUndefined();
+
+    await adapter.update(d1);
+    expect(map.getLayer('i4')).toBeDefined();
+  });
+
+  it('requests images through the transform and reports failures as errors', async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      url.includes('19') ? new Response(null, { status: 401 }) : new Response(url)
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    revoked = [];
+    Object.assign(URL, { createObjectURL: () => 'blob:1', revokeObjectURL: vi.fn() });
+    const { map } = createStubMap();
+    const onDataStatus = vi.fn();
+    const onError = vi.fn();
+    const adapter = new ImageAdapter(
+      { type: 'image', id: 'i5', url: 'https://e/{DD}.png', coordinates },
+      {
+        map,
+        onDataStatus,
+        onError,
+        transformRequest: (url) => ({ url, headers: { Authorization: 'Bearer abc' } }),
+      }
+    );
+    await adapter.add(d1);
+    expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get('Authorization')).toBe(
+      'Bearer abc'
+    );
+
+    onDataStatus.mockClear();
+    await adapter.update(d2);
+    expect(onError).toHaveBeenCalledWith('i5', expect.any(Error));
+    expect(onError.mock.calls[0][1].message).toMatch(/401/);
+    expect(onDataStatus).not.toHaveBeenCalled();
+    expect(map.getLayer('i5')).toBeUndefined();
+
+    // A failure is not remembered: the date is asked for again.
+    await adapter.update(d2);
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes('19'))).toHaveLength(2);
+  });
+});
+
+describe('StacAdapter', () => {
+  const stacItem = (id: string, datetime: string, bbox = [1, 2, 3, 4]) => ({
+    id,
+    bbox,
+    properties: { datetime },
+    assets: { visual: { href: `https://data/${id}.tif` } },
+  });
+
+  // Answers the search with the given items and every TiTiler probe as found.
+  function stubStacApi(items: unknown[]): ReturnType<typeof vi.fn> {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith('/search')
+        ? { ok: true, json: async () => ({ features: items, links: [] }) }
+        : { ok: true, json: async () => ({}) }
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('searches the viewport and timeline, then reports the item dates', async () => {
+    const fetchMock = stubStacApi([
+      stacItem('late', '2024-04-19T10:30:00Z'),
+      stacItem('early', '2024-04-18T10:00:00Z'),
+    ]);
+    const { map } = createStubMap();
+    const onDates = vi.fn();
+    const adapter = new StacAdapter(
+      { type: 'stac', id: 's1', url: 'https://stac/v1', collection: 's2', asset: 'visual' },
+      {
+        map,
+        onDates,
+        getTimelineRange: () => ({ start: d1, end: new Date('2024-04-30T00:00:00Z') }),
+      }
+    );
+    await adapter.add(d1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://stac/v1/search');
+    expect(JSON.parse(init.body)).toMatchObject({
+      collections: ['s2'],
+      bbox: [1, 1, 10, 10],
+      datetime: '2024-04-18T00:00:00.000Z/2024-04-30T00:00:00.000Z',
+    });
+    expect(onDates).toHaveBeenCalledWith('s1', [
+      new Date('2024-04-18T10:00:00Z'),
+      new Date('2024-04-19T10:30:00Z'),
+    ]);
+    expect(adapter.getTimes()).toEqual([
+      Date.parse('2024-04-18T10:00:00Z'),
+      Date.parse('2024-04-19T10:30:00Z'),
+    ]);
+  });
+
+  it("draws every item of the date's day through TiTiler, bounded by its bbox", async () => {
+    stubStacApi([
+      stacItem('a', '2024-04-18T10:00:00Z', [1, 2, 3, 4]),
+      stacItem('b', '2024-04-18T10:05:00Z', [3, 2, 5, 4]),
+      stacItem('c', '2024-04-19T10:00:00Z'),
+    ]);
+    const { map, sources } = createStubMap();
+    const adapter = new StacAdapter(
+      {
+        type: 'stac',
+        id: 's2',
+        url: 'https://stac/v1',
+        collection: 's2',
+        asset: 'visual',
+        bbox: [0, 0, 10, 10],
+      },
+      { map }
+    );
+    await adapter.add(d1);
+
+    expect([...sources.keys()]).toEqual(['s2', 's2-1']);
+    const calls = (map.addSource as ReturnType<typeof vi.fn>).mock.calls;
+    expect(calls[0][1].tiles[0]).toContain(encodeURIComponent('https://data/a.tif'));
+    expect(calls[0][1].bounds).toEqual([1, 2, 3, 4]);
+    expect(calls[1][1].tiles[0]).toContain(encodeURIComponent('https://data/b.tif'));
+
+    await adapter.update(d2);
+    expect([...sources.keys()]).toEqual(['s2']);
+    expect(calls[2][1].tiles[0]).toContain(encodeURIComponent('https://data/c.tif'));
+
+    adapter.remove();
+    expect(sources.size).toBe(0);
+  });
+
+  it('reports no data for a date without items', async () => {
+    stubStacApi([stacItem('a', '2024-04-18T10:00:00Z')]);
+    const { map, sources } = createStubMap();
+    const onDataStatus = vi.fn();
+    const adapter = new StacAdapter(
+      { type: 'stac', id: 's3', url: 'https://stac/v1', collection: 's2', asset: 'visual' },
+      { map, onDataStatus }
+    );
+    await adapter.add(d2);
+    expect(sources.size).toBe(0);
+    expect(onDataStatus).toHaveBeenLastCalledWith('s3', false);
+  });
+});
+
+describe('buildTimeFilter', () => {
+  it('builds a [lower, upper) range around the date', () => {
+    const filter = buildTimeFilter('time', d1, { unit: 'month' });
+    expect(filter).toEqual([
+      'all',
+      ['>=', ['to-number', ['get', 'time']], d1.getTime()],
+      ['<', ['to-number', ['get', 'time']], addUnits(d1, 'month', 1).getTime()],
+    ]);
+  });
+
+  it('drops the lower bound when cumulative so past features accumulate', () => {
+    const filter = buildTimeFilter('time', d1, { unit: 'month' }, true);
+    expect(filter).toEqual([
+      '<',
+      ['to-number', ['get', 'time']],
+      addUnits(d1, 'month', 1).getTime(),
+    ]);
+  });
+
+  it('spans a local day, even one shortened by daylight saving', () => {
+    const midnight = new Date('2024-03-10T08:00:00Z');
+    const filter = buildTimeFilter('time', midnight, { unit: 'day' }, false, 'America/Los_Angeles');
+    expect(filter).toEqual([
+      'all',
+      ['>=', ['to-number', ['get', 'time']], midnight.getTime()],
+      ['<', ['to-number', ['get', 'time']], new Date('2024-03-11T07:00:00Z').getTime()],
+    ]);
+  });
+});
+
+describe('buildRangeFilter', () => {
+  it('keeps features inside a half-open span', () => {
+    const filter = buildRangeFilter('time', { start: d1, end: d2 });
+    expect(filter).toEqual([
+      'all',
+      ['>=', ['to-number', ['get', 'time']], d1.getTime()],
+      ['<', ['to-number', ['get', 'time']], d2.getTime()],
+    ]);
+  });
+
+  it('drops the lower bound when cumulative', () => {
+    expect(buildRangeFilter('time', { start: d1, end: d2 }, true)).toEqual([
+      '<',
+      ['to-number', ['get', 'time']],
+      d2.getTime(),
+    ]);
+  });
+});
+
+describe('buildIntervalFilter', () => {
+  const open = (property: string) => [
+    'any',
+    ['==', ['get', property], null],
+    ['==', ['get', property], ''],
+  ];
+
+  it('keeps intervals overlapping the span, open-ended where a bound is missing', () => {
+    expect(buildIntervalFilter('start', 'end', { start: d1, end: d2 })).toEqual([
+      'all',
+      ['any', open('start'), ['<', ['to-number', ['get', 'start']], d2.getTime()]],
+      ['any', open('end'), ['>=', ['to-number', ['get', 'end']], d1.getTime()]],
+    ]);
+  });
+
+  it('ignores the end when cumulative, and a bound with no property', () => {
+    expect(buildIntervalFilter('start', 'end', { start: d1, end: d2 }, true)).toEqual([
+      'all',
+      ['any', open('start'), ['<', ['to-number', ['get', 'start']], d2.getTime()]],
+    ]);
+    expect(buildIntervalFilter(undefined, 'end', { start: d1, end: d2 })).toEqual([
+      'all',
+      ['any', open('end'), ['>=', ['to-number', ['get', 'end']], d1.getTime()]],
+    ]);
+  });
+  it('rejects a spec with no time, start, or end property', () => {
+    expect(() => buildIntervalFilter(undefined, undefined, { start: d1, end: d2 })).toThrow(
+      TypeError
+    );
+    const { map } = createStubMap();
+    expect(
+      () =>
+        new GeoJsonAdapter({ type: 'geojson', id: 'g-untimed', data: 'https://x.geojson' }, { map })
+    ).toThrow(/g-untimed requires a timeProperty/);
+  });
+});
+
+describe('compileFeatureStyle', () => {
+  const collection = (values: unknown[]) => ({
+    type: 'FeatureCollection' as const,
+    features: values.map((value) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [0, 0] },
+      properties: { value },
+    })),
+  });
+  const context = { time: ['get', 'time'], span: { start: d1, end: d2 } };
+
+  it('splits the data range into equal classes for a graduated style', () => {
+    const compiled = compileFeatureStyle(
+      { by: 'graduated', property: 'value', classes: 2, colors: ['#000', '#fff'] },
+      { ...context, data: collection([0, 10, null, '']) }
+    )!;
+    // An empty string is no value, on the map as in the legend.
+    expect(compiled.color).toEqual([
+      'case',
+      ['any', ['==', ['get', 'value'], null], ['==', ['get', 'value'], '']],
+      '#999999',
+      ['step', ['to-number', ['get', 'value']], '#000', 5, '#fff'],
+    ]);
+    expect(compiled.legend).toEqual({
+      title: 'value',
+      entries: [
+        { label: '< 5', color: '#000' },
+        { label: '≥ 5', color: '#fff' },
+        { label: 'No value', color: '#999999' },
+      ],
+    });
+  });
+
+  it('derives graduated classes from a dataset too large to spread into arguments', () => {
+    const values = Array.from({ length: 150_000 }, (_, i) => i);
+    const compiled = compileFeatureStyle(
+      { by: 'graduated', property: 'value', classes: 2 },
+      { ...context, data: collection(values) }
+    )!;
+    expect(compiled.legend.entries.map((e) => e.label)).toEqual(['< 75000', '≥ 75000']);
+  });
+
+  it('sizes graduated classes and needs no data for explicit breaks', () => {
+    const compiled = compileFeatureStyle(
+      { by: 'graduated', property: 'value', breaks: [1, 2], sizes: [2, 4, 8] },
+      context
+    )!;
+    expect(compiled.size).toEqual(['step', ['to-number', ['get', 'value']], 2, 1, 4, 2, 8]);
+    expect(compiled.legend.entries.map((e) => e.label)).toEqual(['< 1', '1 – 2', '≥ 2']);
+    expect(compiled.legend.entries.map((e) => e.color)).toEqual(colormapColors('viridis', 3));
+  });
+
+  it('colours the most common categories and collects the rest as other', () => {
+    const compiled = compileFeatureStyle(
+      { by: 'categorical', property: 'value' },
+      { ...context, data: collection(['b', 'a', 'b', 7]) }
+    )!;
+    expect(compiled.color).toEqual([
+      'match',
+      ['to-string', ['get', 'value']],
+      'b',
+      '#4e79a7',
+      'a',
+      '#f28e2b',
+      '7',
+      '#e15759',
+      '#999999',
+    ]);
+    const listed = compileFeatureStyle(
+      { by: 'categorical', property: 'value', categories: { a: '#f00' }, otherColor: '#ccc' },
+      { ...context, data: collection(['a', 'b']) }
+    )!;
+    expect(listed.legend.entries).toEqual([
+      { label: 'a', color: '#f00' },
+      { label: 'Other', color: '#ccc' },
+    ]);
+  });
+
+  it('ramps a time style across the window', () => {
+    const compiled = compileFeatureStyle({ by: 'time', colormap: 'magma' }, context)!;
+    const colors = colormapColors('magma', 5);
+    const quarter = (d2.getTime() - d1.getTime()) / 4;
+    expect(compiled.color).toEqual([
+      'interpolate',
+      ['linear'],
+      ['get', 'time'],
+      ...colors.flatMap((c, i) => [d1.getTime() + i * quarter, c]),
+    ]);
+    expect(compiled.legend.title).toBe('Time');
+  });
+
+  it('cannot compile without a property, or before the data it derives from', () => {
+    expect(compileFeatureStyle({ by: 'graduated' }, context)).toBeUndefined();
+    expect(compileFeatureStyle({ by: 'categorical', property: 'value' }, context)).toBeUndefined();
+  });
+});
+
+describe('GeoJsonAdapter', () => {
+  const point = (properties: Record<string, unknown>) => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [0, 0] },
+    properties,
+  });
+
+  // URL sources are fetched by the adapter; serve an empty collection unless a
+  // test says otherwise.
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({ type: 'FeatureCollection', features: [] }),
+      }))
+    );
+  });
+
+  it('adds a filtered layer and re-filters on update', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          type: 'FeatureCollection',
+          features: [point({ time: '2024-04-18T06:00:00Z', name: 'a' })],
+        }),
+      }))
+    );
+    const { map, sources } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g1',
+        data: 'https://x.geojson',
+        timeProperty: 'time',
+        window: { unit: 'day' },
+      },
+      { map }
+    );
+    const added = adapter.add(d1);
+    // The layer goes up at once; the data follows once fetched and normalized.
+    expect(map.addSource).toHaveBeenCalledWith('g1', {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] },
+    });
+    await added;
+    expect(sources.get('g1')!.setData).toHaveBeenCalledWith({
+      type: 'FeatureCollection',
+      features: [point({ time: Date.parse('2024-04-18T06:00:00Z'), name: 'a' })],
+    });
+    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layerArg.type).toBe('circle');
+    expect(layerArg.filter).toBeDefined();
+
+    adapter.update(d2);
+    expect(map.setFilter).toHaveBeenCalledWith('g1', buildTimeFilter('time', d2, { unit: 'day' }));
+  });
+
+  it('fetches a URL through the request transform and reports a failed fetch', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => ({
+      ok: false,
+      status: 403,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { map, sources } = createStubMap();
+    const onError = vi.fn();
+    const transformRequest = vi.fn((url: string) => ({
+      url: `${url}?token=abc`,
+      headers: { Authorization: 'Bearer abc' },
+    }));
+    const adapter = new GeoJsonAdapter(
+      { type: 'geojson', id: 'g-auth', data: 'https://x.geojson', timeProperty: 'time' },
+      { map, onError, transformRequest }
+    );
+    await adapter.add(d1);
+
+    expect(transformRequest).toHaveBeenCalledWith('https://x.geojson', 'Source');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://x.geojson?token=abc');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer abc');
+    expect(onError).toHaveBeenCalledWith('g-auth', expect.any(Error));
+    expect(onError.mock.calls[0][1].message).toMatch(/403/);
+    expect(sources.get('g-auth')!.setData).toHaveBeenCalledWith({
+      type: 'FeatureCollection',
+      features: [],
+    });
+  });
+
+  it('filters by the selected window instead of its own window in range mode', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g1',
+        data: 'https://x.geojson',
+        timeProperty: 'time',
+        window: { unit: 'day' },
+      },
+      { map }
+    );
+    const range = { start: d1, end: addUnits(d2, 'day', 3) };
+    adapter.add(d2, range);
+    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layerArg.filter).toEqual(buildRangeFilter('time', range));
+
+    adapter.update(d2);
+    expect(map.setFilter).toHaveBeenCalledWith('g1', buildTimeFilter('time', d2, { unit: 'day' }));
+  });
+
+  it('filters start/end intervals against the window around the date', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g1',
+        data: { type: 'FeatureCollection', features: [] },
+        startProperty: 'start',
+        endProperty: 'end',
+        window: { unit: 'day' },
+      },
+      { map }
+    );
+    adapter.add(d1);
+    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layerArg.filter).toEqual(buildIntervalFilter('start', 'end', { start: d1, end: d2 }));
+  });
+
+  it('normalizes inline times without modifying the data, following timeFormat', () => {
+    const { map } = createStubMap();
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: [
+        point({ start: '18/04/2024', end: null }),
+        point({ start: '19/04/2024', end: '20/04/2024' }),
+        point({ start: 'unknown' }),
+      ],
+    };
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-norm',
+        data,
+        startProperty: 'start',
+        endProperty: 'end',
+        timeFormat: 'DD/MM/YYYY',
+      },
+      { map }
+    );
+    adapter.add(d1);
+    const added = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].data;
+    expect(added.features.map((f: { properties: unknown }) => f.properties)).toEqual([
+      { start: d1.getTime(), end: null },
+      { start: d2.getTime(), end: Date.UTC(2024, 3, 20) },
+      { start: 'unknown' },
+    ]);
+    expect(data.features[0].properties.start).toBe('18/04/2024');
+    expect(adapter.getTimes()).toEqual([d1.getTime(), d2.getTime()]);
+  });
+
+  it('reads epoch seconds and offset-less times in the timeline zone', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-zone',
+        data: {
+          type: 'FeatureCollection',
+          features: [point({ time: d1.getTime() / 1000 }), point({ time: '2024-04-19' })],
+        },
+        timeProperty: 'time',
+      },
+      { map, timeZone: 'America/New_York' }
+    );
+    expect(adapter.getTimes()).toEqual([d1.getTime(), Date.parse('2024-04-19T04:00:00Z')]);
+  });
+
+  it('fades features along a trail by their age at each date', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-trail',
+        data: { type: 'FeatureCollection', features: [] },
+        timeProperty: 'time',
+        cumulative: true,
+        trail: { duration: 2, unit: 'day', fadeTo: 0.2, sizeTo: 2, colorTo: '#000' },
+      },
+      { map }
+    );
+    const time = ['to-number', ['get', 'time']];
+    const fade = (date: Date, fresh: unknown, old: unknown) => [
+      'interpolate',
+      ['linear'],
+      time,
+      addUnits(date, 'day', -2).getTime(),
+      old,
+      date.getTime(),
+      fresh,
+    ];
+    adapter.add(d1);
+    const { paint } = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(paint['circle-opacity']).toEqual(fade(d1, 1, 0.2));
+    expect(paint['circle-stroke-opacity']).toEqual(fade(d1, 1, 0.2));
+    expect(paint['circle-radius']).toEqual(fade(d1, 6, 2));
+    expect(paint['circle-color']).toEqual(fade(d1, ['to-color', '#ff5533'], ['to-color', '#000']));
+
+    adapter.update(d2);
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      'g-trail',
+      'circle-opacity',
+      fade(d2, 1, 0.2)
+    );
+    adapter.setOpacity(0.5);
+    expect(map.setPaintProperty).toHaveBeenLastCalledWith(
+      'g-trail',
+      'circle-color',
+      fade(d2, ['to-color', '#ff5533'], ['to-color', '#000'])
+    );
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      'g-trail',
+      'circle-opacity',
+      fade(d2, 0.5, 0.1)
+    );
+  });
+
+  it('ages interval features from their end, open ones counting as current', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-trail2',
+        data: { type: 'FeatureCollection', features: [] },
+        startProperty: 'start',
+        endProperty: 'end',
+        geometry: 'line',
+        trail: { duration: 1 },
+      },
+      { map }
+    );
+    adapter.add(d2);
+    const { paint } = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(paint['line-opacity']).toEqual([
+      'interpolate',
+      ['linear'],
+      [
+        'case',
+        ['any', ['==', ['get', 'end'], null], ['==', ['get', 'end'], '']],
+        d2.getTime(),
+        ['to-number', ['get', 'end']],
+      ],
+      d1.getTime(),
+      0,
+      d2.getTime(),
+      1,
+    ]);
+    expect(paint['line-width']).toBe(2);
+  });
+
+  it('styles features by a property once the data loads, and restyles live', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          type: 'FeatureCollection',
+          features: [point({ kind: 'a' }), point({ kind: 'b' })],
+        }),
+      }))
+    );
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-style',
+        data: 'https://x.geojson',
+        timeProperty: 'time',
+        style: { by: 'categorical', property: 'kind' },
+      },
+      { map }
+    );
+    await adapter.add(d1);
+    // Categories come from the data, so the colour follows the fetch.
+    const match = ['match', ['to-string', ['get', 'kind']], 'a', '#4e79a7', 'b', '#f28e2b'];
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-style', 'circle-color', [
+      ...match,
+      '#999999',
+    ]);
+    expect(await adapter.getLegend()).toEqual({
+      title: 'kind',
+      entries: [
+        { label: 'a', color: '#4e79a7' },
+        { label: 'b', color: '#f28e2b' },
+      ],
+    });
+
+    // Stepping reuses the categories rather than scanning the data again.
+    adapter.update(d2);
+    adapter.update(d1);
+    const colors = (map.setPaintProperty as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([id, key]) => id === 'g-style' && key === 'circle-color')
+      .map(([, , value]) => value);
+    expect(colors.length).toBeGreaterThan(2);
+    expect(new Set(colors).size).toBe(1);
+
+    adapter.spec.style = { by: 'categorical', property: 'kind', otherColor: '#000' };
+    adapter.setProperty({ style: adapter.spec.style });
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-style', 'circle-color', [
+      ...match,
+      '#000',
+    ]);
+
+    adapter.spec.style = undefined;
+    adapter.setProperty({ style: undefined });
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-style', 'circle-color', '#ff5533');
+    expect(adapter.getLegend()).toBeUndefined();
+  });
+
+  it('moves a time style with the window on each update', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-time',
+        data: { type: 'FeatureCollection', features: [] },
+        timeProperty: 'time',
+        window: { unit: 'day' },
+        style: { by: 'time' },
+      },
+      { map }
+    );
+    const ramp = (start: Date) => {
+      const colors = colormapColors('viridis', 5);
+      const quarter = 86_400_000 / 4;
+      return [
+        'interpolate',
+        ['linear'],
+        ['to-number', ['get', 'time']],
+        ...colors.flatMap((c, i) => [start.getTime() + i * quarter, c]),
+      ];
+    };
+    adapter.add(d1);
+    const { paint } = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(paint['circle-color']).toEqual(ramp(d1));
+
+    adapter.update(d2);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-time', 'circle-color', ramp(d2));
+  });
+
+  it('labels features with a symbol layer, styling and fading its text', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-symbol',
+        data: { type: 'FeatureCollection', features: [] },
+        timeProperty: 'time',
+        geometry: 'symbol',
+        layout: { symbol: { 'text-field': ['get', 'title'] } },
+        style: { by: 'categorical', property: 'kind', categories: { a: '#f00' } },
+        trail: { duration: 1 },
+      },
+      { map }
+    );
+    adapter.add(d2);
+    const layer = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layer.type).toBe('symbol');
+    expect(layer.layout['text-field']).toEqual(['get', 'title']);
+    expect(layer.paint['text-color']).toEqual([
+      'match',
+      ['to-string', ['get', 'kind']],
+      'a',
+      '#f00',
+      '#999999',
+    ]);
+    const fade = ['interpolate', ['linear'], ['to-number', ['get', 'time']], d1.getTime(), 0];
+    expect(layer.paint['text-opacity']).toEqual([...fade, d2.getTime(), 1]);
+    expect(layer.paint['icon-opacity']).toEqual([...fade, d2.getTime(), 1]);
+
+    adapter.setOpacity(0.5);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-symbol', 'icon-opacity', [
+      ...fade,
+      d2.getTime(),
+      0.5,
+    ]);
+  });
+
+  it('draws a heatmap whose trail fades feature weights, not the layer', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-heat',
+        data: { type: 'FeatureCollection', features: [point({ kind: 'a' })] },
+        timeProperty: 'time',
+        geometry: 'heatmap',
+        paint: { heatmap: { 'heatmap-weight': ['get', 'mag'] } },
+        style: { by: 'categorical', property: 'kind' },
+        trail: { duration: 1, fadeTo: 0.25 },
+      },
+      { map }
+    );
+    adapter.add(d2);
+    const { type, paint } = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(type).toBe('heatmap');
+    expect(paint['heatmap-opacity']).toBe(1);
+    expect(paint['heatmap-weight']).toEqual([
+      '*',
+      ['get', 'mag'],
+      [
+        'interpolate',
+        ['linear'],
+        ['to-number', ['get', 'time']],
+        d1.getTime(),
+        0.25,
+        d2.getTime(),
+        1,
+      ],
+    ]);
+    // Density has no per-feature colour to style.
+    expect(paint).not.toHaveProperty('heatmap-color');
+    expect(adapter.getLegend()).toBeUndefined();
+
+    adapter.setOpacity(0.5);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-heat', 'heatmap-opacity', 0.5);
+  });
+
+  it('draws sublayers from one source that filter, fade, and toggle together', () => {
+    const { map, layers, sources } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-multi',
+        data: { type: 'FeatureCollection', features: [] },
+        timeProperty: 'time',
+        paint: { fill: { 'fill-color': '#0a0' } },
+        layers: [
+          { geometry: 'fill' },
+          { geometry: 'line', paint: { line: { 'line-color': '#050' } } },
+          { geometry: 'symbol', layout: { symbol: { 'text-field': ['get', 'title'] } } },
+        ],
+        beforeId: 'labels',
+      },
+      { map }
+    );
+    adapter.add(d1);
+    expect(adapter.getLayerIds()).toEqual(['g-multi', 'g-multi-1', 'g-multi-2']);
+    expect(map.addSource).toHaveBeenCalledTimes(1);
+    const added = [...layers.values()];
+    expect(added.map(({ layer }) => [layer.id, layer.type, layer.source])).toEqual([
+      ['g-multi', 'fill', 'g-multi'],
+      ['g-multi-1', 'line', 'g-multi'],
+      ['g-multi-2', 'symbol', 'g-multi'],
+    ]);
+    expect(added.every(({ beforeId }) => beforeId === 'labels')).toBe(true);
+    expect(added[0].layer.paint).toMatchObject({ 'fill-color': '#0a0' });
+    expect(added[1].layer.paint).toMatchObject({ 'line-color': '#050' });
+    expect(added[2].layer.layout).toMatchObject({ 'text-field': ['get', 'title'] });
+
+    adapter.update(d2);
+    const filter = buildTimeFilter('time', d2, { unit: 'day' });
+    for (const id of adapter.getLayerIds()) {
+      expect(map.setFilter).toHaveBeenCalledWith(id, filter);
+    }
+
+    adapter.setOpacity(0.4);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-multi', 'fill-opacity', 0.4);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-multi-1', 'line-opacity', 0.4);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('g-multi-2', 'text-opacity', 0.4);
+
+    adapter.setVisible(false);
+    for (const id of adapter.getLayerIds()) {
+      expect(map.setLayoutProperty).toHaveBeenCalledWith(id, 'visibility', 'none');
+    }
+
+    adapter.remove();
+    expect(layers.size).toBe(0);
+    expect(sources.has('g-multi')).toBe(false);
+  });
+
+  it('clusters only the features inside the window, and expands clicked clusters', async () => {
+    const { map, layers, sources } = createStubMap();
+    const easeTo = vi.fn();
+    Object.assign(map, { easeTo });
+    const hour = 3_600_000;
+    const at = (time: number) => point({ time });
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-cluster',
+        data: {
+          type: 'FeatureCollection',
+          features: [
+            at(d1.getTime() + hour),
+            at(d1.getTime() + 2 * hour),
+            at(d2.getTime() + hour),
+            point({}),
+          ],
+        },
+        timeProperty: 'time',
+        cluster: { radius: 40 },
+      },
+      { map }
+    );
+    adapter.add(d1);
+    expect(map.addSource).toHaveBeenCalledWith('g-cluster', {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features: [at(d1.getTime() + hour), at(d1.getTime() + 2 * hour)],
+      },
+      cluster: true,
+      clusterRadius: 40,
+      clusterMaxZoom: 14,
+    });
+    expect(adapter.getLayerIds()).toEqual([
+      'g-cluster',
+      'g-cluster-clusters',
+      'g-cluster-cluster-count',
+    ]);
+    expect(layers.get('g-cluster')!.layer.filter).toEqual(['!', ['has', 'point_count']]);
+    expect(layers.get('g-cluster-clusters')!.layer.filter).toEqual(['has', 'point_count']);
+    expect(layers.get('g-cluster-cluster-count')!.layer.layout).toMatchObject({
+      'text-field': ['get', 'point_count_abbreviated'],
+    });
+
+    // Each date re-clusters its own window rather than filtering the layers.
+    adapter.update(d2);
+    expect(sources.get('g-cluster')!.setData).toHaveBeenCalledWith({
+      type: 'FeatureCollection',
+      features: [at(d2.getTime() + hour)],
+    });
+    expect(map.setFilter).not.toHaveBeenCalled();
+
+    Object.assign(sources.get('g-cluster')!, { getClusterExpansionZoom: vi.fn(async () => 6) });
+    const [, layerId, onClick] = (map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([type]) => type === 'click'
+    )!;
+    expect(layerId).toBe('g-cluster-clusters');
+    onClick({
+      features: [
+        { geometry: { type: 'Point', coordinates: [3, 4] }, properties: { cluster_id: 9 } },
+      ],
+    });
+    await vi.waitFor(() => expect(easeTo).toHaveBeenCalledWith({ center: [3, 4], zoom: 6 }));
+
+    adapter.remove();
+    expect(map.off).toHaveBeenCalledWith('click', 'g-cluster-clusters', onClick);
+    expect(layers.size).toBe(0);
+  });
+
+  it('reports feature timestamps for the histogram, skipping non-numeric ones', async () => {
+    const { map } = createStubMap();
+    const feature = (time: unknown) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [0, 0] },
+      properties: { time },
+    });
+    const inline = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-times',
+        data: {
+          type: 'FeatureCollection',
+          features: [
+            feature(d1.getTime()),
+            feature(String(d2.getTime())),
+            feature('soon'),
+            feature(null),
+          ],
+        },
+        timeProperty: 'time',
+      },
+      { map }
+    );
+    expect(inline.getTimes()).toEqual([d1.getTime(), d2.getTime()]);
+
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ type: 'FeatureCollection', features: [feature(d1.getTime())] }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const remote = new GeoJsonAdapter(
+      { type: 'geojson', id: 'g-url', data: 'https://x.geojson', timeProperty: 'time' },
+      { map }
+    );
+    expect(await remote.getTimes()).toEqual([d1.getTime()]);
+    await remote.getTimes();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('highlights the hovered feature and describes a clicked one', () => {
+    const { map, layers } = createStubMap();
+    const drawn = [{ id: 0, properties: { time: d1.getTime(), place: 'Offshore', mag: 4.25 } }];
+    Object.assign(map, { setFeatureState: vi.fn(), queryRenderedFeatures: vi.fn(() => drawn) });
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: [
+        {
+          type: 'Feature' as const,
+          geometry: { type: 'Point' as const, coordinates: [0, 0] },
+          properties: { time: '2024-04-18T00:00:00Z', place: 'Offshore', mag: 4.25 },
+        },
+      ],
+    };
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-inspect',
+        name: 'Quakes',
+        data,
+        timeProperty: 'time',
+        inspect: true,
+      },
+      { map }
+    );
+    adapter.add(d1);
+
+    expect((map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1].generateId).toBe(true);
+    expect(adapter.getLayerIds()).toEqual(['g-inspect', 'g-inspect-highlight']);
+    const highlight = layers.get('g-inspect-highlight')!.layer;
+    expect(highlight.type).toBe('circle');
+    expect(highlight.filter).toEqual(layers.get('g-inspect')!.layer.filter);
+
+    const move = (map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([type, id]) => type === 'mousemove' && id === 'g-inspect'
+    )![2];
+    move({ features: [{ id: 3 }] });
+    expect(map.setFeatureState).toHaveBeenCalledWith(
+      { source: 'g-inspect', id: 3 },
+      { hover: true }
+    );
+    expect(map.getCanvas().style.cursor).toBe('pointer');
+
+    expect(adapter.inspect({ lngLat: [0, 0], point: [10, 20] })).toEqual({
+      title: 'Quakes',
+      rows: [
+        ['time', '2024-04-18 00:00'],
+        ['place', 'Offshore'],
+        ['mag', '4.25'],
+      ],
+    });
+    expect(map.queryRenderedFeatures).toHaveBeenCalledWith([10, 20], { layers: ['g-inspect'] });
+
+    adapter.remove();
+    expect(map.setFeatureState).toHaveBeenLastCalledWith(
+      { source: 'g-inspect', id: 3 },
+      { hover: false }
+    );
+    expect(map.off).toHaveBeenCalledWith('mousemove', 'g-inspect', move);
+    expect(layers.size).toBe(0);
+
+    // With hover off, clicks are still described but nothing is outlined.
+    const quiet = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g-quiet',
+        data,
+        timeProperty: 'time',
+        inspect: { template: 'M{mag} {place}', hover: false },
+      },
+      { map }
+    );
+    quiet.add(d1);
+    expect(quiet.getLayerIds()).toEqual(['g-quiet']);
+    expect(quiet.inspect({ lngLat: [0, 0], point: [10, 20] })).toEqual({
+      title: 'g-quiet',
+      text: 'M4.25 Offshore',
+    });
+  });
+
+  it('applies a visible default circle style when no paint is given', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      { type: 'geojson', id: 'g2', data: 'https://x.geojson', timeProperty: 'time' },
+      { map }
+    );
+    adapter.add(d1);
+    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layerArg.paint['circle-radius']).toBe(6);
+    expect(layerArg.paint['circle-color']).toBe('#ff5533');
+    expect(layerArg.paint['circle-opacity']).toBe(1);
+  });
+
+  it('lets a spec override the default paint', () => {
+    const { map } = createStubMap();
+    const adapter = new GeoJsonAdapter(
+      {
+        type: 'geojson',
+        id: 'g3',
+        data: 'https://x.geojson',
+        timeProperty: 'time',
+        paint: { circle: { 'circle-color': '#000' } },
+      },
+      { map }
+    );
+    adapter.add(d1);
+    const layerArg = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layerArg.paint['circle-color']).toBe('#000');
+  });
+});
+
+describe('VectorAdapter', () => {
+  it('adds a tiled vector source and re-filters its layer on update', () => {
+    const { map } = createStubMap();
+    const adapter = new VectorAdapter(
+      {
+        type: 'vector',
+        id: 'v1',
+        url: 'https://tiles/{z}/{x}/{y}.pbf',
+        sourceLayer: 'events',
+        timeProperty: 't',
+        paint: { circle: { 'circle-color': '#000' } },
+      },
+      { map }
+    );
+    adapter.add(d1);
+
+    const srcArg = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1];
+    expect(srcArg).toEqual({
+      type: 'vector',
+      tiles: ['https://tiles/{z}/{x}/{y}.pbf'],
+      minzoom: 0,
+      maxzoom: 14,
+    });
+    const layer = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layer['source-layer']).toBe('events');
+    expect(layer.type).toBe('circle');
+    expect(layer.paint['circle-color']).toBe('#000');
+    expect(layer.filter).toEqual(buildTimeFilter('t', d1, { unit: 'day' }));
+
+    adapter.update(d2);
+    expect(map.setFilter).toHaveBeenCalledWith('v1', buildTimeFilter('t', d2, { unit: 'day' }));
+  });
+
+  it('points at a PMTiles archive and fades both parts of a symbol layer', () => {
+    const { map } = createStubMap();
+    const adapter = new VectorAdapter(
+      {
+        type: 'vector',
+        id: 'v2',
+        url: 'pmtiles://https://data/events.pmtiles',
+        sourceLayer: 'events',
+        timeProperty: 't',
+        geometry: 'symbol',
+        layout: { symbol: { 'text-field': ['get', 'label'] } },
+      },
+      { map }
+    );
+    adapter.add(d1, { start: d1, end: d2 });
+
+    const srcArg = (map.addSource as ReturnType<typeof vi.fn>).mock.calls[0][1];
+    expect(srcArg).toEqual({ type: 'vector', url: 'pmtiles://https://data/events.pmtiles' });
+    const layer = (map.addLayer as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(layer.layout).toEqual({ 'text-field': ['get', 'label'], 'text-size': 12 });
+    expect(layer.filter).toEqual(buildRangeFilter('t', { start: d1, end: d2 }));
+
+    adapter.setOpacity(0.4);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('v2', 'text-opacity', 0.4);
+    expect(map.setPaintProperty).toHaveBeenCalledWith('v2', 'icon-opacity', 0.4);
+  });
+
+  it('outlines the hovered feature of its source layer and describes a clicked one', () => {
+    const { map, layers } = createStubMap();
+    const drawn = [{ id: 7, properties: { t: d1.getTime(), kind: 'storm' } }];
+    Object.assign(map, { setFeatureState: vi.fn(), queryRenderedFeatures: vi.fn(() => drawn) });
+    const adapter = new VectorAdapter(
+      {
+        type: 'vector',
+        id: 'v3',
+        url: 'https://tiles/{z}/{x}/{y}.pbf',
+        sourceLayer: 'events',
+        timeProperty: 't',
+        geometry: 'fill',
+        inspect: { template: '{kind} on {t}' },
+      },
+      { map }
+    );
+    adapter.add(d1);
+
+    expect(layers.get('v3-highlight')!.layer).toMatchObject({
+      type: 'line',
+      source: 'v3',
+      'source-layer': 'events',
+    });
+    adapter.update(d2);
+    expect(map.setFilter).toHaveBeenCalledWith(
+      'v3-highlight',
+      buildTimeFilter('t', d2, { unit: 'day' })
+    );
+
+    const move = (map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([type, id]) => type === 'mousemove' && id === 'v3'
+    )![2];
+    move({ features: [{ id: 7 }] });
+    expect(map.setFeatureState).toHaveBeenCalledWith(
+      { source: 'v3', sourceLayer: 'events', id: 7 },
+      { hover: true }
+    );
+    expect(adapter.inspect({ lngLat: [0, 0], point: [1, 2] })).toEqual({
+      title: 'v3',
+      text: 'storm on 2024-04-18 00:00',
+    });
   });
 });
 
@@ -0,0 +1,95 @@
+import type {
+  CircleLayerSpecification,
+  FillLayerSpecification,
+  HeatmapLayerSpecification,
+  LineLayerSpecification,
+  SymbolLayerSpecification,
+} from 'maplibre-gl';
+import type { FeatureLayout, GeoJsonPaint, GeoJsonTimeWindow } from '../core/types';
+
+/**
+ * Default window applied when a feature source's spec omits one: show features
+ * dated within the current day.
+ */
+export const DEFAULT_WINDOW: Required<GeoJsonTimeWindow> = { unit: 'day', before: 0, after: 1 };
+
+/**
+ * A geometry kind a feature source (GeoJSON or vector tiles) can draw.
+ */
+export type FeatureGeometry = keyof typeof GEOMETRY_CONFIG;
+
+/**
+ * Layer type and opacity paint keys for each supported geometry kind. A symbol
+ * layer fades its text and icon separately, so it has two.
+ */
+export const GEOMETRY_CONFIG = {
+  circle: { layerType: 'circle' as const, opacityKeys: ['circle-opacity'] },
+  fill: { layerType: 'fill' as const, opacityKeys: ['fill-opacity'] },
+  line: { layerType: 'line' as const, opacityKeys: ['line-opacity'] },
+  symbol: { layerType: 'symbol' as const, opacityKeys: ['text-opacity', 'icon-opacity'] },
+  heatmap: { layerType: 'heatmap' as const, opacityKeys: ['heatmap-opacity'] },
+};
+
+/**
+ * Visible default paint per geometry, used when a spec provides none. MapLibre's
+ * built-in defaults (tiny black fills) are easy to miss, so these give an
+ * unstyled layer a sensible, clearly visible appearance. User-supplied paint
+ * always overrides these.
+ */
+const DEFAULT_PAINT: {
+  circle: CircleLayerSpecification['paint'];
+  fill: FillLayerSpecification['paint'];
+  line: LineLayerSpecification['paint'];
+  symbol: SymbolLayerSpecification['paint'];
+  heatmap: HeatmapLayerSpecification['paint'];
+} = {
+  circle: {
+    'circle-radius': 6,
+    'circle-color': '#ff5533',
+    'circle-stroke-color': '#ffffff',
+    'circle-stroke-width': 1,
+  },
+  fill: { 'fill-color': '#3388ff' },
+  line: { 'line-color': '#3388ff', 'line-width': 2 },
+  symbol: { 'text-color': '#222222', 'text-halo-color': '#ffffff', 'text-halo-width': 1 },
+  // MapLibre's own density ramp, with a radius under its 30px default so
+  // neighbouring events stay apart at low zooms.
+  heatmap: { 'heatmap-radius': 20 },
+};
+
+/**
+ * Default symbol layout: a label from the feature's `name`, which most
+ * datasets carry. Spec layout entries override it.
+ */
+const DEFAULT_SYMBOL_LAYOUT: SymbolLayerSpecification['layout'] = {
+  'text-field': ['get', 'name'],
+  'text-size': 12,
+};
+
+/**
+ * The layer type, paint, and layout a feature layer is created with: the
+ * geometry's defaults overlaid with the spec's own, at the given opacity.
+ *
+ * @param geometry - The geometry kind
+ * @param opacity - The layer opacity
+ * @param paint - The spec's paint, keyed by geometry
+ * @param layout - The spec's layout, keyed by geometry
+ * @returns The layer fields to pass to `addLayer`
+ */
+export function featureLayerStyle(
+  geometry: FeatureGeometry,
+  opacity: number,
+  paint?: GeoJsonPaint,
+  layout?: FeatureLayout
+): { type: FeatureGeometry; paint: Record<string, unknown>; layout?: Record<string, unknown> } {
+  const { layerType, opacityKeys } = GEOMETRY_CONFIG[geometry];
+  return {
+    type: layerType,
+    paint: {
+      ...DEFAULT_PAINT[geometry],
+      ...(paint?.[geometry] ?? {}),
+      ...Object.fromEntries(opacityKeys.map((key) => [key, opacity])),
+    },
+    ...(geometry === 'symbol' ? { layout: { ...DEFAULT_SYMBOL_LAYOUT, ...layout?.symbol } } : {}),
+  };
+}
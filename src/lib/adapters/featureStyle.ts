@@ -0,0 +1,235 @@
+import type { FeatureCollection } from 'geojson';
+import type { GeoJsonStyle, LegendEntry, SourceLegend, TimeRange } from '../core/types';
+import { colormapColors } from '../utils/colormap';
+
+/**
+ * Colours of categories a style does not list itself: Tableau 10, a palette
+ * whose neighbours stay distinguishable.
+ */
+const CATEGORY_PALETTE = [
+  '#4e79a7',
+  '#f28e2b',
+  '#e15759',
+  '#76b7b2',
+  '#59a14f',
+  '#edc948',
+  '#b07aa1',
+  '#ff9da7',
+  '#9c755f',
+  '#bab0ac',
+];
+
+/**
+ * Colour of features a style does not cover, unless the style names its own.
+ */
+const DEFAULT_OTHER_COLOR = '#999999';
+
+/**
+ * Colormap of graduated classes and time ramps that do not name their own.
+ */
+const DEFAULT_COLORMAP = 'viridis';
+
+/**
+ * Classes a graduated style splits the data's range into by default.
+ */
+const DEFAULT_CLASSES = 5;
+
+/**
+ * Stops of the colour ramp a time style interpolates along.
+ */
+const TIME_STOPS = 5;
+
+/**
+ * A style compiled for a layer: colour (and optionally size) expressions, and
+ * the legend that explains them.
+ */
+export interface CompiledStyle {
+  /** The colour paint value: an expression over the feature's properties. */
+  color: unknown;
+  /** The circle radius or line width paint value, when the style sizes features. */
+  size?: unknown;
+  legend: SourceLegend;
+}
+
+/**
+ * What a style is compiled against.
+ */
+export interface StyleContext {
+  /** The source's data, once loaded; needed for breaks and categories the style leaves to it. */
+  data?: FeatureCollection;
+  /** An expression for each feature's time in epoch milliseconds. */
+  time: unknown;
+  /** The window the timeline currently shows. */
+  span: TimeRange;
+}
+
+/**
+ * Rounds a class boundary for display.
+ */
+function formatValue(value: number): string {
+  return String(Number(value.toPrecision(4)));
+}
+
+/**
+ * Whether a property value counts as missing: absent, `null`, or `''`.
+ */
+function isMissing(value: unknown): boolean {
+  return value == null || value === '';
+}
+
+/**
+ * Compiles a graduated style: a `step` over the numeric property.
+ */
+function compileGraduated(
+  style: GeoJsonStyle,
+  property: string,
+  other: string,
+  data?: FeatureCollection
+): CompiledStyle | undefined {
+  const values = (data?.features ?? []).map((feature) => feature.properties?.[property]);
+  let { breaks } = style;
+  if (!breaks) {
+    if (!data) return undefined;
+    const numbers = values
+      .filter((v) => !isMissing(v))
+      .map(Number)
+      .filter(Number.isFinite);
+    // A loop rather than Math.min(...numbers), which overflows the call stack
+    // on large datasets.
+    let min = Infinity;
+    let max = -Infinity;
+    for (const n of numbers) {
+      if (n < min) min = n;
+      if (n > max) max = n;
+    }
+    const classes = Math.max(1, style.classes ?? DEFAULT_CLASSES);
+    breaks =
+      numbers.length > 0 && max > min
+        ? Array.from({ length: classes - 1 }, (_, i) => min + ((i + 1) * (max - min)) / classes)
+        : [];
+  }
+  const count = breaks.length + 1;
+  const colors = style.colors?.length
+    ? style.colors
+    : colormapColors(style.colormap ?? DEFAULT_COLORMAP, count);
+  const colorOf = (i: number): string => colors[Math.min(i, colors.length - 1)];
+  const step = (outputs: (i: number) => unknown): unknown =>
+    breaks.length === 0
+      ? outputs(0)
+      : [
+          'step',
+          ['to-number', ['get', property]],
+          outputs(0),
+          ...breaks.flatMap((b, i) => [b, outputs(i + 1)]),
+        ];
+  // The same values isMissing counts, so the map agrees with the legend.
+  const missing = ['any', ['==', ['get', property], null], ['==', ['get', property], '']];
+
+  const entries: LegendEntry[] = Array.from({ length: count }, (_, i) => ({
+    label:
+      breaks.length === 0
+        ? 'All values'
+        : i === 0
+          ? `< ${formatValue(breaks[0])}`
+          : i === breaks.length
+            ? `≥ ${formatValue(breaks[i - 1])}`
+            : `${formatValue(breaks[i - 1])} – ${formatValue(breaks[i])}`,
+    color: colorOf(i),
+  }));
+  if (values.some(isMissing)) entries.push({ label: 'No value', color: other });
+
+  const { sizes } = style;
+  return {
+    color: ['case', missing, other, step(colorOf)],
+    ...(sizes?.length ? { size: step((i) => sizes[Math.min(i, sizes.length - 1)]) } : {}),
+    legend: { title: property, entries },
+  };
+}
+
+/**
+ * Compiles a categorical style: a `match` on the property's value as a string.
+ */
+function compileCategorical(
+  style: GeoJsonStyle,
+  property: string,
+  other: string,
+  data?: FeatureCollection
+): CompiledStyle | undefined {
+  const values = (data?.features ?? [])
+    .map((feature) => feature.properties?.[property])
+    .filter((v) => !isMissing(v))
+    .map(String);
+  let listed: [string, string][];
+  if (style.categories) {
+    listed = Object.entries(style.categories);
+  } else {
+    if (!data) return undefined;
+    // The most common values, ties in order of first appearance. Kept as pairs
+    // rather than a record, where numeric-looking keys would sort first.
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+    listed = [...counts.keys()]
+      .sort((a, b) => counts.get(b)! - counts.get(a)!)
+      .slice(0, CATEGORY_PALETTE.length)
+      .map((value, i) => [value, CATEGORY_PALETTE[i]]);
+  }
+  const entries: LegendEntry[] = listed.map(([label, color]) => ({ label, color }));
+  const known = new Set(listed.map(([value]) => value));
+  const covered = data?.features.every((feature) => {
+    const value = feature.properties?.[property];
+    return !isMissing(value) && known.has(String(value));
+  });
+  if (covered === false) entries.push({ label: 'Other', color: other });
+  return {
+    color:
+      listed.length === 0
+        ? other
+        : ['match', ['to-string', ['get', property]], ...listed.flat(), other],
+    legend: { title: property, entries },
+  };
+}
+
+/**
+ * Compiles a time style: the colormap interpolated across the current window.
+ */
+function compileTime(style: GeoJsonStyle, time: unknown, span: TimeRange): CompiledStyle {
+  const colors = colormapColors(style.colormap ?? DEFAULT_COLORMAP, TIME_STOPS);
+  const start = span.start.getTime();
+  const step = (span.end.getTime() - start) / (TIME_STOPS - 1);
+  return {
+    color:
+      step > 0
+        ? ['interpolate', ['linear'], time, ...colors.flatMap((c, i) => [start + i * step, c])]
+        : colors[colors.length - 1],
+    legend: {
+      title: 'Time',
+      entries: [
+        { label: 'Start of window', color: colors[0] },
+        { label: 'End of window', color: colors[colors.length - 1] },
+      ],
+    },
+  };
+}
+
+/**
+ * Compiles a declarative feature style to paint values and a legend.
+ * Breaks and categories the style leaves to the data are derived from it, so
+ * those styles cannot compile before the data has loaded.
+ *
+ * @param style - The style
+ * @param context - The data, time expression, and current window
+ * @returns The compiled style, or undefined when it cannot be compiled (a
+ *   graduated or categorical style without a property, or without the data it
+ *   needs yet)
+ */
+export function compileFeatureStyle(
+  style: GeoJsonStyle,
+  context: StyleContext
+): CompiledStyle | undefined {
+  const other = style.otherColor ?? DEFAULT_OTHER_COLOR;
+  if (style.by === 'time') return compileTime(style, context.time, context.span);
+  if (!style.property) return undefined;
+  return style.by === 'graduated'
+    ? compileGraduated(style, style.property, other, context.data)
+    : compileCategorical(style, style.property, other, context.data);
+}
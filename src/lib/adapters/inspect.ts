@@ -0,0 +1,152 @@
+import type { Map as MapLibreMap, MapLayerMouseEvent } from 'maplibre-gl';
+import type { SourceInspect } from '../core/types';
+import { formatDate } from '../template/dateFormat';
+import { fillProperties, formatProperty } from '../template/propertyTemplate';
+import type { FeatureGeometry } from './featureLayers';
+import type { InspectContent } from './types';
+
+/**
+ * Colour of the outline drawn around the feature under the pointer.
+ */
+const HIGHLIGHT_COLOR = '#ffcc00';
+
+/**
+ * Full strength on the feature whose `hover` state is set, invisible on every
+ * other.
+ */
+const HOVERED = ['case', ['boolean', ['feature-state', 'hover'], false], 1, 0];
+
+/**
+ * How a popup shows a feature's time properties, which the adapters hold as
+ * epoch milliseconds.
+ */
+const TIME_FORMAT = 'YYYY-MM-DD HH:mm';
+
+/**
+ * The spec's inspect options, or undefined when it does not inspect.
+ *
+ * @param inspect - The spec's `inspect` field
+ */
+export function inspectOptions(inspect?: boolean | SourceInspect): SourceInspect | undefined {
+  return inspect === true ? {} : inspect || undefined;
+}
+
+/**
+ * A feature's properties with its time properties as readable dates.
+ *
+ * @param properties - The feature's properties
+ * @param names - The spec's time property names (unset ones are skipped)
+ * @param timeZone - IANA zone the dates read in (default UTC)
+ * @returns A copy of the properties
+ */
+export function formatTimes(
+  properties: Record<string, unknown>,
+  names: Array<string | undefined>,
+  timeZone?: string
+): Record<string, unknown> {
+  const formatted = { ...properties };
+  for (const name of names) {
+    const value = name === undefined ? undefined : properties[name];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      formatted[name as string] = formatDate(new Date(value), TIME_FORMAT, timeZone);
+    }
+  }
+  return formatted;
+}
+
+/**
+ * The popup content for a feature (or a COG's band values): the template
+ * filled from its properties, or a row per property.
+ *
+ * @param title - The popup heading
+ * @param properties - The feature's properties
+ * @param template - The spec's popup template, if any
+ * @returns The content to show
+ */
+export function inspectContent(
+  title: string,
+  properties: Record<string, unknown>,
+  template?: string
+): InspectContent {
+  if (template) return { title, text: fillProperties(template, properties) };
+  return {
+    title,
+    rows: Object.entries(properties).map(([name, value]) => [name, formatProperty(value)]),
+  };
+}
+
+/**
+ * The layer that outlines the feature under the pointer: a ring around
+ * points and labels, a line along lines and polygon edges. A heatmap has no
+ * single feature to outline.
+ *
+ * @param geometry - The geometry kind the source draws
+ * @returns The layer fields to pass to `addLayer`, or undefined for a heatmap
+ */
+export function highlightLayerStyle(
+  geometry: FeatureGeometry
+): { type: 'circle' | 'line'; paint: Record<string, unknown> } | undefined {
+  if (geometry === 'heatmap') return undefined;
+  if (geometry === 'circle' || geometry === 'symbol') {
+    return {
+      type: 'circle',
+      paint: {
+        'circle-radius': 10,
+        'circle-opacity': 0,
+        'circle-stroke-width': 3,
+        'circle-stroke-color': HIGHLIGHT_COLOR,
+        'circle-stroke-opacity': HOVERED,
+      },
+    };
+  }
+  return {
+    type: 'line',
+    paint: { 'line-color': HIGHLIGHT_COLOR, 'line-width': 3, 'line-opacity': HOVERED },
+  };
+}
+
+/**
+ * Sets the `hover` feature state on the feature under the pointer while it is
+ * over the given layers, for a highlight layer to draw, and shows a pointer
+ * cursor there. Features need ids: a GeoJSON source generates them, vector
+ * tiles must carry them.
+ *
+ * @param map - The map
+ * @param layerIds - The layers whose features highlight
+ * @param target - The source (and source layer, for vector tiles) the features belong to
+ * @returns A function that clears the highlight and unbinds the listeners
+ */
+export function bindHover(
+  map: MapLibreMap,
+  layerIds: string[],
+  target: { source: string; sourceLayer?: string }
+): () => void {
+  let hovered: string | number | undefined;
+  const clear = (): void => {
+    if (hovered !== undefined && map.getSource?.(target.source)) {
+      map.setFeatureState({ ...target, id: hovered }, { hover: false });
+    }
+    hovered = undefined;
+    map.getCanvas().style.cursor = '';
+  };
+  const move = (event: MapLayerMouseEvent): void => {
+    const id = event.features?.[0]?.id;
+    if (id === hovered) return;
+    clear();
+    if (id === undefined) return;
+    hovered = id;
+    map.setFeatureState({ ...target, id }, { hover: true });
+    map.getCanvas().style.cursor = 'pointer';
+  };
+  for (const layerId of layerIds) {
+    map.on('mousemove', layerId, move);
+    map.on('mouseleave', layerId, clear);
+  }
+  return () => {
+    clear();
+    for (const layerId of layerIds) {
+      map.off('mousemove', layerId, move);
+      map.off('mouseleave', layerId, clear);
+    }
+  };
+}
@@ -3,6 +3,7 @@ import type {
   MosaicSourceSpec,
   ResolvedSourceSpec,
   SourceSpec,
+  TimeRange,
 } from '../core/types';
 import { clamp, generateId } from '../utils/helpers';
 import { BaseAdapter } from './BaseAdapter';
@@ -10,8 +11,15 @@ import { CogAdapter } from './CogAdapter';
 import { MosaicAdapter } from './MosaicAdapter';
 import { XyzAdapter } from './XyzAdapter';
 import { WmsAdapter } from './WmsAdapter';
+import { WmtsAdapter } from './WmtsAdapter';
+import { ArcGisAdapter } from './ArcGisAdapter';
+import { ZarrAdapter } from './ZarrAdapter';
+import { VideoAdapter } from './VideoAdapter';
+import { ImageAdapter } from './ImageAdapter';
 import { GeoJsonAdapter } from './GeoJsonAdapter';
-import type { AdapterContext, SourceAdapter } from './types';
+import { StacAdapter } from './StacAdapter';
+import { VectorAdapter } from './VectorAdapter';
+import type { AdapterContext, InspectContent, InspectTarget, SourceAdapter } from './types';
 
 /**
  * Creates an adapter for a built-in (non-custom) source spec. The spec must
@@ -46,8 +54,22 @@ function createResolvedAdapter(
       return new XyzAdapter(spec, ctx);
     case 'wms':
       return new WmsAdapter(spec, ctx);
+    case 'wmts':
+      return new WmtsAdapter(spec, ctx);
+    case 'arcgis':
+      return new ArcGisAdapter(spec, ctx);
+    case 'zarr':
+      return new ZarrAdapter(spec, ctx);
+    case 'image':
+      return new ImageAdapter(spec, ctx);
+    case 'video':
+      return new VideoAdapter(spec, ctx);
+    case 'stac':
+      return new StacAdapter(spec, ctx);
     case 'geojson':
       return new GeoJsonAdapter(spec, ctx);
+    case 'vector':
+      return new VectorAdapter(spec, ctx);
     default:
       throw new Error(`Unsupported source type: ${(spec as { type: string }).type}`);
   }
@@ -69,7 +91,7 @@ class CustomAdapter extends BaseAdapter {
     this.ctx = ctx;
   }
 
-  async add(date: Date): Promise<void> {
+  async add(date: Date, range?: TimeRange): Promise<void> {
     this.lastDate = date;
     const resolved = await this.spec.resolve(date);
     this.inner = createResolvedAdapter(
@@ -81,13 +103,13 @@ class CustomAdapter extends BaseAdapter {
       },
       this.ctx
     );
-    await this.inner.add(date);
+    await this.inner.add(date, range);
   }
 
-  async update(date: Date): Promise<void> {
+  async update(date: Date, range?: TimeRange): Promise<void> {
     this.lastDate = date;
     if (!this.inner) {
-      await this.add(date);
+      await this.add(date, range);
       return;
     }
     const resolved = await this.spec.resolve(date);
@@ -104,11 +126,11 @@ class CustomAdapter extends BaseAdapter {
         },
         this.ctx
       );
-      await this.inner.add(date);
+      await this.inner.add(date, range);
       return;
     }
     Object.assign(this.inner.spec as unknown as Record<string, unknown>, resolved);
-    await this.inner.update(date);
+    await this.inner.update(date, range);
   }
 
   setOpacity(opacity: number): void {
@@ -116,6 +138,14 @@ class CustomAdapter extends BaseAdapter {
     this.inner?.setOpacity(this.opacity);
   }
 
+  override getLayerIds(): string[] {
+    return this.inner?.getLayerIds() ?? [this.id];
+  }
+
+  inspect(target: InspectTarget): InspectContent | undefined | Promise<InspectContent | undefined> {
+    return this.inner?.inspect?.(target);
+  }
+
   remove(): void {
     this.inner?.remove();
   }
@@ -1,5 +1,5 @@
-import type { Map as MapLibreMap } from 'maplibre-gl';
-import type { SourceSpec } from '../core/types';
+import type { Map as MapLibreMap, RequestTransformFunction } from 'maplibre-gl';
+import type { Granularity, SourceLegend, SourceSpec, TimeRange } from '../core/types';
 
 /**
  * Shared context handed to every adapter at construction.
@@ -26,6 +26,98 @@ export interface AdapterContext {
    * @param available - Whether the current date has data
    */
   onDataStatus?: (id: string, available: boolean) => void;
+
+  /**
+   * Reports a load that failed (a network error, or an HTTP error other than
+   * a missing file), as opposed to a date that has no data.
+   *
+   * @param id - The reporting source's id
+   * @param error - What went wrong
+   */
+  onError?: (id: string, error: Error) => void;
+
+  /**
+   * The map's `transformRequest`, for adapters that fetch data themselves
+   * rather than through a MapLibre source.
+   */
+  transformRequest?: RequestTransformFunction;
+
+  /**
+   * IANA time zone the timeline runs in. URL date tokens expand on this zone's
+   * wall clock, so `{YYYY}-{MM}-{DD}` names the local day. Defaults to UTC.
+   */
+  timeZone?: string;
+
+  /**
+   * The timeline's current span, for sources that query a catalog over the
+   * timeline (a STAC search with no explicit `datetime`).
+   */
+  getTimelineRange?: () => TimeRange;
+
+  /**
+   * The timeline steps around a date, for sources that preload the data of
+   * the dates playback is about to reach (an image sequence).
+   *
+   * @param date - A timeline date
+   * @param count - The most steps to take on each side
+   * @returns The steps after the date, then those before it, nearest first
+   */
+  getAdjacentDates?: (date: Date, count: number) => Date[];
+
+  /**
+   * Hands the control the dates a source found its data at, so the timeline
+   * steps through them. Sources that discover their own dates (a STAC search)
+   * call this once the dates are known.
+   *
+   * @param id - The reporting source's id
+   * @param dates - The dates the source has data for
+   */
+  onDates?: (id: string, dates: Date[]) => void;
+
+  /**
+   * Hands the control the time extent a source's metadata advertises, so the
+   * timeline spans it. Sources that read service metadata (an ArcGIS
+   * `timeInfo`) call this once it is known.
+   *
+   * @param id - The reporting source's id
+   * @param extent - The advertised span, with its step when the metadata has one
+   */
+  onTimeExtent?: (id: string, extent: SourceTimeExtent) => void;
+}
+
+/**
+ * A time extent a source advertises, in timeline terms.
+ */
+export interface SourceTimeExtent {
+  start: Date;
+  end: Date;
+  /** The unit the source's times are spaced in. */
+  granularity?: Granularity;
+  /** How many units apart the source's times are. */
+  interval?: number;
+}
+
+/**
+ * Where the user clicked to inspect the map.
+ */
+export interface InspectTarget {
+  /** The clicked location as `[lng, lat]`. */
+  lngLat: [number, number];
+  /** The clicked pixel as `[x, y]`, relative to the map container. */
+  point: [number, number];
+}
+
+/**
+ * What an inspect popup shows: a heading and either text from the source's
+ * template or a table of properties.
+ */
+export interface InspectContent {
+  /** The popup heading, usually the source's name. */
+  title: string;
+  /** Text filled in from the source's template. */
+  text?: string;
+  /** Name and value pairs, in order. */
+  rows?: Array<[string, string]>;
 }
 
 /**
@@ -34,7 +126,8 @@ export interface AdapterContext {
  */
 export interface SourceAdapter {
   /**
-   * Stable identifier (also used as the MapLibre source and layer id).
+   * Stable identifier (also used as the MapLibre source id, and the layer id
+   * of a source drawn by one layer).
    */
   readonly id: string;
 
@@ -47,15 +140,21 @@ export interface SourceAdapter {
    * Creates the MapLibre source and layer for the initial date.
    *
    * @param date - The current timeline date
+   * @param range - In range mode, the selected window as a half-open span
+   *   `[start, end)` covering every step between the handles
    */
-  add(date: Date): Promise<void> | void;
+  add(date: Date, range?: TimeRange): Promise<void> | void;
 
   /**
-   * Re-renders the source for a new date.
+   * Re-renders the source for a new date. Sources that draw a single date (every
+   * raster) render `date` and ignore `range`; sources that can show a span of
+   * time (GeoJSON) render the window instead when one is given.
    *
    * @param date - The new timeline date
+   * @param range - In range mode, the selected window as a half-open span
+   *   `[start, end)` covering every step between the handles
    */
-  update(date: Date): Promise<void> | void;
+  update(date: Date, range?: TimeRange): Promise<void> | void;
 
   /**
    * Sets the layer opacity.
@@ -64,6 +163,12 @@ export interface SourceAdapter {
    */
   setOpacity(opacity: number): void;
 
+  /**
+   * Ids of the MapLibre layers the source draws with: just {@link id} for most
+   * sources, several for a GeoJSON source with sublayers.
+   */
+  getLayerIds(): string[];
+
   /**
    * Shows or hides the layer without removing it from the map.
    *
@@ -79,6 +184,36 @@ export interface SourceAdapter {
    */
   setProperty?(patch: Partial<SourceSpec>): void | Promise<void>;
 
+  /**
+   * URLs of what the source would load to draw `date` over the current
+   * viewport, so the control can fetch them into the browser cache ahead of
+   * playback. Only tiled raster sources implement this.
+   *
+   * @param date - An upcoming timeline date
+   */
+  prefetchUrls?(date: Date): string[] | Promise<string[]>;
+
+  /**
+   * Timestamps (epoch ms) of the source's data, counted by the axis histogram.
+   * Only sources that know when each of their records is dated implement this.
+   */
+  getTimes?(): number[] | Promise<number[]>;
+
+  /**
+   * A legend for the source's current styling, for sources styled from their
+   * data; undefined when the source has none.
+   */
+  getLegend?(): SourceLegend | undefined | Promise<SourceLegend | undefined>;
+
+  /**
+   * Describes what the source has at a clicked point for the current date;
+   * undefined when it has nothing there. Only sources with `inspect` enabled
+   * implement this.
+   *
+   * @param target - The clicked location and pixel
+   */
+  inspect?(target: InspectTarget): InspectContent | undefined | Promise<InspectContent | undefined>;
+
   /**
    * Removes the layer and source from the map.
    */
@@ -71,6 +71,64 @@ describe('TimeSliderControl state', () => {
     expect(control.getDateFormat()).toBe('MMM YYYY');
   });
 
+  it('steps and labels days in the configured time zone', () => {
+    const { control } = mount({
+      startDate: '2024-03-09T08:00:00Z',
+      endDate: '2024-03-12T07:00:00Z',
+      timeZone: 'America/Los_Angeles',
+    });
+    expect(control.getTimeZone()).toBe('America/Los_Angeles');
+    control.next();
+    control.next();
+    // Past the spring-forward change, local midnight is 07:00 UTC.
+    expect(iso(control.getCurrentDate())).toBe('2024-03-11T07:00:00.000Z');
+  });
+
+  it('defaults to UTC and rejects unknown time zones', () => {
+    expect(new TimeSliderControl({ ...BASE }).getTimeZone()).toBe('UTC');
+    expect(() => new TimeSliderControl({ ...BASE, timeZone: 'Nowhere/Special' })).toThrow(
+      RangeError
+    );
+  });
+
+  it('derives minute and second date formats for sub-hour granularities', () => {
+    const control = new TimeSliderControl({ ...BASE, granularity: 'minute' });
+    expect(control.getDateFormat()).toBe('YYYY MMM DD HH:mm');
+    control.setGranularity('second');
+    expect(control.getDateFormat()).toBe('YYYY MMM DD HH:mm:ss');
+  });
+
+  it('labels weeks by ISO week and quarters by number', () => {
+    const control = new TimeSliderControl({ ...BASE, granularity: 'week' });
+    expect(control.getDateFormat()).toBe('GGGG [W]WW');
+    control.setGranularity('quarter');
+    expect(control.getDateFormat()).toBe('YYYY [Q]Q');
+  });
+
+  it('steps a weekly timeline on Mondays across the new year', () => {
+    const { control } = mount({
+      startDate: '2024-12-19T00:00:00Z',
+      endDate: '2025-01-31T00:00:00Z',
+      granularity: 'week',
+    });
+    expect(iso(control.getCurrentDate())).toBe('2024-12-23T00:00:00.000Z');
+    control.next();
+    control.next();
+    expect(iso(control.getCurrentDate())).toBe('2025-01-06T00:00:00.000Z');
+  });
+
+  it('offers only the hour-and-coarser pills unless sub-hour ones are requested', () => {
+    expect(new TimeSliderControl({ ...BASE }).getGranularities()).toEqual([
+      'hour',
+      'day',
+      'month',
+      'year',
+    ]);
+    const control = new TimeSliderControl({ ...BASE, granularities: ['hour', 'minute'] });
+    control.setGranularities(['year', 'second', 'minute']);
+    expect(control.getGranularities()).toEqual(['second', 'minute', 'year']);
+  });
+
   it('uses an explicit dateFormat over the granularity default', () => {
     const control = new TimeSliderControl({ ...BASE, granularity: 'hour', dateFormat: 'YYYY' });
     expect(control.getDateFormat()).toBe('YYYY');
@@ -165,6 +223,66 @@ describe('TimeSliderControl playback', () => {
     const { control } = mount();
     expect(control.getState().isPlaying).toBe(false);
   });
+
+  it('waitForRender holds each step until its sources have updated', async () => {
+    const { control } = mount({ speed: 1000, waitForRender: true });
+    let hold: Promise<void> = Promise.resolve();
+    let finish!: () => void;
+    control.addSource({
+      type: 'custom',
+      id: 'slow',
+      resolve: async () => {
+        await hold;
+        return { type: 'xyz', tiles: 'https://t/{z}/{x}/{y}.png' };
+      },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    hold = new Promise((resolve) => (finish = resolve));
+    const frameready = vi.fn();
+    control.on('frameready', frameready);
+
+    control.play();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+    expect(frameready).toHaveBeenCalledTimes(1);
+    // 19 April is still loading, so playback stays put however long it takes.
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+
+    finish();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(frameready).toHaveBeenCalledTimes(2);
+    // The slow step already outlasted `speed`, so the next one follows at once.
+    await vi.advanceTimersByTimeAsync(1);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-20T00:00:00.000Z');
+    control.pause();
+  });
+
+  it('waitForRender gives up on a map that never goes idle after renderTimeout', async () => {
+    const { control, stub } = mount({ speed: 1000, waitForRender: true, renderTimeout: 3000 });
+    (stub.map.once as ReturnType<typeof vi.fn>).mockImplementation(() => undefined);
+    control.play();
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-18T00:00:00.000Z');
+    await vi.advanceTimersByTimeAsync(2);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+    control.pause();
+  });
+
+  it('setWaitForRender switches a running playback and persists in the config', async () => {
+    const { control } = mount({ speed: 1000 });
+    expect(control.getConfig().waitForRender).toBeUndefined();
+    control.play();
+    control.setWaitForRender(true);
+    expect(control.getWaitForRender()).toBe(true);
+    expect(control.getConfig().waitForRender).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+    control.pause();
+    // Nothing is left scheduled once paused.
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+  });
 });
 
 describe('TimeSliderControl sources', () => {
@@ -214,6 +332,671 @@ describe('TimeSliderControl sources', () => {
     expect(control.getState().isPlaying).toBe(true);
     control.pause();
   });
+
+  it('hands sources its transformRequest and emits sourceerror when one fails to load', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => ({
+      ok: false,
+      status: 500,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { control } = mount({
+      transformRequest: (url) => ({ url: `${url}?key=1` }),
+    });
+    const errors: Array<[string | undefined, string | undefined]> = [];
+    control.on('sourceerror', (e) => errors.push([e.sourceId, e.error?.message]));
+    control.addSource({ type: 'geojson', id: 'g', data: 'https://e/g.json', timeProperty: 't' });
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://e/g.json?key=1');
+    expect(errors[0][0]).toBe('g');
+    expect(errors[0][1]).toMatch(/500/);
+    control.onRemove();
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('TimeSliderControl STAC sources', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stac = (id: string) => ({
+    type: 'stac' as const,
+    id,
+    url: `https://stac/${id}`,
+    collection: 's2',
+    asset: 'visual',
+  });
+
+  // Each API answers with items on the given days.
+  function stubApis(days: Record<string, string[]>): void {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const id = url.match(/^https:\/\/stac\/(\w+)\/search$/)?.[1];
+        const features = (id ? days[id] : []).map((day, i) => ({
+          id: `${id}-${i}`,
+          properties: { datetime: `${day}T10:00:00Z` },
+          assets: { visual: { href: `https://data/${id}-${i}.tif` } },
+        }));
+        return { ok: true, json: async () => ({ features, links: [] }) };
+      })
+    );
+  }
+
+  it("steps the timeline through the union of the sources' item dates", async () => {
+    stubApis({ a: ['2024-05-02', '2024-05-09'], b: ['2024-05-05'] });
+    const { control } = mount({ sources: [stac('a'), stac('b')] });
+
+    await vi.waitFor(() => expect(control.getDates()).toHaveLength(3));
+    expect(control.getDates()!.map(iso)).toEqual([
+      '2024-05-02T10:00:00.000Z',
+      '2024-05-05T10:00:00.000Z',
+      '2024-05-09T10:00:00.000Z',
+    ]);
+
+    control.removeSource('b');
+    expect(control.getDates()!.map(iso)).toEqual([
+      '2024-05-02T10:00:00.000Z',
+      '2024-05-09T10:00:00.000Z',
+    ]);
+  });
+});
+
+describe('TimeSliderControl ArcGIS sources', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("spans the timeline over a synced service's time extent", async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          timeInfo: {
+            timeExtent: [Date.UTC(2020, 0, 6), Date.UTC(2020, 2, 30)],
+            timeInterval: 2,
+            timeIntervalUnits: 'esriTimeUnitsWeeks',
+          },
+        }),
+      }))
+    );
+    const { control } = mount({
+      sources: [
+        {
+          type: 'arcgis',
+          id: 'a',
+          url: 'https://e/arcgis/rest/services/x/MapServer',
+          syncTimeline: true,
+        },
+      ],
+    });
+
+    await vi.waitFor(() => expect(control.getState().granularity).toBe('week'));
+    const state = control.getState();
+    expect(iso(state.startDate)).toBe('2020-01-06T00:00:00.000Z');
+    expect(iso(state.endDate)).toBe('2020-03-30T00:00:00.000Z');
+    expect(state.interval).toBe(2);
+    // Weeks are not among the default pills, so they join them.
+    expect(control.getGranularities()).toContain('week');
+  });
+});
+
+describe('TimeSliderControl image sources', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("preloads the steps around the current date, within the timeline's ends", async () => {
+    const fetchMock = vi.fn(async (url: string) => new Response(url));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('URL', Object.assign(class extends URL {}, { createObjectURL: () => 'blob:x' }));
+    const { control } = mount({
+      sources: [
+        {
+          type: 'image',
+          id: 'img',
+          url: 'https://e/{DD}.png',
+          coordinates: [
+            [0, 10],
+            [10, 10],
+            [10, 0],
+            [0, 0],
+          ],
+        },
+      ],
+    });
+    const fetched = () => fetchMock.mock.calls.map(([url]) => url);
+
+    await vi.waitFor(() =>
+      expect(fetched()).toEqual(['https://e/18.png', 'https://e/19.png', 'https://e/20.png'])
+    );
+    control.goTo(new Date('2024-04-22T00:00:00Z'));
+    await vi.waitFor(() => expect(fetched()).toContain('https://e/21.png'));
+    expect(fetched().slice(3)).toEqual(['https://e/22.png', 'https://e/21.png']);
+  });
+});
+
+describe('TimeSliderControl prefetch', () => {
+  const xyz = {
+    type: 'xyz' as const,
+    id: 'x',
+    tiles: 'https://t/{YYYY}-{MM}-{DD}/{z}/{x}/{y}.png',
+  };
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("fetches the next dates' viewport tiles after a date change", async () => {
+    const fetchMock = vi.fn(async () => new Response('tile'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { control } = mount({ prefetch: 2, sources: [xyz] });
+    control.goTo(new Date('2024-04-19T00:00:00Z'));
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(fetchMock.mock.calls.map((call) => (call as unknown[])[0])).toEqual([
+      'https://t/2024-04-20/3/4/3.png',
+      'https://t/2024-04-21/3/4/3.png',
+    ]);
+  });
+
+  it('keeps the prefetches the next date still wants and aborts the rest', async () => {
+    const requests: Array<[string, AbortSignal]> = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((url: string, init: RequestInit) => {
+        requests.push([url, init.signal!]);
+        return new Promise<Response>(() => undefined);
+      })
+    );
+    const { control } = mount({ prefetch: 2, sources: [xyz] });
+    control.goTo(new Date('2024-04-19T00:00:00Z'));
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+
+    control.goTo(new Date('2024-04-20T00:00:00Z'));
+    await vi.waitFor(() => expect(requests).toHaveLength(3));
+    const aborted = requests.map(([url, signal]) => [url.split('/')[3], signal.aborted]);
+    expect(aborted).toEqual([
+      ['2024-04-20', true],
+      ['2024-04-21', false],
+      ['2024-04-22', false],
+    ]);
+    control.onRemove();
+  });
+
+  it('prefetches through the transformRequest option', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response('tile'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { control } = mount({
+      prefetch: 1,
+      sources: [xyz],
+      transformRequest: (url) => ({ url, headers: { Authorization: 'Bearer abc' } }),
+    });
+    control.goTo(new Date('2024-04-19T00:00:00Z'));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get('Authorization')).toBe(
+      'Bearer abc'
+    );
+    control.onRemove();
+  });
+
+  it('prefetches again for the viewport the map moved to', async () => {
+    const fetchMock = vi.fn(async () => new Response('tile'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { control, stub } = mount({ prefetch: 1, sources: [xyz] });
+    control.goTo(new Date('2024-04-19T00:00:00Z'));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    // Pan to the far side of the world and let the move settle.
+    (stub.map.getBounds as ReturnType<typeof vi.fn>).mockReturnValue({
+      toArray: () => [
+        [-170, -10],
+        [-160, -1],
+      ],
+    });
+    const moveEnd = (stub.map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([type]) => type === 'moveend'
+    )![1];
+    moveEnd();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect((fetchMock.mock.calls[1] as unknown[])[0]).not.toBe(
+      (fetchMock.mock.calls[0] as unknown[])[0]
+    );
+    expect((fetchMock.mock.calls[1] as unknown[])[0]).toContain('2024-04-20');
+  });
+
+  it('wraps to the start when looping and is off by default', async () => {
+    const fetchMock = vi.fn(async () => new Response('tile'));
+    vi.stubGlobal('fetch', fetchMock);
+    const { control } = mount({ prefetch: 2, loop: true, sources: [xyz] });
+    control.goTo(new Date('2024-04-22T00:00:00Z'));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect((fetchMock.mock.calls[1] as unknown[])[0]).toBe('https://t/2024-04-19/3/4/3.png');
+
+    fetchMock.mockClear();
+    const off = mount({ sources: [xyz] }).control;
+    off.goTo(new Date('2024-04-19T00:00:00Z'));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('TimeSliderControl inspection', () => {
+  it('opens a popup on a clicked feature and refreshes it as the date changes', async () => {
+    const control = new TimeSliderControl({
+      ...BASE,
+      sources: [
+        {
+          type: 'geojson',
+          id: 'quakes',
+          name: 'Quakes',
+          data: { type: 'FeatureCollection', features: [] },
+          timeProperty: 'time',
+          inspect: { template: 'M{mag}' },
+        },
+      ],
+    });
+    const { map, container } = createStubMap();
+    // What the map draws under the pointer, as each date renders.
+    let drawn = [{ properties: { mag: 4 } }];
+    Object.assign(map, {
+      project: vi.fn(() => ({ x: 100, y: 50 })),
+      queryRenderedFeatures: vi.fn(() => drawn),
+      setFeatureState: vi.fn(),
+    });
+    control.onAdd(map);
+    const click = (map.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      (call) => call[0] === 'click' && call.length === 2
+    )![1];
+    const popup = () => container.querySelector<HTMLElement>('.maplibregl-time-slider-popup');
+
+    click({ lngLat: { lng: 5, lat: 5 } });
+    await vi.waitFor(() => expect(popup()?.textContent).toContain('M4'));
+    expect(popup()!.hidden).toBe(false);
+    expect(popup()!.style.left).toBe('100px');
+    expect(popup()!.querySelector('.ts-popup-title')!.textContent).toBe('Quakes');
+
+    drawn = [{ properties: { mag: 5 } }];
+    control.goTo(new Date('2024-04-19T00:00:00Z'));
+    await vi.waitFor(() => expect(popup()!.textContent).toContain('M5'));
+
+    drawn = [];
+    control.goTo(new Date('2024-04-20T00:00:00Z'));
+    await vi.waitFor(() => expect(popup()!.textContent).toContain('No data at this date'));
+
+    // Once closed, date changes leave it closed.
+    popup()!.querySelector<HTMLButtonElement>('.ts-popup-close')!.click();
+    expect(popup()!.hidden).toBe(true);
+    drawn = [{ properties: { mag: 6 } }];
+    control.goTo(new Date('2024-04-21T00:00:00Z'));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(popup()!.hidden).toBe(true);
+
+    control.onRemove();
+    expect(popup()).toBeNull();
+    expect(map.off).toHaveBeenCalledWith('click', click);
+  });
+
+  it('listens for map clicks only while a source inspects', () => {
+    const control = new TimeSliderControl({
+      ...BASE,
+      sources: [
+        { type: 'xyz', id: 'radar', tiles: 'https://t/{z}/{x}/{y}.png?d={date:YYYY-MM-DD}' },
+      ],
+    });
+    const { map } = createStubMap();
+    const clickCalls = (fn: unknown) =>
+      (fn as ReturnType<typeof vi.fn>).mock.calls.filter(
+        (call) => call[0] === 'click' && call.length === 2
+      );
+    control.onAdd(map);
+    expect(clickCalls(map.on)).toHaveLength(0);
+
+    control.addSource({
+      type: 'geojson',
+      id: 'quakes',
+      data: { type: 'FeatureCollection', features: [] },
+      timeProperty: 'time',
+      inspect: true,
+    });
+    expect(clickCalls(map.on)).toHaveLength(1);
+    control.setSourceProperty('quakes', { inspect: false });
+    expect(clickCalls(map.off)).toHaveLength(1);
+    control.setSourceProperty('quakes', { inspect: true });
+    expect(clickCalls(map.on)).toHaveLength(2);
+    control.removeSource('quakes');
+    expect(clickCalls(map.off)).toHaveLength(2);
+
+    control.onRemove();
+    expect(clickCalls(map.off)).toHaveLength(2);
+  });
+});
+
+describe('TimeSliderControl range selection', () => {
+  const rangeIso = (control: TimeSliderControl) => {
+    const range = control.getCurrentRange()!;
+    return [iso(range.start), iso(range.end)];
+  };
+
+  it('starts with a one-step window whose end is the current date', () => {
+    const { control } = mount({ selectionMode: 'range' });
+    expect(control.getSelectionMode()).toBe('range');
+    expect(rangeIso(control)).toEqual(['2024-04-18T00:00:00.000Z', '2024-04-19T00:00:00.000Z']);
+    expect(iso(control.getCurrentDate())).toBe('2024-04-19T00:00:00.000Z');
+  });
+
+  it('has no window in the default instant mode', () => {
+    const { control } = mount();
+    expect(control.getSelectionMode()).toBe('instant');
+    expect(control.getCurrentRange()).toBeUndefined();
+    expect(control.getState().currentRange).toBeUndefined();
+  });
+
+  it('selectRange snaps and orders the ends and emits rangeselect', () => {
+    const { control } = mount({ selectionMode: 'range' });
+    const rangeselect = vi.fn();
+    const change = vi.fn();
+    control.on('rangeselect', rangeselect);
+    control.on('change', change);
+
+    control.selectRange('2024-04-21T05:00:00Z', '2024-04-19T20:00:00Z');
+    expect(rangeIso(control)).toEqual(['2024-04-20T00:00:00.000Z', '2024-04-21T00:00:00.000Z']);
+    expect(rangeselect).toHaveBeenCalledTimes(1);
+    expect(change).toHaveBeenCalledTimes(1);
+
+    // Moving only the start leaves the current date (the end) alone.
+    control.selectRange('2024-04-18T00:00:00Z', '2024-04-21T00:00:00Z');
+    expect(rangeselect).toHaveBeenCalledTimes(2);
+    expect(change).toHaveBeenCalledTimes(1);
+  });
+
+  it('goTo slides the window, keeping its width', () => {
+    const { control } = mount({
+      selectionMode: 'range',
+      initialRange: { start: '2024-04-19T00:00:00Z', end: '2024-04-20T00:00:00Z' },
+    });
+    control.goTo(new Date('2024-04-22T00:00:00Z'));
+    expect(rangeIso(control)).toEqual(['2024-04-21T00:00:00.000Z', '2024-04-22T00:00:00.000Z']);
+    // Near the start the window stops at the first step instead of shrinking.
+    control.goTo(new Date('2024-04-18T00:00:00Z'));
+    expect(rangeIso(control)).toEqual(['2024-04-18T00:00:00.000Z', '2024-04-19T00:00:00.000Z']);
+  });
+
+  it('playback slides the window one step per tick and loops with its width', () => {
+    vi.useFakeTimers();
+    try {
+      const { control } = mount({
+        selectionMode: 'range',
+        initialRange: { start: '2024-04-18T00:00:00Z', end: '2024-04-20T00:00:00Z' },
+        speed: 1000,
+      });
+      control.play();
+      vi.advanceTimersByTime(1000);
+      expect(rangeIso(control)).toEqual(['2024-04-19T00:00:00.000Z', '2024-04-21T00:00:00.000Z']);
+      vi.advanceTimersByTime(2000);
+      expect(rangeIso(control)).toEqual(['2024-04-18T00:00:00.000Z', '2024-04-20T00:00:00.000Z']);
+      control.pause();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('prev wraps to the end once the window start reaches the first step', () => {
+    const { control } = mount({ selectionMode: 'range' });
+    control.prev();
+    expect(rangeIso(control)).toEqual(['2024-04-21T00:00:00.000Z', '2024-04-22T00:00:00.000Z']);
+  });
+
+  it('passes the window to adapters as a span covering the last step', () => {
+    const { control, stub } = mount({
+      selectionMode: 'range',
+      sources: [
+        {
+          type: 'geojson',
+          id: 'g',
+          data: { type: 'FeatureCollection', features: [] },
+          timeProperty: 'time',
+        },
+      ],
+    });
+    control.selectRange('2024-04-19T00:00:00Z', '2024-04-20T00:00:00Z');
+    const value = ['to-number', ['get', 'time']];
+    expect(stub.map.setFilter).toHaveBeenLastCalledWith('g', [
+      'all',
+      ['>=', value, Date.parse('2024-04-19T00:00:00Z')],
+      ['<', value, Date.parse('2024-04-21T00:00:00Z')],
+    ]);
+  });
+
+  it('switches modes at runtime', () => {
+    const { control } = mount({ initialDate: '2024-04-20T00:00:00Z' });
+    const rangeselect = vi.fn();
+    control.on('rangeselect', rangeselect);
+
+    control.setSelectionMode('range');
+    expect(rangeIso(control)).toEqual(['2024-04-20T00:00:00.000Z', '2024-04-21T00:00:00.000Z']);
+    expect(rangeselect).toHaveBeenCalledTimes(1);
+
+    control.setSelectionMode('instant');
+    expect(control.getCurrentRange()).toBeUndefined();
+    expect(iso(control.getCurrentDate())).toBe('2024-04-21T00:00:00.000Z');
+  });
+
+  it('re-snaps the window when the granularity changes', () => {
+    const { control } = mount({
+      startDate: '2024-01-01T00:00:00Z',
+      endDate: '2024-12-31T00:00:00Z',
+      selectionMode: 'range',
+      initialRange: { start: '2024-02-10T00:00:00Z', end: '2024-05-20T00:00:00Z' },
+    });
+    control.setGranularity('month');
+    expect(rangeIso(control)).toEqual(['2024-02-01T00:00:00.000Z', '2024-06-01T00:00:00.000Z']);
+  });
+
+  it('round-trips the window through getConfig / setConfig', () => {
+    const { control } = mount({
+      selectionMode: 'range',
+      initialRange: { start: '2024-04-19T00:00:00Z', end: '2024-04-21T00:00:00Z' },
+    });
+    const config = control.getConfig();
+    expect(config.selectionMode).toBe('range');
+    expect(config.currentRange).toEqual({
+      start: '2024-04-19T00:00:00.000Z',
+      end: '2024-04-21T00:00:00.000Z',
+    });
+
+    const { control: other } = mount();
+    other.setConfig(config);
+    expect(rangeIso(other)).toEqual(['2024-04-19T00:00:00.000Z', '2024-04-21T00:00:00.000Z']);
+
+    other.setConfig({ ...config, selectionMode: undefined, currentRange: undefined });
+    expect(other.getSelectionMode()).toBe('instant');
+  });
+});
+
+describe('TimeSliderControl histogram', () => {
+  const days = (...isos: string[]) =>
+    isos.map((day) => ({
+      start: new Date(`${day}T00:00:00Z`),
+      end: new Date(new Date(`${day}T00:00:00Z`).getTime() + 86_400_000),
+    }));
+  const event = (iso: string) => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [0, 0] },
+    properties: { time: Date.parse(iso) },
+  });
+
+  it('is off by default', () => {
+    const { control } = mount();
+    expect(control.countHistogram(days('2024-04-18'))).toBeUndefined();
+  });
+
+  it('counts GeoJSON feature times when enabled', () => {
+    const { control } = mount({
+      histogram: true,
+      sources: [
+        {
+          type: 'geojson',
+          id: 'g',
+          data: {
+            type: 'FeatureCollection',
+            features: [
+              event('2024-04-18T03:00:00Z'),
+              event('2024-04-18T09:00:00Z'),
+              event('2024-04-20T12:00:00Z'),
+            ],
+          },
+          timeProperty: 'time',
+        },
+      ],
+    });
+    expect(control.countHistogram(days('2024-04-18', '2024-04-19', '2024-04-20'))).toEqual([
+      2, 0, 1,
+    ]);
+    control.removeSource('g');
+    expect(control.countHistogram(days('2024-04-18'))).toEqual([0]);
+  });
+
+  it('counts the date list', () => {
+    const { control } = mount({
+      histogram: true,
+      dates: ['2024-04-18', '2024-04-19', '2024-04-21'],
+    });
+    expect(control.countHistogram(days('2024-04-18', '2024-04-20', '2024-04-21'))).toEqual([
+      1, 0, 1,
+    ]);
+  });
+
+  it('redraws once a remote source reports its times', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({
+          type: 'FeatureCollection',
+          features: [event('2024-04-19T00:00:00Z')],
+        }),
+      }))
+    );
+    try {
+      const { control, stub } = mount({ histogram: true });
+      control.addSource({
+        type: 'geojson',
+        id: 'g',
+        data: 'https://x.geojson',
+        timeProperty: 'time',
+      });
+      expect(control.countHistogram(days('2024-04-19'))).toEqual([0]);
+      await vi.waitFor(() => expect(control.countHistogram(days('2024-04-19'))).toEqual([1]));
+      const dock = stub.map.getContainer().querySelector('.maplibregl-time-slider-dock')!;
+      expect(dock.querySelectorAll('.ts-histogram-bar').length).toBeGreaterThan(0);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('calls a custom counter per bucket', () => {
+    const counter = vi.fn((start: Date, _end: Date) => (start.getUTCDate() === 19 ? 7 : -1));
+    const { control } = mount({ histogram: counter });
+    expect(control.countHistogram(days('2024-04-18', '2024-04-19'))).toEqual([0, 7]);
+    expect(counter.mock.calls[1][1].toISOString()).toBe('2024-04-20T00:00:00.000Z');
+  });
+
+  it('persists only the built-in histogram in the config', () => {
+    const { control } = mount({ histogram: true });
+    expect(control.getConfig().histogram).toBe(true);
+    control.setHistogram(() => 1);
+    expect(control.getConfig().histogram).toBeUndefined();
+    control.setHistogram(false);
+    expect(control.countHistogram(days('2024-04-18'))).toBeUndefined();
+  });
+});
+
+describe('TimeSliderControl exportAnimation', () => {
+  // jsdom has no 2D canvas; a fake context is enough to capture and encode.
+  const drawn: string[] = [];
+  beforeEach(() => {
+    drawn.length = 0;
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (
+      this: HTMLCanvasElement
+    ) {
+      const canvas = this;
+      return {
+        canvas,
+        drawImage: vi.fn(),
+        measureText: () => ({ width: 10 }),
+        fillRect: vi.fn(),
+        fillText: (text: string) => drawn.push(text),
+        getImageData: () => ({
+          width: canvas.width,
+          height: canvas.height,
+          data: new Uint8ClampedArray(canvas.width * canvas.height * 4),
+        }),
+      } as unknown as CanvasRenderingContext2D;
+    } as never);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('captures one labelled frame per step and restores the date', async () => {
+    const { control } = mount();
+    control.goTo(new Date('2024-04-20T00:00:00Z'));
+    const dates: string[] = [];
+    control.on('change', (e) => dates.push(iso(e.state.currentDate)));
+
+    const blob = await control.exportAnimation({ from: '2024-04-19', to: '2024-04-21' });
+
+    expect(blob.type).toBe('image/gif');
+    const gif = new Uint8Array(await blob.arrayBuffer());
+    const frames = gif.filter((b, i) => b === 0x21 && gif[i + 1] === 0xf9).length;
+    expect(frames).toBe(3);
+    expect(drawn).toEqual(['2024 Apr 19', '2024 Apr 20', '2024 Apr 21']);
+    expect(iso(control.getState().currentDate)).toBe('2024-04-20T00:00:00.000Z');
+    expect(dates[0]).toBe('2024-04-19T00:00:00.000Z');
+  });
+
+  it('starts a range export where the whole window fits', async () => {
+    const { control } = mount({ selectionMode: 'range' });
+    control.selectRange('2024-04-20T00:00:00Z', '2024-04-22T00:00:00Z');
+
+    await control.exportAnimation();
+
+    expect(drawn).toEqual([
+      '2024 Apr 18 \u2013 2024 Apr 20',
+      '2024 Apr 19 \u2013 2024 Apr 21',
+      '2024 Apr 20 \u2013 2024 Apr 22',
+    ]);
+    const range = control.getState().currentRange!;
+    expect([iso(range.start), iso(range.end)]).toEqual([
+      '2024-04-20T00:00:00.000Z',
+      '2024-04-22T00:00:00.000Z',
+    ]);
+  });
+
+  it('waits for sources to finish updating before capturing', async () => {
+    const { control, stub } = mount();
+    let hold: Promise<void> = Promise.resolve();
+    let finish!: () => void;
+    control.addSource({
+      type: 'custom',
+      id: 'slow',
+      resolve: async () => {
+        await hold;
+        return { type: 'xyz', tiles: 'https://t/{z}/{x}/{y}.png' };
+      },
+    });
+    await new Promise((r) => setTimeout(r, 0));
+    hold = new Promise((resolve) => (finish = resolve));
+
+    const exporting = control.exportAnimation({
+      from: '2024-04-19',
+      to: '2024-04-19',
+      label: false,
+    });
+    await new Promise((r) => setTimeout(r, 10));
+    expect(stub.map.triggerRepaint).not.toHaveBeenCalled();
+    finish();
+    await exporting;
+    expect(stub.map.triggerRepaint).toHaveBeenCalled();
+    expect(drawn).toEqual([]);
+  });
+
+  it('requires the control to be on a map', async () => {
+    const control = new TimeSliderControl(BASE);
+    await expect(control.exportAnimation()).rejects.toThrow(/added to a map/);
+  });
 });
 
 describe('TimeSliderControl open-ended end date', () => {
@@ -318,6 +1101,44 @@ describe('TimeSliderControl config', () => {
     expect(fresh.getConfig().theme).toBe('dark');
   });
 
+  it('round-trips a minute-granularity timeline through getConfig / setConfig', () => {
+    const { control } = mount({
+      startDate: '2024-04-18T12:00:00Z',
+      endDate: '2024-04-18T13:00:00Z',
+      granularity: 'minute',
+      granularities: ['minute', 'hour'],
+      interval: 5,
+    });
+    control.goTo(new Date('2024-04-18T12:22:00Z'));
+    const config = control.getConfig();
+    expect(config.granularity).toBe('minute');
+    expect(config.currentDate).toBe('2024-04-18T12:20:00.000Z');
+
+    const fresh = new TimeSliderControl({ ...BASE });
+    fresh.onAdd(createStubMap().map);
+    fresh.setConfig(config);
+    const state = fresh.getState();
+    expect(state.granularity).toBe('minute');
+    expect(state.interval).toBe(5);
+    expect(iso(state.currentDate)).toBe('2024-04-18T12:20:00.000Z');
+    fresh.next();
+    expect(iso(fresh.getCurrentDate())).toBe('2024-04-18T12:25:00.000Z');
+    expect(fresh.getGranularities()).toEqual(['minute', 'hour']);
+  });
+
+  it('round-trips the time zone through getConfig / setConfig', () => {
+    const { control } = mount({ timeZone: 'Europe/Berlin' });
+    const config = control.getConfig();
+    expect(config.timeZone).toBe('Europe/Berlin');
+    // UTC is the default, so it is left out of a saved config.
+    expect(mount().control.getConfig()).not.toHaveProperty('timeZone');
+
+    const fresh = new TimeSliderControl({ ...BASE });
+    fresh.onAdd(createStubMap().map);
+    fresh.setConfig(config);
+    expect(fresh.getTimeZone()).toBe('Europe/Berlin');
+  });
+
   it('round-trips autoPlay through getConfig / setConfig', () => {
     const { control } = mount({ autoPlay: true });
     expect(control.getConfig().autoPlay).toBe(true);
@@ -1,21 +1,45 @@
-import type { IControl, Map as MapLibreMap } from 'maplibre-gl';
+import type { IControl, Map as MapLibreMap, MapMouseEvent } from 'maplibre-gl';
 import type {
+  ExportAnimationOptions,
   Granularity,
+  HistogramCounter,
+  SourceInspect,
+  SourceLegend,
   SourceSpec,
   TimeSliderConfig,
   TimeSliderEvent,
+  TimeSliderEventData,
   TimeSliderEventHandler,
   TimeSliderOptions,
   TimeSliderState,
+  TimeRange,
 } from './types';
-import { GRANULARITIES, toDate } from '../time/granularity';
+import {
+  DEFAULT_GRANULARITIES,
+  GRANULARITIES,
+  addUnits,
+  floorToGranularity,
+  toDate,
+} from '../time/granularity';
 import { clipDates, collapseByUnit, normalizeDates } from '../time/dateList';
 import { fetchDateList } from '../time/dateSource';
+import { countInBins } from '../time/histogram';
 import { createTimeScale, type TimeScale } from '../time/scale';
+import { isUtc, resolveTimeZone } from '../time/timeZone';
 import { clamp } from '../utils/helpers';
+import { formatDate } from '../template/dateFormat';
+import { captureFrame, encodeAnimation, waitForIdle } from '../export/animation';
+import { Prefetcher } from '../prefetch/prefetcher';
+import { inspectOptions } from '../adapters/inspect';
 import { createAdapter } from '../adapters/registry';
-import type { SourceAdapter } from '../adapters/types';
+import type {
+  AdapterContext,
+  InspectContent,
+  SourceAdapter,
+  SourceTimeExtent,
+} from '../adapters/types';
 import { createDockView } from '../ui/dock';
+import { createInspectPopup, type InspectPopup } from '../ui/inspectPopup';
 import type { DockController, DockView } from '../ui/types';
 
 /**
@@ -29,11 +53,16 @@ type EventHandlersMap = globalThis.Map<TimeSliderEvent, Set<TimeSliderEventHandl
 interface ResolvedOptions {
   granularities: Granularity[];
   dateFormat?: string;
+  histogram: boolean | HistogramCounter;
   theme: 'auto' | 'light' | 'dark';
   className?: string;
   collapsible: boolean;
   autoPlay: boolean;
+  waitForRender: boolean;
+  renderTimeout: number;
+  prefetch: number;
   beforeId?: string;
+  transformRequest?: TimeSliderOptions['transformRequest'];
   sources: SourceSpec[];
   onChange?: (date: Date) => void;
 }
@@ -57,6 +86,7 @@ type RangeFields = Pick<TimeSliderState, 'startDate' | 'endDate' | 'endDateAuto'
  *
  * @param allDates - The unclipped date list, or undefined for a continuous timeline
  * @param granularity - The unit at most one step may occupy
+ * @param timeZone - IANA zone whose calendar defines the units
  * @param start - Requested range start (a clip when `allDates` is given)
  * @param end - Requested range end; `null`/`undefined` leaves it open
  * @returns The range fields to write into state
@@ -64,11 +94,16 @@ type RangeFields = Pick<TimeSliderState, 'startDate' | 'endDate' | 'endDateAuto'
 function resolveRange(
   allDates: Date[] | undefined,
   granularity: Granularity,
+  timeZone: string,
   start?: Date,
   end?: Date | null
 ): RangeFields {
   if (allDates && allDates.length > 0) {
-    const dates = clipDates(collapseByUnit(allDates, granularity), start, end ?? undefined);
+    const dates = clipDates(
+      collapseByUnit(allDates, granularity, timeZone),
+      start,
+      end ?? undefined
+    );
     return {
       dates,
       startDate: new Date(dates[0].getTime()),
@@ -92,13 +127,15 @@ function resolveRange(
  *
  * @param dates - Dates as supplied
  * @param granularity - The active granularity
+ * @param timeZone - IANA zone whose calendar defines the units
  * @returns The canonical list, or undefined when nothing usable remains
  */
 function ingestDates(
   dates: Array<Date | string | number>,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone: string
 ): Date[] | undefined {
-  const list = collapseByUnit(normalizeDates(dates), granularity);
+  const list = collapseByUnit(normalizeDates(dates), granularity, timeZone);
   return list.length > 0 ? list : undefined;
 }
 
@@ -143,10 +180,50 @@ export class TimeSliderControl implements IControl, DockController {
   private _adapters: SourceAdapter[] = [];
   private _eventHandlers: EventHandlersMap = new globalThis.Map();
   private _playbackInterval?: ReturnType<typeof setInterval>;
+  /** Pending next step of wait-for-render playback. */
+  private _playbackTimer?: ReturnType<typeof setTimeout>;
+  /**
+   * Bumped whenever playback stops or restarts, so a render wait that settles
+   * afterwards cannot schedule a step for a run that has ended.
+   */
+  private _playbackRun = 0;
   /** Ids of sources reporting no data for the current date (drives the dock's
    * "no data" indicator). A source is added on a failed/absent load and removed
    * once it loads a date. */
   private _unavailableSources = new globalThis.Set<string>();
+  /**
+   * Ascending timestamps the histogram counts when `histogram` is `true`,
+   * gathered from the date list and the sources by {@link _refreshHistogram}.
+   */
+  private _histogramTimes: number[] = [];
+  /** Bumped per refresh so a slow source fetch cannot overwrite a newer one. */
+  private _histogramSeq = 0;
+  /** Settles once every adapter has finished rendering the latest dispatch. */
+  private _pendingRender: Promise<void> = Promise.resolve();
+  /** Fetches upcoming dates' tiles into the browser cache. */
+  private _prefetcher: Prefetcher;
+  /** Bumped per date change so a superseded prefetch never reaches the queue. */
+  private _prefetchSeq = 0;
+  /** Dates reported by sources that discover their own (a STAC search), by
+   * source id. Their union is the timeline's date list. */
+  private _sourceDates = new globalThis.Map<string, Date[]>();
+  /** Shows what a source has at a clicked point; created on first use. */
+  private _popup?: InspectPopup;
+  /** The source and location the open popup describes, re-inspected on each
+   * date change. */
+  private _inspected?: { id: string; lngLat: [number, number] };
+  /** Bumped per inspection so a slow query cannot overwrite a newer one. */
+  private _inspectSeq = 0;
+  /** Whether map clicks are being listened for: only while a source inspects. */
+  private _clickBound = false;
+  /** Re-warms the upcoming dates for the viewport the map settled on. */
+  private readonly _onMoveEnd = (): void => {
+    this._prefetch();
+  };
+  /** Inspects the sources at a clicked point. */
+  private readonly _onMapClick = (event: MapMouseEvent): void => {
+    void this._inspect([event.lngLat.lng, event.lngLat.lat]);
+  };
 
   /**
    * Creates a new TimeSliderControl.
@@ -155,7 +232,8 @@ export class TimeSliderControl implements IControl, DockController {
    */
   constructor(options: TimeSliderOptions) {
     const granularity = options.granularity ?? 'day';
-    const dates = options.dates ? ingestDates(options.dates, granularity) : undefined;
+    const timeZone = resolveTimeZone(options.timeZone);
+    const dates = options.dates ? ingestDates(options.dates, granularity, timeZone) : undefined;
     if (!dates?.length && options.startDate == null) {
       throw new TypeError(
         'TimeSliderControl requires either `startDate` or a non-empty `dates` list.'
@@ -169,6 +247,7 @@ export class TimeSliderControl implements IControl, DockController {
     const range = resolveRange(
       this._allDates,
       granularity,
+      timeZone,
       options.startDate == null ? undefined : toDate(options.startDate),
       options.endDate == null ? null : toDate(options.endDate)
     );
@@ -184,21 +263,35 @@ export class TimeSliderControl implements IControl, DockController {
       isPlaying: false,
       speed: Math.max(100, options.speed ?? 1000),
       loop: options.loop ?? true,
+      timeZone,
     };
     this._scale = createTimeScale(this._state);
     this._state.currentDate = this._scale.snap(initial);
+    if (options.selectionMode === 'range') {
+      this._placeRange(
+        options.initialRange
+          ? this._snapRange(toDate(options.initialRange.start), toDate(options.initialRange.end))
+          : this._defaultRange(this._state.currentDate)
+      );
+    }
 
     this._options = {
-      granularities: options.granularities ?? GRANULARITIES,
+      granularities: options.granularities ?? DEFAULT_GRANULARITIES,
       dateFormat: options.dateFormat,
+      histogram: options.histogram ?? false,
       theme: options.theme ?? 'auto',
       className: options.className,
       collapsible: options.collapsible ?? true,
       autoPlay: options.autoPlay ?? false,
+      waitForRender: options.waitForRender ?? false,
+      renderTimeout: options.renderTimeout ?? 10_000,
+      prefetch: Math.max(0, Math.floor(options.prefetch ?? 0)),
       beforeId: options.beforeId,
+      transformRequest: options.transformRequest,
       sources: options.sources ?? [],
       onChange: options.onChange,
     };
+    this._prefetcher = new Prefetcher(options.prefetchConcurrency ?? 4, options.transformRequest);
   }
 
   // ----- IControl ---------------------------------------------------------
@@ -240,12 +333,14 @@ export class TimeSliderControl implements IControl, DockController {
       className: this._options.className,
     });
     this._installLayout();
+    map.on('moveend', this._onMoveEnd);
 
     for (const spec of this._options.sources) {
       this.addSource(spec);
     }
 
     this._applyCollapsed();
+    this._refreshHistogram();
     this._syncAll();
 
     // Kick off playback once everything is wired up, when requested.
@@ -260,10 +355,19 @@ export class TimeSliderControl implements IControl, DockController {
    */
   onRemove(): void {
     this.pause();
+    this._prefetchSeq++;
+    this._prefetcher.cancel();
+    if (this._clickBound) this._map?.off('click', this._onMapClick);
+    this._clickBound = false;
+    this._map?.off('moveend', this._onMoveEnd);
+    this._closePopup();
+    this._popup?.destroy();
+    this._popup = undefined;
     for (const adapter of [...this._adapters]) {
       adapter.remove();
     }
     this._adapters = [];
+    this._sourceDates.clear();
     this._view?.destroy();
     this._uninstallLayout();
     this._view = undefined;
@@ -283,6 +387,10 @@ export class TimeSliderControl implements IControl, DockController {
     return {
       ...this._state,
       currentDate: new Date(this._state.currentDate),
+      currentRange: this._state.currentRange && {
+        start: new Date(this._state.currentRange.start),
+        end: new Date(this._state.currentRange.end),
+      },
       startDate: new Date(this._state.startDate),
       endDate: new Date(this._state.endDate),
       dates: this._state.dates?.map((d) => new Date(d.getTime())),
@@ -329,6 +437,21 @@ export class TimeSliderControl implements IControl, DockController {
     return new Date(this._state.currentDate);
   }
 
+  /**
+   * Returns the window picked by the start and end handles, or undefined when
+   * the control is not in range mode.
+   */
+  getCurrentRange(): TimeRange | undefined {
+    return this.getState().currentRange;
+  }
+
+  /**
+   * Returns how the axis selects time: a single date or a window.
+   */
+  getSelectionMode(): 'instant' | 'range' {
+    return this._state.currentRange ? 'range' : 'instant';
+  }
+
   /**
    * Returns the granularities offered as pills.
    */
@@ -345,6 +468,13 @@ export class TimeSliderControl implements IControl, DockController {
     return this._options.dateFormat ?? this._defaultDateFormat();
   }
 
+  /**
+   * Returns the IANA time zone the timeline's calendar and labels follow.
+   */
+  getTimeZone(): string {
+    return this._state.timeZone;
+  }
+
   /**
    * Returns the active color theme.
    */
@@ -359,17 +489,54 @@ export class TimeSliderControl implements IControl, DockController {
     return this._options.autoPlay;
   }
 
+  /**
+   * Counts the data in each histogram bucket, or returns undefined when the
+   * histogram is off. Used by the axis renderer, which decides the buckets.
+   *
+   * @param bins - The buckets, one per bar
+   * @returns One count per bucket, or undefined
+   */
+  countHistogram(bins: TimeRange[]): number[] | undefined {
+    const { histogram } = this._options;
+    if (!histogram) return undefined;
+    if (histogram === true) return countInBins(bins, this._histogramTimes);
+    return bins.map((bin) => {
+      const count = histogram(new Date(bin.start), new Date(bin.end));
+      return Number.isFinite(count) ? Math.max(0, count) : 0;
+    });
+  }
+
+  /**
+   * Turns the axis histogram on or off, or switches it to a custom counter.
+   *
+   * @param histogram - `true` to count the control's own data, a
+   *   {@link HistogramCounter} for external data, or `false` to hide it
+   */
+  setHistogram(histogram: boolean | HistogramCounter): void {
+    this._options.histogram = histogram;
+    this._refreshHistogram();
+    this._emit('statechange');
+  }
+
   /**
    * Granularity-appropriate default date format.
    */
   private _defaultDateFormat(): string {
     switch (this._state.granularity) {
+      case 'second':
+        return 'YYYY MMM DD HH:mm:ss';
+      case 'minute':
+        return 'YYYY MMM DD HH:mm';
       case 'hour':
         return 'YYYY MMM DD HH:00';
       case 'day':
         return 'YYYY MMM DD';
+      case 'week':
+        return 'GGGG [W]WW';
       case 'month':
         return 'MMM YYYY';
+      case 'quarter':
+        return 'YYYY [Q]Q';
       case 'year':
         return 'YYYY';
     }
@@ -577,6 +744,8 @@ export class TimeSliderControl implements IControl, DockController {
 
   /**
    * Navigates to a date, snapping it to the nearest step. No-op if unchanged.
+   * In range mode the window slides, keeping its width, so that it ends at the
+   * date.
    *
    * @param date - The target date
    */
@@ -584,6 +753,10 @@ export class TimeSliderControl implements IControl, DockController {
     const s = this._state;
     const snapped = this._scale.snap(date);
     if (snapped.getTime() === s.currentDate.getTime()) return;
+    if (s.currentRange) {
+      this._commitRange(this._slideRange(snapped));
+      return;
+    }
     s.currentDate = snapped;
     this._view?.syncDate();
     this._notifyDateChanged(snapped);
@@ -608,14 +781,54 @@ export class TimeSliderControl implements IControl, DockController {
    */
   prev(): void {
     const s = this._state;
-    const candidate = this._scale.prev(s.currentDate);
-    if (candidate.getTime() === s.currentDate.getTime()) {
+    // A window is at the start once its first handle is, not its last.
+    const first = s.currentRange?.start ?? s.currentDate;
+    if (this._scale.prev(first).getTime() === first.getTime()) {
       if (s.loop) this.goTo(s.endDate);
     } else {
-      this.goTo(candidate);
+      this.goTo(this._scale.prev(s.currentDate));
     }
   }
 
+  // ----- Range selection --------------------------------------------------
+
+  /**
+   * Switches between picking a single date and picking a window. Entering range
+   * mode selects the current step and the one after it; leaving it keeps the
+   * window's end as the current date.
+   *
+   * @param mode - `'instant'` for a single marker, `'range'` for two handles
+   */
+  setSelectionMode(mode: 'instant' | 'range'): void {
+    const s = this._state;
+    if (mode === this.getSelectionMode()) return;
+    const prev = s.currentDate.getTime();
+    if (mode === 'range') this._placeRange(this._defaultRange(s.currentDate));
+    else delete s.currentRange;
+    this._view?.syncDate();
+    // Always re-dispatch: adapters that show a span switch between the window
+    // and their own time window even when the current date stays put.
+    this._dispatch(s.currentDate);
+    if (s.currentDate.getTime() !== prev) {
+      this._options.onChange?.(new Date(s.currentDate));
+      this._emit('change');
+    }
+    this._emit('rangeselect');
+    this._emit('statechange');
+  }
+
+  /**
+   * Selects a window in range mode. Both ends snap to the nearest step and are
+   * swapped if given in reverse. No-op outside range mode.
+   *
+   * @param start - The first step of the window
+   * @param end - The last step of the window
+   */
+  selectRange(start: Date | string, end: Date | string): void {
+    if (!this._state.currentRange) return;
+    this._commitRange(this._snapRange(toDate(start), toDate(end)));
+  }
+
   // ----- Playback ---------------------------------------------------------
 
   /**
@@ -625,7 +838,7 @@ export class TimeSliderControl implements IControl, DockController {
     if (this._state.isPlaying) return;
     this._state.isPlaying = true;
     this._view?.syncPlayState();
-    this._playbackInterval = setInterval(() => this._advance(), this._state.speed);
+    this._startPlayback();
     this._emit('play');
     this._emit('statechange');
   }
@@ -637,10 +850,7 @@ export class TimeSliderControl implements IControl, DockController {
     if (!this._state.isPlaying) return;
     this._state.isPlaying = false;
     this._view?.syncPlayState();
-    if (this._playbackInterval) {
-      clearInterval(this._playbackInterval);
-      this._playbackInterval = undefined;
-    }
+    this._stopPlayback();
     this._emit('pause');
     this._emit('statechange');
   }
@@ -653,6 +863,61 @@ export class TimeSliderControl implements IControl, DockController {
     else this.play();
   }
 
+  /**
+   * Starts the playback clock: a fixed interval, or with `waitForRender` a
+   * chain of steps that each wait for the previous one to render.
+   */
+  private _startPlayback(): void {
+    const run = ++this._playbackRun;
+    if (this._options.waitForRender && this._map) {
+      this._scheduleRenderedStep(run);
+    } else {
+      this._playbackInterval = setInterval(() => this._advance(), this._state.speed);
+    }
+  }
+
+  /**
+   * Stops the playback clock, abandoning any step still waiting to render.
+   */
+  private _stopPlayback(): void {
+    this._playbackRun++;
+    clearInterval(this._playbackInterval);
+    clearTimeout(this._playbackTimer);
+    this._playbackInterval = undefined;
+    this._playbackTimer = undefined;
+  }
+
+  /**
+   * Waits for the current date to render, then schedules the next step no
+   * sooner than `speed` after this one began.
+   *
+   * @param run - The playback run this step belongs to
+   */
+  private _scheduleRenderedStep(run: number): void {
+    const began = Date.now();
+    void this._whenRendered(this._options.renderTimeout).then(() => {
+      if (run !== this._playbackRun) return;
+      const remaining = Math.max(0, this._state.speed - (Date.now() - began));
+      this._playbackTimer = setTimeout(() => {
+        this._advance();
+        if (run === this._playbackRun) this._scheduleRenderedStep(run);
+      }, remaining);
+    });
+  }
+
+  /**
+   * Resolves once the current date has rendered: every adapter has finished
+   * its update and the map has gone idle (or `timeout` passed). Emits
+   * `frameready` when the control is still on a map.
+   *
+   * @param timeout - The most milliseconds to wait for the map
+   */
+  private async _whenRendered(timeout: number): Promise<void> {
+    await this._pendingRender;
+    if (this._map) await waitForIdle(this._map, timeout);
+    if (this._map) this._emit('frameready');
+  }
+
   /**
    * Advances one step during playback, pausing at the end when not looping.
    */
@@ -669,20 +934,27 @@ export class TimeSliderControl implements IControl, DockController {
 
   /**
    * Sets playback speed in milliseconds per step (minimum 100). Restarts the
-   * timer if currently playing.
+   * timer if currently playing. With `waitForRender` this is the minimum time
+   * per step.
    *
    * @param ms - Milliseconds per step
    */
   setSpeed(ms: number): void {
     this._state.speed = Math.max(100, ms);
     this._view?.syncControls();
-    if (this._state.isPlaying) {
-      clearInterval(this._playbackInterval);
-      this._playbackInterval = setInterval(() => this._advance(), this._state.speed);
-    }
+    this._restartPlayback();
     this._emit('statechange');
   }
 
+  /**
+   * Restarts the playback clock after a timing setting changed, if playing.
+   */
+  private _restartPlayback(): void {
+    if (!this._state.isPlaying) return;
+    this._stopPlayback();
+    this._startPlayback();
+  }
+
   /**
    * Enables or disables looping.
    *
@@ -706,6 +978,28 @@ export class TimeSliderControl implements IControl, DockController {
     this._emit('statechange');
   }
 
+  /**
+   * Whether playback holds each step until it has rendered.
+   *
+   * @returns True when wait-for-render playback is on
+   */
+  getWaitForRender(): boolean {
+    return this._options.waitForRender;
+  }
+
+  /**
+   * Switches wait-for-render playback on or off; applies to a running
+   * playback immediately.
+   *
+   * @param enabled - Whether each step waits for sources and the map to finish
+   *   drawing before the next is scheduled
+   */
+  setWaitForRender(enabled: boolean): void {
+    this._options.waitForRender = enabled;
+    this._restartPlayback();
+    this._emit('statechange');
+  }
+
   // ----- Appearance -------------------------------------------------------
 
   /**
@@ -720,6 +1014,8 @@ export class TimeSliderControl implements IControl, DockController {
       root.classList.toggle('ts-theme-light', theme === 'light');
       root.classList.toggle('ts-theme-dark', theme === 'dark');
     }
+    this._popup?.root.classList.toggle('ts-theme-light', theme === 'light');
+    this._popup?.root.classList.toggle('ts-theme-dark', theme === 'dark');
     this._emit('statechange');
   }
 
@@ -755,20 +1051,28 @@ export class TimeSliderControl implements IControl, DockController {
     // to one entry per day when the timeline switches to days.
     Object.assign(
       s,
-      resolveRange(this._allDates, granularity, s.startDate, s.endDateAuto ? null : s.endDate)
+      resolveRange(
+        this._allDates,
+        granularity,
+        s.timeZone,
+        s.startDate,
+        s.endDateAuto ? null : s.endDate
+      )
     );
     this._rebuildScale();
     s.currentDate = this._scale.snap(s.currentDate);
+    const rangeMoved = this._resnapRange();
     this._view?.syncGranularity();
     this._view?.syncDate();
-    this._notifyDateChanged(s.currentDate, prev);
+    this._notifyDateChanged(s.currentDate, rangeMoved ? undefined : prev);
+    if (rangeMoved) this._emit('rangeselect');
     this._emit('granularitychange');
     this._emit('statechange');
   }
 
   /**
    * Sets which granularities are offered as zoom pills, rebuilding them live.
-   * The set is kept in canonical order (hour, day, month, year); empty input is
+   * The set is kept in canonical order (second through year); empty input is
    * ignored. If the active granularity is dropped, it switches to the first
    * remaining one.
    *
@@ -815,6 +1119,7 @@ export class TimeSliderControl implements IControl, DockController {
       resolveRange(
         this._allDates,
         granularity ?? s.granularity,
+        s.timeZone,
         toDate(start),
         end == null ? null : toDate(end)
       )
@@ -823,10 +1128,12 @@ export class TimeSliderControl implements IControl, DockController {
     if (granularity != null) s.granularity = granularity;
     this._rebuildScale();
     s.currentDate = this._scale.snap(s.currentDate);
+    const rangeMoved = this._resnapRange();
     this._view?.syncRange();
     this._view?.syncGranularity();
     this._view?.syncDate();
-    this._notifyDateChanged(s.currentDate, prev);
+    this._notifyDateChanged(s.currentDate, rangeMoved ? undefined : prev);
+    if (rangeMoved) this._emit('rangeselect');
     this._emit('rangechange');
     this._emit('statechange');
   }
@@ -853,24 +1160,33 @@ export class TimeSliderControl implements IControl, DockController {
   setDates(dates?: Array<Date | string | number> | null): void {
     const s = this._state;
     const prev = s.currentDate.getTime();
-    this._allDates = dates ? ingestDates(dates, s.granularity) : undefined;
+    this._allDates = dates ? ingestDates(dates, s.granularity, s.timeZone) : undefined;
     // An explicitly supplied list supersedes whatever URL was loaded before.
     this._datesUrl = undefined;
     Object.assign(
       s,
       this._allDates
-        ? resolveRange(this._allDates, s.granularity)
+        ? resolveRange(this._allDates, s.granularity, s.timeZone)
         : // Dropping the list leaves a continuous timeline spanning whatever the
           // list last covered, so the dock does not jump to an unrelated range.
           // An end that was already open stays open rather than being pinned here.
-          resolveRange(undefined, s.granularity, s.startDate, s.endDateAuto ? null : s.endDate)
+          resolveRange(
+            undefined,
+            s.granularity,
+            s.timeZone,
+            s.startDate,
+            s.endDateAuto ? null : s.endDate
+          )
     );
     this._rebuildScale();
     s.currentDate = this._scale.snap(s.currentDate);
+    const rangeMoved = this._resnapRange();
+    this._refreshHistogram();
     this._view?.syncRange();
     this._view?.syncGranularities();
     this._view?.syncDate();
-    this._notifyDateChanged(s.currentDate, prev);
+    this._notifyDateChanged(s.currentDate, rangeMoved ? undefined : prev);
+    if (rangeMoved) this._emit('rangeselect');
     this._emit('rangechange');
     this._emit('statechange');
   }
@@ -928,13 +1244,10 @@ export class TimeSliderControl implements IControl, DockController {
       this._options.sources = [...this._options.sources, spec];
       return spec.id ?? '';
     }
-    const adapter = createAdapter(spec, {
-      map: this._map,
-      beforeId: this._options.beforeId,
-      onDataStatus: (id, available) => this._handleDataStatus(id, available),
-    });
+    const adapter = createAdapter(spec, this._adapterContext(this._map));
     this._adapters.push(adapter);
-    void Promise.resolve(adapter.add(this._state.currentDate))
+    this._bindInspectClick();
+    void Promise.resolve(adapter.add(this._state.currentDate, this._selectedSpan()))
       .then(() => {
         // The layer only exists after `add` resolves, so apply an initial
         // hidden state here rather than at construction time.
@@ -942,6 +1255,7 @@ export class TimeSliderControl implements IControl, DockController {
       })
       .catch(() => undefined);
     this._view?.refreshLayers();
+    this._refreshHistogram();
     this._emit('sourceadd');
     // "Auto-play on load" should also kick in when a layer is added live (the
     // constructor-time autoplay in onAdd has already passed by then).
@@ -959,12 +1273,20 @@ export class TimeSliderControl implements IControl, DockController {
     if (index === -1) return;
     this._adapters[index].remove();
     this._adapters.splice(index, 1);
+    this._bindInspectClick();
+    if (this._inspected?.id === id) this._closePopup();
     // Drop any "no data" state the removed source was holding, and clear the
     // indicator if it was the last unavailable source.
     if (this._unavailableSources.delete(id) && this._unavailableSources.size === 0) {
       this._view?.syncDataStatus(false);
     }
+    // The timeline keeps the dates of the sources still reporting them; once
+    // none remain it keeps the last list rather than jumping elsewhere.
+    if (this._sourceDates.delete(id) && this._sourceDates.size > 0) {
+      this.setDates([...this._sourceDates.values()].flat());
+    }
     this._view?.refreshLayers();
+    this._refreshHistogram();
     this._emit('sourceremove');
   }
 
@@ -981,7 +1303,7 @@ export class TimeSliderControl implements IControl, DockController {
   /**
    * Applies a live property patch to a managed source: opacity and visibility
    * for any type, plus the symbology (colormap/rescale/bands/nodata) of a COG or
-   * mosaic source.
+   * mosaic source and the `style`, `trail`, and `paint` of a GeoJSON source.
    *
    * @param id - The source id
    * @param patch - Partial spec fields to merge
@@ -1006,11 +1328,91 @@ export class TimeSliderControl implements IControl, DockController {
     if (Object.keys(rest).length > 0 && adapter.setProperty) {
       void Promise.resolve(adapter.setProperty(rest as Partial<SourceSpec>)).catch(() => undefined);
     }
+    if ('inspect' in rest) this._bindInspectClick();
     // Notify hosts so they can mirror live opacity/visibility/style changes
     // (e.g. reflecting a layer's opacity into an external layers panel).
     this._emit('statechange');
   }
 
+  /**
+   * The legend of a managed source's current styling (a GeoJSON `style`).
+   *
+   * @param id - The source id
+   * @returns The legend, or undefined when the source has none
+   */
+  async getSourceLegend(id: string): Promise<SourceLegend | undefined> {
+    const adapter = this._adapters.find((a) => a.id === id);
+    return adapter?.getLegend?.();
+  }
+
+  // ----- Export -----------------------------------------------------------
+
+  /**
+   * Renders the timeline as an animation: steps through every date from `from`
+   * to `to`, waits at each one for the sources to finish drawing (their updates
+   * plus the map going idle), and captures the map canvas, stamped with the date
+   * label unless `label` is false. In range mode each step moves the window's
+   * end, starting at the first date the whole window fits. Playback is paused
+   * for the duration and the timeline returns to where it was afterwards.
+   *
+   * @example
+   * ```typescript
+   * const blob = await timeSlider.exportAnimation({ format: 'gif', fps: 4 });
+   * window.open(URL.createObjectURL(blob));
+   * ```
+   *
+   * @param options - Format, frame rate, date span, and labelling
+   * @returns The encoded animation
+   * @throws If the control is not on a map, or the browser cannot encode the
+   *   requested format
+   */
+  async exportAnimation(options: ExportAnimationOptions = {}): Promise<Blob> {
+    const map = this._map;
+    if (!map) throw new Error('exportAnimation() requires the control to be added to a map.');
+    const { format = 'gif', label = true, frameTimeout = 10_000 } = options;
+    const fps = Math.max(0.1, options.fps ?? 2);
+    this.pause();
+    const s = this._state;
+    const restore = s.currentRange
+      ? { ...s.currentRange }
+      : { start: s.currentDate, end: s.currentDate };
+    let from = this._scale.snap(options.from == null ? s.startDate : toDate(options.from));
+    const to = this._scale.snap(options.to == null ? s.endDate : toDate(options.to));
+    // A window ending too near the start clamps to the same place, so begin
+    // at the first date the whole window fits behind.
+    if (s.currentRange) {
+      const fitted = this._slideRange(from).end;
+      if (fitted.getTime() > from.getTime()) from = fitted;
+    }
+
+    const frames: HTMLCanvasElement[] = [];
+    try {
+      for (let date = from; ;) {
+        this.goTo(date);
+        await this._whenRendered(frameTimeout);
+        frames.push(await captureFrame(map, label ? this._frameLabel() : undefined));
+        const next = this._scale.next(date);
+        if (next.getTime() === date.getTime() || next.getTime() > to.getTime()) break;
+        date = next;
+      }
+    } finally {
+      if (s.currentRange) this.selectRange(restore.start, restore.end);
+      else this.goTo(restore.end);
+    }
+    return encodeAnimation(frames, format, fps);
+  }
+
+  /**
+   * The date label stamped on an exported frame: the current date, or the
+   * window in range mode, in the dock's date format.
+   */
+  private _frameLabel(): string {
+    const { currentDate, currentRange, timeZone } = this._state;
+    const format = this.getDateFormat();
+    if (!currentRange) return formatDate(currentDate, format, timeZone);
+    return `${formatDate(currentRange.start, format, timeZone)} \u2013 ${formatDate(currentRange.end, format, timeZone)}`;
+  }
+
   // ----- Config -----------------------------------------------------------
 
   /**
@@ -1030,12 +1432,25 @@ export class TimeSliderControl implements IControl, DockController {
       granularity: s.granularity,
       granularities: [...this._options.granularities],
       currentDate: s.currentDate.toISOString(),
+      ...(s.currentRange
+        ? {
+            selectionMode: 'range' as const,
+            currentRange: {
+              start: s.currentRange.start.toISOString(),
+              end: s.currentRange.end.toISOString(),
+            },
+          }
+        : {}),
       speed: s.speed,
       loop: s.loop,
       autoPlay: this._options.autoPlay,
+      ...(this._options.waitForRender ? { waitForRender: true } : {}),
       collapsed: s.collapsed,
       theme: this._options.theme,
       dateFormat: this._options.dateFormat,
+      ...(this._options.histogram === true ? { histogram: true } : {}),
+      // UTC is the default, so only a real zone is worth persisting.
+      ...(isUtc(s.timeZone) ? {} : { timeZone: s.timeZone }),
       beforeId: this._options.beforeId,
       sources: this.getSources(),
     };
@@ -1053,9 +1468,13 @@ export class TimeSliderControl implements IControl, DockController {
       adapter.remove();
     }
     this._adapters = [];
+    this._sourceDates.clear();
 
     const s = this._state;
-    this._allDates = config.dates ? ingestDates(config.dates, config.granularity) : undefined;
+    s.timeZone = resolveTimeZone(config.timeZone);
+    this._allDates = config.dates
+      ? ingestDates(config.dates, config.granularity, s.timeZone)
+      : undefined;
     // The resolved dates were serialized too, so restoring is offline-safe: the
     // URL is kept for display only and is never refetched here.
     this._datesUrl = this._allDates ? config.datesUrl : undefined;
@@ -1066,6 +1485,7 @@ export class TimeSliderControl implements IControl, DockController {
       resolveRange(
         this._allDates,
         config.granularity,
+        s.timeZone,
         toDate(config.startDate),
         config.endDate == null ? null : toDate(config.endDate)
       )
@@ -1074,24 +1494,30 @@ export class TimeSliderControl implements IControl, DockController {
     s.granularity = config.granularity;
     this._rebuildScale();
     s.currentDate = this._scale.snap(toDate(config.currentDate));
+    delete s.currentRange;
+    if (config.selectionMode === 'range') {
+      this._placeRange(
+        config.currentRange
+          ? this._snapRange(toDate(config.currentRange.start), toDate(config.currentRange.end))
+          : this._defaultRange(s.currentDate)
+      );
+    }
     s.speed = Math.max(100, config.speed);
     s.loop = config.loop;
     if (config.autoPlay !== undefined) this._options.autoPlay = config.autoPlay;
+    if (config.waitForRender !== undefined) this._options.waitForRender = config.waitForRender;
     if (config.collapsed !== undefined) s.collapsed = config.collapsed;
     if (config.granularities) this._options.granularities = [...config.granularities];
     if (config.theme) this._options.theme = config.theme;
     if (config.dateFormat !== undefined) this._options.dateFormat = config.dateFormat;
+    if (config.histogram !== undefined) this._options.histogram = config.histogram;
     if (config.beforeId !== undefined) this._options.beforeId = config.beforeId;
 
     if (this._map) {
       for (const spec of config.sources) {
-        const adapter = createAdapter(spec, {
-          map: this._map,
-          beforeId: this._options.beforeId,
-          onDataStatus: (id, available) => this._handleDataStatus(id, available),
-        });
+        const adapter = createAdapter(spec, this._adapterContext(this._map));
         this._adapters.push(adapter);
-        void Promise.resolve(adapter.add(s.currentDate))
+        void Promise.resolve(adapter.add(s.currentDate, this._selectedSpan()))
           .then(() => {
             // Mirror addSource: apply an initial hidden state once the layer exists.
             if (spec.visible === false) adapter.setVisible(false);
@@ -1103,6 +1529,7 @@ export class TimeSliderControl implements IControl, DockController {
     }
 
     this._applyCollapsed();
+    this._refreshHistogram();
     this._syncAll();
     // Adapters were (re)created above, so notify without re-dispatching.
     this._options.onChange?.(new Date(s.currentDate));
@@ -1152,14 +1579,260 @@ export class TimeSliderControl implements IControl, DockController {
   // ----- Internals --------------------------------------------------------
 
   /**
-   * Pushes a date change to every active adapter (async, fire-and-forget).
+   * Pushes a date change to every active adapter (async, fire-and-forget),
+   * along with the selected window in range mode. {@link _pendingRender} tracks
+   * when they have all finished, for callers that must wait on the result.
    *
    * @param date - The new date
    */
   private _dispatch(date: Date): void {
-    for (const adapter of this._adapters) {
-      void Promise.resolve(adapter.update(date)).catch(() => undefined);
+    const range = this._selectedSpan();
+    this._pendingRender = Promise.all(
+      this._adapters.map((adapter) =>
+        Promise.resolve(adapter.update(date, range)).catch(() => undefined)
+      )
+    ).then(() => undefined);
+    this._prefetch();
+    this._refreshInspection();
+  }
+
+  /**
+   * Queues the tiles of the next `prefetch` dates for the current viewport,
+   * nearest date first. Runs on each date change and each time the map stops
+   * moving. The new list waits for the current view to render, so prefetching
+   * never competes with the tiles on screen; it then replaces the old one,
+   * keeping the requests it still wants.
+   */
+  private _prefetch(): void {
+    const map = this._map;
+    const count = this._options.prefetch;
+    if (!map || count === 0) return;
+    const seq = ++this._prefetchSeq;
+    const adapters = this._adapters.filter((adapter) => adapter.prefetchUrls);
+    if (adapters.length === 0) return;
+    void this._pendingRender
+      .then(() => waitForIdle(map, this._options.renderTimeout))
+      .then(() => {
+        if (seq !== this._prefetchSeq) return undefined;
+        return Promise.all(
+          this._upcomingDates(count).flatMap((date) =>
+            adapters.map((adapter) =>
+              Promise.resolve(adapter.prefetchUrls!(date)).catch(() => [] as string[])
+            )
+          )
+        );
+      })
+      .then((lists) => {
+        if (lists && seq === this._prefetchSeq) this._prefetcher.request(lists.flat());
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Opens the popup on what the topmost inspecting source has at a point, or
+   * with `id`, re-inspects that source there for the current date. A click
+   * where no source has anything closes the popup; a refresh that finds
+   * nothing says so instead, so the popup stays put through gaps in the data.
+   *
+   * @param lngLat - The point as `[lng, lat]`
+   * @param id - The source to re-inspect, when refreshing the open popup
+   */
+  private async _inspect(lngLat: [number, number], id?: string): Promise<void> {
+    const map = this._map;
+    if (!map) return;
+    const seq = ++this._inspectSeq;
+    const { x, y } = map.project(lngLat);
+    const target = { lngLat, point: [x, y] as [number, number] };
+    // Later sources draw above earlier ones, so they are asked first.
+    const adapters = [...this._adapters]
+      .reverse()
+      .filter(
+        (adapter) =>
+          adapter.inspect &&
+          adapter.spec.visible !== false &&
+          (id === undefined || adapter.id === id)
+      );
+    for (const adapter of adapters) {
+      const content = await Promise.resolve(adapter.inspect!(target)).catch(() => undefined);
+      if (seq !== this._inspectSeq) return;
+      if (content) {
+        this._showPopup(adapter.id, lngLat, content);
+        return;
+      }
+    }
+    if (id === undefined || adapters.length === 0) {
+      this._closePopup();
+      return;
+    }
+    const { name } = adapters[0].spec;
+    this._showPopup(id, lngLat, { title: name ?? id, text: 'No data at this date' });
+  }
+
+  /**
+   * Re-inspects the open popup's source once the new date has rendered, so
+   * the popup describes what is on screen. A click or close in the meantime
+   * supersedes it.
+   */
+  private _refreshInspection(): void {
+    const map = this._map;
+    const inspected = this._inspected;
+    if (!map || !inspected) return;
+    const seq = ++this._inspectSeq;
+    void this._pendingRender
+      .then(() => waitForIdle(map, this._options.renderTimeout))
+      .then(() => {
+        if (seq === this._inspectSeq) return this._inspect(inspected.lngLat, inspected.id);
+        return undefined;
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Listens for map clicks while some source has `inspect` enabled, and not
+   * otherwise, so a map with nothing to inspect does no work per click.
+   */
+  private _bindInspectClick(): void {
+    const map = this._map;
+    if (!map) return;
+    const inspecting = this._adapters.some(
+      (adapter) =>
+        adapter.inspect &&
+        inspectOptions((adapter.spec as { inspect?: boolean | SourceInspect }).inspect)
+    );
+    if (inspecting === this._clickBound) return;
+    this._clickBound = inspecting;
+    if (inspecting) map.on('click', this._onMapClick);
+    else map.off('click', this._onMapClick);
+  }
+
+  /**
+   * Shows content in the popup, creating it on first use.
+   *
+   * @param id - The source the content describes
+   * @param lngLat - The inspected point
+   * @param content - What to show
+   */
+  private _showPopup(id: string, lngLat: [number, number], content: InspectContent): void {
+    if (!this._map) return;
+    if (!this._popup) {
+      this._popup = createInspectPopup(this._map, () => {
+        this._inspected = undefined;
+        this._inspectSeq++;
+      });
+      const { theme } = this._options;
+      this._popup.root.classList.toggle('ts-theme-light', theme === 'light');
+      this._popup.root.classList.toggle('ts-theme-dark', theme === 'dark');
+    }
+    this._inspected = { id, lngLat };
+    this._popup.show(lngLat, content);
+  }
+
+  /**
+   * Closes the popup and stops refreshing it.
+   */
+  private _closePopup(): void {
+    this._inspected = undefined;
+    this._inspectSeq++;
+    this._popup?.close();
+  }
+
+  /**
+   * The dates playback would visit next, wrapping to the start when looping.
+   *
+   * @param count - The most dates to return
+   * @returns Up to `count` dates after the current one
+   */
+  private _upcomingDates(count: number): Date[] {
+    const s = this._state;
+    const dates: Date[] = [];
+    let date = s.currentDate;
+    while (dates.length < count) {
+      let next = this._scale.next(date);
+      if (next.getTime() === date.getTime()) {
+        if (!s.loop) break;
+        next = this._scale.snap(s.startDate);
+      }
+      if (next.getTime() === s.currentDate.getTime()) break;
+      dates.push(next);
+      date = next;
+    }
+    return dates;
+  }
+
+  /**
+   * The context handed to each adapter the control creates.
+   *
+   * @param map - The MapLibre map
+   */
+  private _adapterContext(map: MapLibreMap): AdapterContext {
+    return {
+      map,
+      beforeId: this._options.beforeId,
+      onDataStatus: (id, available) => this._handleDataStatus(id, available),
+      onError: (id, error) => this._emit('sourceerror', { sourceId: id, error }),
+      transformRequest: this._options.transformRequest,
+      timeZone: this._state.timeZone,
+      getTimelineRange: () => ({
+        start: new Date(this._state.startDate),
+        end: new Date(this._state.endDate),
+      }),
+      getAdjacentDates: (date, count) => this._adjacentDates(date, count),
+      onDates: (id, dates) => this._handleSourceDates(id, dates),
+      onTimeExtent: (id, extent) => this._handleSourceTimeExtent(id, extent),
+    };
+  }
+
+  /**
+   * The steps on either side of a date: those after it, then those before,
+   * nearest first. Unlike playback, this does not wrap around the ends.
+   *
+   * @param date - A timeline date
+   * @param count - The most steps to take on each side
+   * @returns Up to `2 * count` dates
+   */
+  private _adjacentDates(date: Date, count: number): Date[] {
+    const dates: Date[] = [];
+    const scale = this._scale;
+    for (const step of [(d: Date) => scale.next(d), (d: Date) => scale.prev(d)]) {
+      let from = scale.snap(date);
+      for (let i = 0; i < count; i++) {
+        const to = step(from);
+        if (to.getTime() === from.getTime()) break;
+        dates.push(to);
+        from = to;
+      }
     }
+    return dates;
+  }
+
+  /**
+   * Steps the timeline through the dates a source found its data at, together
+   * with those of every other source reporting dates.
+   *
+   * @param id - The reporting source's id
+   * @param dates - The source's dates
+   */
+  private _handleSourceDates(id: string, dates: Date[]): void {
+    if (!this._adapters.some((adapter) => adapter.id === id)) return;
+    this._sourceDates.set(id, dates);
+    this.setDates([...this._sourceDates.values()].flat());
+  }
+
+  /**
+   * Spans the timeline over the time extent a source advertises, stepping in
+   * its interval. A unit missing from the granularity pills joins them, so the
+   * user can switch back to it.
+   *
+   * @param id - The reporting source's id
+   * @param extent - The source's time extent
+   */
+  private _handleSourceTimeExtent(id: string, extent: SourceTimeExtent): void {
+    if (!this._adapters.some((adapter) => adapter.id === id)) return;
+    const { granularity } = extent;
+    if (granularity && !this._options.granularities.includes(granularity)) {
+      this.setGranularities([...this._options.granularities, granularity]);
+    }
+    this.setRange(extent.start, extent.end, extent.interval, granularity);
   }
 
   /**
@@ -1194,6 +1867,177 @@ export class TimeSliderControl implements IControl, DockController {
     this._emit('change');
   }
 
+  /**
+   * Snaps both ends of a window onto the scale, swapping them if reversed.
+   *
+   * @param start - The requested first step
+   * @param end - The requested last step
+   * @returns The snapped, ordered window
+   */
+  private _snapRange(start: Date, end: Date): TimeRange {
+    const a = this._scale.snap(start);
+    const b = this._scale.snap(end);
+    return a.getTime() <= b.getTime() ? { start: a, end: b } : { start: b, end: a };
+  }
+
+  /**
+   * The window a range selection starts from: the step at `date` and the one
+   * after it, or the one before it when `date` is the last step.
+   *
+   * @param date - A snapped date
+   * @returns The default window
+   */
+  private _defaultRange(date: Date): TimeRange {
+    const next = this._scale.next(date);
+    if (next.getTime() !== date.getTime()) return { start: new Date(date), end: next };
+    return { start: this._scale.prev(date), end: new Date(date) };
+  }
+
+  /**
+   * Writes a window into state. The current date follows the window's end, so
+   * single-date sources show the latest step inside the window.
+   *
+   * @param range - A snapped, ordered window
+   */
+  private _placeRange(range: TimeRange): void {
+    this._state.currentRange = range;
+    this._state.currentDate = new Date(range.end.getTime());
+  }
+
+  /**
+   * Re-snaps the window after the scale changed underneath it.
+   *
+   * @returns Whether the window's start moved (its end is the current date,
+   *   which callers already compare)
+   */
+  private _resnapRange(): boolean {
+    const range = this._state.currentRange;
+    if (!range) return false;
+    const start = range.start.getTime();
+    this._placeRange(this._snapRange(range.start, range.end));
+    return this._state.currentRange!.start.getTime() !== start;
+  }
+
+  /**
+   * Applies a new window, updating the dock and adapters and emitting
+   * `rangeselect` (plus `change` when the window's end moved). No-op when the
+   * window is unchanged.
+   *
+   * @param range - A snapped, ordered window
+   */
+  private _commitRange(range: TimeRange): void {
+    const s = this._state;
+    const current = s.currentRange!;
+    if (
+      range.start.getTime() === current.start.getTime() &&
+      range.end.getTime() === current.end.getTime()
+    ) {
+      return;
+    }
+    const prev = s.currentDate.getTime();
+    this._placeRange(range);
+    this._view?.syncDate();
+    this._dispatch(s.currentDate);
+    if (s.currentDate.getTime() !== prev) {
+      this._options.onChange?.(new Date(s.currentDate));
+      this._emit('change');
+    }
+    this._emit('rangeselect');
+    this._emit('statechange');
+  }
+
+  /**
+   * Moves the window so that it ends at `end` without changing how many steps
+   * it spans. Near the start of the timeline the window stops at the first step
+   * instead of shrinking, so playback that loops back keeps its width.
+   *
+   * @param end - The snapped date the window should end at
+   * @returns The moved window
+   */
+  private _slideRange(end: Date): TimeRange {
+    const { start, end: oldEnd } = this._state.currentRange!;
+    const width = this._walk(start, Infinity, 1, oldEnd).steps;
+    const back = this._walk(end, width, -1);
+    if (back.steps === width) return { start: back.date, end: new Date(end) };
+    return { start: back.date, end: this._walk(back.date, width, 1).date };
+  }
+
+  /**
+   * Steps along the scale from a date, stopping after `max` steps, at `until`,
+   * or at the end of the timeline, whichever comes first.
+   *
+   * @param from - The date to start from
+   * @param max - The most steps to take
+   * @param direction - `1` to walk forward, `-1` to walk back
+   * @param until - Optional date to stop at when walking forward
+   * @returns The date reached and the number of steps taken
+   */
+  private _walk(
+    from: Date,
+    max: number,
+    direction: 1 | -1,
+    until?: Date
+  ): { date: Date; steps: number } {
+    let date = new Date(from);
+    let steps = 0;
+    while (steps < max && (until === undefined || date.getTime() < until.getTime())) {
+      const step = direction === 1 ? this._scale.next(date) : this._scale.prev(date);
+      if (step.getTime() === date.getTime()) break;
+      date = step;
+      steps++;
+    }
+    return { date, steps };
+  }
+
+  /**
+   * The selected window as the span adapters filter by: from the start of the
+   * first step to the end of the last, so a window whose handles sit on the same
+   * day still covers that whole day. Undefined outside range mode.
+   *
+   * @returns The half-open span `[start, end)`, or undefined
+   */
+  private _selectedSpan(): TimeRange | undefined {
+    const { currentRange: range, granularity, interval, timeZone } = this._state;
+    if (!range) return undefined;
+    if (this._scale.ordinal) {
+      // A list step is one date standing for its whole granularity unit.
+      const start = floorToGranularity(range.start, granularity, timeZone);
+      const last = floorToGranularity(range.end, granularity, timeZone);
+      return { start, end: addUnits(last, granularity, 1, timeZone) };
+    }
+    return {
+      start: new Date(range.start),
+      end: addUnits(range.end, granularity, interval, timeZone),
+    };
+  }
+
+  /**
+   * Re-gathers the timestamps the histogram counts (the date list plus every
+   * source that reports its own) and redraws it. Sources that have to fetch
+   * their data report asynchronously; the histogram redraws once they all have.
+   */
+  private _refreshHistogram(): void {
+    const seq = ++this._histogramSeq;
+    const apply = (lists: number[][]): void => {
+      if (seq !== this._histogramSeq) return;
+      this._histogramTimes = ([] as number[]).concat(...lists).sort((a, b) => a - b);
+      this._view?.syncHistogram();
+    };
+    if (this._options.histogram !== true) {
+      apply([]);
+      return;
+    }
+    const lists = [
+      (this._allDates ?? []).map((d) => d.getTime()),
+      ...this._adapters.map((adapter) => adapter.getTimes?.() ?? []),
+    ];
+    if (lists.some((list) => list instanceof Promise)) {
+      void Promise.all(lists).then(apply, () => undefined);
+    } else {
+      apply(lists as number[][]);
+    }
+  }
+
   /**
    * Re-renders all dock surfaces from the current state.
    */
@@ -1212,11 +2056,15 @@ export class TimeSliderControl implements IControl, DockController {
    * Emits an event to all registered handlers.
    *
    * @param event - The event type
+   * @param detail - Extra payload fields, for `sourceerror`
    */
-  private _emit(event: TimeSliderEvent): void {
+  private _emit(
+    event: TimeSliderEvent,
+    detail?: Pick<TimeSliderEventData, 'sourceId' | 'error'>
+  ): void {
     const handlers = this._eventHandlers.get(event);
     if (handlers) {
-      const data = { type: event, state: this.getState() };
+      const data = { type: event, state: this.getState(), ...detail };
       handlers.forEach((handler) => handler(data));
     }
   }
@@ -3,14 +3,27 @@ import type {
   FilterSpecification,
   CircleLayerSpecification,
   FillLayerSpecification,
+  HeatmapLayerSpecification,
   LineLayerSpecification,
+  RequestTransformFunction,
+  SymbolLayerSpecification,
 } from 'maplibre-gl';
 import type { FeatureCollection } from 'geojson';
 
 /**
- * Time granularity used for stepping and axis tick generation.
+ * Time granularity used for stepping and axis tick generation. Weeks are ISO
+ * 8601 weeks starting on Monday; quarters start in January, April, July, and
+ * October.
  */
-export type Granularity = 'hour' | 'day' | 'month' | 'year';
+export type Granularity =
+  | 'second'
+  | 'minute'
+  | 'hour'
+  | 'day'
+  | 'week'
+  | 'month'
+  | 'quarter'
+  | 'year';
 
 /**
  * Resolves a date to a URL string. Used as an escape hatch when a simple token
@@ -22,6 +35,16 @@ export type Granularity = 'hour' | 'day' | 'month' | 'year';
  */
 export type UrlResolver = (date: Date) => string | Promise<string>;
 
+/**
+ * Counts the data inside one bucket of the axis histogram, for data the control
+ * cannot see itself (a server-side catalog, a database, a vector tileset).
+ *
+ * @param bucketStart - Inclusive start of the bucket
+ * @param bucketEnd - Exclusive end of the bucket
+ * @returns The bar height, in any unit; bars are scaled to the largest count
+ */
+export type HistogramCounter = (bucketStart: Date, bucketEnd: Date) => number;
+
 /**
  * A url/tiles field that is either a token template string (e.g.
  * `https://.../{YYYY}/{MM}/{DD}.png`) or a {@link UrlResolver} function.
@@ -68,6 +91,45 @@ interface BaseSourceSpec {
    * out-of-bounds tiles. Ignored by non-tiled sources.
    */
   bounds?: [number, number, number, number];
+
+  /**
+   * Cross-fade between dates instead of swapping tiles in place, for raster
+   * sources (COG / XYZ / WMS): the new date loads into a second layer that,
+   * once its tiles have loaded, fades up to the layer opacity while the
+   * previous one fades out. Ignored by other sources.
+   */
+  transition?: RasterTransition;
+}
+
+/**
+ * A cross-fade between consecutive dates of a raster source.
+ */
+export interface RasterTransition {
+  /**
+   * Fade length in milliseconds; `0` swaps tiles in place.
+   */
+  duration: number;
+}
+
+/**
+ * Inspection of a source on the map: clicking it opens a popup describing
+ * what is under the pointer at the current date, refreshed as the date
+ * changes while it is open.
+ */
+export interface SourceInspect {
+  /**
+   * Popup text with `{name}` placeholders filled from the clicked feature's
+   * properties (or a COG's band values, as `{b1}`, `{b2}`, …). Without it the
+   * popup lists every property.
+   * @example 'Magnitude {mag} at {place}'
+   */
+  template?: string;
+
+  /**
+   * Highlight the feature under the pointer (GeoJSON and vector tiles).
+   * @default true
+   */
+  hover?: boolean;
 }
 
 /**
@@ -131,6 +193,12 @@ export interface CogSourceSpec extends BaseSourceSpec {
    * @default 256
    */
   tileSize?: number;
+
+  /**
+   * Show the COG's value at a clicked point, queried from TiTiler for the
+   * current date. `true` for a list of the band values.
+   */
+  inspect?: boolean | SourceInspect;
 }
 
 /**
@@ -260,6 +328,410 @@ export interface WmsSourceSpec extends BaseSourceSpec {
   tileSize?: number;
 }
 
+/**
+ * A WMTS layer read from the service's GetCapabilities document. The control
+ * fetches the document when the source is added, picks the layer's tile matrix
+ * set, style and format, and fills the time dimension (`{Time}` in a REST
+ * template) with the current date. NASA GIBS is the typical service.
+ */
+export interface WmtsSourceSpec extends BaseSourceSpec {
+  type: 'wmts';
+
+  /**
+   * The GetCapabilities document (e.g. GIBS's
+   * `https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/1.0.0/WMTSCapabilities.xml`)
+   * or the service's KVP endpoint.
+   */
+  url: string;
+
+  /**
+   * Identifier of the layer to draw.
+   */
+  layer: string;
+
+  /**
+   * Tile matrix set identifier.
+   * @default the layer's first Web Mercator set
+   */
+  tileMatrixSet?: string;
+
+  /**
+   * Style identifier.
+   * @default the layer's default style
+   */
+  style?: string;
+
+  /**
+   * Tile format, e.g. `'image/png'`.
+   * @default the layer's first
+   */
+  format?: string;
+
+  /**
+   * Values for dimensions other than time, by identifier.
+   * @default each dimension's advertised default
+   */
+  dimensions?: Record<string, string>;
+
+  /**
+   * Date format for the time dimension (token string). The defaults format
+   * in UTC, as the capabilities list the times; a format set here follows the
+   * timeline's `timeZone`.
+   * @default 'YYYY-MM-DD', or 'YYYY-MM-DDTHH:mm:ss[Z]' when the layer's times
+   * carry a time of day
+   */
+  timeFormat?: string;
+
+  /**
+   * Step the timeline through the times the layer advertises instead of the
+   * regular range.
+   * @default false
+   */
+  syncDates?: boolean;
+
+  /**
+   * Optional attribution string for the source.
+   */
+  attribution?: string;
+}
+
+/**
+ * A time-aware ArcGIS MapServer or ImageServer, drawn through its `export` /
+ * `exportImage` operation with a `time=` window around the current date. The
+ * control reads the service JSON when the source is added; its `timeInfo` sets
+ * the window's default unit and, with {@link syncTimeline}, the timeline.
+ */
+export interface ArcGisSourceSpec extends BaseSourceSpec {
+  type: 'arcgis';
+
+  /**
+   * The service URL, ending in `/MapServer` or `/ImageServer`.
+   */
+  url: string;
+
+  /**
+   * MapServer sublayers to draw, as the `layers` parameter (e.g. `'show:0,2'`).
+   */
+  layers?: string;
+
+  /**
+   * ImageServer raster function, sent as the `renderingRule` parameter (e.g.
+   * `{ rasterFunction: 'Stretched' }`).
+   */
+  renderingRule?: Record<string, unknown>;
+
+  /**
+   * Image format.
+   * @default 'png32'
+   */
+  format?: string;
+
+  /**
+   * Unit of the `time=` window each request asks for: the current date's
+   * day, month, etc.
+   * @default the service's time interval (e.g. six hours), else 'day'
+   */
+  timeWindow?: Granularity;
+
+  /**
+   * Extra query parameters for every request (e.g. a `token` or `mosaicRule`).
+   */
+  params?: Record<string, string>;
+
+  /**
+   * Span the timeline over the service's time extent, stepping in its time
+   * interval.
+   * @default false
+   */
+  syncTimeline?: boolean;
+
+  /**
+   * Raster tile size in pixels.
+   * @default 256
+   */
+  tileSize?: number;
+
+  /**
+   * Optional attribution string for the source.
+   * @default the service's copyright text
+   */
+  attribution?: string;
+}
+
+/**
+ * A time cube stored as Zarr (v2), read and colored in the browser. The control
+ * reads the variable's metadata and its time coordinate when the source is
+ * added, steps the timeline through the coordinate's dates, and draws the map
+ * slice nearest the current date as an image. NetCDF data must be served as
+ * Zarr (e.g. written with xarray's `to_zarr`); the store must allow
+ * cross-origin reads.
+ */
+export interface ZarrSourceSpec extends BaseSourceSpec {
+  type: 'zarr';
+
+  /**
+   * URL of the store (the `.zarr` directory).
+   */
+  url: string;
+
+  /**
+   * Path of the data variable in the store, e.g. `'sst'`.
+   */
+  variable: string;
+
+  /**
+   * Name of the time dimension. Its coordinate array must carry CF `units`
+   * such as `days since 1970-01-01`.
+   * @default 'time'
+   */
+  timeDimension?: string;
+
+  /**
+   * Name of the latitude dimension, whose coordinate gives each row's
+   * latitude.
+   * @default 'lat' or 'latitude'
+   */
+  latDimension?: string;
+
+  /**
+   * Name of the longitude dimension, whose coordinate gives each column's
+   * longitude.
+   * @default 'lon' or 'longitude'
+   */
+  lonDimension?: string;
+
+  /**
+   * Index to draw along any other dimension (e.g. `{ depth: 0 }`).
+   * @default 0 for every other dimension
+   */
+  selection?: Record<string, number>;
+
+  /**
+   * Colormap name: viridis, magma, inferno, plasma, cividis, turbo, jet,
+   * coolwarm, rdbu, blues, reds, greens, greys or gray, each reversible with
+   * `_r`.
+   * @default 'gray'
+   */
+  colormap?: string;
+
+  /**
+   * Values mapped to the colormap's two ends.
+   * @default the variable's `valid_min`/`valid_max` (or `valid_range`), else
+   * each slice's own range
+   */
+  rescale?: [number, number];
+
+  /**
+   * Value drawn transparent, besides the variable's fill value.
+   */
+  nodata?: number;
+
+  /**
+   * Step the timeline through the time coordinate's dates.
+   * @default true
+   */
+  syncDates?: boolean;
+}
+
+/**
+ * The corners of a georeferenced image or video as `[lng, lat]`: top left, top
+ * right, bottom right, bottom left.
+ */
+export type ImageCoordinates = [
+  [number, number],
+  [number, number],
+  [number, number],
+  [number, number],
+];
+
+/**
+ * Georeferenced images, one per date (e.g. daily quicklook PNGs), drawn
+ * through a MapLibre `image` source. The current date's image and those of the
+ * dates around it are fetched and held in memory, so stepping through them
+ * never waits on the network.
+ */
+export interface ImageSourceSpec extends BaseSourceSpec {
+  type: 'image';
+
+  /**
+   * URL of the image (PNG, JPEG, WebP…) for the current date. Token template or
+   * resolver function.
+   */
+  url: UrlInput;
+
+  /**
+   * Where the image goes: its corners, or a function returning the corners of
+   * each date's image (for a footprint that moves, like a storm-centered
+   * overlay).
+   */
+  coordinates: ImageCoordinates | ((date: Date) => ImageCoordinates | Promise<ImageCoordinates>);
+
+  /**
+   * Timeline steps on each side of the current date whose images are kept in
+   * memory.
+   * @default 2
+   */
+  preload?: number;
+}
+
+/**
+ * A pre-rendered animation played as a MapLibre `video` source, its playhead
+ * following the timeline: every date seeks the video to that date's frame, and
+ * the video never plays on its own. Frames are placed on the timeline either
+ * from a {@link start} date at a fixed number of frames per step, or by an
+ * explicit {@link frameDates} list.
+ */
+export interface VideoSourceSpec extends BaseSourceSpec {
+  type: 'video';
+
+  /**
+   * URLs of the video, in alternative formats (e.g. MP4 and WebM); the browser
+   * plays the first it supports.
+   */
+  urls: string[];
+
+  /**
+   * The video's corners.
+   */
+  coordinates: ImageCoordinates;
+
+  /**
+   * Frames per second the video was encoded at, to turn frame numbers into
+   * video time.
+   */
+  frameRate: number;
+
+  /**
+   * Date of the first frame. Ignored with {@link frameDates}.
+   */
+  start?: string | Date;
+
+  /**
+   * Unit of the timeline step {@link framesPerStep} counts over.
+   * @default 'day'
+   */
+  unit?: Granularity;
+
+  /**
+   * Units in one step.
+   * @default 1
+   */
+  interval?: number;
+
+  /**
+   * Frames the video advances per step.
+   * @default 1
+   */
+  framesPerStep?: number;
+
+  /**
+   * The date of every frame, in order. A date shows the latest frame at or
+   * before it.
+   */
+  frameDates?: (string | Date)[];
+}
+
+/**
+ * A live STAC API search whose items drive the timeline. The control POSTs
+ * `<url>/search` once when the source is added, steps through the dates of the
+ * items it finds, and draws the item(s) of the current date through TiTiler,
+ * reading each item's {@link asset}.
+ */
+export interface StacSourceSpec extends BaseSourceSpec {
+  type: 'stac';
+
+  /**
+   * Root URL of the STAC API (e.g. `https://earth-search.aws.element84.com/v1`).
+   */
+  url: string;
+
+  /**
+   * Collection id(s) to search.
+   */
+  collection: string | string[];
+
+  /**
+   * Key of the item asset to render (e.g. `'visual'`). The asset must be a COG.
+   */
+  asset: string;
+
+  /**
+   * Search extent as `[west, south, east, north]`.
+   * @default the map viewport when the source is added
+   */
+  bbox?: [number, number, number, number];
+
+  /**
+   * RFC 3339 instant or interval to search (e.g.
+   * `'2024-06-01T00:00:00Z/2024-06-30T23:59:59Z'`).
+   * @default the timeline's start to end
+   */
+  datetime?: string;
+
+  /**
+   * Extra fields merged into the search body, such as a `query` or CQL2
+   * `filter` on item properties.
+   */
+  search?: Record<string, unknown>;
+
+  /**
+   * Upper bound on the items collected across result pages.
+   * @default 500
+   */
+  maxItems?: number;
+
+  /**
+   * Unit grouping items into one timeline date: every item in the current
+   * date's unit is drawn, so the tiles of one satellite pass show together.
+   * @default 'day'
+   */
+  groupBy?: Granularity;
+
+  /**
+   * TiTiler endpoint URL.
+   * @default 'https://titiler.d2s.org'
+   */
+  endpoint?: string;
+
+  /**
+   * Colormap name applied by TiTiler. Leave unset for RGB imagery.
+   */
+  colormap?: string;
+
+  /**
+   * Min/max values for rescaling the data.
+   */
+  rescale?: [number, number];
+
+  /**
+   * Band indexes to read (1-based).
+   */
+  bidx?: number[];
+
+  /**
+   * NoData value. A number or 'nan'.
+   */
+  nodata?: number | string;
+
+  /**
+   * Raster tile size in pixels.
+   * @default 256
+   */
+  tileSize?: number;
+}
+
+/**
+ * A span of time between two dates. Used both for the selection a range-mode
+ * timeline exposes (see {@link TimeSliderOptions.selectionMode}) and for the
+ * window handed to adapters.
+ */
+export interface TimeRange {
+  /** Start of the span. */
+  start: Date;
+  /** End of the span. */
+  end: Date;
+}
+
 /**
  * Time window applied around the current date for GeoJSON filtering.
  */
@@ -283,12 +755,202 @@ export interface GeoJsonTimeWindow {
 }
 
 /**
- * Paint properties accepted by the GeoJSON adapter, keyed by geometry kind.
+ * Clustering of the GeoJSON points inside the current window. MapLibre
+ * clusters a source's data before layer filters apply, so the adapter feeds
+ * the source only the window's features and re-clusters them on each date.
+ */
+export interface GeoJsonCluster {
+  /**
+   * Radius of each cluster, in pixels.
+   * @default 50
+   */
+  radius?: number;
+
+  /**
+   * Deepest zoom at which points cluster; beyond it every point is drawn.
+   * @default 14
+   */
+  maxZoom?: number;
+
+  /**
+   * Paint for the cluster circles (`circle`) and their counts (`symbol`),
+   * over a default that grows and warms with the count.
+   */
+  paint?: Pick<GeoJsonPaint, 'circle' | 'symbol'>;
+}
+
+/**
+ * A fading trail behind GeoJSON features: each feature is styled by its age
+ * at the current date, full strength when current and faded out over
+ * `duration`. Most useful with {@link GeoJsonSourceSpec.cumulative}, where the
+ * features of past steps would otherwise all look alike.
+ */
+export interface GeoJsonTrail {
+  /**
+   * How long a feature takes to fade, in `unit`s: a feature this old (or
+   * older) is drawn at its trail-end style.
+   */
+  duration: number;
+
+  /**
+   * The unit of `duration`.
+   * @default the window's unit
+   */
+  unit?: Granularity;
+
+  /**
+   * Opacity at the end of the trail, as a fraction of the layer's opacity. A
+   * heatmap's opacity covers the whole layer, so there it is the fraction of
+   * each feature's weight instead.
+   * @default 0
+   */
+  fadeTo?: number;
+
+  /**
+   * Circle radius, line width, or heatmap radius at the end of the trail, in
+   * pixels; features shrink (or grow) to it from their painted size.
+   */
+  sizeTo?: number;
+
+  /**
+   * Colour at the end of the trail; features blend to it from their painted
+   * colour. Not applicable to a heatmap.
+   */
+  colorTo?: string;
+}
+
+/**
+ * Declarative colouring for GeoJSON features, compiled to MapLibre expressions
+ * (for the circle/line/fill/text colour) and described by a matching legend.
+ * It takes precedence over the colour in {@link GeoJsonSourceSpec.paint}. A
+ * heatmap colours by density rather than per feature, so it takes no style.
+ */
+export interface GeoJsonStyle {
+  /**
+   * What the colour follows:
+   * - `'graduated'`: a numeric `property`, in classes split at `breaks`
+   * - `'categorical'`: a string `property`, one colour per value
+   * - `'time'`: each feature's time within the current window, from the
+   *   colormap's start (earliest) to its end (latest)
+   */
+  by: 'graduated' | 'categorical' | 'time';
+
+  /**
+   * The feature property to colour by. Required for graduated and categorical
+   * styles.
+   */
+  property?: string;
+
+  /**
+   * Graduated: class boundaries, ascending; n breaks make n + 1 classes, each
+   * holding values from its lower break up to (not including) the next.
+   * @default `classes` equal intervals across the data's range
+   */
+  breaks?: number[];
+
+  /**
+   * Graduated: how many classes to split the data's range into when `breaks`
+   * is not given.
+   * @default 5
+   */
+  classes?: number;
+
+  /**
+   * Graduated: one colour per class, lowest first.
+   * @default sampled evenly from `colormap`
+   */
+  colors?: string[];
+
+  /**
+   * Graduated: one circle radius or line width per class, in pixels, so the
+   * size grows with the value as well as the colour.
+   */
+  sizes?: number[];
+
+  /**
+   * Categorical: the colour of each property value.
+   * @default the data's 10 most common values, in a qualitative palette
+   */
+  categories?: Record<string, string>;
+
+  /**
+   * Colormap the graduated classes and the time ramp are drawn from (a name
+   * from `CLIENT_COLORMAPS`, optionally suffixed `_r`).
+   * @default 'viridis'
+   */
+  colormap?: string;
+
+  /**
+   * Colour of features the style does not cover: no value, or a value outside
+   * the categories.
+   * @default '#999999'
+   */
+  otherColor?: string;
+}
+
+/**
+ * One swatch of a source's legend.
+ */
+export interface LegendEntry {
+  /** What the swatch stands for: a class range, a category, or a time. */
+  label: string;
+  /** The swatch colour. */
+  color: string;
+}
+
+/**
+ * A legend describing how a source colours its data.
+ */
+export interface SourceLegend {
+  /** The legend's heading, usually the styled property. */
+  title: string;
+  /** The swatches, in order. */
+  entries: LegendEntry[];
+}
+
+/**
+ * Paint properties accepted by the GeoJSON and vector tile adapters, keyed by
+ * geometry kind.
  */
 export interface GeoJsonPaint {
   circle?: CircleLayerSpecification['paint'];
   fill?: FillLayerSpecification['paint'];
   line?: LineLayerSpecification['paint'];
+  symbol?: SymbolLayerSpecification['paint'];
+  heatmap?: HeatmapLayerSpecification['paint'];
+}
+
+/**
+ * Layout properties for feature layers, keyed by geometry kind. Only a symbol
+ * layer needs one, to name the text or icon it draws.
+ */
+export interface FeatureLayout {
+  /**
+   * Symbol layout, merged over a default that labels each feature with its
+   * `name` property.
+   */
+  symbol?: SymbolLayerSpecification['layout'];
+}
+
+/**
+ * One of several MapLibre layers drawing a GeoJSON source, such as the fill,
+ * outline, and labels of a set of polygons. Every sublayer shares the source's
+ * time filter, style, trail, opacity, and visibility.
+ */
+export interface GeoJsonSublayer {
+  /** Geometry kind to render. */
+  geometry: 'circle' | 'fill' | 'line' | 'symbol' | 'heatmap';
+
+  /**
+   * Paint properties, keyed by geometry kind like the source's own, which
+   * they replace for this sublayer's kind.
+   */
+  paint?: GeoJsonPaint;
+
+  /**
+   * Layout properties (symbol sublayers), replacing the source's own.
+   */
+  layout?: FeatureLayout;
 }
 
 /**
@@ -303,12 +965,41 @@ export interface GeoJsonSourceSpec extends BaseSourceSpec {
   data: string | FeatureCollection;
 
   /**
-   * Name of the feature property holding the timestamp (ISO string or epoch ms).
+   * Name of the feature property holding the timestamp: epoch milliseconds or
+   * seconds, or an ISO 8601 date or date-time string (one without a UTC offset
+   * is read in the timeline's `timeZone`). Required unless the features carry
+   * intervals (`startProperty` / `endProperty`), which take precedence.
    */
-  timeProperty: string;
+  timeProperty?: string;
 
   /**
-   * Window of time to display around the current date.
+   * Name of the feature property holding the start of the feature's validity
+   * interval (a fire perimeter's ignition, a warning's issue time). A feature
+   * is shown while its interval overlaps the current window. A missing value
+   * leaves the interval open at the start.
+   */
+  startProperty?: string;
+
+  /**
+   * Name of the feature property holding the end of the feature's validity
+   * interval, inclusive. A missing value (no property, `null`, or `''`) leaves
+   * the interval open-ended, so the feature stays once it has started.
+   */
+  endProperty?: string;
+
+  /**
+   * How to read the time properties when their values are ambiguous: `'x'`
+   * for epoch milliseconds, `'X'` for epoch seconds, or a date token string
+   * such as `'DD/MM/YYYY'` or `'YYYYMMDD'` (the tokens of `formatDate`).
+   * Without it, numbers below 1e11 are taken as epoch seconds, larger ones as
+   * milliseconds, and strings as ISO 8601. 1e11 milliseconds is March 1973, so
+   * millisecond timestamps before then need `'x'`.
+   */
+  timeFormat?: string;
+
+  /**
+   * Window of time to display around the current date. Ignored in range mode,
+   * where the features shown are those inside the selected range instead.
    * @default { unit: granularity, before: 0, after: 1 }
    */
   window?: GeoJsonTimeWindow;
@@ -317,6 +1008,98 @@ export interface GeoJsonSourceSpec extends BaseSourceSpec {
    * Accumulate features over time instead of showing only the current window.
    * When true, every feature up to the current window's end stays visible (the
    * lower bound is dropped), so past time steps are kept rather than removed.
+   * For intervals, features stay after their end.
+   * @default false
+   */
+  cumulative?: boolean;
+
+  /**
+   * Fade features by age, so recent history stands out from older features.
+   * Recomputed as the date changes.
+   */
+  trail?: GeoJsonTrail;
+
+  /**
+   * Cluster the points inside the window, with a count on each cluster;
+   * clicking one zooms in until it breaks apart. `true` for the defaults.
+   */
+  cluster?: boolean | GeoJsonCluster;
+
+  /**
+   * Colour features by a property or by time, with a legend to match. Change
+   * it live with `setSourceProperty`.
+   */
+  style?: GeoJsonStyle;
+
+  /**
+   * Geometry kind to render: `'symbol'` labels each feature (see `layout`),
+   * and `'heatmap'` draws the density of the features in the window.
+   * @default 'circle'
+   */
+  geometry?: 'circle' | 'fill' | 'line' | 'symbol' | 'heatmap';
+
+  /**
+   * Paint properties for the rendered layer.
+   */
+  paint?: GeoJsonPaint;
+
+  /**
+   * Layout properties for the rendered layer (symbol layers).
+   */
+  layout?: FeatureLayout;
+
+  /**
+   * Draw the data as several layers instead of one `geometry`, bottom to top.
+   * The first takes the source's `id` as its layer id and the rest
+   * `${id}-1`, `${id}-2`, and so on.
+   */
+  layers?: GeoJsonSublayer[];
+
+  /**
+   * Highlight features under the pointer and show a clicked feature's
+   * properties in a popup. `true` to list them all.
+   */
+  inspect?: boolean | SourceInspect;
+}
+
+/**
+ * A vector tile source (MVT tiles or a PMTiles archive) whose features are
+ * filtered by a time attribute. Unlike {@link GeoJsonSourceSpec}, the data is
+ * never loaded as a whole: MapLibre fetches the tiles in view and the filter
+ * runs on each, so it scales to millions of features.
+ */
+export interface VectorSourceSpec extends BaseSourceSpec {
+  type: 'vector';
+
+  /**
+   * Where the tiles come from: a tile URL template with `{z}/{x}/{y}`, a
+   * TileJSON URL, or a `pmtiles://` archive URL. PMTiles needs the `pmtiles`
+   * protocol registered with MapLibre first
+   * (`maplibregl.addProtocol('pmtiles', new Protocol().tile)`).
+   */
+  url: string;
+
+  /**
+   * Name of the layer inside the tiles to draw.
+   */
+  sourceLayer: string;
+
+  /**
+   * Name of the feature property holding the timestamp. Tiles carry it as
+   * stored, so it must be epoch milliseconds (or a numeric string).
+   */
+  timeProperty: string;
+
+  /**
+   * Window of time to display around the current date. Ignored in range mode,
+   * where the features shown are those inside the selected range instead.
+   * @default { unit: 'day', before: 0, after: 1 }
+   */
+  window?: GeoJsonTimeWindow;
+
+  /**
+   * Keep every feature up to the current window's end visible instead of only
+   * the window.
    * @default false
    */
   cumulative?: boolean;
@@ -325,12 +1108,42 @@ export interface GeoJsonSourceSpec extends BaseSourceSpec {
    * Geometry kind to render.
    * @default 'circle'
    */
-  geometry?: 'circle' | 'fill' | 'line';
+  geometry?: 'circle' | 'fill' | 'line' | 'symbol';
 
   /**
    * Paint properties for the rendered layer.
    */
   paint?: GeoJsonPaint;
+
+  /**
+   * Layout properties for the rendered layer (symbol layers).
+   */
+  layout?: FeatureLayout;
+
+  /**
+   * Lowest zoom the tiles exist at (for a tile URL template).
+   * @default 0
+   */
+  minzoom?: number;
+
+  /**
+   * Deepest zoom the tiles exist at (for a tile URL template); MapLibre
+   * overzooms beyond it.
+   * @default 14
+   */
+  maxzoom?: number;
+
+  /**
+   * Optional attribution string for the source.
+   */
+  attribution?: string;
+
+  /**
+   * Highlight features under the pointer and show a clicked feature's
+   * properties in a popup. `true` to list them all. Highlighting needs the
+   * tiles to carry feature ids.
+   */
+  inspect?: boolean | SourceInspect;
 }
 
 /**
@@ -354,7 +1167,14 @@ export type ResolvedSourceSpec =
   | MosaicSourceSpec
   | XyzSourceSpec
   | WmsSourceSpec
-  | GeoJsonSourceSpec;
+  | WmtsSourceSpec
+  | ArcGisSourceSpec
+  | ZarrSourceSpec
+  | ImageSourceSpec
+  | VideoSourceSpec
+  | StacSourceSpec
+  | GeoJsonSourceSpec
+  | VectorSourceSpec;
 
 /**
  * Any source specification accepted by the control.
@@ -426,7 +1246,9 @@ export interface TimeSliderOptions {
   granularity?: Granularity;
 
   /**
-   * Granularities offered as zoom pills.
+   * Granularities offered as zoom pills. The sub-hour units (`'minute'`,
+   * `'second'`) and the `'week'` and `'quarter'` units are supported but not
+   * offered unless listed here, since most timelines only need the four defaults.
    * @default ['hour', 'day', 'month', 'year']
    */
   granularities?: Granularity[];
@@ -437,6 +1259,27 @@ export interface TimeSliderOptions {
    */
   initialDate?: Date | string;
 
+  /**
+   * How the axis selects time.
+   *
+   * - `'instant'` (default) — a single marker picks one date.
+   * - `'range'` — a start and an end handle pick a window, which can also be
+   *   dragged as a whole. Adapters receive the window (a GeoJSON source shows
+   *   every feature inside it), playback slides it forward one step at a time,
+   *   and the current date tracks the window's end, so a raster source shows the
+   *   latest date in the window.
+   *
+   * @default 'instant'
+   */
+  selectionMode?: 'instant' | 'range';
+
+  /**
+   * Window selected when the control starts in range mode. Both ends snap to
+   * the nearest step.
+   * @default from {@link initialDate} to the step after it
+   */
+  initialRange?: { start: Date | string; end: Date | string };
+
   /**
    * Playback speed in milliseconds per step.
    * @default 1000
@@ -455,6 +1298,40 @@ export interface TimeSliderOptions {
    */
   autoPlay?: boolean;
 
+  /**
+   * Hold each playback step until it has rendered: every source has finished
+   * updating and the map has gone idle. `speed` then becomes the minimum time
+   * per step, so slow tile servers stretch playback instead of skipping frames.
+   * @default false
+   */
+  waitForRender?: boolean;
+
+  /**
+   * Longest time, in milliseconds, a step waits to render when
+   * {@link waitForRender} is on, so a tile that never arrives cannot stall
+   * playback.
+   * @default 10000
+   */
+  renderTimeout?: number;
+
+  /**
+   * Number of upcoming dates whose tiles are fetched ahead of time, for the
+   * current viewport, so playback steps onto tiles the browser already has.
+   * Applies to tiled raster sources (COG, XYZ, WMS); `0` turns it off.
+   * Prefetching only starts once the current date has rendered. After a date
+   * change or a pan or zoom, once the map is idle, it prefetches for the new
+   * date and viewport, aborting only the requests no longer needed. Requests
+   * go through {@link transformRequest}.
+   * @default 0
+   */
+  prefetch?: number;
+
+  /**
+   * The most prefetch requests in flight at once.
+   * @default 4
+   */
+  prefetchConcurrency?: number;
+
   /**
    * Color theme. `'auto'` follows the system preference.
    * @default 'auto'
@@ -463,11 +1340,37 @@ export interface TimeSliderOptions {
 
   /**
    * Token format for the current-date label. When omitted, a format is derived
-   * from the active granularity (hour -> `YYYY MMM DD HH:00`, day ->
-   * `YYYY MMM DD`, month -> `MMM YYYY`, year -> `YYYY`).
+   * from the active granularity (second -> `YYYY MMM DD HH:mm:ss`, minute ->
+   * `YYYY MMM DD HH:mm`, hour -> `YYYY MMM DD HH:00`, day -> `YYYY MMM DD`,
+   * week -> `GGGG [W]WW`, month -> `MMM YYYY`, quarter -> `YYYY [Q]Q`, year ->
+   * `YYYY`).
    */
   dateFormat?: string;
 
+  /**
+   * Draws a bar histogram of where data is concentrated behind the axis, one
+   * bar per tick bucket, re-binned whenever the ticks change (a granularity or
+   * range change, or a resize).
+   *
+   * - `true` — counts the timeline's {@link dates} plus the feature timestamps
+   *   of every GeoJSON source.
+   * - a {@link HistogramCounter} — called for each bucket, for data the control
+   *   cannot see itself.
+   *
+   * @default false
+   */
+  histogram?: boolean | HistogramCounter;
+
+  /**
+   * IANA time zone (e.g. `'America/Los_Angeles'`) the timeline's calendar
+   * follows: where day and coarser steps start, where ticks fall, how dates are
+   * labelled, and how URL date tokens expand. Hour and finer steps always
+   * advance by elapsed time, so an hourly series stays evenly spaced across
+   * daylight-saving changes while a daily one stays on local midnight.
+   * @default 'UTC'
+   */
+  timeZone?: string;
+
   /**
    * Custom CSS class name added to the dock container.
    */
@@ -495,6 +1398,14 @@ export interface TimeSliderOptions {
    */
   beforeId?: string;
 
+  /**
+   * The map's `transformRequest`, applied to the requests the control makes
+   * itself: a GeoJSON source's data URL, image frames, and prefetches.
+   * MapLibre offers no way to read the map's own back, so pass the same
+   * function the map was created with.
+   */
+  transformRequest?: RequestTransformFunction;
+
   /**
    * Callback fired (in addition to managed adapters) whenever the date changes.
    *
@@ -503,6 +1414,60 @@ export interface TimeSliderOptions {
   onChange?: (date: Date) => void;
 }
 
+/**
+ * File format produced by {@link TimeSliderControl.exportAnimation}.
+ *
+ * - `'gif'` — a looping animated GIF, encoded in the browser.
+ * - `'webm'` — a WebM video recorded with `MediaRecorder` (recorded in real
+ *   time, so it takes as long as the video runs).
+ * - `'png-frames'` — a ZIP of numbered full-resolution PNG frames, for
+ *   assembling elsewhere.
+ */
+export type AnimationFormat = 'gif' | 'webm' | 'png-frames';
+
+/**
+ * Options for {@link TimeSliderControl.exportAnimation}.
+ */
+export interface ExportAnimationOptions {
+  /**
+   * Output format.
+   * @default 'gif'
+   */
+  format?: AnimationFormat;
+
+  /**
+   * Frames per second of the output.
+   * @default 2
+   */
+  fps?: number;
+
+  /**
+   * First date to capture (snapped to a step). In range mode this is where
+   * the window ends, moved later if the whole window does not fit before it.
+   * @default the timeline start
+   */
+  from?: Date | string;
+
+  /**
+   * Last date to capture (snapped to a step).
+   * @default the timeline end
+   */
+  to?: Date | string;
+
+  /**
+   * Whether to stamp each frame with its date label.
+   * @default true
+   */
+  label?: boolean;
+
+  /**
+   * Longest time, in milliseconds, to wait for a frame's data to finish
+   * rendering before capturing it anyway.
+   * @default 10000
+   */
+  frameTimeout?: number;
+}
+
 /**
  * Public, observable state of the time slider control.
  */
@@ -513,10 +1478,17 @@ export interface TimeSliderState {
   collapsed: boolean;
 
   /**
-   * The current marker date.
+   * The current marker date. In range mode this is the end of
+   * {@link currentRange}.
    */
   currentDate: Date;
 
+  /**
+   * The window picked by the start and end handles, both ends inclusive steps.
+   * Present only in range mode (see {@link TimeSliderOptions.selectionMode}).
+   */
+  currentRange?: TimeRange;
+
   /**
    * Inclusive start of the range.
    */
@@ -567,6 +1539,12 @@ export interface TimeSliderState {
    * Whether playback loops.
    */
   loop: boolean;
+
+  /**
+   * IANA time zone the timeline's calendar and labels follow (`'UTC'` unless
+   * {@link TimeSliderOptions.timeZone} is set).
+   */
+  timeZone: string;
 }
 
 /**
@@ -601,10 +1579,16 @@ export interface TimeSliderConfig {
   interval: number;
   granularity: Granularity;
   currentDate: string;
+  /** Selection mode (omitted = `'instant'`). */
+  selectionMode?: 'instant' | 'range';
+  /** ISO ends of the selected window, present in range mode. */
+  currentRange?: { start: string; end: string };
   speed: number;
   loop: boolean;
   /** Whether playback starts automatically when the control is added. */
   autoPlay?: boolean;
+  /** Whether playback waits for each step to render (omitted = `false`). */
+  waitForRender?: boolean;
   sources: SourceSpec[];
   /** Granularities offered as pills. */
   granularities?: Granularity[];
@@ -614,6 +1598,13 @@ export interface TimeSliderConfig {
   theme?: 'auto' | 'light' | 'dark';
   /** Date-label token format (undefined = granularity default). */
   dateFormat?: string;
+  /**
+   * Whether the axis histogram counts the control's own data. A
+   * {@link HistogramCounter} cannot be serialized, so it is saved as omitted.
+   */
+  histogram?: boolean;
+  /** IANA time zone of the timeline calendar (omitted = UTC). */
+  timeZone?: string;
   /** Layer to insert managed layers before. */
   beforeId?: string;
 }
@@ -644,7 +1635,10 @@ export interface TimeSliderControlReactProps extends TimeSliderOptions {
 }
 
 /**
- * Event types emitted by the time slider control.
+ * Event types emitted by the time slider control. `'frameready'` fires once the
+ * current date has fully rendered, during wait-for-render playback and
+ * {@link TimeSliderControl.exportAnimation}. `'sourceerror'` fires when a
+ * source's data fails to load.
  */
 export type TimeSliderEvent =
   | 'change'
@@ -652,8 +1646,11 @@ export type TimeSliderEvent =
   | 'pause'
   | 'granularitychange'
   | 'rangechange'
+  | 'rangeselect'
+  | 'frameready'
   | 'sourceadd'
   | 'sourceremove'
+  | 'sourceerror'
   | 'collapse'
   | 'expand'
   | 'statechange';
@@ -664,6 +1661,10 @@ export type TimeSliderEvent =
 export interface TimeSliderEventData {
   type: TimeSliderEvent;
   state: TimeSliderState;
+  /** The failing source's id, on `'sourceerror'`. */
+  sourceId?: string;
+  /** What went wrong, on `'sourceerror'`. */
+  error?: Error;
 }
 
 /**
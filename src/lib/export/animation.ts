@@ -0,0 +1,172 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type { AnimationFormat } from '../core/types';
+import { encodeGif } from './gif';
+import { createZip } from './zip';
+
+/**
+ * Resolves once the map has drawn everything it is waiting on (its `idle`
+ * event), or after `timeout` milliseconds so a tile server that never answers
+ * cannot stall an export forever. A repaint is requested first: when nothing
+ * changed since the last frame, the map would otherwise never fire `idle` again.
+ *
+ * @param map - The MapLibre map
+ * @param timeout - The most milliseconds to wait
+ */
+export function waitForIdle(map: MapLibreMap, timeout: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      map.off('idle', done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeout);
+    map.once('idle', done);
+    map.triggerRepaint();
+  });
+}
+
+/**
+ * Draws a date label into the frame's bottom-left corner, on a translucent
+ * backing so it reads over any basemap.
+ *
+ * @param ctx - The frame's 2D context
+ * @param label - The text
+ * @param scale - Device pixels per CSS pixel
+ */
+function drawLabel(ctx: CanvasRenderingContext2D, label: string, scale: number): void {
+  const pad = 8 * scale;
+  const fontSize = 16 * scale;
+  ctx.font = `700 ${fontSize}px sans-serif`;
+  const width = ctx.measureText(label).width;
+  const boxHeight = fontSize + pad;
+  const y = ctx.canvas.height - pad - boxHeight;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(pad, y, width + pad * 2, boxHeight);
+  ctx.fillStyle = '#fff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, pad * 2, y + boxHeight / 2);
+}
+
+/**
+ * Copies the map's current picture into a standalone canvas, optionally
+ * stamping a date label over it.
+ *
+ * The copy happens inside a `render` handler: the WebGL drawing buffer is only
+ * guaranteed to hold the frame until the browser composites it, so reading it
+ * later would need the map to be created with `preserveDrawingBuffer`.
+ *
+ * @param map - The MapLibre map
+ * @param label - Optional text to draw over the frame
+ * @returns The captured frame
+ */
+export function captureFrame(map: MapLibreMap, label?: string): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    map.once('render', () => {
+      const source = map.getCanvas();
+      const frame = document.createElement('canvas');
+      frame.width = source.width;
+      frame.height = source.height;
+      const ctx = frame.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not create a 2D canvas to capture the map.'));
+        return;
+      }
+      ctx.drawImage(source, 0, 0);
+      if (label) {
+        const scale = source.clientWidth > 0 ? source.width / source.clientWidth : 1;
+        drawLabel(ctx, label, scale);
+      }
+      resolve(frame);
+    });
+    map.triggerRepaint();
+  });
+}
+
+/**
+ * Encodes a canvas as PNG bytes.
+ *
+ * @param canvas - The canvas
+ * @returns The PNG file bytes
+ */
+function toPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('The browser could not encode a frame as PNG.'));
+        return;
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+}
+
+/**
+ * Records frames into a WebM video by replaying them onto a canvas stream at
+ * the requested rate. Recording runs in real time, so this takes as long as the
+ * video it produces.
+ *
+ * @param frames - The frames, in order
+ * @param fps - Frames per second
+ * @returns The WebM video
+ */
+function recordWebm(frames: HTMLCanvasElement[], fps: number): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined') {
+    return Promise.reject(new Error('WebM export needs MediaRecorder, which this browser lacks.'));
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+  });
+  return (async () => {
+    recorder.start();
+    for (const frame of frames) {
+      ctx.drawImage(frame, 0, 0);
+      await new Promise((r) => setTimeout(r, 1000 / fps));
+    }
+    recorder.stop();
+    stream.getTracks().forEach((track) => track.stop());
+    return stopped;
+  })();
+}
+
+/**
+ * Encodes captured frames in the requested format.
+ *
+ * @param frames - Frames of identical size, in order
+ * @param format - `'gif'`, `'webm'`, or `'png-frames'` (a ZIP of numbered PNGs)
+ * @param fps - Frames per second
+ * @returns The encoded file
+ */
+export async function encodeAnimation(
+  frames: HTMLCanvasElement[],
+  format: AnimationFormat,
+  fps: number
+): Promise<Blob> {
+  if (frames.length === 0) throw new RangeError('There are no frames to export.');
+  switch (format) {
+    case 'gif': {
+      const images = frames.map((frame) =>
+        frame.getContext('2d')!.getImageData(0, 0, frame.width, frame.height)
+      );
+      return new Blob([encodeGif(images, fps)], { type: 'image/gif' });
+    }
+    case 'png-frames': {
+      const digits = Math.max(4, String(frames.length).length);
+      const entries = [];
+      for (let i = 0; i < frames.length; i++) {
+        const name = `frame-${String(i + 1).padStart(digits, '0')}.png`;
+        entries.push({ name, data: await toPng(frames[i]) });
+      }
+      return new Blob([createZip(entries)], { type: 'application/zip' });
+    }
+    case 'webm':
+      return recordWebm(frames, fps);
+  }
+}
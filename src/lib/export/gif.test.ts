@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGif, lzwEncode, toPaletteIndices } from './gif';
+
+/**
+ * Reference GIF LZW decoder, used to check the encoder round-trips.
+ */
+function lzwDecode(encoded: Uint8Array): number[] {
+  const minCodeSize = encoded[0];
+  const bytes: number[] = [];
+  for (let i = 1; encoded[i] !== 0; i += encoded[i] + 1) {
+    bytes.push(...encoded.subarray(i + 1, i + 1 + encoded[i]));
+  }
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < clear; i++) table.push([i]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+  const out: number[] = [];
+  let prev: number[] | undefined;
+  let bitPos = 0;
+  for (;;) {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bitPos++) {
+      code |= ((bytes[bitPos >> 3] >> (bitPos & 7)) & 1) << b;
+    }
+    if (code === clear) {
+      reset();
+      prev = undefined;
+      continue;
+    }
+    if (code === end) return out;
+    const entry = code < table.length ? table[code] : [...prev!, prev![0]];
+    out.push(...entry);
+    if (prev) table.push([...prev, entry[0]]);
+    prev = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+}
+
+describe('lzwEncode', () => {
+  it('round-trips through a reference decoder', () => {
+    const indices = new Uint8Array(5000);
+    for (let i = 0; i < indices.length; i++) indices[i] = (i * 7 + (i >> 5)) % 251;
+    expect(lzwDecode(lzwEncode(indices))).toEqual([...indices]);
+  });
+
+  it('round-trips long runs that fill and reset the code table', () => {
+    const indices = new Uint8Array(70_000);
+    for (let i = 0; i < indices.length; i++) indices[i] = ((i * 31) % 256) ^ (i >> 9);
+    expect(lzwDecode(lzwEncode(indices))).toEqual([...indices]);
+  });
+});
+
+describe('toPaletteIndices', () => {
+  it('maps black, white, and pure green onto the fixed palette', () => {
+    const data = new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255, 0, 255, 0, 255]);
+    expect([...toPaletteIndices(data)]).toEqual([0, 251, 36]);
+  });
+});
+
+describe('encodeGif', () => {
+  it('writes a looping GIF89a with one image per frame', () => {
+    const frame = { width: 2, height: 1, data: new Uint8ClampedArray(8).fill(255) };
+    const gif = encodeGif([frame, frame, frame], 4);
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[6] | (gif[7] << 8)).toBe(2);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+    expect(gif.filter((b, i) => b === 0x21 && gif[i + 1] === 0xf9).length).toBe(3);
+    // 4 fps is a 25-hundredths delay.
+    const gce = gif.findIndex((b, i) => b === 0x21 && gif[i + 1] === 0xf9);
+    expect(gif[gce + 4] | (gif[gce + 5] << 8)).toBe(25);
+  });
+
+  it('rejects an empty frame list', () => {
+    expect(() => encodeGif([], 10)).toThrow(RangeError);
+  });
+});
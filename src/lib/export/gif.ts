@@ -0,0 +1,209 @@
+/**
+ * A minimal animated GIF encoder, enough to turn captured map frames into a
+ * looping GIF without pulling in an encoding dependency.
+ *
+ * Colors are mapped onto a fixed 6x7x6 palette (252 colors) instead of being
+ * quantized per frame: it is fast, needs no second pass, and keeps the palette
+ * stable from frame to frame so flat map areas do not flicker.
+ */
+
+/** Levels per channel of the fixed palette (green gets one more; eyes favor it). */
+const LEVELS = { r: 6, g: 7, b: 6 };
+
+/**
+ * The fixed palette as packed RGB triples, padded to the 256 entries a GIF
+ * color table needs.
+ */
+const PALETTE: Uint8Array = (() => {
+  const table = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS.r; r++) {
+    for (let g = 0; g < LEVELS.g; g++) {
+      for (let b = 0; b < LEVELS.b; b++) {
+        table[i++] = Math.round((r * 255) / (LEVELS.r - 1));
+        table[i++] = Math.round((g * 255) / (LEVELS.g - 1));
+        table[i++] = Math.round((b * 255) / (LEVELS.b - 1));
+      }
+    }
+  }
+  return table;
+})();
+
+/**
+ * A frame to encode: RGBA pixels as produced by `CanvasRenderingContext2D.getImageData`.
+ */
+export interface GifFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Maps RGBA pixels to indices into the fixed palette. Alpha is ignored; a map
+ * canvas is opaque.
+ *
+ * @param data - RGBA pixel data
+ * @returns One palette index per pixel
+ */
+export function toPaletteIndices(data: Uint8ClampedArray): Uint8Array {
+  const indices = new Uint8Array(data.length / 4);
+  const { g: gl, b: bl } = LEVELS;
+  for (let p = 0, i = 0; i < indices.length; i++, p += 4) {
+    const r = Math.round((data[p] * (LEVELS.r - 1)) / 255);
+    const g = Math.round((data[p + 1] * (gl - 1)) / 255);
+    const b = Math.round((data[p + 2] * (bl - 1)) / 255);
+    indices[i] = (r * gl + g) * bl + b;
+  }
+  return indices;
+}
+
+/**
+ * Growable byte buffer.
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(4096);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  all(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW-compresses palette indices as GIF image data: the minimum code size byte
+ * followed by the codes, packed least-significant bit first into sub-blocks of
+ * at most 255 bytes.
+ *
+ * @param indices - Palette indices, one per pixel
+ * @param minCodeSize - Bits per palette index (8 for a 256-color table)
+ * @returns The encoded image data
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize = 8): Uint8Array<ArrayBuffer> {
+  const out = new ByteWriter();
+  out.byte(minCodeSize);
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number): void => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.all(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let nextCode = end + 1;
+  let codeSize = minCodeSize + 1;
+  // Keyed by `prefix code << 8 | next index`, which stays below 2^20.
+  const table = new Map<number, number>();
+
+  emit(clear, codeSize);
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      emit(prefix, codeSize);
+      if (nextCode === 4096) {
+        // The table is full: start over rather than growing past 12 bits.
+        emit(clear, codeSize);
+        table.clear();
+        nextCode = end + 1;
+        codeSize = minCodeSize + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+    emit(prefix, codeSize);
+  }
+  emit(end, codeSize);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.all(block);
+  }
+  out.byte(0);
+  return out.result();
+}
+
+/**
+ * Encodes frames as a looping animated GIF.
+ *
+ * @param frames - Frames of identical size, in order
+ * @param fps - Frames per second (GIF delays are whole hundredths of a second)
+ * @returns The GIF file bytes
+ */
+export function encodeGif(frames: GifFrame[], fps: number): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) throw new RangeError('Cannot encode a GIF with no frames.');
+  const { width, height } = frames[0];
+  const delay = Math.max(2, Math.round(100 / fps));
+  const out = new ByteWriter();
+
+  out.all([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // "GIF89a"
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // global color table, 8 bits per channel, 256 entries
+  out.byte(0); // background color index
+  out.byte(0); // pixel aspect ratio (unspecified)
+  out.all(PALETTE);
+
+  // NETSCAPE2.0 application extension: loop forever.
+  out.all([0x21, 0xff, 0x0b]);
+  out.all([...'NETSCAPE2.0'].map((c) => c.charCodeAt(0)));
+  out.all([0x03, 0x01]);
+  out.word(0);
+  out.byte(0);
+
+  for (const frame of frames) {
+    // Graphic control extension: the frame's delay, no transparency.
+    out.all([0x21, 0xf9, 0x04, 0x00]);
+    out.word(delay);
+    out.all([0x00, 0x00]);
+    // Image descriptor covering the whole canvas, using the global table.
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+    out.all(lzwEncode(toPaletteIndices(frame.data)));
+  }
+
+  out.byte(0x3b); // trailer
+  return out.result();
+}
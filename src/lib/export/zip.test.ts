@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each file behind a local header and indexes it in the central directory', () => {
+    const zip = createZip([
+      { name: 'frame-0001.png', data: bytes('first') },
+      { name: 'frame-0002.png', data: bytes('second!') },
+    ]);
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(bytes('first')));
+    expect(new TextDecoder().decode(zip.subarray(30, 44))).toBe('frame-0001.png');
+    expect(new TextDecoder().decode(zip.subarray(44, 49))).toBe('first');
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    // The second central entry points at the second local header.
+    const second = centralStart + 46 + 'frame-0001.png'.length;
+    const secondLocal = view.getUint32(second + 42, true);
+    expect(view.getUint32(secondLocal, true)).toBe(0x04034b50);
+    expect(view.getUint32(secondLocal + 18, true)).toBe(7);
+  });
+});
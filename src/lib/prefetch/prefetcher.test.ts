@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Prefetcher } from './prefetcher';
+
+/**
+ * Stubs fetch with requests that stay pending until released, recording each
+ * request's URL and abort signal.
+ */
+function pendingFetch() {
+  const calls: { url: string; signal: AbortSignal; release: () => void }[] = [];
+  const fetchMock = vi.fn(
+    (url: string, init: RequestInit) =>
+      new Promise<Response>((resolve, reject) => {
+        const signal = init.signal!;
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+        calls.push({
+          url,
+          signal,
+          release: () => resolve(new Response('tile', { status: 200 })),
+        });
+      })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return { calls, fetchMock };
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('Prefetcher', () => {
+  it('keeps at most `concurrency` requests in flight, in order', async () => {
+    const { calls } = pendingFetch();
+    const prefetcher = new Prefetcher(2);
+    prefetcher.request(['a', 'b', 'c']);
+    expect(calls.map((c) => c.url)).toEqual(['a', 'b']);
+
+    calls[0].release();
+    await flush();
+    expect(calls.map((c) => c.url)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('aborts requests no longer wanted and keeps the rest running', () => {
+    const { calls } = pendingFetch();
+    const prefetcher = new Prefetcher(2);
+    prefetcher.request(['a', 'b']);
+    prefetcher.request(['b', 'c']);
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls[1].signal.aborted).toBe(false);
+    expect(calls.map((c) => c.url)).toEqual(['a', 'b', 'c']);
+
+    prefetcher.cancel();
+    expect(calls.every((c) => c.signal.aborted)).toBe(true);
+  });
+
+  it('does not fetch a cached URL again', async () => {
+    const { calls, fetchMock } = pendingFetch();
+    const prefetcher = new Prefetcher(4);
+    prefetcher.request(['a']);
+    calls[0].release();
+    await flush();
+    prefetcher.request(['a', 'b']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(calls[1].url).toBe('b');
+  });
+});
@@ -0,0 +1,90 @@
+import type { RequestTransformFunction } from 'maplibre-gl';
+import { fetchResource } from '../utils/request';
+
+/**
+ * Past this many remembered URLs the record of finished prefetches starts over,
+ * so a long session cannot grow it without bound. Forgetting only costs a
+ * repeat request, which the browser cache usually answers.
+ */
+const MAX_REMEMBERED = 5000;
+
+/**
+ * Warms the browser's HTTP cache by fetching URLs ahead of need, a few at a
+ * time. Each {@link request} replaces the wanted list: fetches for URLs no
+ * longer wanted are aborted, ones still wanted keep running, and URLs that
+ * already finished are not fetched again.
+ */
+export class Prefetcher {
+  private readonly concurrency: number;
+  private readonly transformRequest?: RequestTransformFunction;
+  private queue: string[] = [];
+  private readonly inflight = new Map<string, AbortController>();
+  private readonly done = new Set<string>();
+
+  /**
+   * @param concurrency - The most requests in flight at once
+   * @param transformRequest - The map's request transform, so a rewritten or
+   *   authenticated tile URL is fetched (and cached) as the map will request it
+   */
+  constructor(concurrency: number, transformRequest?: RequestTransformFunction) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.transformRequest = transformRequest;
+  }
+
+  /**
+   * Replaces the wanted URLs, in priority order.
+   *
+   * @param urls - The URLs to have cached, most urgent first
+   */
+  request(urls: string[]): void {
+    const wanted = new Set(urls);
+    for (const [url, controller] of this.inflight) {
+      if (!wanted.has(url)) {
+        controller.abort();
+        this.inflight.delete(url);
+      }
+    }
+    this.queue = [...wanted].filter((url) => !this.done.has(url) && !this.inflight.has(url));
+    this.pump();
+  }
+
+  /**
+   * Aborts every fetch and drops the queue.
+   */
+  cancel(): void {
+    this.request([]);
+  }
+
+  /**
+   * Starts queued fetches until the concurrency budget is spent.
+   */
+  private pump(): void {
+    while (this.inflight.size < this.concurrency && this.queue.length > 0) {
+      const url = this.queue.shift()!;
+      const controller = new AbortController();
+      this.inflight.set(url, controller);
+      fetchResource(url, 'Tile', this.transformRequest, { signal: controller.signal })
+        // Reading the body lets the response be cached in full.
+        .then(async (response) => {
+          await response.arrayBuffer();
+          if (response.ok) this.remember(url);
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.inflight.get(url) !== controller) return;
+          this.inflight.delete(url);
+          this.pump();
+        });
+    }
+  }
+
+  /**
+   * Records a URL as cached.
+   *
+   * @param url - The fetched URL
+   */
+  private remember(url: string): void {
+    if (this.done.size >= MAX_REMEMBERED) this.done.clear();
+    this.done.add(url);
+  }
+}
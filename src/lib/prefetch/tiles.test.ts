@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { intersectBounds, tileUrl, tilesInBounds, tileZoom } from './tiles';
+
+describe('tileZoom', () => {
+  it('goes one level deeper for 256 px tiles and rounds', () => {
+    expect(tileZoom(3.4, 256)).toBe(4);
+    expect(tileZoom(3.6, 512)).toBe(4);
+    expect(tileZoom(-2, 512)).toBe(0);
+    expect(tileZoom(21.9, 256)).toBe(22);
+  });
+});
+
+describe('tilesInBounds', () => {
+  it('covers the box, nearest the center first', () => {
+    const tiles = tilesInBounds([-100, -50, 100, 50], 2);
+    expect(tiles).toHaveLength(8);
+    expect(tiles.slice(0, 4).map((t) => `${t.x}/${t.y}`)).toEqual(
+      expect.arrayContaining(['1/1', '2/1', '1/2', '2/2'])
+    );
+  });
+
+  it('wraps columns past the antimeridian without repeating them', () => {
+    const tiles = tilesInBounds([170, 5, 190, 10], 1);
+    expect(tiles.map((t) => `${t.x}/${t.y}`).sort()).toEqual(['0/0', '1/0']);
+    expect(tilesInBounds([-540, -10, 540, 10], 0)).toEqual([{ z: 0, x: 0, y: 0 }]);
+  });
+});
+
+describe('intersectBounds', () => {
+  it('returns the overlap or undefined', () => {
+    expect(intersectBounds([0, 0, 10, 10], [5, -5, 20, 5])).toEqual([5, 0, 10, 5]);
+    expect(intersectBounds([0, 0, 1, 1], [2, 2, 3, 3])).toBeUndefined();
+  });
+});
+
+describe('tileUrl', () => {
+  it('fills xyz, quadkey, and WMS bbox placeholders', () => {
+    const tile = { z: 1, x: 1, y: 0 };
+    expect(tileUrl('https://t/{z}/{x}/{y}.png', tile)).toBe('https://t/1/1/0.png');
+    expect(tileUrl('https://t/{quadkey}', { z: 3, x: 3, y: 5 })).toBe('https://t/213');
+    expect(tileUrl('bbox={bbox-epsg-3857}', tile)).toBe(
+      'bbox=0,0,20037508.342789244,20037508.342789244'
+    );
+  });
+});
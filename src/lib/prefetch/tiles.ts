@@ -0,0 +1,148 @@
+/**
+ * Web Mercator tile math for prefetching: which tiles a raster source would
+ * request for a viewport, and the URL of each.
+ */
+
+/** Web Mercator's latitude limit; tiles end here. */
+const MAX_LATITUDE = 85.051129;
+
+/** Half the Web Mercator world width, in meters. */
+const ORIGIN_SHIFT = 20037508.342789244;
+
+/**
+ * A tile address.
+ */
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * The zoom level MapLibre loads raster tiles at for a map zoom: its tiles are
+ * laid out on a 512 px grid, so a 256 px source goes one level deeper, and
+ * raster zooms are rounded rather than floored.
+ *
+ * @param zoom - The map's zoom
+ * @param tileSize - The source's tile size in pixels
+ * @param maxZoom - Deepest level the source serves
+ * @returns The integer tile zoom
+ */
+export function tileZoom(zoom: number, tileSize: number, maxZoom = 22): number {
+  return Math.min(maxZoom, Math.max(0, Math.round(zoom + Math.log2(512 / tileSize))));
+}
+
+/**
+ * Column of the tile containing a longitude.
+ *
+ * @param lng - Longitude in degrees
+ * @param z - Tile zoom
+ */
+function lngToTileX(lng: number, z: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** z);
+}
+
+/**
+ * Row of the tile containing a latitude (clamped to the Mercator limit).
+ *
+ * @param lat - Latitude in degrees
+ * @param z - Tile zoom
+ */
+function latToTileY(lat: number, z: number): number {
+  const rad = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z;
+  return Math.min(2 ** z - 1, Math.floor(y));
+}
+
+/**
+ * Lists the tiles covering a `[west, south, east, north]` box, nearest the box
+ * center first so a prefetch budget spends itself where the user is looking.
+ * Longitudes past the antimeridian wrap onto the world's columns.
+ *
+ * @param bounds - The box in degrees
+ * @param z - Tile zoom
+ * @returns The covering tiles, without duplicates
+ */
+export function tilesInBounds(bounds: [number, number, number, number], z: number): TileCoord[] {
+  const [west, south, east, north] = bounds;
+  const n = 2 ** z;
+  const minX = lngToTileX(west, z);
+  const maxX = lngToTileX(east, z);
+  const minY = latToTileY(north, z);
+  const maxY = latToTileY(south, z);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+
+  const seen = new Set<string>();
+  const tiles: (TileCoord & { d: number })[] = [];
+  // A box wider than the world would only revisit the same columns.
+  for (let x = minX; x <= Math.min(maxX, minX + n - 1); x++) {
+    const wrapped = ((x % n) + n) % n;
+    for (let y = minY; y <= maxY; y++) {
+      const key = `${wrapped}/${y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      tiles.push({ z, x: wrapped, y, d: (x - cx) ** 2 + (y - cy) ** 2 });
+    }
+  }
+  return tiles.sort((a, b) => a.d - b.d).map(({ z, x, y }) => ({ z, x, y }));
+}
+
+/**
+ * Intersects two `[west, south, east, north]` boxes.
+ *
+ * @param a - The first box
+ * @param b - The second box
+ * @returns The overlap, or undefined when they do not overlap
+ */
+export function intersectBounds(
+  a: [number, number, number, number],
+  b: [number, number, number, number]
+): [number, number, number, number] | undefined {
+  const box: [number, number, number, number] = [
+    Math.max(a[0], b[0]),
+    Math.max(a[1], b[1]),
+    Math.min(a[2], b[2]),
+    Math.min(a[3], b[3]),
+  ];
+  return box[0] < box[2] && box[1] < box[3] ? box : undefined;
+}
+
+/**
+ * Fills a tile URL template's placeholders the way MapLibre does: `{z}`, `{x}`,
+ * `{y}`, `{quadkey}`, and the `{bbox-epsg-3857}` WMS GetMap requests use.
+ *
+ * @param template - The tile URL template
+ * @param tile - The tile to address
+ * @returns The tile's URL
+ */
+export function tileUrl(template: string, { z, x, y }: TileCoord): string {
+  return template
+    .replace(/{z}/g, String(z))
+    .replace(/{x}/g, String(x))
+    .replace(/{y}/g, String(y))
+    .replace(/{quadkey}/g, () => quadkey(z, x, y))
+    .replace(/{bbox-epsg-3857}/g, () => bbox3857(z, x, y));
+}
+
+/**
+ * Bing-style quadkey of a tile.
+ */
+function quadkey(z: number, x: number, y: number): string {
+  let key = '';
+  for (let i = z; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    key += String((x & mask ? 1 : 0) + (y & mask ? 2 : 0));
+  }
+  return key;
+}
+
+/**
+ * A tile's extent in EPSG:3857 meters, as `minx,miny,maxx,maxy`.
+ */
+function bbox3857(z: number, x: number, y: number): string {
+  const size = (ORIGIN_SHIFT * 2) / 2 ** z;
+  const minX = -ORIGIN_SHIFT + x * size;
+  const maxY = ORIGIN_SHIFT - y * size;
+  return [minX, maxY - size, minX + size, maxY].join(',');
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatDate } from './dateFormat';
+import { formatDate, parseDate } from './dateFormat';
 
 const d = new Date('2024-04-08T05:09:03Z');
 
@@ -24,4 +24,50 @@ describe('formatDate', () => {
   it('emits non-token characters verbatim', () => {
     expect(formatDate(d, 'YYYY/MM')).toBe('2024/04');
   });
+
+  it('renders the quarter', () => {
+    expect(formatDate(d, 'YYYY-Q')).toBe('2024-2');
+    expect(formatDate(new Date('2024-12-31T00:00:00Z'), 'Q')).toBe('4');
+  });
+
+  it('renders ISO week numbers with their week-numbering year', () => {
+    expect(formatDate(d, 'GGGG WW W')).toBe('2024 15 15');
+    // Dec 30 2024 sits in week 1 of 2025; Jan 3 2021 in week 53 of 2020.
+    expect(formatDate(new Date('2024-12-30T00:00:00Z'), 'GGGG-WW YYYY')).toBe('2025-01 2024');
+    expect(formatDate(new Date('2021-01-03T00:00:00Z'), 'GGGG-WW')).toBe('2020-53');
+  });
+
+  it('reads the wall clock of a time zone', () => {
+    expect(formatDate(d, 'YYYY-MM-DD HH:mm', 'America/Los_Angeles')).toBe('2024-04-07 22:09');
+    expect(formatDate(d, 'YYYY-MM-DD HH:mm', 'Asia/Tokyo')).toBe('2024-04-08 14:09');
+    expect(formatDate(d, 'YYYY-MM-DD HH:mm', 'UTC')).toBe('2024-04-08 05:09');
+  });
+
+  it('emits bracketed text literally', () => {
+    expect(formatDate(d, 'GGGG-[W]WW')).toBe('2024-W15');
+    expect(formatDate(d, '[Quarter] Q [of] YYYY')).toBe('Quarter 2 of 2024');
+  });
+});
+
+describe('parseDate', () => {
+  it('reads the fields a format names, defaulting the rest', () => {
+    expect(parseDate('18/04/2024', 'DD/MM/YYYY')?.toISOString()).toBe('2024-04-18T00:00:00.000Z');
+    expect(parseDate('4/8/2024 5:09', 'M/D/YYYY H:mm')?.toISOString()).toBe(
+      '2024-04-08T05:09:00.000Z'
+    );
+    expect(parseDate('Apr 2024', 'MMM YYYY')?.toISOString()).toBe('2024-04-01T00:00:00.000Z');
+    expect(parseDate('2024-W01', 'YYYY-[W]01')?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('reads the wall clock of a time zone', () => {
+    expect(parseDate('2024-07-01 09:00', 'YYYY-MM-DD HH:mm', 'Europe/Paris')?.toISOString()).toBe(
+      '2024-07-01T07:00:00.000Z'
+    );
+  });
+
+  it('rejects strings that do not match and impossible dates', () => {
+    expect(parseDate('2024-04-18', 'DD/MM/YYYY')).toBeUndefined();
+    expect(parseDate('31/02/2024', 'DD/MM/YYYY')).toBeUndefined();
+    expect(parseDate('24:00', 'HH:mm')).toBeUndefined();
+  });
 });
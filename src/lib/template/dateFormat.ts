@@ -1,3 +1,5 @@
+import { fromWallClock, toWallClock } from '../time/timeZone';
+
 /**
  * Full English month names, indexed 0-11.
  */
@@ -22,9 +24,15 @@ const MONTHS_LONG = [
 const MONTHS_SHORT = MONTHS_LONG.map((m) => m.slice(0, 3));
 
 /**
- * Supported tokens, ordered longest-first so the matcher is greedy.
+ * Supported tokens, ordered longest-first so the matcher is greedy. A
+ * `[bracketed]` run is matched first so its contents can be emitted verbatim.
  */
-const TOKEN_RE = /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|m|ss|s/g;
+const TOKEN_RE = /\[[^\]]*\]|YYYY|YY|GGGG|MMMM|MMM|MM|M|Q|WW|W|DD|D|HH|H|mm|m|ss|s/g;
+
+/**
+ * Milliseconds in one week.
+ */
+const WEEK_MS = 604_800_000;
 
 /**
  * Left-pads a number with zeros to the given width.
@@ -37,6 +45,26 @@ function pad(value: number, width = 2): string {
   return String(value).padStart(width, '0');
 }
 
+/**
+ * ISO 8601 week-numbering year and week of a date, in UTC.
+ *
+ * ISO weeks start on Monday and week 1 is the week holding the year's first
+ * Thursday, so the last days of December can belong to week 1 of the next year
+ * and the first days of January to week 52 or 53 of the previous one. Both
+ * fields are derived from the Thursday of the date's week, which always sits
+ * in the week-numbering year.
+ *
+ * @param date - The date to read
+ * @returns The week-numbering year and the week number (1-53)
+ */
+function isoWeek(date: Date): { year: number; week: number } {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const thursday = new Date(day + (3 - ((date.getUTCDay() + 6) % 7)) * 86_400_000);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / WEEK_MS) + 1;
+  return { year, week };
+}
+
 /**
  * Returns the rendered value for a single format token, using UTC fields.
  *
@@ -50,6 +78,8 @@ function tokenValue(date: Date, token: string): string {
       return pad(date.getUTCFullYear(), 4);
     case 'YY':
       return pad(date.getUTCFullYear() % 100);
+    case 'GGGG':
+      return pad(isoWeek(date).year, 4);
     case 'MMMM':
       return MONTHS_LONG[date.getUTCMonth()];
     case 'MMM':
@@ -58,6 +88,12 @@ function tokenValue(date: Date, token: string): string {
       return pad(date.getUTCMonth() + 1);
     case 'M':
       return String(date.getUTCMonth() + 1);
+    case 'Q':
+      return String(Math.floor(date.getUTCMonth() / 3) + 1);
+    case 'WW':
+      return pad(isoWeek(date).week);
+    case 'W':
+      return String(isoWeek(date).week);
     case 'DD':
       return pad(date.getUTCDate());
     case 'D':
@@ -75,19 +111,25 @@ function tokenValue(date: Date, token: string): string {
     case 's':
       return String(date.getUTCSeconds());
     default:
-      return token;
+      // A bracketed literal: drop the brackets, keep the text.
+      return token.startsWith('[') ? token.slice(1, -1) : token;
   }
 }
 
 /**
- * Formats a date using a token string. Tokens are resolved in UTC so output is
- * independent of the host timezone.
+ * Formats a date using a token string. Tokens are resolved in UTC, or in
+ * `timeZone` when one is given, so output never depends on the host timezone.
  *
  * Supported tokens: `YYYY`, `YY`, `MMMM`, `MMM`, `MM`, `M`, `DD`, `D`, `HH`,
- * `H`, `mm`, `m`, `ss`, `s`. Any other characters are emitted verbatim.
+ * `H`, `mm`, `m`, `ss`, `s`, plus `Q` (quarter, 1-4) and the ISO 8601 week
+ * tokens `WW`/`W` (week number) and `GGGG` (the week's year, which differs
+ * from `YYYY` for a few days around New Year). Text wrapped in square brackets
+ * is emitted without its brackets and never read as tokens, so `'GGGG-[W]WW'`
+ * renders as `2025-W01`. Any other characters are emitted verbatim.
  *
  * @param date - The date to format
  * @param format - The token string (e.g. `'YYYY-MM-DD'`)
+ * @param timeZone - IANA zone whose wall clock to read (default UTC)
  * @returns The formatted date string
  *
  * @example
@@ -95,6 +137,109 @@ function tokenValue(date: Date, token: string): string {
  * formatDate(new Date('2024-04-18T00:00:00Z'), 'YYYY MMM DD'); // '2024 Apr 18'
  * ```
  */
-export function formatDate(date: Date, format: string): string {
-  return format.replace(TOKEN_RE, (token) => tokenValue(date, token));
+export function formatDate(date: Date, format: string, timeZone?: string): string {
+  const wall = toWallClock(date, timeZone);
+  return format.replace(TOKEN_RE, (token) => tokenValue(wall, token));
+}
+
+/**
+ * Tokens {@link parseDate} reads, ordered longest-first like {@link TOKEN_RE}.
+ */
+const PARSE_TOKEN_RE = /\[[^\]]*\]|YYYY|MMMM|MMM|MM|M|DD|D|HH|H|mm|m|ss|s/g;
+
+/**
+ * The pattern each {@link PARSE_TOKEN_RE} token matches.
+ */
+const PARSE_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MMMM: `(${MONTHS_LONG.join('|')})`,
+  MMM: `(${MONTHS_SHORT.join('|')})`,
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  m: '(\\d{1,2})',
+  ss: '(\\d{2})',
+  s: '(\\d{1,2})',
+};
+
+/**
+ * Parses a date written in a token format, the inverse of {@link formatDate}.
+ * The fields are read as wall-clock time in `timeZone` (default UTC); fields
+ * the format lacks default to the start of their unit (`'YYYY-MM'` reads as
+ * the first of the month at midnight).
+ *
+ * Supports the year, month, day and time-of-day tokens of {@link formatDate}
+ * (`YYYY`, `MMMM`, `MMM`, `MM`, `M`, `DD`, `D`, `HH`, `H`, `mm`, `m`, `ss`,
+ * `s`) and bracketed literals; any other character must match itself.
+ *
+ * @param value - The date string
+ * @param format - The token string (e.g. `'DD/MM/YYYY'`)
+ * @param timeZone - IANA zone whose wall clock the fields are in (default UTC)
+ * @returns The date, or undefined when the string does not match the format or
+ *   names an impossible date
+ *
+ * @example
+ * ```typescript
+ * parseDate('18/04/2024', 'DD/MM/YYYY'); // 2024-04-18T00:00:00Z
+ * ```
+ */
+export function parseDate(value: string, format: string, timeZone?: string): Date | undefined {
+  const tokens: string[] = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of format.matchAll(PARSE_TOKEN_RE)) {
+    pattern += escapeRegExp(format.slice(last, match.index));
+    const token = match[0];
+    if (token.startsWith('[')) {
+      pattern += escapeRegExp(token.slice(1, -1));
+    } else {
+      pattern += PARSE_PATTERNS[token];
+      tokens.push(token);
+    }
+    last = match.index + token.length;
+  }
+  pattern += escapeRegExp(format.slice(last));
+  const groups = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (!groups) return undefined;
+
+  const fields = { year: 1970, month: 0, day: 1, hour: 0, minute: 0, second: 0 };
+  tokens.forEach((token, i) => {
+    const text = groups[i + 1];
+    if (token === 'MMMM') fields.month = MONTHS_LONG.indexOf(text);
+    else if (token === 'MMM') fields.month = MONTHS_SHORT.indexOf(text);
+    else if (token[0] === 'Y') fields.year = Number(text);
+    else if (token[0] === 'M') fields.month = Number(text) - 1;
+    else if (token[0] === 'D') fields.day = Number(text);
+    else if (token[0] === 'H') fields.hour = Number(text);
+    else if (token[0] === 'm') fields.minute = Number(text);
+    else fields.second = Number(text);
+  });
+  const { year, month, day, hour, minute, second } = fields;
+  const wall = new Date(Date.UTC(year, month, day, hour, minute, second));
+  // Date.UTC rolls overflowing fields forward (31/02 becomes 02/03); reject
+  // them instead.
+  if (
+    wall.getUTCMonth() !== month ||
+    wall.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return undefined;
+  }
+  return fromWallClock(wall, timeZone);
+}
+
+/**
+ * Escapes text for literal use inside a regular expression.
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
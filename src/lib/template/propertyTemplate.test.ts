@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { fillProperties, formatProperty } from './propertyTemplate';
+
+describe('fillProperties', () => {
+  it('substitutes properties by name', () => {
+    expect(fillProperties('M{mag} – {place}', { mag: 4.2, place: 'Offshore' })).toBe(
+      'M4.2 – Offshore'
+    );
+  });
+
+  it('leaves missing properties empty', () => {
+    expect(fillProperties('{name} ({kind})', { name: 'A', kind: null })).toBe('A ()');
+    expect(fillProperties('{name}', null)).toBe('');
+  });
+});
+
+describe('formatProperty', () => {
+  it('rounds numbers and serializes objects', () => {
+    expect(formatProperty(0.1 + 0.2)).toBe('0.3');
+    expect(formatProperty(1713398400000)).toBe('1713398400000');
+    expect(formatProperty({ a: 1 })).toBe('{"a":1}');
+    expect(formatProperty(true)).toBe('true');
+    expect(formatProperty(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Formats a property value for display: fractions rounded to a readable
+ * precision, objects as JSON, and a missing value (absent or `null`) as empty.
+ *
+ * @param value - The property value
+ * @returns The value as text
+ */
+export function formatProperty(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    return String(Number(value.toPrecision(6)));
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Fills `{name}` placeholders in a template from a feature's properties. A
+ * placeholder whose property is missing becomes empty, so a popup never shows
+ * the raw placeholder.
+ *
+ * @param template - The template string
+ * @param properties - The feature's properties
+ * @returns The filled-in string
+ *
+ * @example
+ * ```typescript
+ * fillProperties('M{mag} – {place}', { mag: 4.2, place: 'Offshore' });
+ * // 'M4.2 – Offshore'
+ * ```
+ */
+export function fillProperties(
+  template: string,
+  properties: Record<string, unknown> | null | undefined
+): string {
+  return template.replace(/\{([^{}]+)\}/g, (_, name: string) =>
+    formatProperty(properties?.[name.trim()])
+  );
+}
@@ -13,6 +13,18 @@ describe('expandTokens', () => {
     expect(expandTokens('?d={date:YYYY-MM-DD}', date)).toBe('?d=2024-04-18');
   });
 
+  it("expands tokens on a time zone's calendar", () => {
+    // 06:00 UTC on the 18th is still the 17th in Los Angeles.
+    expect(expandTokens('?d={date:YYYY-MM-DD}', date, 'America/Los_Angeles')).toBe('?d=2024-04-17');
+    expect(resolveUrl('{DD}', date, 'America/Los_Angeles')).toBe('17');
+  });
+
+  it('expands week and quarter tokens', () => {
+    expect(expandTokens('https://x/{GGGG}/{WW}.tif', date)).toBe('https://x/2024/16.tif');
+    expect(expandTokens('https://x/{YYYY}Q{Q}.tif', date)).toBe('https://x/2024Q2.tif');
+    expect(expandTokens('?w={date:GGGG-[W]WW}', date)).toBe('?w=2024-W16');
+  });
+
   it('leaves {z}/{x}/{y} and unknown tokens intact', () => {
     expect(expandTokens('https://x/{z}/{x}/{y}.png?d={YYYY}', date)).toBe(
       'https://x/{z}/{x}/{y}.png?d=2024'
@@ -4,7 +4,7 @@ import { formatDate } from './dateFormat';
 /**
  * Date tokens recognized inside `{...}` placeholders.
  */
-const DATE_TOKEN_RE = /^(YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|m|ss|s)$/;
+const DATE_TOKEN_RE = /^(YYYY|YY|GGGG|MMMM|MMM|MM|M|Q|WW|W|DD|D|HH|H|mm|m|ss|s)$/;
 
 /**
  * Expands date tokens in a template string for a given date.
@@ -18,6 +18,7 @@ const DATE_TOKEN_RE = /^(YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|m|ss|s)$/;
  *
  * @param template - The template string
  * @param date - The date to substitute
+ * @param timeZone - IANA zone whose wall clock the tokens read (default UTC)
  * @returns The expanded string
  *
  * @example
@@ -26,13 +27,13 @@ const DATE_TOKEN_RE = /^(YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|m|ss|s)$/;
  * // 'https://x/2024/04/{z}/{x}/{y}.png'
  * ```
  */
-export function expandTokens(template: string, date: Date): string {
+export function expandTokens(template: string, date: Date, timeZone?: string): string {
   return template.replace(/\{([^}]+)\}/g, (match, token: string) => {
     if (token.startsWith('date:')) {
-      return formatDate(date, token.slice('date:'.length));
+      return formatDate(date, token.slice('date:'.length), timeZone);
     }
     if (DATE_TOKEN_RE.test(token)) {
-      return formatDate(date, token);
+      return formatDate(date, token, timeZone);
     }
     // Unknown placeholder (e.g. {z}/{x}/{y}) — leave intact.
     return match;
@@ -48,11 +49,17 @@ export function expandTokens(template: string, date: Date): string {
  *
  * @param input - A template string or resolver function
  * @param date - The date to resolve for
+ * @param timeZone - IANA zone for template tokens (default UTC); resolver
+ *   functions receive the date itself and apply any zone they need
  * @returns The final URL, or a promise resolving to it
  */
-export function resolveUrl(input: UrlInput, date: Date): string | Promise<string> {
+export function resolveUrl(
+  input: UrlInput,
+  date: Date,
+  timeZone?: string
+): string | Promise<string> {
   if (typeof input === 'function') {
     return input(date);
   }
-  return expandTokens(input, date);
+  return expandTokens(input, date, timeZone);
 }
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { cfTimesToDates, parseCfTimeUnits } from './cfTime';
+
+describe('parseCfTimeUnits', () => {
+  it('reads the unit and a reference date in UTC', () => {
+    expect(parseCfTimeUnits('days since 1970-01-01')).toEqual({ unitMs: 86_400_000, epoch: 0 });
+    expect(parseCfTimeUnits('hours since 2000-1-1 06:30:00')).toEqual({
+      unitMs: 3_600_000,
+      epoch: Date.UTC(2000, 0, 1, 6, 30),
+    });
+    expect(parseCfTimeUnits('seconds since 2020-01-01T00:00:00Z').epoch).toBe(Date.UTC(2020, 0, 1));
+  });
+
+  it('applies a reference time zone offset', () => {
+    expect(parseCfTimeUnits('minutes since 2020-01-01 00:00:00 +02:00').epoch).toBe(
+      Date.UTC(2019, 11, 31, 22)
+    );
+  });
+
+  it('rejects months, years and malformed units', () => {
+    expect(() => parseCfTimeUnits('months since 2000-01-01')).toThrow(/Unsupported/);
+    expect(() => parseCfTimeUnits('days')).toThrow(/Unsupported/);
+    expect(() => parseCfTimeUnits('days since yesterday')).toThrow(/Unsupported/);
+  });
+});
+
+describe('cfTimesToDates', () => {
+  it('counts values from the reference date', () => {
+    expect(cfTimesToDates([0, 1.5], 'days since 2024-01-01').map((d) => d.toISOString())).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-02T12:00:00.000Z',
+    ]);
+  });
+
+  it('rejects non-Gregorian calendars', () => {
+    expect(() => cfTimesToDates([0], 'days since 2000-01-01', 'noleap')).toThrow(/calendar/);
+    expect(cfTimesToDates([0], 'days since 2000-01-01', 'proleptic_gregorian')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Milliseconds per unit CF time coordinates may count in. Months and years are
+ * left out: CF defines them as fixed fractions of a tropical year, which no
+ * calendar date lines up with, so data counting in them is rejected rather
+ * than placed on the wrong days.
+ */
+const CF_UNIT_MS: Record<string, number> = {
+  millisecond: 1,
+  milliseconds: 1,
+  msec: 1,
+  ms: 1,
+  second: 1000,
+  seconds: 1000,
+  sec: 1000,
+  secs: 1000,
+  s: 1000,
+  minute: 60_000,
+  minutes: 60_000,
+  min: 60_000,
+  mins: 60_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+  hr: 3_600_000,
+  hrs: 3_600_000,
+  h: 3_600_000,
+  day: 86_400_000,
+  days: 86_400_000,
+  d: 86_400_000,
+  week: 604_800_000,
+  weeks: 604_800_000,
+};
+
+/**
+ * Calendars whose dates match the proleptic Gregorian calendar JavaScript
+ * dates use (exactly, from 1582 on).
+ */
+const GREGORIAN_CALENDARS = new Set(['standard', 'gregorian', 'proleptic_gregorian']);
+
+/**
+ * Parses CF time units such as `days since 1970-01-01` or
+ * `hours since 2000-01-01 00:00:00`. A reference time without a zone is UTC.
+ *
+ * @param units - The coordinate's `units` attribute
+ * @returns Milliseconds per unit and the reference epoch in milliseconds
+ * @throws If the units are not a supported `<unit> since <date>` expression
+ */
+export function parseCfTimeUnits(units: string): { unitMs: number; epoch: number } {
+  const match = /^\s*(\w+)\s+since\s+(.+?)\s*$/i.exec(units);
+  const unitMs = match ? CF_UNIT_MS[match[1].toLowerCase()] : undefined;
+  if (!match || unitMs === undefined) {
+    throw new Error(`Unsupported CF time units: "${units}"`);
+  }
+  // `1970-1-1 0:0:0`, `1970-01-01T00:00:00Z`, `1970-01-01 00:00:00 +05:00`…
+  const [, y, m, d, rest = ''] =
+    /^(-?\d{1,4})-(\d{1,2})-(\d{1,2})(?:[T\s]+(.*))?$/.exec(match[2]) ?? [];
+  if (!y) throw new Error(`Unsupported CF time units: "${units}"`);
+  const [, hh = '0', mm = '0', ss = '0', zone = ''] =
+    /^(\d{1,2})(?::(\d{1,2}))?(?::(\d{1,2}(?:\.\d+)?))?\s*(Z|UTC|[+-]\d{1,2}(?::?\d{2})?)?$/i.exec(
+      rest.trim()
+    ) ?? [];
+  let epoch =
+    Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm)) + Number(ss) * 1000;
+  const offset = /^([+-])(\d{1,2}):?(\d{2})?$/.exec(zone);
+  if (offset) {
+    const minutes = Number(offset[2]) * 60 + Number(offset[3] ?? 0);
+    epoch -= (offset[1] === '-' ? -1 : 1) * minutes * 60_000;
+  }
+  return { unitMs, epoch };
+}
+
+/**
+ * Converts a CF time coordinate's values to dates.
+ *
+ * @param values - The coordinate values, counted in `units`
+ * @param units - The coordinate's `units` attribute, e.g. `days since 1970-01-01`
+ * @param calendar - The coordinate's `calendar` attribute
+ * @returns One date per value
+ * @throws If the units are unsupported or the calendar is not Gregorian
+ */
+export function cfTimesToDates(
+  values: ArrayLike<number>,
+  units: string,
+  calendar = 'standard'
+): Date[] {
+  if (!GREGORIAN_CALENDARS.has(calendar.toLowerCase())) {
+    throw new Error(`Unsupported CF calendar: "${calendar}"`);
+  }
+  const { unitMs, epoch } = parseCfTimeUnits(units);
+  return Array.from(values, (value) => new Date(epoch + value * unitMs));
+}
@@ -1,6 +1,7 @@
 import type { Granularity } from '../core/types';
 import { formatDate } from '../template/dateFormat';
 import { floorToGranularity } from './granularity';
+import { toWallClock } from './timeZone';
 import { type Tick } from './ticks';
 
 /**
@@ -9,9 +10,13 @@ import { type Tick } from './ticks';
  * repeating the year on every label.
  */
 const ORDINAL_LABEL: Record<Granularity, { short: string; long: string }> = {
+  second: { short: 'MMM DD HH:mm:ss', long: 'YYYY MMM DD HH:mm:ss' },
+  minute: { short: 'MMM DD HH:mm', long: 'YYYY MMM DD HH:mm' },
   hour: { short: 'MMM DD HH:00', long: 'YYYY MMM DD HH:00' },
   day: { short: 'MMM DD', long: 'YYYY MMM DD' },
+  week: { short: '[W]WW', long: 'GGGG [W]WW' },
   month: { short: 'MMM', long: 'YYYY MMM' },
+  quarter: { short: '[Q]Q', long: 'YYYY [Q]Q' },
   year: { short: 'YYYY', long: 'YYYY' },
 };
 
@@ -44,13 +49,14 @@ export function normalizeDates(input: Iterable<Date | string | number>): Date[]
  *
  * @param dates - Ascending, de-duplicated dates
  * @param granularity - The unit at most one step may occupy
+ * @param timeZone - IANA zone whose calendar defines the units (default UTC)
  * @returns One date per occupied unit, ascending
  */
-export function collapseByUnit(dates: Date[], granularity: Granularity): Date[] {
+export function collapseByUnit(dates: Date[], granularity: Granularity, timeZone?: string): Date[] {
   const kept: Date[] = [];
   let lastUnit: number | undefined;
   for (const date of dates) {
-    const unit = floorToGranularity(date, granularity).getTime();
+    const unit = floorToGranularity(date, granularity, timeZone).getTime();
     if (unit === lastUnit) continue;
     lastUnit = unit;
     kept.push(date);
@@ -138,12 +144,14 @@ export function niceStride(count: number, max: number): number {
  * @param dates - Ascending, de-duplicated dates
  * @param granularity - Granularity driving the label format
  * @param maxTicks - Soft cap on tick count (default 400)
+ * @param timeZone - IANA zone to label ticks in (default UTC)
  * @returns Ticks in list order
  */
 export function generateOrdinalTicks(
   dates: Date[],
   granularity: Granularity,
-  maxTicks = 400
+  maxTicks = 400,
+  timeZone?: string
 ): Tick[] {
   if (dates.length === 0) return [];
   const format = ORDINAL_LABEL[granularity];
@@ -153,7 +161,7 @@ export function generateOrdinalTicks(
   let lastYear: number | undefined;
   for (let i = 0; i < dates.length; i += stride) {
     const date = dates[i];
-    const year = date.getUTCFullYear();
+    const year = toWallClock(date, timeZone).getUTCFullYear();
     // The first emitted tick always spells out its year; later ones only do so
     // when the year has rolled over since the previous label.
     const major = lastYear === undefined || year !== lastYear;
@@ -162,7 +170,7 @@ export function generateOrdinalTicks(
       date,
       fraction: i / span,
       major,
-      label: formatDate(date, major ? format.long : format.short),
+      label: formatDate(date, major ? format.long : format.short, timeZone),
     });
   }
   return ticks;
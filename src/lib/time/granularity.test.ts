@@ -19,12 +19,50 @@ describe('addUnits', () => {
     );
   });
 
+  it('advances minutes and seconds, carrying into the next hour and day', () => {
+    expect(addUnits(d('2024-01-01T00:55:00Z'), 'minute', 10).toISOString()).toBe(
+      '2024-01-01T01:05:00.000Z'
+    );
+    expect(addUnits(d('2024-01-01T23:59:30Z'), 'second', 45).toISOString()).toBe(
+      '2024-01-02T00:00:15.000Z'
+    );
+  });
+
+  it('advances ISO weeks across the year boundary and whole quarters', () => {
+    expect(addUnits(d('2024-12-23T00:00:00Z'), 'week', 2).toISOString()).toBe(
+      '2025-01-06T00:00:00.000Z'
+    );
+    expect(addUnits(d('2024-01-01T00:00:00Z'), 'quarter', 3).toISOString()).toBe(
+      '2024-10-01T00:00:00.000Z'
+    );
+    // Quarter stepping clamps the day-of-month like month stepping does.
+    expect(addUnits(d('2024-11-30T00:00:00Z'), 'quarter', 1).toISOString()).toBe(
+      '2025-02-28T00:00:00.000Z'
+    );
+  });
+
   it('handles negative amounts and leap years', () => {
     expect(addUnits(d('2024-03-01T00:00:00Z'), 'day', -1).toISOString()).toBe(
       '2024-02-29T00:00:00.000Z'
     );
   });
 
+  it('steps local days across daylight saving in a time zone', () => {
+    // Midnight in Los Angeles, the day before clocks spring forward.
+    const midnight = d('2024-03-09T08:00:00Z');
+    expect(addUnits(midnight, 'day', 1, 'America/Los_Angeles').toISOString()).toBe(
+      '2024-03-10T08:00:00.000Z'
+    );
+    // The 10th is 23 hours long, so the next midnight is 07:00 UTC.
+    expect(addUnits(midnight, 'day', 2, 'America/Los_Angeles').toISOString()).toBe(
+      '2024-03-11T07:00:00.000Z'
+    );
+    // Clock units advance by elapsed time regardless of the zone.
+    expect(addUnits(midnight, 'hour', 24, 'America/Los_Angeles').toISOString()).toBe(
+      '2024-03-10T08:00:00.000Z'
+    );
+  });
+
   it('does not mutate its input', () => {
     const base = d('2024-01-01T00:00:00Z');
     addUnits(base, 'day', 10);
@@ -51,19 +89,57 @@ describe('addUnits', () => {
 
 describe('floorToGranularity', () => {
   it('floors to the start of the unit in UTC', () => {
-    const date = d('2024-04-18T13:45:30Z');
+    const date = d('2024-04-18T13:45:30.250Z');
+    expect(floorToGranularity(date, 'second').toISOString()).toBe('2024-04-18T13:45:30.000Z');
+    expect(floorToGranularity(date, 'minute').toISOString()).toBe('2024-04-18T13:45:00.000Z');
     expect(floorToGranularity(date, 'hour').toISOString()).toBe('2024-04-18T13:00:00.000Z');
     expect(floorToGranularity(date, 'day').toISOString()).toBe('2024-04-18T00:00:00.000Z');
     expect(floorToGranularity(date, 'month').toISOString()).toBe('2024-04-01T00:00:00.000Z');
     expect(floorToGranularity(date, 'year').toISOString()).toBe('2024-01-01T00:00:00.000Z');
   });
+
+  it('floors to local boundaries in a time zone', () => {
+    // 05:00 PDT on 2024-03-10: the local day began at 00:00 PST.
+    expect(
+      floorToGranularity(d('2024-03-10T12:00:00Z'), 'day', 'America/Los_Angeles').toISOString()
+    ).toBe('2024-03-10T08:00:00.000Z');
+    expect(
+      floorToGranularity(d('2024-04-18T03:00:00Z'), 'month', 'America/Los_Angeles').toISOString()
+    ).toBe('2024-04-01T07:00:00.000Z');
+    // 16:15 IST floors to 16:00 IST, half past the UTC hour.
+    expect(
+      floorToGranularity(d('2024-01-01T10:45:00Z'), 'hour', 'Asia/Kolkata').toISOString()
+    ).toBe('2024-01-01T10:30:00.000Z');
+  });
+
+  it('floors weeks to Monday and quarters to their first month', () => {
+    // 2024-04-18 is a Thursday.
+    const date = d('2024-04-18T13:45:30Z');
+    expect(floorToGranularity(date, 'week').toISOString()).toBe('2024-04-15T00:00:00.000Z');
+    expect(floorToGranularity(date, 'quarter').toISOString()).toBe('2024-04-01T00:00:00.000Z');
+    // A Sunday belongs to the week that began six days earlier.
+    expect(floorToGranularity(d('2024-04-21T23:00:00Z'), 'week').toISOString()).toBe(
+      '2024-04-15T00:00:00.000Z'
+    );
+    // New Year's Day 2025 is a Wednesday; its ISO week opened in 2024.
+    expect(floorToGranularity(d('2025-01-01T00:00:00Z'), 'week').toISOString()).toBe(
+      '2024-12-30T00:00:00.000Z'
+    );
+    expect(floorToGranularity(d('2024-12-31T00:00:00Z'), 'quarter').toISOString()).toBe(
+      '2024-10-01T00:00:00.000Z'
+    );
+  });
 });
 
 describe('granularityCode', () => {
   it('maps each granularity to a single letter', () => {
+    expect(granularityCode('second')).toBe('s');
+    expect(granularityCode('minute')).toBe('m');
     expect(granularityCode('hour')).toBe('H');
     expect(granularityCode('day')).toBe('D');
+    expect(granularityCode('week')).toBe('W');
     expect(granularityCode('month')).toBe('M');
+    expect(granularityCode('quarter')).toBe('Q');
     expect(granularityCode('year')).toBe('Y');
   });
 });
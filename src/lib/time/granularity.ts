@@ -1,24 +1,54 @@
 import type { Granularity } from '../core/types';
+import { fromWallClock, isUtc, toWallClock } from './timeZone';
 
 /**
  * Ordered list of supported granularities, coarsest-last.
  */
-export const GRANULARITIES: Granularity[] = ['hour', 'day', 'month', 'year'];
+export const GRANULARITIES: Granularity[] = [
+  'second',
+  'minute',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+];
+
+/**
+ * Granularities offered as zoom pills when the caller does not choose a set.
+ * Sub-hour units are opt-in, since most timelines span days to years where
+ * minute and second pills would only offer an unusably dense axis; week and
+ * quarter suit specific products (weekly composites, quarterly mosaics) and are
+ * opt-in too.
+ */
+export const DEFAULT_GRANULARITIES: Granularity[] = ['hour', 'day', 'month', 'year'];
 
 /**
  * Single-character label for a granularity, used by the zoom pills.
  *
+ * Sub-hour units take lowercase letters, mirroring the date tokens (`mm` is
+ * minutes where `MM` is months), so minute and month never share a pill label.
+ *
  * @param granularity - The granularity
- * @returns A one-letter code (H, D, M, Y)
+ * @returns A one-letter code (s, m, H, D, W, M, Q, Y)
  */
 export function granularityCode(granularity: Granularity): string {
   switch (granularity) {
+    case 'second':
+      return 's';
+    case 'minute':
+      return 'm';
     case 'hour':
       return 'H';
     case 'day':
       return 'D';
+    case 'week':
+      return 'W';
     case 'month':
       return 'M';
+    case 'quarter':
+      return 'Q';
     case 'year':
       return 'Y';
   }
@@ -34,29 +64,72 @@ export function toDate(value: Date | string): Date {
   return value instanceof Date ? new Date(value.getTime()) : new Date(value);
 }
 
+/**
+ * Whether a granularity measures elapsed clock time (seconds, minutes, hours)
+ * rather than calendar position. Clock units are fixed lengths in every zone;
+ * days and coarser units stretch and shrink across daylight-saving changes.
+ *
+ * @param granularity - The granularity
+ * @returns True for second, minute, and hour
+ */
+export function isClockUnit(granularity: Granularity): boolean {
+  return granularity === 'second' || granularity === 'minute' || granularity === 'hour';
+}
+
 /**
  * Returns a new date advanced by a whole number of granularity units.
  *
- * All arithmetic is performed in UTC so results are independent of the host
- * timezone (important for deterministic tests and shared permalinks).
+ * Arithmetic runs in UTC by default so results are independent of the host
+ * timezone (important for deterministic tests and shared permalinks). With a
+ * `timeZone`, days and coarser units advance the zone's calendar, so a daily
+ * step from local midnight lands on the next local midnight even across a
+ * daylight-saving change; clock units always advance by elapsed time.
  *
  * @param date - The starting date
  * @param granularity - The unit to advance by
  * @param amount - Number of units (may be negative)
+ * @param timeZone - IANA zone whose calendar to step in (default UTC)
  * @returns A new Date advanced by `amount` units
  */
-export function addUnits(date: Date, granularity: Granularity, amount: number): Date {
+export function addUnits(
+  date: Date,
+  granularity: Granularity,
+  amount: number,
+  timeZone?: string
+): Date {
+  if (isUtc(timeZone) || isClockUnit(granularity)) {
+    return addUtcUnits(date, granularity, amount);
+  }
+  return fromWallClock(addUtcUnits(toWallClock(date, timeZone), granularity, amount), timeZone);
+}
+
+/**
+ * Advances a date by whole granularity units on the UTC calendar.
+ */
+function addUtcUnits(date: Date, granularity: Granularity, amount: number): Date {
   const d = new Date(date.getTime());
   switch (granularity) {
+    case 'second':
+      d.setUTCSeconds(d.getUTCSeconds() + amount);
+      break;
+    case 'minute':
+      d.setUTCMinutes(d.getUTCMinutes() + amount);
+      break;
     case 'hour':
       d.setUTCHours(d.getUTCHours() + amount);
       break;
     case 'day':
       d.setUTCDate(d.getUTCDate() + amount);
       break;
+    case 'week':
+      d.setUTCDate(d.getUTCDate() + amount * 7);
+      break;
     case 'month':
       addMonths(d, amount);
       break;
+    case 'quarter':
+      addMonths(d, amount * 3);
+      break;
     case 'year':
       addMonths(d, amount * 12);
       break;
@@ -80,24 +153,57 @@ function addMonths(d: Date, months: number): void {
 }
 
 /**
- * Floors a date to the start of its granularity unit in UTC.
+ * Floors a date to the start of its granularity unit, in UTC unless a
+ * `timeZone` is given.
  *
  * For example, flooring to `'month'` yields the first day of that month at
- * 00:00:00 UTC.
+ * 00:00:00 (UTC, or local midnight in `timeZone`). Weeks are ISO weeks, so
+ * `'week'` floors to the preceding Monday (which may fall in the previous month
+ * or year), and `'quarter'` to the first day of January, April, July, or
+ * October.
  *
  * @param date - The date to floor
  * @param granularity - The unit to floor to
+ * @param timeZone - IANA zone whose calendar to floor in (default UTC)
  * @returns A new Date at the start of the unit
  */
-export function floorToGranularity(date: Date, granularity: Granularity): Date {
+export function floorToGranularity(date: Date, granularity: Granularity, timeZone?: string): Date {
+  if (isUtc(timeZone)) return floorUtc(date, granularity);
+  const wall = toWallClock(date, timeZone);
+  const floored = floorUtc(wall, granularity);
+  // A clock unit floors by the distance into the unit, which stays correct in
+  // the repeated hour when clocks fall back; calendar units name a local
+  // midnight that converts back unambiguously.
+  return isClockUnit(granularity)
+    ? new Date(date.getTime() - (wall.getTime() - floored.getTime()))
+    : fromWallClock(floored, timeZone);
+}
+
+/**
+ * Floors a date to the start of its granularity unit on the UTC calendar.
+ */
+function floorUtc(date: Date, granularity: Granularity): Date {
   const d = new Date(date.getTime());
-  // Always zero out sub-hour precision, then progressively floor coarser fields.
-  d.setUTCMinutes(0, 0, 0);
+  // Always zero out sub-second precision, then progressively floor coarser fields.
+  d.setUTCMilliseconds(0);
+  if (granularity === 'second') return d;
+  d.setUTCSeconds(0);
+  if (granularity === 'minute') return d;
+  d.setUTCMinutes(0);
   if (granularity === 'hour') return d;
   d.setUTCHours(0);
   if (granularity === 'day') return d;
+  if (granularity === 'week') {
+    // getUTCDay() counts from Sunday; ISO weeks start on Monday.
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    return d;
+  }
   d.setUTCDate(1);
   if (granularity === 'month') return d;
+  if (granularity === 'quarter') {
+    d.setUTCMonth(d.getUTCMonth() - (d.getUTCMonth() % 3));
+    return d;
+  }
   d.setUTCMonth(0);
   return d;
 }
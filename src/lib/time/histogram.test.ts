@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { countInBins, histogramBins } from './histogram';
+import { generateTicks } from './ticks';
+
+const d = (iso: string) => new Date(iso);
+
+describe('histogramBins', () => {
+  it('splits the range at each tick', () => {
+    const start = d('2024-01-01T00:00:00Z');
+    const end = d('2024-04-01T00:00:00Z');
+    const bins = histogramBins(generateTicks(start, end, 'month'), start, end);
+    expect(bins.map((b) => b.start.toISOString().slice(0, 10))).toEqual([
+      '2024-01-01',
+      '2024-02-01',
+      '2024-03-01',
+    ]);
+    expect(bins[0].from).toBe(0);
+    expect(bins[bins.length - 1].to).toBe(1);
+    expect(bins[1].from).toBe(bins[0].to);
+  });
+
+  it('adds edge buckets when the range does not start or end on a tick', () => {
+    const start = d('2024-01-15T00:00:00Z');
+    const end = d('2024-03-10T00:00:00Z');
+    const bins = histogramBins(generateTicks(start, end, 'month'), start, end);
+    expect(bins.map((b) => [b.start.toISOString(), b.end.toISOString()])).toEqual([
+      ['2024-01-15T00:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+      ['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'],
+      ['2024-03-01T00:00:00.000Z', '2024-03-10T00:00:00.000Z'],
+    ]);
+  });
+
+  it('returns a single bucket when there are no interior ticks', () => {
+    const start = d('2024-01-01T00:00:00Z');
+    const end = d('2024-01-02T00:00:00Z');
+    expect(histogramBins([], start, end)).toHaveLength(1);
+  });
+});
+
+describe('countInBins', () => {
+  it('counts half-open buckets and keeps a timestamp on the range end', () => {
+    const start = d('2024-01-01T00:00:00Z');
+    const end = d('2024-04-01T00:00:00Z');
+    const bins = histogramBins(generateTicks(start, end, 'month'), start, end);
+    const times = [
+      '2023-12-31T00:00:00Z', // before the range
+      '2024-01-01T00:00:00Z',
+      '2024-01-20T00:00:00Z',
+      '2024-02-01T00:00:00Z',
+      '2024-04-01T00:00:00Z', // exactly the range end
+      '2024-04-02T00:00:00Z', // after the range
+    ].map(Date.parse);
+    expect(countInBins(bins, times)).toEqual([2, 1, 1]);
+  });
+});
@@ -0,0 +1,80 @@
+import type { TimeRange } from '../core/types';
+import type { Tick } from './ticks';
+
+/**
+ * One bar of the axis histogram: the span between two adjacent ticks (`start`
+ * inclusive, `end` exclusive except on the last bar) and where it sits on the
+ * axis.
+ */
+export interface HistogramBin extends TimeRange {
+  /** Axis position of the bucket's left edge, in [0, 1]. */
+  from: number;
+  /** Axis position of the bucket's right edge, in [0, 1]. */
+  to: number;
+}
+
+/**
+ * Splits a timeline into histogram buckets at its ticks, so the bars line up
+ * with the calendar boundaries (or list entries) the axis already draws and
+ * re-bin whenever the ticks do. The span before the first tick and after the
+ * last one become buckets of their own, so every date in the range is counted.
+ *
+ * @param ticks - Axis ticks in ascending order
+ * @param startDate - Inclusive start of the range
+ * @param endDate - Inclusive end of the range
+ * @returns Buckets covering the range, left to right
+ */
+export function histogramBins(ticks: Tick[], startDate: Date, endDate: Date): HistogramBin[] {
+  const edges: { date: Date; fraction: number }[] = [{ date: startDate, fraction: 0 }];
+  for (const tick of ticks) {
+    const last = edges[edges.length - 1];
+    if (tick.date.getTime() > last.date.getTime() && tick.date.getTime() < endDate.getTime()) {
+      edges.push({ date: tick.date, fraction: tick.fraction });
+    }
+  }
+  edges.push({ date: endDate, fraction: 1 });
+  const bins: HistogramBin[] = [];
+  for (let i = 1; i < edges.length; i++) {
+    bins.push({
+      start: edges[i - 1].date,
+      end: edges[i].date,
+      from: edges[i - 1].fraction,
+      to: edges[i].fraction,
+    });
+  }
+  return bins;
+}
+
+/**
+ * Index of the first entry in a sorted list that is at least `time`.
+ *
+ * @param sorted - Ascending timestamps
+ * @param time - The timestamp to look up
+ * @returns An index in [0, sorted.length]
+ */
+function lowerBound(sorted: number[], time: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Counts how many timestamps fall in each bucket. Buckets are half-open except
+ * the last, which also takes a timestamp equal to the range end so data on the
+ * final step is not dropped.
+ *
+ * @param bins - Buckets from {@link histogramBins}
+ * @param sorted - Ascending epoch-millisecond timestamps
+ * @returns One count per bucket
+ */
+export function countInBins(bins: TimeRange[], sorted: number[]): number[] {
+  return bins.map((bin, i) => {
+    const end = bin.end.getTime() + (i === bins.length - 1 ? 1 : 0);
+    return lowerBound(sorted, end) - lowerBound(sorted, bin.start.getTime());
+  });
+}
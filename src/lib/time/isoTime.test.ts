@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { addIsoDuration, expandTimeExtent, parseIsoDuration } from './isoTime';
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe('parseIsoDuration', () => {
+  it('splits a duration into its units', () => {
+    expect(parseIsoDuration('P1Y2M3DT4H5M6S')).toEqual({
+      years: 1,
+      months: 2,
+      weeks: 0,
+      days: 3,
+      hours: 4,
+      minutes: 5,
+      seconds: 6,
+    });
+    expect(parseIsoDuration('PT6H')).toMatchObject({ hours: 6, days: 0 });
+    expect(parseIsoDuration('P2W')).toMatchObject({ weeks: 2 });
+  });
+
+  it('rejects malformed and zero durations', () => {
+    expect(parseIsoDuration('1D')).toBeUndefined();
+    expect(parseIsoDuration('P1DT')).toBeUndefined();
+    expect(parseIsoDuration('P0D')).toBeUndefined();
+    expect(parseIsoDuration('P')).toBeUndefined();
+  });
+});
+
+describe('addIsoDuration', () => {
+  it('steps months from the start so short months do not drift the series', () => {
+    const start = new Date('2024-01-31T00:00:00Z');
+    const month = parseIsoDuration('P1M')!;
+    expect(addIsoDuration(start, month, 1).toISOString()).toBe('2024-02-29T00:00:00.000Z');
+    expect(addIsoDuration(start, month, 2).toISOString()).toBe('2024-03-31T00:00:00.000Z');
+  });
+});
+
+describe('expandTimeExtent', () => {
+  it('expands a start/end/period interval', () => {
+    expect(iso(expandTimeExtent('2024-01-01/2024-01-03/P1D'))).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-02T00:00:00.000Z',
+      '2024-01-03T00:00:00.000Z',
+    ]);
+    expect(expandTimeExtent('2024-01-01T00:00:00Z/2024-01-01T23:59:59Z/PT6H')).toHaveLength(4);
+  });
+
+  it('merges comma lists of instants and intervals, sorted and deduplicated', () => {
+    expect(
+      iso(expandTimeExtent('2024-03-01, 2024-01-01/2024-03-01/P1M, 2023-12-25, bogus'))
+    ).toEqual([
+      '2023-12-25T00:00:00.000Z',
+      '2024-01-01T00:00:00.000Z',
+      '2024-02-01T00:00:00.000Z',
+      '2024-03-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('keeps just the ends of an interval without a period', () => {
+    expect(iso(expandTimeExtent('2020-01-01/2024-01-01'))).toEqual([
+      '2020-01-01T00:00:00.000Z',
+      '2024-01-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('stops at the limit', () => {
+    expect(expandTimeExtent('2000-01-01/2024-01-01/PT1M', 100)).toHaveLength(100);
+  });
+});
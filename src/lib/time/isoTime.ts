@@ -0,0 +1,105 @@
+import { addUnits } from './granularity';
+
+/**
+ * An ISO 8601 duration split into the calendar and clock units it names.
+ */
+export interface IsoDuration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Past this many dates an expanded time extent stops growing, so a minutely
+ * series over decades cannot exhaust memory. Catalogs that dense are better
+ * stepped as a continuous timeline.
+ */
+export const MAX_EXTENT_DATES = 50_000;
+
+const DURATION_RE =
+  /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+/**
+ * Parses an ISO 8601 duration such as `P1D`, `PT6H`, `P1M`, or `P1DT12H`.
+ *
+ * @param value - The duration
+ * @returns Its parts, or undefined when it is not a non-zero duration
+ */
+export function parseIsoDuration(value: string): IsoDuration | undefined {
+  const match = DURATION_RE.exec(value.trim().toUpperCase());
+  if (!match || value.trim().toUpperCase().endsWith('T')) return undefined;
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => (part ? Number(part) : 0));
+  const duration = { years, months, weeks, days, hours, minutes, seconds };
+  return Object.values(duration).some((n) => n > 0) ? duration : undefined;
+}
+
+/**
+ * Advances a date by a whole number of durations on the UTC calendar. Each
+ * step is taken from the same start rather than chained, so a monthly series
+ * from the 31st does not drift after a short month.
+ *
+ * @param start - The first date
+ * @param duration - The step
+ * @param count - How many steps to take
+ * @returns The date `count` steps after `start`
+ */
+export function addIsoDuration(start: Date, duration: IsoDuration, count: number): Date {
+  let date = start;
+  if (duration.years) date = addUnits(date, 'year', duration.years * count);
+  if (duration.months) date = addUnits(date, 'month', duration.months * count);
+  const ms =
+    (((duration.weeks * 7 + duration.days) * 24 + duration.hours) * 60 + duration.minutes) *
+      60_000 +
+    duration.seconds * 1000;
+  return new Date(date.getTime() + ms * count);
+}
+
+/**
+ * Expands a time extent as OGC services advertise it into its dates. The extent
+ * is a comma-separated list whose entries are single instants or
+ * `start/end/period` intervals (`2024-01-01/2024-12-31/P1D`); an interval
+ * without a period contributes just its two ends.
+ *
+ * @param extent - The advertised extent
+ * @param limit - The most dates to produce
+ * @returns The dates, ascending and without duplicates
+ */
+export function expandTimeExtent(extent: string, limit = MAX_EXTENT_DATES): Date[] {
+  const times = new Set<number>();
+  const push = (time: number): boolean => {
+    if (!Number.isNaN(time)) times.add(time);
+    return times.size < limit;
+  };
+  for (const entry of extent.split(',')) {
+    const [first, last, period] = entry.trim().split('/');
+    if (!first) continue;
+    const start = new Date(first);
+    if (last === undefined) {
+      if (!push(start.getTime())) break;
+      continue;
+    }
+    const end = new Date(last);
+    const step = period ? parseIsoDuration(period) : undefined;
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || !step) {
+      if (!push(start.getTime()) || !push(end.getTime())) break;
+      continue;
+    }
+    let full = false;
+    for (let i = 0; ; i++) {
+      const date = addIsoDuration(start, step, i);
+      if (date > end) break;
+      if (!push(date.getTime())) {
+        full = true;
+        break;
+      }
+    }
+    if (full) break;
+  }
+  return [...times].sort((a, b) => a - b).map((time) => new Date(time));
+}
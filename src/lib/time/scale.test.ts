@@ -238,4 +238,40 @@ describe('createTimeScale', () => {
     });
     expect(scale.ordinal).toBe(false);
   });
+
+  it('steps weeks from the first Monday in the range, not the start date', () => {
+    const scale = createTimeScale({
+      // A Thursday: weekly steps still land on ISO week starts.
+      startDate: d('2024-12-19T00:00:00Z'),
+      endDate: d('2025-01-31T00:00:00Z'),
+      interval: 1,
+      granularity: 'week',
+    });
+    expect(iso(scale.startDate)).toBe('2024-12-23');
+    expect(iso(scale.snap(d('2024-12-19T00:00:00Z')))).toBe('2024-12-23');
+    expect(iso(scale.next(d('2024-12-23T00:00:00Z')))).toBe('2024-12-30');
+    expect(iso(scale.snap(d('2025-01-09T00:00:00Z')))).toBe('2025-01-06');
+  });
+
+  it('steps quarters from the first quarter start in the range', () => {
+    const scale = createTimeScale({
+      startDate: d('2024-02-10T00:00:00Z'),
+      endDate: d('2025-06-30T00:00:00Z'),
+      interval: 1,
+      granularity: 'quarter',
+    });
+    expect(iso(scale.startDate)).toBe('2024-04-01');
+    expect(iso(scale.next(d('2024-10-01T00:00:00Z')))).toBe('2025-01-01');
+    expect(iso(scale.prev(d('2024-04-01T00:00:00Z')))).toBe('2024-04-01');
+  });
+
+  it("keeps the caller's start when the range holds no week boundary", () => {
+    const scale = createTimeScale({
+      startDate: d('2024-04-16T00:00:00Z'),
+      endDate: d('2024-04-19T00:00:00Z'),
+      interval: 1,
+      granularity: 'week',
+    });
+    expect(iso(scale.startDate)).toBe('2024-04-16');
+  });
 });
@@ -1,5 +1,6 @@
 import type { Granularity } from '../core/types';
 import { clamp } from '../utils/helpers';
+import { addUnits, floorToGranularity } from './granularity';
 import { generateOrdinalTicks, nearestDateIndex } from './dateList';
 import { generateTicks, type Tick } from './ticks';
 import { dateToFraction, fractionToDate, nextStep, prevStep, snapToStep } from './timeline';
@@ -44,6 +45,8 @@ export interface TimeScaleParams {
   granularity: Granularity;
   /** When present and non-empty, produces an ordinal scale over these dates. */
   dates?: Date[];
+  /** IANA zone whose calendar steps, ticks, and labels follow (default UTC). */
+  timeZone?: string;
 }
 
 /**
@@ -60,6 +63,32 @@ export function createTimeScale(params: TimeScaleParams): TimeScale {
     : createContinuousScale(params);
 }
 
+/**
+ * Granularities whose steps must sit on their own unit boundaries rather than
+ * on the caller's start date: a weekly product publishes on Mondays and a
+ * quarterly one on quarter starts, whatever day the range happens to open on.
+ */
+const ANCHORED: ReadonlySet<Granularity> = new Set<Granularity>(['week', 'quarter']);
+
+/**
+ * The date stepping starts from. For anchored granularities this is the first
+ * unit boundary at or after `startDate` (or `startDate` itself when the range
+ * holds no boundary); otherwise the caller's exact start.
+ */
+function stepAnchor(
+  startDate: Date,
+  endDate: Date,
+  granularity: Granularity,
+  timeZone: string | undefined
+): Date {
+  if (!ANCHORED.has(granularity)) return startDate;
+  let anchor = floorToGranularity(startDate, granularity, timeZone);
+  if (anchor.getTime() < startDate.getTime()) {
+    anchor = addUnits(anchor, granularity, 1, timeZone);
+  }
+  return anchor.getTime() > endDate.getTime() ? startDate : anchor;
+}
+
 /**
  * A continuous scale: dates advance by whole granularity units and sit on the
  * axis in proportion to real elapsed time.
@@ -69,17 +98,19 @@ function createContinuousScale({
   endDate,
   interval,
   granularity,
+  timeZone,
 }: TimeScaleParams): TimeScale {
+  const anchor = stepAnchor(startDate, endDate, granularity, timeZone);
   return {
     ordinal: false,
-    startDate,
+    startDate: anchor,
     endDate,
-    snap: (date) => snapToStep(date, startDate, endDate, interval, granularity),
-    next: (date) => nextStep(date, startDate, endDate, interval, granularity),
-    prev: (date) => prevStep(date, startDate, endDate, interval, granularity),
+    snap: (date) => snapToStep(date, anchor, endDate, interval, granularity, timeZone),
+    next: (date) => nextStep(date, anchor, endDate, interval, granularity, timeZone),
+    prev: (date) => prevStep(date, anchor, endDate, interval, granularity, timeZone),
     toFraction: (date) => dateToFraction(date, startDate, endDate),
     fromFraction: (fraction) => fractionToDate(fraction, startDate, endDate),
-    ticks: (maxTicks) => generateTicks(startDate, endDate, granularity, maxTicks),
+    ticks: (maxTicks) => generateTicks(startDate, endDate, granularity, maxTicks, timeZone),
   };
 }
 
@@ -89,7 +120,10 @@ function createContinuousScale({
  * list, so they are never rendered as a tick and never reached by scrubbing or
  * playback. `interval` still applies, stepping N entries at a time.
  */
-function createOrdinalScale(dates: Date[], { interval, granularity }: TimeScaleParams): TimeScale {
+function createOrdinalScale(
+  dates: Date[],
+  { interval, granularity, timeZone }: TimeScaleParams
+): TimeScale {
   const last = dates.length - 1;
   // A single-date list has no span to divide; every position maps to index 0.
   const span = Math.max(1, last);
@@ -106,6 +140,6 @@ function createOrdinalScale(dates: Date[], { interval, granularity }: TimeScaleP
     prev: (date) => at(indexOf(date) - step),
     toFraction: (date) => clamp(indexOf(date) / span, 0, 1),
     fromFraction: (fraction) => at(Math.round(clamp(fraction, 0, 1) * span)),
-    ticks: (maxTicks) => generateOrdinalTicks(dates, granularity, maxTicks),
+    ticks: (maxTicks) => generateOrdinalTicks(dates, granularity, maxTicks, timeZone),
   };
 }
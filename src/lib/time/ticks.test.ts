@@ -82,6 +82,79 @@ describe('generateTicks', () => {
     expect(labels).toContain('12:00');
   });
 
+  it('labels a sub-hour axis with minutes on round boundaries', () => {
+    const ticks = generateTicks(d('2026-01-01T12:00:00Z'), d('2026-01-01T13:00:00Z'), 'minute', 5);
+    expect(labelsOf(ticks)).toEqual(['Jan 01 12:00', '12:15', '12:30', '12:45', '13:00']);
+    // Five-minute minors subdivide each quarter hour.
+    expect(ticks.filter((tick) => !tick.major)).toHaveLength(8);
+  });
+
+  it('labels a seconds axis with the seconds field', () => {
+    const ticks = generateTicks(d('2026-01-01T12:00:00Z'), d('2026-01-01T12:01:00Z'), 'second', 5);
+    expect(labelsOf(ticks)).toEqual([
+      'Jan 01 12:00:00',
+      '12:00:15',
+      '12:00:30',
+      '12:00:45',
+      '12:01:00',
+    ]);
+  });
+
+  it('labels a weekly axis with ISO weeks and their week-year', () => {
+    const ticks = generateTicks(d('2024-12-02T00:00:00Z'), d('2025-01-27T00:00:00Z'), 'week', 20);
+    expect(labelsOf(ticks)).toEqual([
+      '2024 W49',
+      'W50',
+      'W51',
+      'W52',
+      // Monday Dec 30 opens week 1 of 2025.
+      '2025 W01',
+      'W02',
+      'W03',
+      'W04',
+      'W05',
+    ]);
+    expect(ticks.every((tick) => tick.date.getUTCDay() === 1)).toBe(true);
+  });
+
+  it('aligns two-week ticks to Mondays', () => {
+    const ticks = generateTicks(d('2024-01-01T00:00:00Z'), d('2024-12-31T00:00:00Z'), 'week', 30);
+    expect(ticks.filter((tick) => tick.major).length).toBeGreaterThan(20);
+    expect(ticks.every((tick) => tick.date.getUTCDay() === 1)).toBe(true);
+  });
+
+  it('labels a quarterly axis with the year at each rollover', () => {
+    const ticks = generateTicks(
+      d('2023-01-01T00:00:00Z'),
+      d('2024-12-31T00:00:00Z'),
+      'quarter',
+      20
+    );
+    expect(labelsOf(ticks)).toEqual(['2023 Q1', 'Q2', 'Q3', 'Q4', '2024 Q1', 'Q2', 'Q3', 'Q4']);
+  });
+
+  it('places and labels day ticks on local midnights in a time zone', () => {
+    const ticks = generateTicks(
+      d('2024-03-09T08:00:00Z'),
+      d('2024-03-12T07:00:00Z'),
+      'day',
+      10,
+      'America/Los_Angeles'
+    );
+    const majors = ticks.filter((tick) => tick.major);
+    expect(majors.map((tick) => tick.date.toISOString())).toEqual([
+      '2024-03-09T08:00:00.000Z',
+      '2024-03-10T08:00:00.000Z',
+      '2024-03-11T07:00:00.000Z',
+      '2024-03-12T07:00:00.000Z',
+    ]);
+    expect(labelsOf(ticks)).toEqual(['Mar 09 2024', 'Mar 10', 'Mar 11', 'Mar 12']);
+    // The 23-hour day takes a shorter slice of the track.
+    expect(majors[2].fraction - majors[1].fraction).toBeLessThan(
+      majors[1].fraction - majors[0].fraction
+    );
+  });
+
   it('emits one tick per year for year granularity with no minors', () => {
     const ticks = generateTicks(d('2020-01-01T00:00:00Z'), d('2023-01-01T00:00:00Z'), 'year');
     expect(ticks.every((t) => t.major)).toBe(true);
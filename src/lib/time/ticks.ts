@@ -1,6 +1,7 @@
 import type { Granularity } from '../core/types';
 import { GRANULARITIES, addUnits, floorToGranularity } from './granularity';
 import { dateToFraction } from './timeline';
+import { fromWallClock, toWallClock } from './timeZone';
 import { formatDate } from '../template/dateFormat';
 
 /**
@@ -38,15 +39,25 @@ interface TickStep {
 
 /**
  * The ladder of candidate tick intervals, finest-first. Every rung is a round
- * calendar cadence that reads naturally on an axis (3 hours, a week, a quarter,
- * a quarter-century), so any span from a few hours to a few millennia can be
- * covered by picking the rung nearest the desired spacing.
+ * calendar cadence that reads naturally on an axis (15 minutes, 3 hours, a
+ * week, a quarter, a quarter-century), so any span from a few seconds to a few
+ * millennia can be covered by picking the rung nearest the desired spacing.
  *
  * Steps are expressed as calendar units rather than fixed millisecond
  * intervals, so months and years land on real boundaries and never drift across
  * leap years.
  */
 const TICK_LADDER: TickStep[] = [
+  { unit: 'second', multiple: 1 },
+  { unit: 'second', multiple: 5 },
+  { unit: 'second', multiple: 10 },
+  { unit: 'second', multiple: 15 },
+  { unit: 'second', multiple: 30 },
+  { unit: 'minute', multiple: 1 },
+  { unit: 'minute', multiple: 5 },
+  { unit: 'minute', multiple: 10 },
+  { unit: 'minute', multiple: 15 },
+  { unit: 'minute', multiple: 30 },
   { unit: 'hour', multiple: 1 },
   { unit: 'hour', multiple: 2 },
   { unit: 'hour', multiple: 3 },
@@ -56,9 +67,15 @@ const TICK_LADDER: TickStep[] = [
   { unit: 'day', multiple: 2 },
   { unit: 'day', multiple: 7 },
   { unit: 'day', multiple: 14 },
+  // Monday-anchored rungs, reachable only once the granularity rules out the
+  // day rungs of the same length above.
+  { unit: 'week', multiple: 1 },
+  { unit: 'week', multiple: 2 },
   { unit: 'month', multiple: 1 },
   { unit: 'month', multiple: 3 },
   { unit: 'month', multiple: 6 },
+  { unit: 'quarter', multiple: 1 },
+  { unit: 'quarter', multiple: 2 },
   { unit: 'year', multiple: 1 },
   { unit: 'year', multiple: 2 },
   { unit: 'year', multiple: 5 },
@@ -76,11 +93,15 @@ const TICK_LADDER: TickStep[] = [
  * spacing. Placement itself always walks real calendar boundaries.
  */
 const MEAN_UNIT_MS: Record<Granularity, number> = {
+  second: 1_000,
+  minute: 60_000,
   hour: 3_600_000,
   day: 86_400_000,
+  week: 604_800_000,
   // Mean Gregorian month and year (365.2425 days), so long spans pick a rung
   // that matches the true average density rather than a 365-day approximation.
   month: 2_629_746_000,
+  quarter: 7_889_238_000,
   year: 31_556_952_000,
 };
 
@@ -92,27 +113,35 @@ function stepMs(step: TickStep): number {
 }
 
 /**
- * Which rungs can divide one another exactly. Hours divide days and months
- * divide years, but no whole number of days makes up a calendar month, so the
- * two families never mix.
+ * Which rungs can divide one another exactly. Seconds, minutes, and hours divide
+ * days and weeks, and months divide quarters and years, but no whole number of
+ * days makes up a calendar month, so the two families never mix.
  */
 function familyOf(unit: Granularity): 'time' | 'calendar' {
-  return unit === 'hour' || unit === 'day' ? 'time' : 'calendar';
+  return unit === 'month' || unit === 'quarter' || unit === 'year' ? 'calendar' : 'time';
 }
 
 /**
- * A rung's size in its family's base unit: hours for the time family, months
+ * A rung's size in its family's base unit: seconds for the time family, months
  * for the calendar one. Exact, unlike the mean-length estimates used for
  * spacing, so divisibility between rungs can be tested with a modulo.
  */
 function familySize(step: TickStep): number {
   switch (step.unit) {
-    case 'hour':
+    case 'second':
       return step.multiple;
+    case 'minute':
+      return step.multiple * 60;
+    case 'hour':
+      return step.multiple * 3_600;
     case 'day':
-      return step.multiple * 24;
+      return step.multiple * 86_400;
+    case 'week':
+      return step.multiple * 604_800;
     case 'month':
       return step.multiple;
+    case 'quarter':
+      return step.multiple * 3;
     case 'year':
       return step.multiple * 12;
   }
@@ -169,6 +198,12 @@ function selectMinorStep(
   return undefined;
 }
 
+/**
+ * A Monday (1970-01-05), so multi-week rungs align to Monday-anchored runs
+ * rather than to the Thursday the epoch fell on.
+ */
+const MONDAY_EPOCH_MS = 345_600_000;
+
 /**
  * Floors a date to a stable calendar boundary for a unit multiple.
  */
@@ -178,12 +213,18 @@ function floorToMultiple(date: Date, unit: Granularity, multiple: number): Date
   if (unit === 'year') {
     return new Date(Date.UTC(Math.floor(floored.getUTCFullYear() / multiple) * multiple, 0, 1));
   }
-  if (unit === 'month') {
+  if (unit === 'month' || unit === 'quarter') {
+    const months = unit === 'quarter' ? multiple * 3 : multiple;
     const month = floored.getUTCFullYear() * 12 + floored.getUTCMonth();
-    const aligned = Math.floor(month / multiple) * multiple;
+    const aligned = Math.floor(month / months) * months;
     return new Date(Date.UTC(Math.floor(aligned / 12), aligned % 12, 1));
   }
-  const unitMs = unit === 'day' ? 86_400_000 : 3_600_000;
+  if (unit === 'week') {
+    const weekMs = MEAN_UNIT_MS.week * multiple;
+    const offset = floored.getTime() - MONDAY_EPOCH_MS;
+    return new Date(MONDAY_EPOCH_MS + Math.floor(offset / weekMs) * weekMs);
+  }
+  const unitMs = MEAN_UNIT_MS[unit];
   return new Date(Math.floor(floored.getTime() / (multiple * unitMs)) * multiple * unitMs);
 }
 
@@ -232,21 +273,45 @@ function majorLabel(date: Date, step: TickStep, previous: Date | undefined): str
   switch (step.unit) {
     case 'year':
       return formatDate(date, 'YYYY');
+    case 'quarter':
+      return formatDate(date, newYear(date, previous) ? 'YYYY [Q]Q' : '[Q]Q');
     case 'month':
       return formatDate(date, 'MMM YYYY');
-    case 'day': {
-      const newYear = !previous || previous.getUTCFullYear() !== date.getUTCFullYear();
-      return formatDate(date, newYear ? 'MMM DD YYYY' : 'MMM DD');
-    }
-    case 'hour': {
-      const newDay =
-        !previous ||
-        floorToGranularity(previous, 'day').getTime() !== floorToGranularity(date, 'day').getTime();
-      return formatDate(date, newDay ? 'MMM DD HH:00' : 'HH:00');
+    case 'week': {
+      // Week ticks carry the ISO week-year, which can differ from the calendar
+      // year of the Monday they sit on.
+      const sameYear = previous && formatDate(previous, 'GGGG') === formatDate(date, 'GGGG');
+      return formatDate(date, sameYear ? '[W]WW' : 'GGGG [W]WW');
     }
+    case 'day':
+      return formatDate(date, newYear(date, previous) ? 'MMM DD YYYY' : 'MMM DD');
+    case 'hour':
+      return formatDate(date, newDay(date, previous) ? 'MMM DD HH:00' : 'HH:00');
+    case 'minute':
+      return formatDate(date, newDay(date, previous) ? 'MMM DD HH:mm' : 'HH:mm');
+    case 'second':
+      return formatDate(date, newDay(date, previous) ? 'MMM DD HH:mm:ss' : 'HH:mm:ss');
   }
 }
 
+/**
+ * Whether a tick starts a different calendar year than its predecessor.
+ */
+function newYear(date: Date, previous: Date | undefined): boolean {
+  return !previous || previous.getUTCFullYear() !== date.getUTCFullYear();
+}
+
+/**
+ * Whether a sub-day tick starts a different calendar day than its predecessor,
+ * so its label needs the date spelled out.
+ */
+function newDay(date: Date, previous: Date | undefined): boolean {
+  return (
+    !previous ||
+    floorToGranularity(previous, 'day').getTime() !== floorToGranularity(date, 'day').getTime()
+  );
+}
+
 /**
  * Generates axis ticks for a date range and granularity.
  *
@@ -256,19 +321,28 @@ function majorLabel(date: Date, step: TickStep, previous: Date | undefined): str
  * one days, and two centuries therefore all land at a comparable label density
  * without any special-casing.
  *
+ * With a `timeZone`, boundaries are walked and labelled on the zone's wall
+ * clock, so day ticks sit on local midnights and hour labels read local time.
+ * Fractions are still computed from the real instants, so a day shortened by
+ * daylight saving occupies proportionally less of the track.
+ *
  * @param start - Inclusive range start
  * @param end - Inclusive range end
  * @param granularity - The active granularity, which the ladder never goes below
  * @param maxTicks - Approximate label budget, from the track's pixel width
  *   (default 400)
+ * @param timeZone - IANA zone to place and label ticks in (default UTC)
  * @returns Ticks sorted by date, de-duplicated by timestamp
  */
 export function generateTicks(
   start: Date,
   end: Date,
   granularity: Granularity,
-  maxTicks = 400
+  maxTicks = 400,
+  timeZone?: string
 ): Tick[] {
+  const wallStart = toWallClock(start, timeZone);
+  const wallEnd = toWallClock(end, timeZone);
   const spanMs = end.getTime() - start.getTime();
   const budget = Math.max(1, Math.floor(maxTicks));
   const majorStep = selectStep(spanMs, granularity, budget);
@@ -280,19 +354,25 @@ export function generateTicks(
   const seen = new Set<number>();
   let previousMajor: Date | undefined;
 
-  for (const date of walkBoundaries(start, end, majorStep)) {
+  for (const wall of walkBoundaries(wallStart, wallEnd, majorStep)) {
+    const date = fromWallClock(wall, timeZone);
+    if (seen.has(date.getTime())) continue;
     seen.add(date.getTime());
+    // A boundary skipped by a spring-forward gap lands past it; label the
+    // wall time it actually landed on.
+    const shown = toWallClock(date, timeZone);
     ticks.push({
       date,
       fraction: dateToFraction(date, start, end),
       major: true,
-      label: majorLabel(date, majorStep, previousMajor),
+      label: majorLabel(shown, majorStep, previousMajor),
     });
-    previousMajor = date;
+    previousMajor = shown;
   }
 
   if (minorStep) {
-    for (const date of walkBoundaries(start, end, minorStep)) {
+    for (const wall of walkBoundaries(wallStart, wallEnd, minorStep)) {
+      const date = fromWallClock(wall, timeZone);
       if (seen.has(date.getTime())) continue;
       seen.add(date.getTime());
       ticks.push({ date, fraction: dateToFraction(date, start, end), major: false });
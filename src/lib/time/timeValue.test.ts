@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimeValue } from './timeValue';
+
+const t = Date.UTC(2024, 3, 18, 12);
+
+describe('parseTimeValue', () => {
+  it('reads epoch milliseconds and seconds by magnitude', () => {
+    expect(parseTimeValue(t)).toBe(t);
+    expect(parseTimeValue(t / 1000)).toBe(t);
+    expect(parseTimeValue(String(t))).toBe(t);
+    expect(parseTimeValue(`${t / 1000}`)).toBe(t);
+  });
+
+  it('reads numbers below 1e11 as seconds, so older milliseconds need a format', () => {
+    // 1e11 milliseconds is 1973-03-03T09:46:40Z.
+    expect(parseTimeValue(1e11)).toBe(1e11);
+    expect(parseTimeValue(1e11 - 1)).toBe((1e11 - 1) * 1000);
+    const y1970 = Date.UTC(1970, 6, 1);
+    expect(parseTimeValue(y1970)).toBe(y1970 * 1000);
+    expect(parseTimeValue(y1970, 'x')).toBe(y1970);
+  });
+
+  it('reads ISO strings, offset-less ones in the time zone', () => {
+    expect(parseTimeValue('2024-04-18T12:00:00Z')).toBe(t);
+    expect(parseTimeValue('2024-04-18T14:00:00+02:00')).toBe(t);
+    expect(parseTimeValue('2024-04-18')).toBe(Date.UTC(2024, 3, 18));
+    expect(parseTimeValue('2024-04-18 12:00')).toBe(t);
+    expect(parseTimeValue('2024-04-18T14:00:00.500', undefined, 'Europe/Paris')).toBe(t + 500);
+  });
+
+  it('follows a format for ambiguous values', () => {
+    expect(parseTimeValue(1000, 'x')).toBe(1000);
+    expect(parseTimeValue('1000', 'X')).toBe(1_000_000);
+    expect(parseTimeValue('04/05/2024', 'DD/MM/YYYY')).toBe(Date.UTC(2024, 4, 4));
+    expect(parseTimeValue('04/05/2024', 'MM/DD/YYYY')).toBe(Date.UTC(2024, 3, 5));
+  });
+
+  it('returns undefined for values that are not times', () => {
+    expect(parseTimeValue(null)).toBeUndefined();
+    expect(parseTimeValue('')).toBeUndefined();
+    expect(parseTimeValue('soon')).toBeUndefined();
+    expect(parseTimeValue('2024-04-18', 'X')).toBeUndefined();
+    expect(parseTimeValue(true)).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { parseDate } from '../template/dateFormat';
+import { fromWallClock } from './timeZone';
+
+/**
+ * Epoch values below this magnitude are read as seconds rather than
+ * milliseconds. 1e11 seconds is the year 5138; 1e11 milliseconds is March
+ * 1973, so only millisecond timestamps older than that are misread (a
+ * `timeFormat` of `'x'` settles them).
+ */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/**
+ * An ISO 8601 date or date-time without a UTC offset, which `Date.parse` would
+ * read in the host's zone (date-times) or in UTC (dates).
+ */
+const NAIVE_ISO_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?$/;
+
+/**
+ * A plain number written as a string.
+ */
+const NUMERIC_RE = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Reads an epoch number, deciding seconds or milliseconds by magnitude.
+ */
+function fromEpoch(value: number): number {
+  return Math.abs(value) < EPOCH_SECONDS_LIMIT ? value * 1000 : value;
+}
+
+/**
+ * Reads a timestamp as it appears in a data attribute — epoch milliseconds or
+ * seconds, an ISO 8601 string, or a date-only string — as epoch milliseconds.
+ *
+ * Without a format, numbers (and numeric strings) are epoch seconds or
+ * milliseconds by magnitude, and other strings are ISO 8601; one without a UTC
+ * offset is wall-clock time in `timeZone`, as the timeline's own dates are. A
+ * `format` settles ambiguous values: `'x'` for epoch milliseconds, `'X'` for
+ * epoch seconds, or a token string for {@link parseDate} (`'DD/MM/YYYY'`).
+ *
+ * @param value - The attribute value
+ * @param format - How to read the value, when it is ambiguous
+ * @param timeZone - IANA zone of offset-less wall-clock times (default UTC)
+ * @returns Epoch milliseconds, or undefined when the value is not a time
+ */
+export function parseTimeValue(
+  value: unknown,
+  format?: string,
+  timeZone?: string
+): number | undefined {
+  let time: number | undefined;
+  if (typeof value === 'number') {
+    time = format === 'x' ? value : format === 'X' ? value * 1000 : fromEpoch(value);
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    const text = value.trim();
+    if (format === 'x' || format === 'X') {
+      time = NUMERIC_RE.test(text) ? Number(text) * (format === 'X' ? 1000 : 1) : undefined;
+    } else if (format) {
+      time = parseDate(text, format, timeZone)?.getTime();
+    } else if (NUMERIC_RE.test(text)) {
+      time = fromEpoch(Number(text));
+    } else {
+      const naive = NAIVE_ISO_RE.exec(text);
+      if (naive) {
+        const [, year, month, day, hour = 0, minute = 0, second = 0, fraction = 0] = naive;
+        const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, +fraction * 1000);
+        time = fromWallClock(new Date(wall), timeZone).getTime();
+      } else {
+        time = Date.parse(text);
+      }
+    }
+  }
+  return time !== undefined && Number.isFinite(time) ? time : undefined;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { fromWallClock, resolveTimeZone, timeZoneOffset, toWallClock } from './timeZone';
+
+const d = (iso: string) => new Date(iso);
+const HOUR = 3_600_000;
+const LA = 'America/Los_Angeles';
+
+describe('timeZoneOffset', () => {
+  it('follows daylight saving', () => {
+    expect(timeZoneOffset(d('2024-01-15T12:00:00Z'), LA)).toBe(-8 * HOUR);
+    expect(timeZoneOffset(d('2024-07-15T12:00:00Z'), LA)).toBe(-7 * HOUR);
+  });
+
+  it('handles fractional-hour zones and UTC', () => {
+    expect(timeZoneOffset(d('2024-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(5.5 * HOUR);
+    expect(timeZoneOffset(d('2024-01-15T12:00:00Z'), 'UTC')).toBe(0);
+  });
+});
+
+describe('toWallClock / fromWallClock', () => {
+  it('round-trips ordinary times', () => {
+    const instant = d('2024-04-18T19:30:00Z');
+    const wall = toWallClock(instant, LA);
+    expect(wall.toISOString()).toBe('2024-04-18T12:30:00.000Z');
+    expect(fromWallClock(wall, LA).toISOString()).toBe(instant.toISOString());
+  });
+
+  it('is the identity for UTC', () => {
+    const instant = d('2024-04-18T19:30:00Z');
+    expect(toWallClock(instant, undefined).getTime()).toBe(instant.getTime());
+    expect(fromWallClock(instant, 'UTC').getTime()).toBe(instant.getTime());
+  });
+
+  it('resolves a time repeated by the fall-back transition to its first occurrence', () => {
+    // 01:30 happens twice in Los Angeles on 2024-11-03: first PDT, then PST.
+    expect(fromWallClock(d('2024-11-03T01:30:00Z'), LA).toISOString()).toBe(
+      '2024-11-03T08:30:00.000Z'
+    );
+  });
+
+  it('moves a time skipped by the spring-forward gap past the gap', () => {
+    // 02:30 never happens in Los Angeles on 2024-03-10; it reads as 03:30 PDT.
+    const instant = fromWallClock(d('2024-03-10T02:30:00Z'), LA);
+    expect(instant.toISOString()).toBe('2024-03-10T10:30:00.000Z');
+    expect(toWallClock(instant, LA).toISOString()).toBe('2024-03-10T03:30:00.000Z');
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('defaults to UTC and passes valid zones through', () => {
+    expect(resolveTimeZone(undefined)).toBe('UTC');
+    expect(resolveTimeZone(LA)).toBe(LA);
+  });
+
+  it('rejects unknown zones', () => {
+    expect(() => resolveTimeZone('Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * The default time zone. Every calendar computation without an explicit zone
+ * runs in UTC, so results are independent of the host's own zone.
+ */
+export const UTC = 'UTC';
+
+/**
+ * One formatter per zone, reused because constructing an `Intl.DateTimeFormat`
+ * is far more expensive than calling it.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the cached numeric formatter for a zone.
+ *
+ * @param timeZone - An IANA time zone name
+ * @returns A formatter producing 24-hour numeric date and time parts
+ */
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a zone can skip the wall-clock conversion entirely. Treating an
+ * omitted zone and `'UTC'` alike keeps the default path exactly the plain UTC
+ * arithmetic it has always been.
+ *
+ * @param timeZone - An IANA time zone name, or undefined for UTC
+ * @returns True when the zone is UTC
+ */
+export function isUtc(timeZone: string | undefined): boolean {
+  return timeZone === undefined || timeZone === UTC;
+}
+
+/**
+ * Validates a caller-supplied zone name, defaulting an omitted one to UTC.
+ *
+ * @param timeZone - An IANA time zone name (e.g. `'America/Los_Angeles'`)
+ * @returns The zone name, or `'UTC'` when omitted
+ * @throws RangeError when the runtime does not recognize the zone
+ */
+export function resolveTimeZone(timeZone: string | undefined): string {
+  if (isUtc(timeZone)) return UTC;
+  try {
+    formatterFor(timeZone!);
+  } catch {
+    throw new RangeError(
+      `Unknown time zone: "${timeZone}". Use an IANA name such as "Europe/Berlin".`
+    );
+  }
+  return timeZone!;
+}
+
+/**
+ * The zone's offset from UTC at an instant, in milliseconds (negative west of
+ * Greenwich). Sub-second precision is ignored; no zone has one.
+ *
+ * @param date - The instant
+ * @param timeZone - An IANA time zone name
+ * @returns Milliseconds to add to the instant to read its wall-clock time
+ */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  if (isUtc(timeZone)) return 0;
+  const fields: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  const wall = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    // Some engines still render midnight as hour 24 despite `h23`.
+    fields.hour % 24,
+    fields.minute,
+    fields.second
+  );
+  return wall - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Shifts an instant so that its UTC fields read the wall-clock time in a zone.
+ *
+ * The result is not a real instant; it exists so the UTC calendar arithmetic
+ * and formatting used everywhere else can operate on local fields unchanged.
+ * {@link fromWallClock} converts back.
+ *
+ * @param date - The instant
+ * @param timeZone - An IANA time zone name, or undefined for UTC
+ * @returns A date whose UTC fields are the zone's wall-clock fields
+ */
+export function toWallClock(date: Date, timeZone: string | undefined): Date {
+  if (isUtc(timeZone)) return new Date(date.getTime());
+  return new Date(date.getTime() + timeZoneOffset(date, timeZone!));
+}
+
+/**
+ * Converts a wall-clock time (expressed in UTC fields, as produced by
+ * {@link toWallClock}) back to the instant it names in a zone.
+ *
+ * Daylight-saving transitions make this ambiguous twice a year. A time repeated
+ * when the clocks fall back resolves to its first occurrence; a time skipped
+ * when they spring forward resolves to the same distance past the gap (02:30
+ * on a 02:00 to 03:00 transition becomes 03:30), so stepping never stalls.
+ *
+ * @param wall - A date whose UTC fields hold the wall-clock time
+ * @param timeZone - An IANA time zone name, or undefined for UTC
+ * @returns The instant
+ */
+export function fromWallClock(wall: Date, timeZone: string | undefined): Date {
+  if (isUtc(timeZone)) return new Date(wall.getTime());
+  const ms = wall.getTime();
+  // The offsets either side of any nearby transition: one of them is in force
+  // at the instant we want (or neither, inside a spring-forward gap).
+  const before = timeZoneOffset(new Date(ms - 86_400_000), timeZone!);
+  const after = timeZoneOffset(new Date(ms + 86_400_000), timeZone!);
+  const candidates = [ms - before, ms - after].filter(
+    (instant) => timeZoneOffset(new Date(instant), timeZone!) === ms - instant
+  );
+  if (candidates.length > 0) return new Date(Math.min(...candidates));
+  // In the gap: read the wall time with the pre-transition offset.
+  return new Date(ms - before);
+}
@@ -41,6 +41,32 @@ describe('generateSteps', () => {
     expect(years).toHaveLength(4);
   });
 
+  it('steps every few minutes for sub-hourly imagery', () => {
+    const steps = generateSteps(d('2024-01-01T00:00:00Z'), d('2024-01-01T00:30:00Z'), 10, 'minute');
+    expect(steps.map((s) => s.toISOString())).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T00:10:00.000Z',
+      '2024-01-01T00:20:00.000Z',
+      '2024-01-01T00:30:00.000Z',
+    ]);
+  });
+
+  it('keeps daily steps on local midnight in a time zone', () => {
+    const steps = generateSteps(
+      d('2024-11-02T07:00:00Z'),
+      d('2024-11-04T08:00:00Z'),
+      1,
+      'day',
+      'America/Los_Angeles'
+    );
+    expect(steps.map((s) => s.toISOString())).toEqual([
+      '2024-11-02T07:00:00.000Z',
+      '2024-11-03T07:00:00.000Z',
+      // Clocks fell back overnight, so midnight is now 08:00 UTC.
+      '2024-11-04T08:00:00.000Z',
+    ]);
+  });
+
   it('returns a single step when start equals end', () => {
     const steps = generateSteps(d('2024-01-01T00:00:00Z'), d('2024-01-01T00:00:00Z'), 1, 'day');
     expect(steps).toHaveLength(1);
@@ -66,6 +92,17 @@ describe('snapToStep', () => {
     );
   });
 
+  it('snaps to the nearest five-minute step', () => {
+    const mStart = d('2024-04-18T12:00:00Z');
+    const mEnd = d('2024-04-18T13:00:00Z');
+    expect(snapToStep(d('2024-04-18T12:07:20Z'), mStart, mEnd, 5, 'minute').toISOString()).toBe(
+      '2024-04-18T12:05:00.000Z'
+    );
+    expect(snapToStep(d('2024-04-18T12:08:00Z'), mStart, mEnd, 5, 'minute').toISOString()).toBe(
+      '2024-04-18T12:10:00.000Z'
+    );
+  });
+
   it('clamps outside the range', () => {
     expect(snapToStep(d('2024-01-01T00:00:00Z'), start, end, 1, 'day').toISOString()).toBe(
       '2024-04-18T00:00:00.000Z'
@@ -131,6 +168,22 @@ describe('unitsBetween', () => {
     expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-01-01T06:00:00Z'), 'hour')).toBe(6);
   });
 
+  it('measures minutes and seconds exactly', () => {
+    expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-01-01T00:45:00Z'), 'minute')).toBe(45);
+    expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-01-01T00:01:30Z'), 'second')).toBe(90);
+  });
+
+  it('measures weeks exactly and quarters in thirds of months', () => {
+    expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-01-29T00:00:00Z'), 'week')).toBe(4);
+    expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-07-01T00:00:00Z'), 'quarter')).toBe(2);
+  });
+
+  it('counts a daylight-saving day as one local day', () => {
+    const tz = 'America/Los_Angeles';
+    expect(unitsBetween(d('2024-03-10T08:00:00Z'), d('2024-03-11T07:00:00Z'), 'day', tz)).toBe(1);
+    expect(unitsBetween(d('2024-03-10T08:00:00Z'), d('2024-03-11T07:00:00Z'), 'hour', tz)).toBe(23);
+  });
+
   it('measures whole months and years', () => {
     expect(unitsBetween(d('2024-01-01T00:00:00Z'), d('2024-04-01T00:00:00Z'), 'month')).toBe(3);
     expect(unitsBetween(d('2020-01-01T00:00:00Z'), d('2023-01-01T00:00:00Z'), 'year')).toBe(3);
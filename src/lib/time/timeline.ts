@@ -1,5 +1,6 @@
 import type { Granularity } from '../core/types';
-import { addUnits } from './granularity';
+import { addUnits, isClockUnit } from './granularity';
+import { toWallClock } from './timeZone';
 import { clamp } from '../utils/helpers';
 
 /**
@@ -12,30 +13,57 @@ function daysInUtcMonth(date: Date): number {
   return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
 }
 
+/**
+ * Fractional number of calendar months between two dates, counting whole
+ * months plus the elapsed share of the final one.
+ */
+function monthsBetween(from: Date, to: Date): number {
+  const months =
+    (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  const dayFraction = (to.getUTCDate() - 1) / daysInUtcMonth(to);
+  return months + dayFraction;
+}
+
 /**
  * Approximate (possibly fractional) number of granularity units between two
  * dates. Used only to estimate the nearest step before snapping, so a fraction
  * derived from calendar position is accurate enough.
  *
+ * Calendar units are measured on the `timeZone` calendar, so a local day that
+ * daylight saving shortens to 23 hours still counts as one day.
+ *
  * @param from - Start date
  * @param to - End date
  * @param granularity - The unit to measure in
+ * @param timeZone - IANA zone whose calendar to measure in (default UTC)
  * @returns Fractional unit count from `from` to `to`
  */
-export function unitsBetween(from: Date, to: Date, granularity: Granularity): number {
+export function unitsBetween(
+  from: Date,
+  to: Date,
+  granularity: Granularity,
+  timeZone?: string
+): number {
+  if (!isClockUnit(granularity)) {
+    from = toWallClock(from, timeZone);
+    to = toWallClock(to, timeZone);
+  }
   const ms = to.getTime() - from.getTime();
   switch (granularity) {
+    case 'second':
+      return ms / 1_000;
+    case 'minute':
+      return ms / 60_000;
     case 'hour':
       return ms / 3_600_000;
     case 'day':
       return ms / 86_400_000;
-    case 'month': {
-      const months =
-        (to.getUTCFullYear() - from.getUTCFullYear()) * 12 +
-        (to.getUTCMonth() - from.getUTCMonth());
-      const dayFraction = (to.getUTCDate() - 1) / daysInUtcMonth(to);
-      return months + dayFraction;
-    }
+    case 'week':
+      return ms / 604_800_000;
+    case 'month':
+      return monthsBetween(from, to);
+    case 'quarter':
+      return monthsBetween(from, to) / 3;
     case 'year': {
       return to.getUTCFullYear() - from.getUTCFullYear() + to.getUTCMonth() / 12;
     }
@@ -52,13 +80,15 @@ export function unitsBetween(from: Date, to: Date, granularity: Granularity): nu
  * @param end - Inclusive range end
  * @param interval - Units between steps (coerced to >= 1)
  * @param granularity - The step unit
+ * @param timeZone - IANA zone whose calendar to step in (default UTC)
  * @returns Array of step dates from start to end
  */
 export function generateSteps(
   start: Date,
   end: Date,
   interval: number,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone?: string
 ): Date[] {
   const step = Math.max(1, Math.floor(interval));
   const endMs = end.getTime();
@@ -68,7 +98,7 @@ export function generateSteps(
   const limit = 100_000;
   while (current.getTime() <= endMs && steps.length < limit) {
     steps.push(new Date(current.getTime()));
-    current = addUnits(current, granularity, step);
+    current = addUnits(current, granularity, step, timeZone);
   }
   return steps;
 }
@@ -80,16 +110,18 @@ export function generateSteps(
  * @param end - Inclusive range end
  * @param interval - Units between steps
  * @param granularity - The step unit
+ * @param timeZone - IANA zone whose calendar to step in (default UTC)
  * @returns The maximum step multiple (k) that stays within the range
  */
 function maxStepMultiple(
   start: Date,
   end: Date,
   interval: number,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone?: string
 ): number {
   const step = Math.max(1, Math.floor(interval));
-  const total = unitsBetween(start, end, granularity);
+  const total = unitsBetween(start, end, granularity, timeZone);
   return Math.max(0, Math.floor(total / step) * step);
 }
 
@@ -101,6 +133,7 @@ function maxStepMultiple(
  * @param end - Inclusive range end
  * @param interval - Units between steps
  * @param granularity - The step unit
+ * @param timeZone - IANA zone whose calendar to step in (default UTC)
  * @returns The nearest step date, clamped to the range
  */
 export function snapToStep(
@@ -108,19 +141,20 @@ export function snapToStep(
   start: Date,
   end: Date,
   interval: number,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone?: string
 ): Date {
   const step = Math.max(1, Math.floor(interval));
   const clamped = new Date(clamp(date.getTime(), start.getTime(), end.getTime()));
-  const units = unitsBetween(start, clamped, granularity);
+  const units = unitsBetween(start, clamped, granularity, timeZone);
   let k = Math.round(units / step) * step;
-  k = clamp(k, 0, maxStepMultiple(start, end, interval, granularity));
+  k = clamp(k, 0, maxStepMultiple(start, end, interval, granularity, timeZone));
   // Day-of-month clamping in addUnits (and fractional unit estimates) can still
   // land a month/year step just past `end`; step back until it is in range.
-  let candidate = addUnits(start, granularity, k);
+  let candidate = addUnits(start, granularity, k, timeZone);
   while (candidate.getTime() > end.getTime() && k > 0) {
     k -= step;
-    candidate = addUnits(start, granularity, k);
+    candidate = addUnits(start, granularity, k, timeZone);
   }
   return candidate.getTime() < start.getTime() ? new Date(start.getTime()) : candidate;
 }
@@ -136,11 +170,12 @@ export function nextStep(
   start: Date,
   end: Date,
   interval: number,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone?: string
 ): Date {
   const step = Math.max(1, Math.floor(interval));
-  const current = snapToStep(date, start, end, interval, granularity);
-  const candidate = addUnits(current, granularity, step);
+  const current = snapToStep(date, start, end, interval, granularity, timeZone);
+  const candidate = addUnits(current, granularity, step, timeZone);
   return candidate.getTime() > end.getTime() ? current : candidate;
 }
 
@@ -155,11 +190,12 @@ export function prevStep(
   start: Date,
   end: Date,
   interval: number,
-  granularity: Granularity
+  granularity: Granularity,
+  timeZone?: string
 ): Date {
   const step = Math.max(1, Math.floor(interval));
-  const current = snapToStep(date, start, end, interval, granularity);
-  const candidate = addUnits(current, granularity, -step);
+  const current = snapToStep(date, start, end, interval, granularity, timeZone);
+  const candidate = addUnits(current, granularity, -step, timeZone);
   return candidate.getTime() < start.getTime() ? current : candidate;
 }
 
@@ -1,5 +1,6 @@
 import { clamp } from '../utils/helpers';
 import { formatDate } from '../template/dateFormat';
+import { histogramBins, type HistogramBin } from '../time/histogram';
 import type { DockController } from './types';
 
 /**
@@ -7,9 +8,11 @@ import type { DockController } from './types';
  */
 export interface AxisHandle {
   root: HTMLElement;
-  /** Regenerate tick marks from the current range/granularity. */
+  /** Regenerate tick marks (and the histogram) from the current range/granularity. */
   renderTicks(): void;
-  /** Reposition the marker to the current date. */
+  /** Redraw the histogram bars over the current ticks' buckets. */
+  renderHistogram(): void;
+  /** Reposition the marker to the current date (or the handles to the window). */
   setMarker(): void;
   /** Show or hide the "no data for this date" badge on the marker. */
   setDataStatus(unavailable: boolean): void;
@@ -28,11 +31,28 @@ function clientXOf(e: Event): number {
   return touch ? touch.clientX : (e as MouseEvent).clientX;
 }
 
+/**
+ * What a press on the track drags: the single marker, one of the range
+ * handles, or the whole range window.
+ */
+type DragTarget = 'marker' | 'start' | 'end' | 'window';
+
+/**
+ * Pixels either side of a range handle within which a press grabs the handle
+ * rather than the window or the track.
+ */
+const HANDLE_SLOP = 8;
+
 /**
  * Builds the scrubbable timeline axis: a track of tick marks with a draggable
  * marker. Dragging or clicking the track navigates the controller to the
  * snapped date under the pointer.
  *
+ * In range mode the marker becomes the window's end handle, joined by a start
+ * handle and a shaded band between them. A press near a handle drags that
+ * handle, a press inside the band drags the whole window, and a press elsewhere
+ * on the track moves the nearer handle there.
+ *
  * @param controller - The control's UI-facing API
  * @returns An axis handle for updating ticks and the marker
  */
@@ -46,6 +66,10 @@ export function createAxis(controller: DockController): AxisHandle {
   const ticksLayer = document.createElement('div');
   ticksLayer.className = 'ts-ticks';
 
+  // Data-density bars, drawn behind the ticks when the histogram is on.
+  const histogramLayer = document.createElement('div');
+  histogramLayer.className = 'ts-histogram';
+
   const marker = document.createElement('div');
   marker.className = 'ts-marker';
   // The current-date label rides with the marker, beneath the pointer.
@@ -59,11 +83,23 @@ export function createAxis(controller: DockController): AxisHandle {
   knob.className = 'ts-marker-knob';
   marker.append(knob, markerLabel, noDataBadge);
 
-  track.appendChild(ticksLayer);
-  track.appendChild(marker);
+  // Range mode only: the window's start handle and the band it spans.
+  const startMarker = document.createElement('div');
+  startMarker.className = 'ts-marker ts-marker-start';
+  const startKnob = document.createElement('div');
+  startKnob.className = 'ts-marker-knob';
+  startMarker.appendChild(startKnob);
+  const band = document.createElement('div');
+  band.className = 'ts-range-band';
+
+  track.append(histogramLayer, ticksLayer);
+  track.append(band, marker, startMarker);
   root.appendChild(track);
 
-  let dragging = false;
+  let dragging: DragTarget | null = null;
+  // For a window drag: how far the pointer sits from the window's end, as a
+  // fraction of the track, so the window does not jump to end under the pointer.
+  let grabOffset = 0;
 
   const fractionFromClientX = (clientX: number): number => {
     const rect = track.getBoundingClientRect();
@@ -71,13 +107,57 @@ export function createAxis(controller: DockController): AxisHandle {
     return clamp((clientX - rect.left) / rect.width, 0, 1);
   };
 
+  /**
+   * Decides what a press at `clientX` drags in range mode.
+   *
+   * @param clientX - Pointer position
+   * @param start - The window's start
+   * @param end - The window's end
+   * @returns The drag target
+   */
+  const pickTarget = (clientX: number, start: Date, end: Date): DragTarget => {
+    const rect = track.getBoundingClientRect();
+    const scale = controller.getScale();
+    const x = clientX - rect.left;
+    const startX = scale.toFraction(start) * rect.width;
+    const endX = scale.toFraction(end) * rect.width;
+    // Handles win over the band, so a narrow window can still be resized.
+    if (Math.abs(x - endX) <= HANDLE_SLOP) return 'end';
+    if (Math.abs(x - startX) <= HANDLE_SLOP) return 'start';
+    if (x > startX && x < endX) return 'window';
+    return x < startX ? 'start' : 'end';
+  };
+
   const navigateTo = (clientX: number): void => {
-    controller.goTo(controller.getScale().fromFraction(fractionFromClientX(clientX)));
+    const scale = controller.getScale();
+    const fraction = fractionFromClientX(clientX);
+    const range = controller.getState().currentRange;
+    if (!range || dragging === 'marker') {
+      controller.goTo(scale.fromFraction(fraction));
+      return;
+    }
+    if (dragging === 'window') {
+      // goTo slides a range window, keeping its width.
+      controller.goTo(scale.fromFraction(clamp(fraction - grabOffset, 0, 1)));
+      return;
+    }
+    const date = scale.fromFraction(fraction);
+    const other = dragging === 'start' ? range.end : range.start;
+    // Dragging a handle past the other one turns it into the other end.
+    if (dragging === 'start' && date.getTime() > other.getTime()) dragging = 'end';
+    else if (dragging === 'end' && date.getTime() < other.getTime()) dragging = 'start';
+    if (dragging === 'start') controller.selectRange(date, other);
+    else controller.selectRange(other, date);
   };
 
   const onDown = (e: Event): void => {
-    dragging = true;
-    navigateTo(clientXOf(e));
+    const clientX = clientXOf(e);
+    const range = controller.getState().currentRange;
+    dragging = range ? pickTarget(clientX, range.start, range.end) : 'marker';
+    if (range && dragging === 'window') {
+      grabOffset = fractionFromClientX(clientX) - controller.getScale().toFraction(range.end);
+    }
+    navigateTo(clientX);
     e.preventDefault();
   };
   const onMove = (e: Event): void => {
@@ -85,7 +165,7 @@ export function createAxis(controller: DockController): AxisHandle {
     navigateTo(clientXOf(e));
   };
   const onUp = (): void => {
-    dragging = false;
+    dragging = null;
   };
 
   track.addEventListener('mousedown', onDown);
@@ -131,6 +211,27 @@ export function createAxis(controller: DockController): AxisHandle {
     });
   };
 
+  // Buckets between the most recently rendered ticks; the histogram's bars.
+  let bins: HistogramBin[] = [];
+
+  const renderHistogram = (): void => {
+    histogramLayer.replaceChildren();
+    const counts = controller.countHistogram(bins);
+    if (!counts) return;
+    const max = Math.max(0, ...counts);
+    if (max === 0) return;
+    bins.forEach((bin, i) => {
+      if (counts[i] === 0) return;
+      const bar = document.createElement('div');
+      bar.className = 'ts-histogram-bar';
+      bar.style.left = `${bin.from * 100}%`;
+      bar.style.width = `${(bin.to - bin.from) * 100}%`;
+      bar.style.height = `${(counts[i] / max) * 100}%`;
+      bar.title = String(counts[i]);
+      histogramLayer.appendChild(bar);
+    });
+  };
+
   const renderTicks = (): void => {
     ticksLayer.replaceChildren();
     labelEls = [];
@@ -153,6 +254,9 @@ export function createAxis(controller: DockController): AxisHandle {
       ticksLayer.appendChild(el);
     }
     thinLabels();
+    const { startDate, endDate } = controller.getState();
+    bins = histogramBins(ticks, startDate, endDate);
+    renderHistogram();
   };
 
   // Rebuild ticks when the dock width changes so the scale can select a new
@@ -176,10 +280,21 @@ export function createAxis(controller: DockController): AxisHandle {
   observer?.observe(track);
 
   const setMarker = (): void => {
-    const { currentDate } = controller.getState();
-    const fraction = controller.getScale().toFraction(currentDate);
+    const { currentDate, currentRange, timeZone } = controller.getState();
+    const scale = controller.getScale();
+    const format = controller.getDateFormat();
+    const fraction = scale.toFraction(currentDate);
     marker.style.left = `${fraction * 100}%`;
-    markerLabel.textContent = formatDate(currentDate, controller.getDateFormat());
+    root.classList.toggle('ts-range-mode', currentRange !== undefined);
+    if (currentRange) {
+      const startFraction = scale.toFraction(currentRange.start);
+      startMarker.style.left = `${startFraction * 100}%`;
+      band.style.left = `${startFraction * 100}%`;
+      band.style.width = `${(fraction - startFraction) * 100}%`;
+      markerLabel.textContent = `${formatDate(currentRange.start, format, timeZone)} \u2013 ${formatDate(currentRange.end, format, timeZone)}`;
+    } else {
+      markerLabel.textContent = formatDate(currentDate, format, timeZone);
+    }
     // Keep the label inside the track near the edges instead of centering it.
     const shift = fraction <= 0.1 ? '0' : fraction >= 0.9 ? '-100%' : '-50%';
     markerLabel.style.transform = `translateX(${shift})`;
@@ -202,5 +317,5 @@ export function createAxis(controller: DockController): AxisHandle {
     window.removeEventListener('touchend', onUp);
   };
 
-  return { root, renderTicks, setMarker, setDataStatus, destroy };
+  return { root, renderTicks, renderHistogram, setMarker, setDataStatus, destroy };
 }
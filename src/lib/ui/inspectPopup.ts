@@ -0,0 +1,111 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type { InspectContent } from '../adapters/types';
+
+/**
+ * Imperative handle for the inspect popup.
+ */
+export interface InspectPopup {
+  root: HTMLElement;
+  /** Whether the popup is showing. */
+  isOpen(): boolean;
+  /**
+   * Shows content anchored to a map location, replacing what was shown.
+   *
+   * @param lngLat - The anchor as `[lng, lat]`
+   * @param content - What to show
+   */
+  show(lngLat: [number, number], content: InspectContent): void;
+  /** Hides the popup. */
+  close(): void;
+  /** Hide the popup, detach its listeners, and remove it from the DOM. */
+  destroy(): void;
+}
+
+/**
+ * Builds the popup that shows what a source has at a clicked point. It is
+ * plain DOM inside the map container rather than a MapLibre popup, so the
+ * control needs no runtime dependency on MapLibre, and it follows its anchor
+ * as the map moves.
+ *
+ * @param map - The map the popup is shown over
+ * @param onClose - Called when the user closes the popup
+ * @returns The popup handle
+ */
+export function createInspectPopup(map: MapLibreMap, onClose: () => void): InspectPopup {
+  const root = document.createElement('div');
+  root.className = 'maplibregl-time-slider-popup';
+  root.setAttribute('role', 'dialog');
+  root.hidden = true;
+
+  const closeBtn = document.createElement('button');
+  closeBtn.type = 'button';
+  closeBtn.className = 'ts-popup-close';
+  closeBtn.setAttribute('aria-label', 'Close');
+  closeBtn.textContent = '×';
+  const body = document.createElement('div');
+  body.className = 'ts-popup-body';
+  root.append(closeBtn, body);
+  map.getContainer().appendChild(root);
+
+  let anchor: [number, number] | undefined;
+
+  const place = (): void => {
+    if (!anchor) return;
+    const { x, y } = map.project(anchor);
+    root.style.left = `${x}px`;
+    root.style.top = `${y}px`;
+  };
+
+  const close = (): void => {
+    if (!anchor) return;
+    anchor = undefined;
+    root.hidden = true;
+    map.off('move', place);
+  };
+
+  closeBtn.addEventListener('click', () => {
+    close();
+    onClose();
+  });
+
+  return {
+    root,
+    isOpen: () => anchor !== undefined,
+    show(lngLat, content) {
+      if (!anchor) map.on('move', place);
+      anchor = lngLat;
+      body.replaceChildren();
+
+      const title = document.createElement('div');
+      title.className = 'ts-popup-title';
+      title.textContent = content.title;
+      body.appendChild(title);
+      if (content.text !== undefined) {
+        const text = document.createElement('div');
+        text.className = 'ts-popup-text';
+        text.textContent = content.text;
+        body.appendChild(text);
+      }
+      if (content.rows?.length) {
+        const table = document.createElement('table');
+        table.className = 'ts-popup-rows';
+        for (const [name, value] of content.rows) {
+          const row = table.insertRow();
+          const th = document.createElement('th');
+          th.textContent = name;
+          row.appendChild(th);
+          row.insertCell().textContent = value;
+        }
+        body.appendChild(table);
+      }
+
+      root.hidden = false;
+      place();
+    },
+    close,
+    destroy() {
+      close();
+      root.remove();
+    },
+  };
+}
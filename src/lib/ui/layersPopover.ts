@@ -1,9 +1,19 @@
-import type { CogSourceSpec, Granularity, SourceSpec } from '../core/types';
+import type {
+  AnimationFormat,
+  CogSourceSpec,
+  GeoJsonSourceSpec,
+  GeoJsonStyle,
+  Granularity,
+  SourceSpec,
+  StacSourceSpec,
+} from '../core/types';
 import { formatDate } from '../template/dateFormat';
 import { resolveUrl } from '../template/urlTemplate';
+import { fromWallClock } from '../time/timeZone';
 import { GRANULARITIES } from '../time/granularity';
 import { isDateListUrl } from '../time/dateSource';
 import { DEFAULT_TITILER_ENDPOINT, getTiTilerBounds } from '../utils/titiler';
+import { discoverWms, type WmsLayerInfo } from '../utils/wms';
 import type { DockController } from './types';
 
 /**
@@ -17,15 +27,26 @@ export interface LayersHandle {
   destroy(): void;
 }
 
+/**
+ * Source types the add-data form can build. A custom source is code, a vector
+ * tileset needs a style written for its attributes, a Zarr cube needs its
+ * variable and dimensions named, and images and videos need their corners
+ * placed, so none of them has one.
+ */
+type FormSourceType = Exclude<SourceSpec['type'], 'custom' | 'vector' | 'zarr' | 'image' | 'video'>;
+
 /**
  * Source types selectable in the add-data form.
  */
-const SOURCE_TYPES: { value: SourceSpec['type']; label: string }[] = [
+const SOURCE_TYPES: { value: FormSourceType; label: string }[] = [
   { value: 'cog', label: 'COG' },
   { value: 'mosaic', label: 'Mosaic (STAC / MosaicJSON)' },
   { value: 'xyz', label: 'XYZ / WMTS' },
   { value: 'geojson', label: 'GeoJSON' },
   { value: 'wms', label: 'WMS-Time' },
+  { value: 'wmts', label: 'WMTS (capabilities)' },
+  { value: 'arcgis', label: 'ArcGIS MapServer / ImageServer' },
+  { value: 'stac', label: 'STAC API search' },
 ];
 
 /** Default TiTiler endpoint the COG form's endpoint field ships with, shared
@@ -221,7 +242,7 @@ interface Example {
   fields: Record<string, string>;
 }
 
-const EXAMPLES: Record<Exclude<SourceSpec['type'], 'custom'>, Example> = {
+const EXAMPLES: Record<FormSourceType, Example> = {
   // Annual Landsat false-color composites served through TiTiler (examples/landsat).
   cog: {
     timeline: {
@@ -309,6 +330,53 @@ const EXAMPLES: Record<Exclude<SourceSpec['type'], 'custom'>, Example> = {
       layers: 'MODIS_Terra_CorrectedReflectance_TrueColor',
     },
   },
+  // The same GIBS imagery read from the WMTS capabilities document, which
+  // supplies the tile template, zoom levels, and the layer's daily times.
+  wmts: {
+    timeline: {
+      startDate: '2023-08-01',
+      endDate: '2023-08-31',
+      granularity: 'day',
+      granularities: ['day'],
+      speed: 600,
+    },
+    fields: {
+      url: 'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/1.0.0/WMTSCapabilities.xml',
+      layer: 'MODIS_Terra_CorrectedReflectance_TrueColor',
+    },
+  },
+  // Esri's time-aware sample hurricane tracks; the service's own time extent
+  // replaces this timeline once the layer is added.
+  arcgis: {
+    timeline: {
+      startDate: '2000-06-01',
+      endDate: '2000-12-31',
+      granularity: 'day',
+      granularities: ['day', 'month'],
+      speed: 500,
+    },
+    fields: {
+      url: 'https://sampleserver6.arcgisonline.com/arcgis/rest/services/Hurricanes/MapServer',
+      layers: '',
+      syncTimeline: 'true',
+    },
+  },
+  // Sentinel-2 true-color scenes from Earth Search, searched over the viewport
+  // for the timeline's month and drawn through TiTiler.
+  stac: {
+    timeline: {
+      startDate: '2024-06-01',
+      endDate: '2024-06-30',
+      granularity: 'day',
+      granularities: ['day'],
+      speed: 1000,
+    },
+    fields: {
+      url: 'https://earth-search.aws.element84.com/v1',
+      collection: 'sentinel-2-l2a',
+      asset: 'visual',
+    },
+  },
 };
 
 /**
@@ -737,13 +805,23 @@ function buildTimelineSection(controller: DockController): {
     datesStatus.classList.toggle('ts-visible', message !== '');
   };
 
+  /**
+   * Reads a date input's `YYYY-MM-DD` value as midnight in the timeline's time
+   * zone, mirroring how {@link sync} writes it.
+   */
+  const readDay = (value: string): Date => {
+    const day = new Date(value);
+    if (Number.isNaN(day.getTime())) return day;
+    return fromWallClock(day, controller.getState().timeZone);
+  };
+
   const apply = (): void => {
     if (!start.input.value) return;
-    const startDate = new Date(start.input.value);
+    const startDate = readDay(start.input.value);
     if (Number.isNaN(startDate.getTime())) return;
     // A blank End date leaves the range open: it defaults to today and stays
     // auto, so the saved project re-resolves to the current date on reload.
-    const endDate = end.input.value ? new Date(end.input.value) : null;
+    const endDate = end.input.value ? readDay(end.input.value) : null;
     if (endDate && Number.isNaN(endDate.getTime())) return;
     const step = parseInt(interval.input.value, 10);
     controller.setRange(startDate, endDate, Number.isNaN(step) ? undefined : step);
@@ -756,7 +834,7 @@ function buildTimelineSection(controller: DockController): {
   interval.input.addEventListener('change', apply);
   initial.input.addEventListener('change', () => {
     if (!initial.input.value) return;
-    const date = new Date(initial.input.value);
+    const date = readDay(initial.input.value);
     if (!Number.isNaN(date.getTime())) controller.goTo(date);
   });
   // Tracks the newest URL load so a slow earlier fetch cannot land after (and
@@ -804,29 +882,96 @@ function buildTimelineSection(controller: DockController): {
 
   const sync = (): void => {
     const state = controller.getState();
-    start.input.value = formatDate(state.startDate, 'YYYY-MM-DD');
+    const day = (date: Date): string => formatDate(date, 'YYYY-MM-DD', state.timeZone);
+    start.input.value = day(state.startDate);
     // Leave End blank when the range is open so editing Start keeps it open
     // rather than silently pinning the end to today's resolved value.
-    end.input.value = state.endDateAuto ? '' : formatDate(state.endDate, 'YYYY-MM-DD');
+    end.input.value = state.endDateAuto ? '' : day(state.endDate);
     // Keep showing the URL a list came from rather than expanding it: it is
     // shorter, and it says where the dates are actually maintained. Otherwise
     // show the full list, not the clipped one, so narrowing the range and then
     // widening it again does not quietly discard the dropped dates.
     dates.input.value =
-      controller.getDatesUrl() ??
-      (controller.getDates() ?? []).map((d) => formatDate(d, 'YYYY-MM-DD')).join(', ');
+      controller.getDatesUrl() ?? (controller.getDates() ?? []).map(day).join(', ');
     interval.input.value = String(state.interval);
-    initial.input.value = formatDate(state.currentDate, 'YYYY-MM-DD');
+    initial.input.value = day(state.currentDate);
   };
   sync();
 
   return { section, sync };
 }
 
+/** File extension per export format, for the download name. */
+const EXPORT_EXTENSIONS: Record<AnimationFormat, string> = {
+  gif: 'gif',
+  webm: 'webm',
+  'png-frames': 'zip',
+};
+
+/**
+ * Builds the "Export animation" row: a format picker and a button that renders
+ * the timeline through {@link DockController.exportAnimation} and downloads the
+ * result. The button stays disabled while an export runs.
+ *
+ * @param controller - The control's UI-facing API
+ * @returns The row element
+ */
+function buildExportRow(controller: DockController): HTMLElement {
+  const format = selectField('Export animation', [
+    { value: 'gif', label: 'GIF' },
+    { value: 'webm', label: 'WebM video' },
+    { value: 'png-frames', label: 'PNG frames (ZIP)' },
+  ]);
+  // Picking a format is not a settings edit; keep it from marking the
+  // timeline as configured.
+  format.select.addEventListener('change', (e) => e.stopPropagation());
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'time-slider-btn ts-export-submit';
+  button.textContent = 'Export';
+
+  const status = document.createElement('div');
+  status.className = 'ts-export-status';
+  status.setAttribute('role', 'status');
+
+  button.addEventListener('click', () => {
+    const chosen = format.select.value as AnimationFormat;
+    button.disabled = true;
+    button.textContent = 'Exporting\u2026';
+    status.classList.remove('ts-visible', 'ts-error');
+    controller
+      .exportAnimation({ format: chosen })
+      .then((blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `time-slider.${EXPORT_EXTENSIONS[chosen]}`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      })
+      .catch((error: unknown) => {
+        status.textContent = error instanceof Error ? error.message : 'Export failed';
+        status.classList.add('ts-visible', 'ts-error');
+      })
+      .finally(() => {
+        button.disabled = false;
+        button.textContent = 'Export';
+      });
+  });
+
+  const row = document.createElement('div');
+  row.className = 'ts-export-row';
+  row.append(format.row, button, status);
+  return row;
+}
+
 /**
  * Builds the settings section, exposing the tweakable constructor options in one
- * place: granularity, playback speed, loop, theme, date-label format, and
- * auto-play. Each control is wired to a live controller setter.
+ * place: granularity, playback speed, loop, theme, date-label format,
+ * auto-play, and wait-for-render playback. Each control is wired to a live
+ * controller setter. An export row at the bottom renders the timeline to an
+ * animation file.
  *
  * @param controller - The control's UI-facing API
  * @returns The section element and a `sync` to refresh values from state
@@ -911,6 +1056,13 @@ function buildSettingsSection(controller: DockController): {
   const autoPlay = checkboxField('Auto-play on load');
   autoPlay.input.addEventListener('change', () => controller.setAutoPlay(autoPlay.input.checked));
 
+  const waitForRender = checkboxField('Wait for layers to load');
+  waitForRender.input.addEventListener('change', () =>
+    controller.setWaitForRender(waitForRender.input.checked)
+  );
+
+  const exporter = buildExportRow(controller);
+
   fields.append(
     granularity.row,
     granRow,
@@ -918,7 +1070,9 @@ function buildSettingsSection(controller: DockController): {
     loop.row,
     theme.row,
     dateFormat.row,
-    autoPlay.row
+    autoPlay.row,
+    waitForRender.row,
+    exporter
   );
   section.append(title, fields);
 
@@ -946,6 +1100,7 @@ function buildSettingsSection(controller: DockController): {
     theme.select.value = controller.getTheme();
     dateFormat.input.placeholder = controller.getDateFormat();
     autoPlay.input.checked = controller.getAutoPlay();
+    waitForRender.input.checked = controller.getWaitForRender();
   };
   sync();
 
@@ -1007,10 +1162,15 @@ function buildLayerRow(controller: DockController, spec: SourceSpec): HTMLElemen
 
   row.append(header, opacity);
 
-  // Colormap + rescale apply to COG layers only.
-  if (spec.type === 'cog') {
+  // Colormap + rescale apply to layers TiTiler draws: COGs and STAC items.
+  if (spec.type === 'cog' || spec.type === 'stac') {
     row.appendChild(buildCogControls(controller, spec));
   }
+  // Styling by attribute or time, with its legend, applies to GeoJSON layers
+  // that colour each feature (a heatmap colours by density).
+  if (spec.type === 'geojson' && spec.geometry !== 'heatmap') {
+    row.appendChild(buildStyleControls(controller, spec));
+  }
 
   return row;
 }
@@ -1018,7 +1178,10 @@ function buildLayerRow(controller: DockController, spec: SourceSpec): HTMLElemen
 /**
  * Builds COG-specific colormap (dropdown) and rescale controls for a layer row.
  */
-function buildCogControls(controller: DockController, spec: CogSourceSpec): HTMLElement {
+function buildCogControls(
+  controller: DockController,
+  spec: CogSourceSpec | StacSourceSpec
+): HTMLElement {
   const wrap = document.createElement('div');
   wrap.className = 'ts-cog-controls';
 
@@ -1064,6 +1227,104 @@ function buildCogControls(controller: DockController, spec: CogSourceSpec): HTML
   return wrap;
 }
 
+/**
+ * Builds GeoJSON style controls for a layer row: what to style by, the property
+ * it reads, and the legend of the current style.
+ */
+function buildStyleControls(controller: DockController, spec: GeoJsonSourceSpec): HTMLElement {
+  const wrap = document.createElement('div');
+  wrap.className = 'ts-style-controls';
+
+  const inputs = document.createElement('div');
+  inputs.className = 'ts-style-inputs';
+
+  const by = document.createElement('select');
+  by.className = 'ts-style-by';
+  by.title = 'Style by';
+  for (const [value, label] of [
+    ['', 'Single color'],
+    ['graduated', 'Graduated'],
+    ['categorical', 'Categorical'],
+    ['time', 'Time'],
+  ]) {
+    const opt = document.createElement('option');
+    opt.value = value;
+    opt.textContent = label;
+    by.appendChild(opt);
+  }
+  by.value = spec.style?.by ?? '';
+
+  const property = document.createElement('input');
+  property.type = 'text';
+  property.className = 'ts-style-property';
+  property.placeholder = 'property';
+  property.value = spec.style?.property ?? '';
+
+  const legend = document.createElement('div');
+  legend.className = 'ts-legend';
+
+  // Only graduated and categorical styles read a property.
+  const syncProperty = (): void => {
+    property.hidden = by.value === '' || by.value === 'time';
+  };
+  syncProperty();
+
+  const renderLegend = async (): Promise<void> => {
+    const current = await controller.getSourceLegend(spec.id!).catch(() => undefined);
+    legend.replaceChildren();
+    if (!current) return;
+    const title = document.createElement('div');
+    title.className = 'ts-legend-title';
+    title.textContent = current.title;
+    legend.appendChild(title);
+    for (const entry of current.entries) {
+      const item = document.createElement('div');
+      item.className = 'ts-legend-entry';
+      const swatch = document.createElement('span');
+      swatch.className = 'ts-legend-swatch';
+      swatch.style.background = entry.color;
+      const label = document.createElement('span');
+      label.textContent = entry.label;
+      item.append(swatch, label);
+      legend.appendChild(item);
+    }
+  };
+
+  const apply = (): void => {
+    syncProperty();
+    const kind = by.value as GeoJsonStyle['by'] | '';
+    const name = property.value.trim() || undefined;
+    let style: GeoJsonStyle | undefined;
+    if (kind) {
+      // The row's spec is a snapshot; read the style as it stands now.
+      const current = controller.getSources().find((s) => s.id === spec.id) as
+        GeoJsonSourceSpec | undefined;
+      const previous = current?.style;
+      // Breaks, colors, and categories belong to the property and kind they
+      // were written for; switching either derives fresh ones from the data.
+      const same = previous?.by === kind && previous.property === name;
+      style = same
+        ? { ...previous, property: name }
+        : {
+            by: kind,
+            property: kind === 'time' ? undefined : name,
+            classes: previous?.classes,
+            colormap: previous?.colormap,
+            otherColor: previous?.otherColor,
+          };
+    }
+    controller.setSourceProperty(spec.id!, { style } as Partial<SourceSpec>);
+    void renderLegend();
+  };
+  by.addEventListener('change', apply);
+  property.addEventListener('change', apply);
+
+  inputs.append(by, property);
+  wrap.append(inputs, legend);
+  void renderLegend();
+  return wrap;
+}
+
 /**
  * Fits the map to a freshly added source's extent so the new layer lands in
  * view. COG specs carry the TiTiler footprint fetched when the layer is added,
@@ -1145,6 +1406,104 @@ async function computeGeoJsonBounds(
   return isLngLatBounds([minX, minY, maxX, maxY]);
 }
 
+/**
+ * A short label for an advertised time extent: its first and last time.
+ *
+ * @param extent - The extent, e.g. `2000-02-24/2024-05-01/P1D`
+ */
+function extentLabel(extent: string): string {
+  const entries = extent.split(',');
+  const first = entries[0].split('/')[0].trim();
+  const lastEntry = entries[entries.length - 1].split('/');
+  const last = (lastEntry[1] ?? lastEntry[0]).trim();
+  return first === last ? first : `${first} \u2013 ${last}`;
+}
+
+/**
+ * Builds the WMS "Inspect" row: a button that reads the service's
+ * GetCapabilities (see {@link discoverWms}) and a picker of its layers, listing
+ * the time-enabled ones first with their time extents. Picking a layer hands it
+ * to `onPick`.
+ *
+ * @param readBaseUrl - Reads the base URL field
+ * @param onPick - Receives the chosen layer
+ * @returns The row element
+ */
+function buildWmsInspector(
+  readBaseUrl: () => string,
+  onPick: (layer: WmsLayerInfo) => void
+): HTMLElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'time-slider-btn ts-wms-inspect';
+  button.textContent = 'Inspect';
+  button.title = 'List the layers and time dimensions the service advertises';
+
+  const picker = selectField('Discovered layers', []);
+  picker.row.classList.add('ts-wms-layers');
+
+  const status = document.createElement('div');
+  status.className = 'ts-wms-status';
+  status.setAttribute('role', 'status');
+  status.setAttribute('aria-live', 'polite');
+  const setStatus = (message: string, kind?: 'error'): void => {
+    status.textContent = message;
+    status.classList.toggle('ts-visible', message !== '');
+    status.classList.toggle('ts-error', kind === 'error');
+  };
+
+  const row = document.createElement('div');
+  row.className = 'ts-wms-inspector';
+
+  let layers: WmsLayerInfo[] = [];
+  // Tracks the newest inspection so a slow earlier one cannot land after it.
+  let token = 0;
+  button.addEventListener('click', () => {
+    const baseUrl = readBaseUrl();
+    if (!baseUrl) return;
+    const current = ++token;
+    button.disabled = true;
+    setStatus('Reading capabilities\u2026');
+    discoverWms(baseUrl)
+      .then((capabilities) => {
+        if (current !== token) return;
+        layers = capabilities.layers;
+        picker.select.replaceChildren(
+          new Option('Choose a layer\u2026', ''),
+          ...layers.map((layer, i) => {
+            const name = layer.title ? `${layer.title} (${layer.name})` : layer.name;
+            const label = layer.timeExtent
+              ? `${name} \u2014 ${extentLabel(layer.timeExtent)}`
+              : name;
+            return new Option(label, String(i));
+          })
+        );
+        // The picker joins the row once there is something to pick.
+        if (layers.length > 0) row.append(picker.row);
+        else picker.row.remove();
+        const timed = layers.filter((layer) => layer.timeExtent).length;
+        setStatus(
+          `${layers.length} layer${layers.length === 1 ? '' : 's'}, ${timed} with a time dimension`
+        );
+      })
+      .catch((error: unknown) => {
+        if (current !== token) return;
+        setStatus(error instanceof Error ? error.message : 'Could not read capabilities', 'error');
+      })
+      .finally(() => {
+        if (current === token) button.disabled = false;
+      });
+  });
+
+  picker.select.addEventListener('change', () => {
+    const layer = layers[Number(picker.select.value)];
+    if (picker.select.value && layer) onPick(layer);
+  });
+
+  row.append(button, status);
+  return row;
+}
+
 /**
  * Builds the add-data form: name/id fields, a type selector with type-specific
  * fields (colormap/rescale/bands for COG only), and an Add button. Selecting a
@@ -1236,6 +1595,12 @@ function buildForm(
   const tilesField = field('Tile URL', 'https://.../{z}/{x}/{y}.png?d={YYYY}-{MM}-{DD}');
   const dataField = field('GeoJSON URL', 'https://.../data.geojson');
   const timePropField = field('Time property', 'time');
+  // Features valid over an interval (perimeters, warnings) name its bounds
+  // instead; either may be left blank for an open-ended interval.
+  const startPropField = field('Start property (intervals)', 'optional');
+  const endPropField = field('End property (intervals)', 'optional');
+  // Only needed for times that do not read unambiguously (see parseTimeValue).
+  const timeFormatField = field('Time format (optional)', 'e.g. DD/MM/YYYY, X = epoch seconds');
   // Time window: features are kept for `[date, date + 1 unit)`. Defaults to the
   // granularity so features match the active timeline step (a day window with a
   // monthly timeline would show almost nothing).
@@ -1247,8 +1612,41 @@ function buildForm(
   // When checked, features from previous time steps are kept (accumulated)
   // instead of being removed as the timeline advances.
   const cumulativeField = checkboxField('Cumulative (keep past features)');
+  const geometryField = selectField('Geometry', [
+    { value: 'circle', label: 'Circle' },
+    { value: 'line', label: 'Line' },
+    { value: 'fill', label: 'Fill' },
+    { value: 'symbol', label: 'Symbol (label)' },
+    { value: 'heatmap', label: 'Heatmap' },
+  ]);
+  // The property a symbol layer labels features with; blank keeps the default.
+  const labelPropField = field('Label property (symbols)', 'name');
   const baseUrlField = field('WMS base URL', 'https://.../wms?service=WMS');
   const wmsLayersField = field('WMS layers', 'layer-name');
+  const wmsTimeFormatField = field('TIME format', 'YYYY-MM-DD');
+  // Picking a discovered layer fills in its name and time format and steps the
+  // timeline through the times it advertises.
+  const wmsInspector = buildWmsInspector(
+    () => baseUrlField.input.value.trim(),
+    (layer) => {
+      wmsLayersField.input.value = layer.name;
+      wmsTimeFormatField.input.value = layer.hasTimeOfDay ? 'YYYY-MM-DDTHH:mm:ss[Z]' : '';
+      if (layer.dates.length > 0) {
+        controller.setDates(layer.dates);
+        onConfigApplied();
+      }
+    }
+  );
+  const wmtsUrlField = field('Capabilities URL', 'https://.../WMTSCapabilities.xml');
+  const wmtsLayerField = field('WMTS layer', 'layer identifier');
+  const wmtsMatrixSetField = field('TileMatrixSet', 'auto (Web Mercator)');
+  const wmtsSyncField = checkboxField("Step through the layer's dates");
+  const arcgisUrlField = field('Service URL', 'https://.../MapServer or .../ImageServer');
+  const arcgisLayersField = field('Sublayers (MapServer)', 'e.g. show:0,2');
+  const arcgisSyncField = checkboxField("Use the service's time extent");
+  const stacUrlField = field('STAC API URL', 'https://.../v1');
+  const collectionField = field('Collection(s)', 'comma-separated ids');
+  const assetField = field('Asset key', 'e.g. visual');
 
   const groups: Record<SourceSpec['type'], HTMLElement[]> = {
     cog: [
@@ -1273,8 +1671,35 @@ function buildForm(
       bandsField.row,
     ],
     xyz: [tilesField.row],
-    geojson: [dataField.row, timePropField.row, windowField.row, cumulativeField.row],
-    wms: [baseUrlField.row, wmsLayersField.row],
+    geojson: [
+      dataField.row,
+      timePropField.row,
+      startPropField.row,
+      endPropField.row,
+      timeFormatField.row,
+      windowField.row,
+      cumulativeField.row,
+      geometryField.row,
+      labelPropField.row,
+    ],
+    wms: [baseUrlField.row, wmsInspector, wmsLayersField.row, wmsTimeFormatField.row],
+    wmts: [wmtsUrlField.row, wmtsLayerField.row, wmtsMatrixSetField.row, wmtsSyncField.row],
+    arcgis: [arcgisUrlField.row, arcgisLayersField.row, arcgisSyncField.row],
+    // Items draw through TiTiler like a COG, so the COG symbology rows apply.
+    stac: [
+      stacUrlField.row,
+      collectionField.row,
+      assetField.row,
+      cmapRow,
+      rescaleRow,
+      nodataField.row,
+      bandsField.row,
+      endpointField.row,
+    ],
+    vector: [],
+    zarr: [],
+    image: [],
+    video: [],
     custom: [],
   };
 
@@ -1324,6 +1749,20 @@ function buildForm(
       const f = EXAMPLES.wms.fields;
       baseUrlField.input.value = f.baseUrl;
       wmsLayersField.input.value = f.layers;
+    } else if (type === 'wmts' && !wmtsUrlField.input.value) {
+      const f = EXAMPLES.wmts.fields;
+      wmtsUrlField.input.value = f.url;
+      wmtsLayerField.input.value = f.layer;
+    } else if (type === 'arcgis' && !arcgisUrlField.input.value) {
+      const f = EXAMPLES.arcgis.fields;
+      arcgisUrlField.input.value = f.url;
+      arcgisLayersField.input.value = f.layers;
+      arcgisSyncField.input.checked = f.syncTimeline === 'true';
+    } else if (type === 'stac' && !stacUrlField.input.value) {
+      const f = EXAMPLES.stac.fields;
+      stacUrlField.input.value = f.url;
+      collectionField.input.value = f.collection;
+      assetField.input.value = f.asset;
     }
   };
 
@@ -1331,8 +1770,9 @@ function buildForm(
   // explicit type change (not the initial render), so it never clobbers the
   // host page's own configuration when the panel first opens.
   const applyExampleConfig = (type: SourceSpec['type']): void => {
-    if (type === 'custom') return;
-    const t = EXAMPLES[type].timeline;
+    // Types the form cannot build have no example.
+    if (!(type in EXAMPLES)) return;
+    const t = EXAMPLES[type as FormSourceType].timeline;
     controller.setGranularities(t.granularities);
     // Apply the example's date list (usually none) before the range, so a list
     // left over from the previous example cannot clip the new range instead.
@@ -1378,11 +1818,36 @@ function buildForm(
     } else if (type === 'geojson') {
       dataField.input.value = '';
       timePropField.input.value = '';
+      startPropField.input.value = '';
+      endPropField.input.value = '';
+      timeFormatField.input.value = '';
       windowField.select.value = 'day';
       cumulativeField.input.checked = false;
+      geometryField.select.value = 'circle';
+      labelPropField.input.value = '';
     } else if (type === 'wms') {
       baseUrlField.input.value = '';
       wmsLayersField.input.value = '';
+      wmsTimeFormatField.input.value = '';
+    } else if (type === 'wmts') {
+      wmtsUrlField.input.value = '';
+      wmtsLayerField.input.value = '';
+      wmtsMatrixSetField.input.value = '';
+      wmtsSyncField.input.checked = false;
+    } else if (type === 'arcgis') {
+      arcgisUrlField.input.value = '';
+      arcgisLayersField.input.value = '';
+      arcgisSyncField.input.checked = false;
+    } else if (type === 'stac') {
+      stacUrlField.input.value = '';
+      collectionField.input.value = '';
+      assetField.input.value = '';
+      endpointField.input.value = TITILER_DEFAULT_ENDPOINT;
+      cmapSelect.value = '';
+      rescaleMin.value = '';
+      rescaleMax.value = '';
+      nodataField.input.value = '';
+      bandsField.input.value = '';
     }
   };
   // Reset a type's fields to its default example values.
@@ -1461,14 +1926,25 @@ function buildForm(
     } else if (type === 'xyz' && tilesField.input.value) {
       spec = { type: 'xyz', id, name, tiles: tilesField.input.value };
     } else if (type === 'geojson' && dataField.input.value) {
+      const startProperty = startPropField.input.value.trim() || undefined;
+      const endProperty = endPropField.input.value.trim() || undefined;
+      const geometry = geometryField.select.value as GeoJsonSourceSpec['geometry'];
+      const label = labelPropField.input.value.trim();
       spec = {
         type: 'geojson',
         id,
         name,
         data: dataField.input.value,
-        timeProperty: timePropField.input.value || 'time',
+        timeProperty:
+          startProperty || endProperty ? undefined : timePropField.input.value || 'time',
+        startProperty,
+        endProperty,
+        timeFormat: timeFormatField.input.value.trim() || undefined,
         window: { unit: windowField.select.value as Granularity, before: 0, after: 1 },
         cumulative: cumulativeField.input.checked,
+        geometry: geometry === 'circle' ? undefined : geometry,
+        layout:
+          geometry === 'symbol' && label ? { symbol: { 'text-field': ['get', label] } } : undefined,
       };
     } else if (type === 'wms' && baseUrlField.input.value) {
       spec = {
@@ -1477,6 +1953,44 @@ function buildForm(
         name,
         baseUrl: baseUrlField.input.value,
         layers: wmsLayersField.input.value || undefined,
+        timeFormat: wmsTimeFormatField.input.value.trim() || undefined,
+      };
+    } else if (type === 'wmts' && wmtsUrlField.input.value && wmtsLayerField.input.value) {
+      spec = {
+        type: 'wmts',
+        id,
+        name,
+        url: wmtsUrlField.input.value.trim(),
+        layer: wmtsLayerField.input.value.trim(),
+        tileMatrixSet: wmtsMatrixSetField.input.value.trim() || undefined,
+        syncDates: wmtsSyncField.input.checked,
+      };
+    } else if (type === 'arcgis' && arcgisUrlField.input.value) {
+      spec = {
+        type: 'arcgis',
+        id,
+        name,
+        url: arcgisUrlField.input.value.trim(),
+        layers: arcgisLayersField.input.value.trim() || undefined,
+        syncTimeline: arcgisSyncField.input.checked,
+      };
+    } else if (type === 'stac' && stacUrlField.input.value && assetField.input.value) {
+      const collections = collectionField.input.value
+        .split(',')
+        .map((c) => c.trim())
+        .filter(Boolean);
+      spec = {
+        type: 'stac',
+        id,
+        name,
+        url: stacUrlField.input.value.trim(),
+        collection: collections.length === 1 ? collections[0] : collections,
+        asset: assetField.input.value.trim(),
+        endpoint: endpointField.input.value.trim() || undefined,
+        colormap: cmapSelect.value || undefined,
+        rescale: readRescale(),
+        nodata: nodataField.input.value || undefined,
+        bidx: readBands(),
       };
     }
     if (!spec) return;
@@ -1485,7 +1999,8 @@ function buildForm(
     // tiles inside the COG (out-of-bounds tiles 404 and flood the console). The
     // URL is resolved for the current date; failures are non-fatal.
     if (spec.type === 'cog') {
-      const resolved = resolveUrl(spec.url, controller.getState().currentDate);
+      const { currentDate, timeZone } = controller.getState();
+      const resolved = resolveUrl(spec.url, currentDate, timeZone);
       const cogUrl = resolved instanceof Promise ? await resolved.catch(() => undefined) : resolved;
       if (cogUrl) {
         addBtn.disabled = true;
@@ -1519,7 +2034,7 @@ function buildForm(
   // and re-add. Values are set directly (no `change` events) so this never
   // triggers the example-config path or the user-configured guard.
   const reflectSource = (src: SourceSpec & Record<string, unknown>): void => {
-    // Only the five add-form types have editable fields; a custom source has no
+    // Only the add-form types have editable fields; a custom source has no
     // form representation, so leave whatever is there untouched.
     if (!SOURCE_TYPES.some((t) => t.value === src.type)) return;
     const asStr = (v: unknown): string => (typeof v === 'string' ? v : '');
@@ -1573,12 +2088,41 @@ function buildForm(
     } else if (src.type === 'geojson') {
       dataField.input.value = asUrl(src.data, (u) => (dataField.input.value = u));
       timePropField.input.value = asStr(src.timeProperty);
+      startPropField.input.value = asStr(src.startProperty);
+      endPropField.input.value = asStr(src.endProperty);
+      timeFormatField.input.value = asStr(src.timeFormat);
       const unit = (src.window as { unit?: string } | undefined)?.unit;
       if (unit) windowField.select.value = unit;
       cumulativeField.input.checked = src.cumulative === true;
+      geometryField.select.value = asStr(src.geometry) || 'circle';
+      const textField = src.layout?.symbol?.['text-field'];
+      labelPropField.input.value =
+        Array.isArray(textField) && textField[0] === 'get' ? String(textField[1]) : '';
     } else if (src.type === 'wms') {
       baseUrlField.input.value = asStr(src.baseUrl);
       wmsLayersField.input.value = asStr(src.layers);
+      wmsTimeFormatField.input.value = asStr(src.timeFormat);
+    } else if (src.type === 'wmts') {
+      wmtsUrlField.input.value = asStr(src.url);
+      wmtsLayerField.input.value = asStr(src.layer);
+      wmtsMatrixSetField.input.value = asStr(src.tileMatrixSet);
+      wmtsSyncField.input.checked = src.syncDates === true;
+    } else if (src.type === 'arcgis') {
+      arcgisUrlField.input.value = asStr(src.url);
+      arcgisLayersField.input.value = asStr(src.layers);
+      arcgisSyncField.input.checked = src.syncTimeline === true;
+    } else if (src.type === 'stac') {
+      stacUrlField.input.value = asStr(src.url);
+      collectionField.input.value = Array.isArray(src.collection)
+        ? src.collection.join(', ')
+        : asStr(src.collection);
+      assetField.input.value = asStr(src.asset);
+      endpointField.input.value = asStr(src.endpoint) || TITILER_DEFAULT_ENDPOINT;
+      cmapSelect.value = asStr(src.colormap);
+      rescaleMin.value = rescale ? String(rescale[0]) : '';
+      rescaleMax.value = rescale ? String(rescale[1]) : '';
+      nodataField.input.value = src.nodata != null ? String(src.nodata) : '';
+      bandsField.input.value = bandsStr;
     }
     // Show the matching field group without re-running the example prefill,
     // which would clobber the values just set (e.g. when the source URL is a
@@ -1,5 +1,12 @@
 import type { Map as MapLibreMap } from 'maplibre-gl';
-import type { Granularity, SourceSpec, TimeSliderState } from '../core/types';
+import type {
+  ExportAnimationOptions,
+  Granularity,
+  SourceLegend,
+  SourceSpec,
+  TimeRange,
+  TimeSliderState,
+} from '../core/types';
 import type { TimeScale } from '../time/scale';
 
 /**
@@ -14,17 +21,29 @@ export interface DockController {
   getScale(): TimeScale;
   /** Granularities offered as zoom pills. */
   getGranularities(): Granularity[];
+  /**
+   * Count the data in each histogram bucket; undefined when the histogram is
+   * off.
+   */
+  countHistogram(bins: TimeRange[]): number[] | undefined;
   /** Token format for the large date display. */
   getDateFormat(): string;
   /** Current color theme. */
   getTheme(): 'auto' | 'light' | 'dark';
   /** Whether playback starts automatically when the control is added. */
   getAutoPlay(): boolean;
+  /** Whether playback holds each step until it has rendered. */
+  getWaitForRender(): boolean;
   /** The MapLibre map the control is attached to, if added. */
   getMap(): MapLibreMap | undefined;
 
-  /** Navigate to a specific date (snapped internally). */
+  /**
+   * Navigate to a specific date (snapped internally). In range mode the window
+   * slides so that it ends there.
+   */
   goTo(date: Date): void;
+  /** Select a window in range mode (both ends snapped internally). */
+  selectRange(start: Date, end: Date): void;
   /** Advance one step (honoring loop). */
   next(): void;
   /** Rewind one step (honoring loop). */
@@ -37,6 +56,8 @@ export interface DockController {
   setLoop(enabled: boolean): void;
   /** Enable/disable auto-play on add. */
   setAutoPlay(enabled: boolean): void;
+  /** Enable/disable waiting for each step to render during playback. */
+  setWaitForRender(enabled: boolean): void;
   /** Set the color theme (applied live). */
   setTheme(theme: 'auto' | 'light' | 'dark'): void;
   /** Set the date-label token format (applied live; undefined = default). */
@@ -69,6 +90,8 @@ export interface DockController {
   getDatesUrl(): string | undefined;
   /** Collapse (hide) the dock. */
   collapse(): void;
+  /** Render the timeline to an animation file (GIF, WebM, or a ZIP of PNGs). */
+  exportAnimation(options?: ExportAnimationOptions): Promise<Blob>;
 
   /** Current managed sources (spec snapshots). */
   getSources(): SourceSpec[];
@@ -80,6 +103,8 @@ export interface DockController {
   setSourceOpacity(id: string, opacity: number): void;
   /** Apply a live property patch to a managed source (e.g. COG colormap/rescale). */
   setSourceProperty(id: string, patch: Partial<SourceSpec>): void;
+  /** The legend of a managed source's current styling, if it has one. */
+  getSourceLegend(id: string): Promise<SourceLegend | undefined>;
 }
 
 /**
@@ -89,7 +114,7 @@ export interface DockController {
 export interface DockView {
   /** Root dock element (appended to the map container). */
   root: HTMLElement;
-  /** Update the date display and marker position. */
+  /** Update the date display and marker position (or range handles). */
   syncDate(): void;
   /** Update the play/pause button. */
   syncPlayState(): void;
@@ -103,6 +128,8 @@ export interface DockView {
   syncRange(): void;
   /** Rebuild the layers list in the popover. */
   refreshLayers(): void;
+  /** Redraw the axis histogram after the data it counts changed. */
+  syncHistogram(): void;
   /** Toggle the "no data for this date" indicator on the timeline marker. */
   syncDataStatus(unavailable: boolean): void;
   /** Detach listeners and remove the dock from the DOM. */
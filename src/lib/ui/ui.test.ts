@@ -16,6 +16,7 @@ const STATE: TimeSliderState = {
   isPlaying: false,
   speed: 1000,
   loop: true,
+  timeZone: 'UTC',
 };
 
 function baseController(overrides: Partial<DockController> = {}): DockController {
@@ -26,17 +27,21 @@ function baseController(overrides: Partial<DockController> = {}): DockController
     // date list drives the axis exactly as it would in the real control.
     getScale: () => createTimeScale(getState()),
     getGranularities: () => ['hour', 'day', 'month', 'year'],
+    countHistogram: () => undefined,
     getDateFormat: () => 'YYYY-MM-DD',
     getTheme: () => 'auto',
     getAutoPlay: () => false,
+    getWaitForRender: () => false,
     getMap: () => undefined,
     goTo: vi.fn(),
+    selectRange: vi.fn(),
     next: vi.fn(),
     prev: vi.fn(),
     togglePlayback: vi.fn(),
     setSpeed: vi.fn(),
     setLoop: vi.fn(),
     setAutoPlay: vi.fn(),
+    setWaitForRender: vi.fn(),
     setTheme: vi.fn(),
     setDateFormat: vi.fn(),
     setGranularity: vi.fn(),
@@ -47,11 +52,13 @@ function baseController(overrides: Partial<DockController> = {}): DockController
     getDates: () => undefined,
     getDatesUrl: () => undefined,
     collapse: vi.fn(),
+    exportAnimation: vi.fn(async () => new Blob()),
     getSources: () => [],
     addSource: vi.fn(() => 'id'),
     removeSource: vi.fn(),
     setSourceOpacity: vi.fn(),
     setSourceProperty: vi.fn(),
+    getSourceLegend: vi.fn(async () => undefined),
     ...overrides,
   };
 }
@@ -157,6 +164,100 @@ describe('axisRenderer', () => {
     const marker = axis.root.querySelector('.ts-marker') as HTMLElement;
     expect(marker.style.left).toBe('50%');
   });
+
+  it('draws histogram bars scaled to the largest bucket', () => {
+    const countHistogram = vi.fn((bins: { start: Date }[]) =>
+      bins.map((_, i) => (i === 1 ? 4 : 2))
+    );
+    const axis = createAxis(baseController({ countHistogram }));
+    axis.renderTicks();
+    const bars = Array.from(axis.root.querySelectorAll('.ts-histogram-bar')) as HTMLElement[];
+    // Daily ticks over 18->22 bound four one-day buckets.
+    expect(countHistogram.mock.calls[0][0]).toHaveLength(4);
+    expect(bars.map((b) => b.style.height)).toEqual(['50%', '100%', '50%', '50%']);
+    expect(bars[1].style.left).toBe('25%');
+    expect(bars[1].style.width).toBe('25%');
+  });
+
+  it('draws no histogram when it is off', () => {
+    const axis = createAxis(baseController());
+    axis.renderTicks();
+    expect(axis.root.querySelectorAll('.ts-histogram-bar')).toHaveLength(0);
+  });
+
+  describe('range mode', () => {
+    const RANGE_STATE: TimeSliderState = {
+      ...STATE,
+      currentDate: new Date('2024-04-21T00:00:00Z'),
+      currentRange: {
+        start: new Date('2024-04-19T00:00:00Z'),
+        end: new Date('2024-04-21T00:00:00Z'),
+      },
+    };
+
+    function mountRangeAxis(overrides: Partial<DockController> = {}) {
+      const axis = createAxis(baseController({ getState: () => RANGE_STATE, ...overrides }));
+      document.body.appendChild(axis.root);
+      const track = axis.root.querySelector('.ts-axis-track') as HTMLElement;
+      track.getBoundingClientRect = () =>
+        ({ left: 0, width: 100, top: 0, right: 100, bottom: 10, height: 10 }) as DOMRect;
+      const press = (clientX: number) =>
+        track.dispatchEvent(new MouseEvent('mousedown', { clientX, bubbles: true }));
+      const move = (clientX: number) =>
+        window.dispatchEvent(new MouseEvent('mousemove', { clientX }));
+      return { axis, press, move };
+    }
+
+    it('draws both handles and the band between them', () => {
+      const { axis } = mountRangeAxis();
+      axis.setMarker();
+      expect(axis.root.classList.contains('ts-range-mode')).toBe(true);
+      const start = axis.root.querySelector('.ts-marker-start') as HTMLElement;
+      const band = axis.root.querySelector('.ts-range-band') as HTMLElement;
+      expect(start.style.left).toBe('25%');
+      expect(band.style.left).toBe('25%');
+      expect(band.style.width).toBe('50%');
+      expect(axis.root.querySelector('.ts-marker-label')!.textContent).toBe(
+        '2024-04-19 \u2013 2024-04-21'
+      );
+      axis.destroy();
+    });
+
+    it('drags the handle nearest the pointer', () => {
+      const selectRange = vi.fn();
+      const { axis, press, move } = mountRangeAxis({ selectRange });
+      // Right of the window: the end handle follows the pointer.
+      press(100);
+      expect(selectRange.mock.calls[0].map((d: Date) => d.toISOString())).toEqual([
+        '2024-04-19T00:00:00.000Z',
+        '2024-04-22T00:00:00.000Z',
+      ]);
+      window.dispatchEvent(new MouseEvent('mouseup'));
+      // Near the start handle: the start moves.
+      press(20);
+      move(0);
+      expect(selectRange.mock.calls[2].map((d: Date) => d.toISOString())).toEqual([
+        '2024-04-18T00:00:00.000Z',
+        '2024-04-21T00:00:00.000Z',
+      ]);
+      window.dispatchEvent(new MouseEvent('mouseup'));
+      axis.destroy();
+    });
+
+    it('slides the whole window when the band is dragged', () => {
+      const goTo = vi.fn();
+      const selectRange = vi.fn();
+      const { axis, press, move } = mountRangeAxis({ goTo, selectRange });
+      press(50);
+      move(75);
+      expect(selectRange).not.toHaveBeenCalled();
+      // Grabbed a quarter-track left of the end; moving right a quarter ends the
+      // window at the last step.
+      expect(goTo.mock.calls[1][0].toISOString()).toBe('2024-04-22T00:00:00.000Z');
+      window.dispatchEvent(new MouseEvent('mouseup'));
+      axis.destroy();
+    });
+  });
 });
 
 describe('layersPopover', () => {
@@ -718,6 +819,34 @@ describe('layersPopover', () => {
     popover.destroy();
   });
 
+  it('adds a GeoJSON layer as labelled symbols', () => {
+    const addSource = vi.fn(() => 'id');
+    const popover = createLayersPopover(baseController({ addSource }));
+    document.body.appendChild(popover.root);
+    const select = popover.root.querySelector('.ts-type-select') as HTMLSelectElement;
+    select.value = 'geojson';
+    select.dispatchEvent(new Event('change'));
+    const control = (label: string): HTMLInputElement => {
+      const rows = [
+        ...popover.root.querySelectorAll('.ts-add-form .ts-form-fields .ts-field'),
+      ] as HTMLElement[];
+      const row = rows.find((r) => r.querySelector('span')?.textContent === label);
+      return row!.querySelector('input, select') as HTMLInputElement;
+    };
+    control('Geometry').value = 'symbol';
+    control('Label property (symbols)').value = 'title';
+
+    (popover.root.querySelector('.ts-add-submit') as HTMLButtonElement).click();
+    expect(addSource).toHaveBeenCalledWith(
+      expect.objectContaining({
+        geometry: 'symbol',
+        layout: { symbol: { 'text-field': ['get', 'title'] } },
+      })
+    );
+
+    popover.destroy();
+  });
+
   it('renders the settings section and wires controls to controller setters', () => {
     const setGranularity = vi.fn();
     const setSpeed = vi.fn();
@@ -725,6 +854,7 @@ describe('layersPopover', () => {
     const setTheme = vi.fn();
     const setDateFormat = vi.fn();
     const setAutoPlay = vi.fn();
+    const setWaitForRender = vi.fn();
     const controller = baseController({
       setGranularity,
       setSpeed,
@@ -732,6 +862,7 @@ describe('layersPopover', () => {
       setTheme,
       setDateFormat,
       setAutoPlay,
+      setWaitForRender,
     });
 
     const popover = createLayersPopover(controller);
@@ -754,9 +885,10 @@ describe('layersPopover', () => {
     speedInput.dispatchEvent(new Event('change'));
     expect(setSpeed).toHaveBeenCalledWith(500);
 
-    // Loop / auto-play live in single-checkbox rows (.ts-field-check); the
-    // granularity multi-select checkboxes live in .ts-check-group.
-    const [loopCheck, autoPlayCheck] = section.querySelectorAll(
+    // Loop / auto-play / wait-for-render live in single-checkbox rows
+    // (.ts-field-check); the granularity multi-select checkboxes live in
+    // .ts-check-group.
+    const [loopCheck, autoPlayCheck, waitCheck] = section.querySelectorAll(
       '.ts-field-check input[type="checkbox"]'
     ) as unknown as HTMLInputElement[];
     loopCheck.checked = false;
@@ -767,6 +899,10 @@ describe('layersPopover', () => {
     autoPlayCheck.dispatchEvent(new Event('change'));
     expect(setAutoPlay).toHaveBeenCalledWith(true);
 
+    waitCheck.checked = true;
+    waitCheck.dispatchEvent(new Event('change'));
+    expect(setWaitForRender).toHaveBeenCalledWith(true);
+
     const dateFormatInput = section.querySelector('input[type="text"]') as HTMLInputElement;
     dateFormatInput.value = 'YYYY';
     dateFormatInput.dispatchEvent(new Event('change'));
@@ -784,15 +920,29 @@ describe('layersPopover', () => {
     const checks = section.querySelectorAll(
       '.ts-check-group input[type="checkbox"]'
     ) as unknown as HTMLInputElement[];
-    expect(checks).toHaveLength(4);
-    // All four start checked (the mock offers all granularities).
-    expect([...checks].every((c) => c.checked)).toBe(true);
+    // One box per supported granularity, ticked for the four the mock offers.
+    expect(checks).toHaveLength(8);
+    expect([...checks].filter((c) => c.checked).map((c) => c.value)).toEqual([
+      'hour',
+      'day',
+      'month',
+      'year',
+    ]);
 
     // Unchecking 'hour' applies the remaining three in canonical order.
-    checks[0].checked = false;
-    checks[0].dispatchEvent(new Event('change'));
+    const hour = section.querySelector('.ts-check-group input[value="hour"]') as HTMLInputElement;
+    hour.checked = false;
+    hour.dispatchEvent(new Event('change'));
     expect(setGranularities).toHaveBeenCalledWith(['day', 'month', 'year']);
 
+    // Opting into a sub-hour unit slots it in ahead of the coarser ones.
+    const minute = section.querySelector(
+      '.ts-check-group input[value="minute"]'
+    ) as HTMLInputElement;
+    minute.checked = true;
+    minute.dispatchEvent(new Event('change'));
+    expect(setGranularities).toHaveBeenLastCalledWith(['minute', 'day', 'month', 'year']);
+
     popover.destroy();
   });
 
@@ -815,6 +965,48 @@ describe('layersPopover', () => {
     popover.destroy();
   });
 
+  it('exports an animation in the chosen format and downloads it', async () => {
+    const exportAnimation = vi.fn(async () => new Blob(['zip']));
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    // jsdom has no object URLs; give the download something to point at.
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:frames'), revokeObjectURL: vi.fn() });
+    const popover = createLayersPopover(baseController({ exportAnimation }));
+    document.body.appendChild(popover.root);
+    const row = popover.root.querySelector('.ts-export-row') as HTMLElement;
+    const format = row.querySelector('select') as HTMLSelectElement;
+    const button = row.querySelector('.ts-export-submit') as HTMLButtonElement;
+
+    format.value = 'png-frames';
+    format.dispatchEvent(new Event('change', { bubbles: true }));
+    button.click();
+    expect(exportAnimation).toHaveBeenCalledWith({ format: 'png-frames' });
+    expect(button.disabled).toBe(true);
+
+    await vi.waitFor(() => expect(button.disabled).toBe(false));
+    expect(click).toHaveBeenCalledTimes(1);
+    const link = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(link.download).toBe('time-slider.zip');
+    expect(link.href).toBe('blob:frames');
+
+    popover.destroy();
+  });
+
+  it('shows the error when an export fails', async () => {
+    const exportAnimation = vi.fn(async () => {
+      throw new Error('WebM export needs MediaRecorder');
+    });
+    const popover = createLayersPopover(baseController({ exportAnimation }));
+    document.body.appendChild(popover.root);
+    const row = popover.root.querySelector('.ts-export-row') as HTMLElement;
+    (row.querySelector('.ts-export-submit') as HTMLButtonElement).click();
+
+    const status = row.querySelector('.ts-export-status') as HTMLElement;
+    await vi.waitFor(() => expect(status.classList.contains('ts-error')).toBe(true));
+    expect(status.textContent).toBe('WebM export needs MediaRecorder');
+
+    popover.destroy();
+  });
+
   it('offers a None colormap option for multi-band COG imagery', async () => {
     vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('no network')));
     const addSource = vi.fn(() => 'id');
@@ -840,6 +1032,57 @@ describe('layersPopover', () => {
     popover.destroy();
   });
 
+  it('switches a GeoJSON layer style and shows its legend', async () => {
+    const source = {
+      type: 'geojson',
+      id: 'g',
+      data: 'https://x.geojson',
+      timeProperty: 'time',
+      style: { by: 'graduated', property: 'mag', breaks: [3], colors: ['#000', '#fff'] },
+    } as SourceSpec;
+    const setSourceProperty = vi.fn();
+    const getSourceLegend = vi.fn(async () => ({
+      title: 'mag',
+      entries: [
+        { label: '< 3', color: '#000' },
+        { label: '≥ 3', color: '#fff' },
+      ],
+    }));
+    const popover = createLayersPopover(
+      baseController({ getSources: () => [source], setSourceProperty, getSourceLegend })
+    );
+    document.body.appendChild(popover.root);
+
+    await vi.waitFor(() =>
+      expect(popover.root.querySelectorAll('.ts-legend-entry')).toHaveLength(2)
+    );
+    expect(popover.root.querySelector('.ts-legend-title')!.textContent).toBe('mag');
+
+    const by = popover.root.querySelector('.ts-style-by') as HTMLSelectElement;
+    const property = popover.root.querySelector('.ts-style-property') as HTMLInputElement;
+    expect(by.value).toBe('graduated');
+    expect(property.value).toBe('mag');
+
+    // A new property derives fresh classes rather than reusing the old breaks.
+    property.value = 'depth';
+    property.dispatchEvent(new Event('change'));
+    expect(setSourceProperty).toHaveBeenLastCalledWith('g', {
+      style: { by: 'graduated', property: 'depth' },
+    });
+
+    by.value = 'time';
+    by.dispatchEvent(new Event('change'));
+    expect(property.hidden).toBe(true);
+    expect(setSourceProperty).toHaveBeenLastCalledWith('g', { style: { by: 'time' } });
+
+    by.value = '';
+    by.dispatchEvent(new Event('change'));
+    expect(setSourceProperty).toHaveBeenLastCalledWith('g', { style: undefined });
+    expect(getSourceLegend).toHaveBeenCalledTimes(4);
+
+    popover.destroy();
+  });
+
   // A mosaic renders client-side through maplibre-gl-raster rather than
   // TiTiler, so its NoData field takes that renderer's auto/off/number
   // vocabulary instead of TiTiler's number/'nan'.
@@ -905,4 +1148,86 @@ describe('layersPopover', () => {
       popover.destroy();
     });
   });
+
+  describe('WMS Inspect', () => {
+    const CAPABILITIES = `<WMS_Capabilities version="1.3.0">
+      <Capability><Layer>
+        <Layer><Name>borders</Name></Layer>
+        <Layer>
+          <Name>sst</Name><Title>SST</Title>
+          <Dimension name="time">2024-01-01T00:00:00Z/2024-01-01T12:00:00Z/PT6H</Dimension>
+        </Layer>
+      </Layer></Capability>
+    </WMS_Capabilities>`;
+
+    /** Opens the add form on the WMS type with a base URL filled in. */
+    const openWmsForm = (
+      overrides: Partial<DockController>
+    ): {
+      popover: ReturnType<typeof createLayersPopover>;
+      input: (label: string) => HTMLInputElement;
+    } => {
+      const popover = createLayersPopover(baseController(overrides));
+      document.body.appendChild(popover.root);
+      (popover.root.querySelector('.ts-add-data') as HTMLButtonElement).click();
+      const typeSelect = popover.root.querySelector(
+        '.ts-add-form .ts-type-select'
+      ) as HTMLSelectElement;
+      typeSelect.value = 'wms';
+      typeSelect.dispatchEvent(new Event('change'));
+      const input = (label: string): HTMLInputElement => {
+        const rows = [
+          ...popover.root.querySelectorAll('.ts-add-form .ts-form-fields .ts-field'),
+        ] as HTMLElement[];
+        const row = rows.find((r) => r.querySelector('span')?.textContent === label);
+        expect(row, `the WMS form must expose a ${label} field`).toBeDefined();
+        return row!.querySelector('input, select') as HTMLInputElement;
+      };
+      input('WMS base URL').value = 'https://example.com/wms';
+      return { popover, input };
+    };
+
+    it('lists discovered layers and applies the picked one', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => ({ ok: true, status: 200, text: async () => CAPABILITIES }))
+      );
+      const setDates = vi.fn();
+      const { popover, input } = openWmsForm({ setDates });
+      (popover.root.querySelector('.ts-wms-inspect') as HTMLButtonElement).click();
+
+      await vi.waitFor(() =>
+        expect(popover.root.querySelector('.ts-wms-status')?.textContent).toBe(
+          '2 layers, 1 with a time dimension'
+        )
+      );
+      const picker = input('Discovered layers') as unknown as HTMLSelectElement;
+      // Time-enabled layers come first, labelled with their extent.
+      expect(picker.options[1].textContent).toMatch(/^SST \(sst\) \u2014 2024-01-01T00:00:00Z/);
+      // Choosing the WMS type applied its example timeline; only the pick counts.
+      setDates.mockClear();
+      picker.value = '0';
+      picker.dispatchEvent(new Event('change'));
+
+      expect(input('WMS layers').value).toBe('sst');
+      expect(input('TIME format').value).toBe('YYYY-MM-DDTHH:mm:ss[Z]');
+      expect(setDates).toHaveBeenCalledTimes(1);
+      expect(setDates.mock.calls[0][0]).toHaveLength(3);
+      popover.destroy();
+    });
+
+    it('reports a failed request', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('no network')));
+      const { popover } = openWmsForm({});
+      (popover.root.querySelector('.ts-wms-inspect') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        const status = popover.root.querySelector('.ts-wms-status') as HTMLElement;
+        expect(status.textContent).toBe('no network');
+        expect(status.classList.contains('ts-error')).toBe(true);
+      });
+      expect(popover.root.querySelector('.ts-wms-layers')).toBeNull();
+      popover.destroy();
+    });
+  });
 });
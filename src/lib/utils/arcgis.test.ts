@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { arcgisBounds, arcgisTimeExtent, arcgisTimeUnit, getArcGisServiceInfo } from './arcgis';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('arcgisTimeUnit', () => {
+  it('maps esri time units onto timeline units', () => {
+    expect(arcgisTimeUnit('esriTimeUnitsHours', 6)).toEqual({ granularity: 'hour', interval: 6 });
+    expect(arcgisTimeUnit('esriTimeUnitsCenturies')).toEqual({
+      granularity: 'year',
+      interval: 100,
+    });
+    expect(arcgisTimeUnit('esriTimeUnitsMilliseconds')).toBeUndefined();
+    expect(arcgisTimeUnit(undefined)).toBeUndefined();
+  });
+});
+
+describe('arcgisTimeExtent', () => {
+  it('reads the extent and interval of a time-aware service', () => {
+    expect(
+      arcgisTimeExtent({
+        timeInfo: {
+          timeExtent: [Date.UTC(2024, 0, 1), Date.UTC(2024, 11, 1)],
+          timeInterval: 1,
+          timeIntervalUnits: 'esriTimeUnitsMonths',
+        },
+      })
+    ).toEqual({
+      start: new Date(Date.UTC(2024, 0, 1)),
+      end: new Date(Date.UTC(2024, 11, 1)),
+      granularity: 'month',
+      interval: 1,
+    });
+  });
+
+  it('is undefined for a service without a time extent', () => {
+    expect(arcgisTimeExtent({})).toBeUndefined();
+    expect(arcgisTimeExtent({ timeInfo: { timeExtent: null } })).toBeUndefined();
+  });
+});
+
+describe('arcgisBounds', () => {
+  it('converts a Web Mercator extent to longitude/latitude', () => {
+    const bounds = arcgisBounds({
+      fullExtent: {
+        xmin: -20037508.34,
+        ymin: 0,
+        xmax: 20037508.34,
+        ymax: 20037508.34,
+        spatialReference: { wkid: 102100, latestWkid: 3857 },
+      },
+    })!;
+    expect(bounds[0]).toBeCloseTo(-180, 5);
+    expect(bounds[1]).toBeCloseTo(0, 5);
+    expect(bounds[2]).toBeCloseTo(180, 5);
+    expect(bounds[3]).toBeCloseTo(85.0511, 3);
+  });
+
+  it('leaves other spatial references alone', () => {
+    expect(
+      arcgisBounds({
+        extent: { xmin: 0, ymin: 0, xmax: 1, ymax: 1, spatialReference: { wkid: 32633 } },
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe('getArcGisServiceInfo', () => {
+  it('requests the service JSON', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, json: async () => ({ name: 'x' }) }));
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await getArcGisServiceInfo('https://e/MapServer/')).toEqual({ name: 'x' });
+    expect(fetchMock).toHaveBeenCalledWith('https://e/MapServer?f=json', undefined);
+  });
+
+  it('throws on an error reported in a successful response', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({
+        ok: true,
+        json: async () => ({ error: { code: 499, message: 'Token Required' } }),
+      }))
+    );
+    await expect(getArcGisServiceInfo('https://e/MapServer')).rejects.toThrow(/Token Required/);
+  });
+});
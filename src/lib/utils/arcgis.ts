@@ -0,0 +1,175 @@
+import type { Granularity } from '../core/types';
+
+/**
+ * An ArcGIS spatial reference, as service JSON reports it.
+ */
+export interface ArcGisSpatialReference {
+  wkid?: number;
+  latestWkid?: number;
+}
+
+/**
+ * An ArcGIS extent in its service's spatial reference.
+ */
+export interface ArcGisExtent {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  spatialReference?: ArcGisSpatialReference;
+}
+
+/**
+ * The `timeInfo` of a time-aware MapServer or ImageServer.
+ */
+export interface ArcGisTimeInfo {
+  /** First and last time of the data, in epoch milliseconds. */
+  timeExtent?: [number, number] | null;
+  /** The spacing of the data's times, in {@link timeIntervalUnits}. */
+  timeInterval?: number;
+  /** An `esriTimeUnits*` constant, e.g. `esriTimeUnitsDays`. */
+  timeIntervalUnits?: string;
+  /** The window a client should show at once, in {@link defaultTimeIntervalUnits}. */
+  defaultTimeInterval?: number;
+  defaultTimeIntervalUnits?: string;
+}
+
+/**
+ * The parts of a MapServer or ImageServer's service JSON the time slider reads.
+ */
+export interface ArcGisServiceInfo {
+  /** Service (MapServer) or image (ImageServer) name. */
+  name?: string;
+  mapName?: string;
+  description?: string;
+  copyrightText?: string;
+  /** Present when the service is time-aware. */
+  timeInfo?: ArcGisTimeInfo;
+  fullExtent?: ArcGisExtent;
+  extent?: ArcGisExtent;
+}
+
+/**
+ * A service's time extent in timeline terms.
+ */
+export interface ArcGisTimeExtent {
+  start: Date;
+  end: Date;
+  /** The unit of the service's time interval, when it names one. */
+  granularity?: Granularity;
+  /** How many units apart the service's times are. */
+  interval?: number;
+}
+
+/**
+ * `esriTimeUnits*` constants as timeline units: decades and centuries step in
+ * years, so they carry a multiplier.
+ */
+const ESRI_TIME_UNITS: Record<string, [Granularity, number]> = {
+  esriTimeUnitsSeconds: ['second', 1],
+  esriTimeUnitsMinutes: ['minute', 1],
+  esriTimeUnitsHours: ['hour', 1],
+  esriTimeUnitsDays: ['day', 1],
+  esriTimeUnitsWeeks: ['week', 1],
+  esriTimeUnitsMonths: ['month', 1],
+  esriTimeUnitsYears: ['year', 1],
+  esriTimeUnitsDecades: ['year', 10],
+  esriTimeUnitsCenturies: ['year', 100],
+};
+
+/**
+ * Converts an `esriTimeUnits*` constant and count into a timeline unit and
+ * step.
+ *
+ * @param units - The constant, e.g. `esriTimeUnitsMonths`
+ * @param count - How many of the unit
+ * @returns The unit and step, or undefined for units the timeline lacks
+ *   (milliseconds, unknown)
+ */
+export function arcgisTimeUnit(
+  units: string | undefined,
+  count = 1
+): { granularity: Granularity; interval: number } | undefined {
+  const unit = units ? ESRI_TIME_UNITS[units] : undefined;
+  if (!unit) return undefined;
+  return { granularity: unit[0], interval: Math.max(1, Math.round(count * unit[1])) };
+}
+
+/**
+ * Reads a service's time extent and interval.
+ *
+ * @param info - The service JSON
+ * @returns The extent, or undefined when the service is not time-aware
+ */
+export function arcgisTimeExtent(info: ArcGisServiceInfo): ArcGisTimeExtent | undefined {
+  const extent = info.timeInfo?.timeExtent;
+  if (!extent || extent[0] == null || extent[1] == null) return undefined;
+  const step = arcgisTimeUnit(info.timeInfo?.timeIntervalUnits, info.timeInfo?.timeInterval);
+  return {
+    start: new Date(extent[0]),
+    end: new Date(extent[1]),
+    ...(step ?? {}),
+  };
+}
+
+/** Spherical Mercator radius, for converting Web Mercator extents. */
+const EARTH_RADIUS = 6378137;
+
+/**
+ * A service extent as `[west, south, east, north]` in longitude/latitude.
+ * Only geographic and Web Mercator extents convert; others are undefined.
+ *
+ * @param info - The service JSON
+ * @returns The bounds, or undefined
+ */
+export function arcgisBounds(
+  info: ArcGisServiceInfo
+): [number, number, number, number] | undefined {
+  const extent = info.fullExtent ?? info.extent;
+  if (!extent) return undefined;
+  const wkid = extent.spatialReference?.latestWkid ?? extent.spatialReference?.wkid;
+  const { xmin, ymin, xmax, ymax } = extent;
+  if (wkid === 4326) return [xmin, ymin, xmax, ymax];
+  if (wkid === 3857 || wkid === 102100 || wkid === 102113) {
+    const lng = (x: number): number => (x / EARTH_RADIUS) * (180 / Math.PI);
+    const lat = (y: number): number =>
+      (2 * Math.atan(Math.exp(y / EARTH_RADIUS)) - Math.PI / 2) * (180 / Math.PI);
+    return [lng(xmin), lat(ymin), lng(xmax), lat(ymax)];
+  }
+  return undefined;
+}
+
+/**
+ * Fetches a MapServer or ImageServer's service JSON (`<url>?f=json`).
+ *
+ * @param url - The service URL, ending in `/MapServer` or `/ImageServer`
+ * @param init - Optional fetch options (headers, abort signal, credentials)
+ * @returns The service JSON
+ * @throws If the request fails or the service answers with an error
+ *
+ * @example
+ * ```typescript
+ * const info = await getArcGisServiceInfo(
+ *   'https://sampleserver6.arcgisonline.com/arcgis/rest/services/Hurricanes/MapServer'
+ * );
+ * const time = arcgisTimeExtent(info);
+ * if (time) timeSlider.setRange(time.start, time.end, time.interval, time.granularity);
+ * ```
+ */
+export async function getArcGisServiceInfo(
+  url: string,
+  init?: RequestInit
+): Promise<ArcGisServiceInfo> {
+  const infoUrl = `${url.replace(/\/+$/, '')}?f=json`;
+  const response = await fetch(infoUrl, init);
+  if (!response.ok) {
+    throw new Error(`ArcGIS service request failed: ${infoUrl} responded ${response.status}`);
+  }
+  // ArcGIS Server reports errors (a missing service, a token required) in a
+  // 200 response.
+  const json = (await response.json()) as ArcGisServiceInfo & { error?: { message?: string } };
+  if (json.error) {
+    throw new Error(`ArcGIS service error: ${json.error.message ?? infoUrl}`);
+  }
+  return json;
+}
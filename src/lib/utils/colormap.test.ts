@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { colorizeGrid, colormapColors, colormapTable, valueRange } from './colormap';
+
+describe('colormapTable', () => {
+  it('interpolates the stops across 256 levels', () => {
+    const table = colormapTable('viridis');
+    expect(Array.from(table.subarray(0, 3))).toEqual([0x44, 0x01, 0x54]);
+    expect(Array.from(table.subarray(255 * 3))).toEqual([0xfd, 0xe7, 0x25]);
+  });
+
+  it('reverses with _r and falls back to gray for unknown names', () => {
+    expect(Array.from(colormapTable('viridis_r').subarray(0, 3))).toEqual([0xfd, 0xe7, 0x25]);
+    expect(Array.from(colormapTable('nope').subarray(128 * 3, 128 * 3 + 3))).toEqual([
+      128, 128, 128,
+    ]);
+  });
+});
+
+describe('colormapColors', () => {
+  it('samples evenly from end to end', () => {
+    expect(colormapColors('viridis', 2)).toEqual(['#440154', '#fde725']);
+    expect(colormapColors('gray', 3)).toEqual(['#000000', '#808080', '#ffffff']);
+  });
+});
+
+describe('colorizeGrid', () => {
+  it('rescales and clamps values, leaving NaN transparent', () => {
+    const rgba = colorizeGrid([0, 10, 20, NaN], [0, 10], 'gray');
+    expect(Array.from(rgba)).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255, 255, 0, 0, 0, 0,
+    ]);
+  });
+});
+
+describe('valueRange', () => {
+  it('spans the finite values', () => {
+    expect(valueRange([3, NaN, -1, Infinity])).toEqual([-1, 3]);
+    expect(valueRange([NaN])).toBeUndefined();
+  });
+});
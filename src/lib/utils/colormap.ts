@@ -0,0 +1,117 @@
+/**
+ * Colormaps for rasters colored client-side, as evenly spaced hex stops
+ * sampled from matplotlib's maps. Names match TiTiler's, so a spec reads the
+ * same whichever side colors it.
+ */
+const COLORMAP_STOPS: Record<string, string> = {
+  viridis: '440154 472d7b 3b528b 2c728e 21918c 28ae80 5ec962 addc30 fde725',
+  magma: '000004 1c1044 4f127b 812581 b5367a e55064 fb8761 fec287 fcfdbf',
+  inferno: '000004 1f0c48 550f6d 88226a ba3655 e35933 f98e09 f8c931 fcffa4',
+  plasma: '0d0887 4c02a1 7e03a8 a92395 cc4778 e56b5d f89540 fdc328 f0f921',
+  cividis: '00224e 123570 3b496c 575d6d 707173 8a8678 a59c74 c3b369 fee838',
+  turbo: '30123b 4662d7 36aaf9 1ae4b6 72fe5e c8ef34 faba39 f66b19 7a0403',
+  jet: '000080 0000ff 0080ff 00ffff 80ff80 ffff00 ff8000 ff0000 800000',
+  coolwarm: '3b4cc0 6282ea 8db0fe b8d0f9 dddcdc f5c4ad f49a7b de604d b40426',
+  rdbu: '67001f b2182b d6604d f4a582 f7f7f7 92c5de 4393c3 2166ac 053061',
+  blues: 'f7fbff deebf7 c6dbef 9ecae1 6baed6 4292c6 2171b5 08519c 08306b',
+  reds: 'fff5f0 fee0d2 fcbba1 fc9272 fb6a4a ef3b2c cb181d a50f15 67000d',
+  greens: 'f7fcf5 e5f5e0 c7e9c0 a1d99b 74c476 41ab5d 238b45 006d2c 00441b',
+  greys: 'ffffff f0f0f0 d9d9d9 bdbdbd 969696 737373 525252 252525 000000',
+  gray: '000000 ffffff',
+};
+
+/**
+ * The colormaps {@link colorizeGrid} draws, each also available reversed with
+ * an `_r` suffix.
+ */
+export const CLIENT_COLORMAPS = Object.keys(COLORMAP_STOPS);
+
+/**
+ * A 256-entry RGB lookup table for a colormap.
+ *
+ * @param name - A {@link CLIENT_COLORMAPS} name, optionally suffixed `_r`;
+ *   other names (and none) give a black-to-white ramp
+ * @returns 768 bytes: red, green, blue for each of 256 levels
+ */
+export function colormapTable(name?: string): Uint8Array {
+  const key = name?.toLowerCase() ?? '';
+  const reversed = key.endsWith('_r');
+  const stops = (COLORMAP_STOPS[reversed ? key.slice(0, -2) : key] ?? COLORMAP_STOPS.gray)
+    .split(' ')
+    .map((hex) => [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)));
+  if (reversed) stops.reverse();
+  const table = new Uint8Array(256 * 3);
+  for (let level = 0; level < 256; level++) {
+    const at = (level / 255) * (stops.length - 1);
+    const lo = Math.min(Math.floor(at), stops.length - 2);
+    const t = at - lo;
+    for (let c = 0; c < 3; c++) {
+      table[level * 3 + c] = Math.round(stops[lo][c] + (stops[lo + 1][c] - stops[lo][c]) * t);
+    }
+  }
+  return table;
+}
+
+/**
+ * Evenly spaced colours along a colormap, from its start to its end, for
+ * classes and ramps drawn by MapLibre rather than on a canvas.
+ *
+ * @param name - A colormap name (see {@link colormapTable})
+ * @param count - How many colours
+ * @returns `#rrggbb` colours
+ */
+export function colormapColors(name: string | undefined, count: number): string[] {
+  const table = colormapTable(name);
+  return Array.from({ length: count }, (_, i) => {
+    const level = count > 1 ? Math.round((i / (count - 1)) * 255) : 255;
+    const rgb = table.subarray(level * 3, level * 3 + 3);
+    return `#${Array.from(rgb, (c) => c.toString(16).padStart(2, '0')).join('')}`;
+  });
+}
+
+/**
+ * Colors a grid of values: each value is rescaled from `[min, max]` onto the
+ * colormap, clamping outside the range. `NaN` values are transparent.
+ *
+ * @param values - The grid, row by row
+ * @param rescale - The values mapped to the colormap's two ends
+ * @param colormap - A colormap name (see {@link colormapTable})
+ * @returns RGBA pixels, ready for `ImageData`
+ */
+export function colorizeGrid(
+  values: ArrayLike<number>,
+  rescale: [number, number],
+  colormap?: string
+): Uint8ClampedArray {
+  const table = colormapTable(colormap);
+  const [min, max] = rescale;
+  const span = max - min || 1;
+  const rgba = new Uint8ClampedArray(values.length * 4);
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (Number.isNaN(value)) continue;
+    const level = Math.round(Math.min(1, Math.max(0, (value - min) / span)) * 255);
+    rgba.set(table.subarray(level * 3, level * 3 + 3), i * 4);
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * The finite minimum and maximum of a grid, for rescaling data with no
+ * declared range.
+ *
+ * @param values - The grid
+ * @returns The range, or undefined when no value is finite
+ */
+export function valueRange(values: ArrayLike<number>): [number, number] | undefined {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? [min, max] : undefined;
+}
@@ -4,7 +4,41 @@ export {
   buildTiTilerTileUrl,
   getTiTilerBounds,
   getTiTilerInfo,
+  getTiTilerPoint,
   getTiTilerStatistics,
 } from './titiler';
 
+export { searchStac, stacItemTime } from './stac';
+export { arcgisBounds, arcgisTimeExtent, arcgisTimeUnit, getArcGisServiceInfo } from './arcgis';
+export { discoverWms, parseWmsCapabilities, wmsCapabilitiesUrl } from './wms';
+export { discoverWmts, parseWmtsCapabilities, wmtsCapabilitiesUrl, wmtsTileTemplate } from './wmts';
+export { openZarrArray, readZarrRegion } from './zarr';
+export {
+  CLIENT_COLORMAPS,
+  colorizeGrid,
+  colormapColors,
+  colormapTable,
+  valueRange,
+} from './colormap';
+
 export type { TiTilerOptions } from './titiler';
+export type { StacItem, StacSearchBody, StacSearchOptions } from './stac';
+export type {
+  ArcGisExtent,
+  ArcGisServiceInfo,
+  ArcGisSpatialReference,
+  ArcGisTimeExtent,
+  ArcGisTimeInfo,
+} from './arcgis';
+export type { WmsCapabilities, WmsLayerInfo } from './wms';
+export type {
+  WmtsCapabilities,
+  WmtsDimension,
+  WmtsLayerInfo,
+  WmtsResourceUrl,
+  WmtsTileMatrix,
+  WmtsTileMatrixSet,
+  WmtsTileOptions,
+  WmtsTileTemplate,
+} from './wmts';
+export type { ZarrArray, ZarrArrayMetadata, ZarrRegion } from './zarr';
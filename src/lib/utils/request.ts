@@ -0,0 +1,43 @@
+import type { RequestParameters, RequestTransformFunction, ResourceType } from 'maplibre-gl';
+
+/**
+ * Fetch options for a transformed request, merged under the caller's own: the
+ * caller's headers win over the transform's.
+ *
+ * @param request - The transformed request
+ * @param init - The caller's fetch options
+ * @returns The options to fetch with
+ */
+function withRequestParameters(request: RequestParameters, init?: RequestInit): RequestInit {
+  const headers = new Headers(request.headers);
+  new Headers(init?.headers).forEach((value, name) => headers.set(name, value));
+  return {
+    ...(request.method ? { method: request.method } : {}),
+    ...(request.credentials ? { credentials: request.credentials } : {}),
+    ...(request.cache ? { cache: request.cache } : {}),
+    ...init,
+    headers,
+  };
+}
+
+/**
+ * Fetches a URL the way the map would: through a `transformRequest` (the one
+ * the map was created with, handed to the control), so the URL rewrites and
+ * auth headers that reach the map's own requests reach this one too.
+ *
+ * @param url - The URL to request
+ * @param resourceType - The kind of resource, as MapLibre names it
+ * @param transform - The request transform, if any
+ * @param init - Optional fetch options (abort signal, extra headers)
+ * @returns The response
+ */
+export async function fetchResource(
+  url: string,
+  resourceType: `${ResourceType}`,
+  transform?: RequestTransformFunction,
+  init?: RequestInit
+): Promise<Response> {
+  const request = transform ? await transform(url, resourceType as ResourceType) : undefined;
+  if (!request) return fetch(url, init);
+  return fetch(request.url, withRequestParameters(request, init));
+}
@@ -0,0 +1,106 @@
+// @vitest-environment node
+/// <reference types="node" />
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { searchStac, stacItemTime, type StacItem } from './stac';
+
+function item(id: string, datetime: string): StacItem {
+  return {
+    id,
+    bbox: [0, 0, 1, 1],
+    properties: { datetime },
+    assets: { visual: { href: `https://data/${id}.tif` } },
+  };
+}
+
+const ITEMS = [
+  item('a', '2024-06-01T10:00:00Z'),
+  item('b', '2024-06-03T10:00:00Z'),
+  item('c', '2024-06-05T10:00:00Z'),
+  item('d', '2024-06-07T10:00:00Z'),
+  item('e', '2024-06-09T10:00:00Z'),
+];
+
+/**
+ * A STAC API mock paging two items at a time. POST searches page through a
+ * `next` link that is itself a merged POST (as stac-fastapi does); GET pages
+ * carry a plain `?page=` link.
+ */
+let server: Server;
+let base: string;
+const bodies: Record<string, unknown>[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, base);
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      if (url.pathname !== '/v1/search') {
+        res.writeHead(404).end();
+        return;
+      }
+      const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+      if (req.method === 'POST') bodies.push(body);
+      const page = Number(body.page ?? url.searchParams.get('page') ?? 0);
+      const features = ITEMS.slice(page * 2, page * 2 + 2);
+      const links =
+        page * 2 + 2 < ITEMS.length
+          ? [
+              req.method === 'POST' && page === 0
+                ? {
+                    rel: 'next',
+                    href: `${base}/v1/search`,
+                    method: 'POST',
+                    body: { page: page + 1 },
+                    merge: true,
+                  }
+                : { rel: 'next', href: `${base}/v1/search?page=${page + 1}` },
+            ]
+          : [];
+      res.writeHead(200, { 'Content-Type': 'application/geo+json' });
+      res.end(JSON.stringify({ type: 'FeatureCollection', features, links }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('searchStac', () => {
+  it('follows POST and GET next links until the results run out', async () => {
+    bodies.length = 0;
+    const items = await searchStac(`${base}/v1/`, {
+      collections: ['s2'],
+      bbox: [0, 0, 1, 1],
+      datetime: '2024-06-01T00:00:00Z/2024-06-30T00:00:00Z',
+    });
+
+    expect(items.map((i) => i.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    // The first page is a POST with the search; the merged next page keeps it.
+    expect(bodies[0]).toMatchObject({ collections: ['s2'], bbox: [0, 0, 1, 1], limit: 100 });
+    expect(bodies[1]).toMatchObject({ collections: ['s2'], page: 1 });
+  });
+
+  it('stops paging at maxItems', async () => {
+    const items = await searchStac(`${base}/v1`, { collections: ['s2'] }, { maxItems: 3 });
+    expect(items.map((i) => i.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('throws when the API responds with an error', async () => {
+    await expect(searchStac(`${base}/missing`, {})).rejects.toThrow(/responded 404/);
+  });
+});
+
+describe('stacItemTime', () => {
+  it("reads an item's datetime, falling back to start_datetime", () => {
+    expect(stacItemTime(item('a', '2024-06-01T10:00:00Z'))).toBe(Date.UTC(2024, 5, 1, 10));
+    const span = item('s', '');
+    span.properties = { datetime: null, start_datetime: '2024-06-02T00:00:00Z' };
+    expect(stacItemTime(span)).toBe(Date.UTC(2024, 5, 2));
+  });
+});
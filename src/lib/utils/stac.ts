@@ -0,0 +1,134 @@
+/**
+ * A STAC Item, reduced to the fields the time slider reads.
+ */
+export interface StacItem {
+  id: string;
+  /** `[west, south, east, north]` footprint (2D; a 3D bbox is trimmed). */
+  bbox?: number[];
+  properties: {
+    /** Acquisition instant; null for items that only carry a start/end. */
+    datetime: string | null;
+    start_datetime?: string;
+    [key: string]: unknown;
+  };
+  assets: Record<string, { href: string; type?: string; [key: string]: unknown }>;
+}
+
+/**
+ * Body of a STAC API `POST /search` request.
+ */
+export interface StacSearchBody {
+  collections?: string[];
+  bbox?: [number, number, number, number];
+  /** RFC 3339 instant or interval (`start/end`, with `..` for an open end). */
+  datetime?: string;
+  limit?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for {@link searchStac}.
+ */
+export interface StacSearchOptions {
+  /**
+   * Stop paging once this many items have been collected.
+   * @default 1000
+   */
+  maxItems?: number;
+
+  /**
+   * Extra fetch options (headers, credentials, abort signal). The method and
+   * body are set per request.
+   */
+  init?: RequestInit;
+}
+
+/** A `links` entry of a STAC API response. */
+interface StacLink {
+  rel: string;
+  href: string;
+  method?: string;
+  body?: Record<string, unknown>;
+  merge?: boolean;
+}
+
+/**
+ * The timestamp of an item: its `datetime`, or `start_datetime` for an item
+ * that covers a span.
+ *
+ * @param item - A STAC item
+ * @returns Epoch milliseconds, or NaN when the item has neither
+ */
+export function stacItemTime(item: StacItem): number {
+  const { datetime, start_datetime } = item.properties;
+  return new Date(datetime ?? start_datetime ?? NaN).getTime();
+}
+
+/**
+ * Runs a STAC API item search, following `next` links until the results run
+ * out or `maxItems` is reached. A `next` link may be a plain GET URL or, as STAC
+ * APIs answering POST searches usually return, a POST with its own body
+ * (merged over the previous body when `merge` is set).
+ *
+ * @param apiUrl - Root of the STAC API (the search is sent to `<apiUrl>/search`)
+ * @param body - The search parameters
+ * @param options - Paging limit and fetch options
+ * @returns The matching items, in the order the API returned them
+ * @throws If a page request fails
+ *
+ * @example
+ * ```typescript
+ * const items = await searchStac('https://earth-search.aws.element84.com/v1', {
+ *   collections: ['sentinel-2-l2a'],
+ *   bbox: [-122.6, 37.6, -122.3, 37.9],
+ *   datetime: '2024-06-01T00:00:00Z/2024-06-30T23:59:59Z',
+ * });
+ * ```
+ */
+export async function searchStac(
+  apiUrl: string,
+  body: StacSearchBody,
+  options: StacSearchOptions = {}
+): Promise<StacItem[]> {
+  const { maxItems = 1000, init } = options;
+  const items: StacItem[] = [];
+  let request: { url: string; method: string; body?: Record<string, unknown> } | undefined = {
+    url: `${apiUrl.replace(/\/$/, '')}/search`,
+    method: 'POST',
+    body: { limit: Math.min(maxItems, 100), ...body },
+  };
+
+  while (request && items.length < maxItems) {
+    const response = await fetch(request.url, {
+      ...init,
+      method: request.method,
+      headers: {
+        ...(request.body ? { 'Content-Type': 'application/json' } : {}),
+        Accept: 'application/geo+json',
+        ...(init?.headers as Record<string, string> | undefined),
+      },
+      body: request.body ? JSON.stringify(request.body) : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(`STAC search failed: ${request.url} responded ${response.status}`);
+    }
+    const page = (await response.json()) as { features?: StacItem[]; links?: StacLink[] };
+    const features = page.features ?? [];
+    items.push(...features.slice(0, maxItems - items.length));
+
+    const next = features.length > 0 ? page.links?.find((link) => link.rel === 'next') : undefined;
+    if (!next) break;
+    const method = (next.method ?? 'GET').toUpperCase();
+    request = {
+      url: next.href,
+      method,
+      body:
+        method === 'POST'
+          ? next.merge
+            ? { ...request.body, ...next.body }
+            : (next.body ?? request.body)
+          : undefined,
+    };
+  }
+  return items;
+}
@@ -223,3 +223,39 @@ export async function getTiTilerStatistics(
 
   return response.json();
 }
+
+/**
+ * Fetches the pixel values of a COG file at a point from TiTiler.
+ *
+ * @param url - URL to the COG file
+ * @param lngLat - The point as `[lng, lat]`
+ * @param endpoint - TiTiler endpoint URL
+ * @param bidx - Band indexes to read (1-based); every band when omitted
+ * @returns Promise resolving to the value of each band (null where the COG
+ *   has no data), with the bands' names
+ *
+ * @example
+ * ```typescript
+ * const { values, band_names } = await getTiTilerPoint('https://example.com/my-cog.tif', [
+ *   -105.1, 39.7,
+ * ]);
+ * ```
+ */
+export async function getTiTilerPoint(
+  url: string,
+  lngLat: [number, number],
+  endpoint = DEFAULT_TITILER_ENDPOINT,
+  bidx?: number[]
+): Promise<{ values: Array<number | null>; band_names: string[] }> {
+  const baseUrl = endpoint.replace(/\/$/, '');
+  const params = new URLSearchParams({ url });
+  bidx?.forEach((b) => params.append('bidx', b.toString()));
+  const pointUrl = `${baseUrl}/cog/point/${lngLat[0]},${lngLat[1]}?${params.toString()}`;
+
+  const response = await fetch(pointUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch point: ${response.statusText}`);
+  }
+
+  return response.json();
+}
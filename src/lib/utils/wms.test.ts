@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { discoverWms, parseWmsCapabilities, wmsCapabilitiesUrl } from './wms';
+
+/** A WMS 1.3.0 document: namespaced, values inside `Dimension`, inherited by children. */
+const WMS_130 = `<?xml version="1.0"?>
+<WMS_Capabilities version="1.3.0" xmlns="http://www.opengis.net/wms">
+  <Service><Name>WMS</Name><Title>Imagery</Title></Service>
+  <Capability>
+    <Layer>
+      <Title>Root</Title>
+      <Layer>
+        <Name>coastlines</Name>
+        <Title>Coastlines</Title>
+      </Layer>
+      <Layer>
+        <Name>true_color</Name>
+        <Title>True color</Title>
+        <Dimension name="time" units="ISO8601" default="2024-01-03">2024-01-01/2024-01-03/P1D</Dimension>
+      </Layer>
+      <Layer>
+        <Title>Sea surface temperature</Title>
+        <Dimension name="time" units="ISO8601">2024-01-01T00:00:00Z/2024-01-01T12:00:00Z/PT6H</Dimension>
+        <Layer><Name>sst</Name></Layer>
+      </Layer>
+    </Layer>
+  </Capability>
+</WMS_Capabilities>`;
+
+/** A WMS 1.1.1 document: the values live in an `Extent` next to the `Dimension`. */
+const WMS_111 = `<?xml version="1.0"?>
+<WMT_MS_Capabilities version="1.1.1">
+  <Service><Name>OGC:WMS</Name><Title>Legacy</Title></Service>
+  <Capability>
+    <Layer>
+      <Name>precip</Name>
+      <Dimension name="time" units="ISO8601"/>
+      <Extent name="time" default="2024-02-01">2024-01-01,2024-02-01</Extent>
+    </Layer>
+  </Capability>
+</WMT_MS_Capabilities>`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('wmsCapabilitiesUrl', () => {
+  it('drops GetMap parameters and keeps vendor ones', () => {
+    expect(
+      wmsCapabilitiesUrl(
+        'https://example.com/wms?map=/data/a.map&SERVICE=WMS&REQUEST=GetMap&LAYERS=x&BBOX={bbox-epsg-3857}&TIME=2024'
+      )
+    ).toBe('https://example.com/wms?map=/data/a.map&service=WMS&request=GetCapabilities');
+    expect(wmsCapabilitiesUrl('https://example.com/wms')).toBe(
+      'https://example.com/wms?service=WMS&request=GetCapabilities'
+    );
+  });
+});
+
+describe('parseWmsCapabilities', () => {
+  it('reads WMS 1.3.0 layers with time-enabled ones first', () => {
+    const caps = parseWmsCapabilities(WMS_130);
+    expect(caps.version).toBe('1.3.0');
+    expect(caps.title).toBe('Imagery');
+    expect(caps.layers.map((l) => l.name)).toEqual(['true_color', 'sst', 'coastlines']);
+
+    const [trueColor, sst, coastlines] = caps.layers;
+    expect(trueColor).toMatchObject({
+      title: 'True color',
+      timeExtent: '2024-01-01/2024-01-03/P1D',
+      defaultTime: '2024-01-03',
+      hasTimeOfDay: false,
+    });
+    expect(trueColor.dates).toHaveLength(3);
+    // The time dimension is inherited from the parent layer.
+    expect(sst.hasTimeOfDay).toBe(true);
+    expect(sst.dates.map((d) => d.toISOString())).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T06:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+    ]);
+    expect(coastlines.timeExtent).toBeUndefined();
+    expect(coastlines.dates).toEqual([]);
+  });
+
+  it('reads the WMS 1.1.1 Extent element', () => {
+    const [precip] = parseWmsCapabilities(WMS_111).layers;
+    expect(precip).toMatchObject({
+      name: 'precip',
+      timeExtent: '2024-01-01,2024-02-01',
+      defaultTime: '2024-02-01',
+    });
+    expect(precip.dates).toHaveLength(2);
+  });
+
+  it('rejects documents that are not capabilities', () => {
+    expect(() => parseWmsCapabilities('<ServiceExceptionReport/>')).toThrow(/GetCapabilities/);
+  });
+});
+
+describe('discoverWms', () => {
+  it('fetches the capabilities URL and parses the response', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, text: async () => WMS_111 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const caps = await discoverWms('https://example.com/wms?LAYERS=precip');
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/wms?service=WMS&request=GetCapabilities',
+      undefined
+    );
+    expect(caps.layers[0].name).toBe('precip');
+  });
+
+  it('throws when the server responds with an error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: false, status: 500, text: async () => '' }))
+    );
+    await expect(discoverWms('https://example.com/wms')).rejects.toThrow(/responded 500/);
+  });
+});
@@ -0,0 +1,167 @@
+import { expandTimeExtent } from '../time/isoTime';
+import { childElements, childText } from './xml';
+
+/**
+ * A named layer listed in a WMS GetCapabilities document.
+ */
+export interface WmsLayerInfo {
+  /** The layer name, as passed in `layers=`. */
+  name: string;
+  /** Human-readable title. */
+  title?: string;
+  /**
+   * The time extent as advertised (e.g. `2000-02-24/2024-05-01/P1D`), when the
+   * layer has a time dimension.
+   */
+  timeExtent?: string;
+  /** The time the server draws when a request has no `TIME`. */
+  defaultTime?: string;
+  /**
+   * The advertised times, expanded (see {@link expandTimeExtent}). Expanded on
+   * first read: a large service lists hundreds of layers, each with thousands
+   * of daily times.
+   */
+  readonly dates: Date[];
+  /** Whether the advertised times carry a time of day, not just a date. */
+  hasTimeOfDay: boolean;
+}
+
+/**
+ * What {@link discoverWms} learned about a WMS service.
+ */
+export interface WmsCapabilities {
+  /** The WMS version the server answered with (`1.1.1` or `1.3.0`). */
+  version: string;
+  /** The service title. */
+  title?: string;
+  /** Every named layer, time-enabled ones first. */
+  layers: WmsLayerInfo[];
+}
+
+/**
+ * GetMap parameters a base URL may carry that have no place in a
+ * GetCapabilities request. Compared lowercase, since WMS keys are
+ * case-insensitive.
+ */
+const GETMAP_PARAMS = new Set([
+  'service',
+  'request',
+  'version',
+  'layers',
+  'styles',
+  'format',
+  'transparent',
+  'bbox',
+  'width',
+  'height',
+  'crs',
+  'srs',
+  'time',
+]);
+
+/**
+ * Builds the GetCapabilities URL for a WMS base URL, which may be a full
+ * GetMap URL: its map parameters are dropped and vendor ones (e.g. MapServer's
+ * `map=`) kept.
+ *
+ * @param baseUrl - The WMS endpoint or a GetMap URL
+ * @returns The GetCapabilities URL
+ */
+export function wmsCapabilitiesUrl(baseUrl: string): string {
+  const [path, query = ''] = baseUrl.split('?');
+  const kept = query
+    .split('&')
+    .filter((pair) => pair && !GETMAP_PARAMS.has(pair.split('=')[0].toLowerCase()));
+  return `${path}?${[...kept, 'service=WMS', 'request=GetCapabilities'].join('&')}`;
+}
+
+/**
+ * The time dimension of a layer, looking up through its parents: WMS layers
+ * inherit dimensions. WMS 1.3.0 puts the values in the `Dimension` element;
+ * 1.1.1 declares the `Dimension` and lists the values in a sibling `Extent`.
+ *
+ * @param layer - A `Layer` element
+ * @returns The extent and default, or undefined without a time dimension
+ */
+function timeDimension(layer: Element): { extent: string; default?: string } | undefined {
+  for (let el: Element | null = layer; el?.localName === 'Layer'; el = el.parentElement) {
+    for (const tag of ['Dimension', 'Extent']) {
+      const match = childElements(el, tag).find(
+        (d) => d.getAttribute('name')?.toLowerCase() === 'time' && d.textContent?.trim()
+      );
+      if (match) {
+        return {
+          extent: match.textContent!.trim(),
+          default: match.getAttribute('default') ?? undefined,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a WMS 1.1.1 or 1.3.0 GetCapabilities document.
+ *
+ * @param xml - The document text
+ * @returns The service's layers and their time dimensions
+ * @throws If the text is not a capabilities document
+ */
+export function parseWmsCapabilities(xml: string): WmsCapabilities {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || !/^(WMS_Capabilities|WMT_MS_Capabilities)$/.test(root.localName)) {
+    throw new Error('Not a WMS GetCapabilities document.');
+  }
+  const service = childElements(root, 'Service')[0];
+  const layers: WmsLayerInfo[] = [];
+  for (const layer of Array.from(root.getElementsByTagNameNS('*', 'Layer'))) {
+    const name = childText(layer, 'Name');
+    if (!name) continue;
+    const time = timeDimension(layer);
+    let dates: Date[] | undefined;
+    layers.push({
+      name,
+      title: childText(layer, 'Title'),
+      timeExtent: time?.extent,
+      defaultTime: time?.default,
+      get dates() {
+        return (dates ??= time ? expandTimeExtent(time.extent) : []);
+      },
+      hasTimeOfDay: time ? /\dT\d/.test(time.extent) : false,
+    });
+  }
+  // Stable sort: time-enabled layers first, otherwise in document order.
+  layers.sort((a, b) => Number(!a.timeExtent) - Number(!b.timeExtent));
+  return {
+    version: root.getAttribute('version') ?? '',
+    title: service ? childText(service, 'Title') : undefined,
+    layers,
+  };
+}
+
+/**
+ * Fetches and parses a WMS service's GetCapabilities document, listing its
+ * layers with their time dimensions expanded into dates ready for
+ * `setDates`.
+ *
+ * @param baseUrl - The WMS endpoint, or a GetMap URL for it
+ * @param init - Optional fetch options (headers, abort signal, credentials)
+ * @returns The service's layers and their time dimensions
+ * @throws If the request fails or the response is not a capabilities document
+ *
+ * @example
+ * ```typescript
+ * const { layers } = await discoverWms('https://gibs.earthdata.nasa.gov/wms/epsg3857/best/wms.cgi');
+ * const layer = layers.find((l) => l.name === 'MODIS_Terra_CorrectedReflectance_TrueColor')!;
+ * timeSlider.setDates(layer.dates);
+ * ```
+ */
+export async function discoverWms(baseUrl: string, init?: RequestInit): Promise<WmsCapabilities> {
+  const url = wmsCapabilitiesUrl(baseUrl);
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`WMS GetCapabilities failed: ${url} responded ${response.status}`);
+  }
+  return parseWmsCapabilities(await response.text());
+}
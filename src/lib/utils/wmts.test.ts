@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { discoverWmts, parseWmtsCapabilities, wmtsCapabilitiesUrl, wmtsTileTemplate } from './wmts';
+
+/** A GIBS-style RESTful document: a time-enabled layer and a static one. */
+const GIBS = `<?xml version="1.0"?>
+<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1" version="1.0.0">
+  <ows:ServiceIdentification><ows:Title>NASA GIBS</ows:Title></ows:ServiceIdentification>
+  <Contents>
+    <Layer>
+      <ows:Title>Coastlines</ows:Title>
+      <ows:Identifier>Coastlines</ows:Identifier>
+      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+      <Format>image/png</Format>
+      <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible_Level2</TileMatrixSet></TileMatrixSetLink>
+      <ResourceURL format="image/png" resourceType="tile" template="https://gibs/Coastlines/{Style}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.png"/>
+    </Layer>
+    <Layer>
+      <ows:Title>True Color</ows:Title>
+      <ows:WGS84BoundingBox><ows:LowerCorner>-180 -85</ows:LowerCorner><ows:UpperCorner>180 85</ows:UpperCorner></ows:WGS84BoundingBox>
+      <ows:Identifier>TrueColor</ows:Identifier>
+      <Style><ows:Identifier>alt</ows:Identifier></Style>
+      <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+      <Format>image/jpeg</Format>
+      <Dimension>
+        <ows:Identifier>Time</ows:Identifier>
+        <Default>2024-01-03</Default>
+        <Value>2024-01-01/2024-01-03/P1D</Value>
+        <Value>2024-02-01</Value>
+      </Dimension>
+      <TileMatrixSetLink><TileMatrixSet>GoogleMapsCompatible_Level2</TileMatrixSet></TileMatrixSetLink>
+      <ResourceURL format="image/jpeg" resourceType="tile" template="https://gibs/TrueColor/{Style}/{Time}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpg"/>
+    </Layer>
+    <TileMatrixSet>
+      <ows:Identifier>GoogleMapsCompatible_Level2</ows:Identifier>
+      <ows:SupportedCRS>urn:ogc:def:crs:EPSG:6.18.3:3857</ows:SupportedCRS>
+      <TileMatrix><ows:Identifier>0</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>1</MatrixWidth></TileMatrix>
+      <TileMatrix><ows:Identifier>1</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>2</MatrixWidth></TileMatrix>
+      <TileMatrix><ows:Identifier>2</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>4</MatrixWidth></TileMatrix>
+    </TileMatrixSet>
+  </Contents>
+</Capabilities>`;
+
+/** A KVP-only document with prefixed matrix ids and a second dimension. */
+const KVP = `<?xml version="1.0"?>
+<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.0.0">
+  <ows:OperationsMetadata>
+    <ows:Operation name="GetTile">
+      <ows:DCP><ows:HTTP><ows:Get xlink:href="https://example.com/wmts?"/></ows:HTTP></ows:DCP>
+    </ows:Operation>
+  </ows:OperationsMetadata>
+  <Contents>
+    <Layer>
+      <ows:Identifier>temp</ows:Identifier>
+      <Format>image/png</Format>
+      <Dimension><ows:Identifier>elevation</ows:Identifier><Default>0</Default><Value>0</Value></Dimension>
+      <Dimension><ows:Identifier>time</ows:Identifier><Value>2024-01-01T00:00:00Z/2024-01-01T12:00:00Z/PT6H</Value></Dimension>
+      <TileMatrixSetLink><TileMatrixSet>EPSG:4326</TileMatrixSet></TileMatrixSetLink>
+      <TileMatrixSetLink><TileMatrixSet>EPSG:3857</TileMatrixSet></TileMatrixSetLink>
+    </Layer>
+    <TileMatrixSet>
+      <ows:Identifier>EPSG:4326</ows:Identifier>
+      <ows:SupportedCRS>EPSG:4326</ows:SupportedCRS>
+      <TileMatrix><ows:Identifier>EPSG:4326:0</ows:Identifier><TileWidth>256</TileWidth><MatrixWidth>2</MatrixWidth></TileMatrix>
+    </TileMatrixSet>
+    <TileMatrixSet>
+      <ows:Identifier>EPSG:3857</ows:Identifier>
+      <ows:SupportedCRS>EPSG:3857</ows:SupportedCRS>
+      <TileMatrix><ows:Identifier>EPSG:3857:1</ows:Identifier><TileWidth>512</TileWidth><MatrixWidth>2</MatrixWidth></TileMatrix>
+      <TileMatrix><ows:Identifier>EPSG:3857:2</ows:Identifier><TileWidth>512</TileWidth><MatrixWidth>4</MatrixWidth></TileMatrix>
+    </TileMatrixSet>
+  </Contents>
+</Capabilities>`;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('wmtsCapabilitiesUrl', () => {
+  it('keeps capabilities documents and adds a KVP request otherwise', () => {
+    const rest = 'https://gibs/wmts/epsg3857/best/1.0.0/WMTSCapabilities.xml';
+    expect(wmtsCapabilitiesUrl(rest)).toBe(rest);
+    expect(wmtsCapabilitiesUrl('https://e/wmts?request=GetCapabilities')).toBe(
+      'https://e/wmts?request=GetCapabilities'
+    );
+    expect(wmtsCapabilitiesUrl('https://e/wmts')).toBe(
+      'https://e/wmts?service=WMTS&request=GetCapabilities'
+    );
+  });
+});
+
+describe('parseWmtsCapabilities', () => {
+  it('reads layers, their time dimension and the tile matrix sets', () => {
+    const caps = parseWmtsCapabilities(GIBS);
+    expect(caps.title).toBe('NASA GIBS');
+    expect(caps.layers.map((l) => l.identifier)).toEqual(['TrueColor', 'Coastlines']);
+
+    const [trueColor, coastlines] = caps.layers;
+    expect(trueColor).toMatchObject({
+      title: 'True Color',
+      styles: ['default', 'alt'],
+      formats: ['image/jpeg'],
+      bounds: [-180, -85, 180, 85],
+      timeExtent: '2024-01-01/2024-01-03/P1D,2024-02-01',
+      hasTimeOfDay: false,
+    });
+    expect(trueColor.dates.map((d) => d.toISOString().slice(0, 10))).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-02-01',
+    ]);
+    expect(coastlines.dates).toEqual([]);
+    expect(caps.tileMatrixSets.GoogleMapsCompatible_Level2.matrices).toHaveLength(3);
+  });
+
+  it('rejects documents that are not capabilities', () => {
+    expect(() => parseWmtsCapabilities('<ExceptionReport/>')).toThrow(/GetCapabilities/);
+  });
+});
+
+describe('wmtsTileTemplate', () => {
+  it('fills a REST template, leaving the time dimension for the date', () => {
+    const caps = parseWmtsCapabilities(GIBS);
+    expect(wmtsTileTemplate(caps, caps.layers[0])).toEqual({
+      template: 'https://gibs/TrueColor/default/{Time}/GoogleMapsCompatible_Level2/{z}/{y}/{x}.jpg',
+      timeDimension: 'Time',
+      tileSize: 256,
+      minzoom: 0,
+      maxzoom: 2,
+    });
+  });
+
+  it('builds a KVP GetTile URL on the Web Mercator set', () => {
+    const caps = parseWmtsCapabilities(KVP);
+    const tiles = wmtsTileTemplate(caps, caps.layers[0]);
+    expect(tiles.template).toBe(
+      'https://example.com/wmts?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&LAYER=temp' +
+        '&STYLE=default&TILEMATRIXSET=EPSG%3A3857&TILEMATRIX=EPSG%3A3857%3A{z}' +
+        '&TILEROW={y}&TILECOL={x}&FORMAT=image%2Fpng&elevation=0&time={time}'
+    );
+    expect(tiles).toMatchObject({ tileSize: 512, minzoom: 1, maxzoom: 2 });
+  });
+
+  it('rejects tile matrix sets MapLibre cannot draw', () => {
+    const caps = parseWmtsCapabilities(KVP);
+    expect(() => wmtsTileTemplate(caps, caps.layers[0], { tileMatrixSet: 'EPSG:4326' })).toThrow(
+      /Web Mercator zoom levels/
+    );
+    expect(() => wmtsTileTemplate(caps, caps.layers[0], { tileMatrixSet: 'other' })).toThrow(
+      /not served in other/
+    );
+  });
+});
+
+describe('discoverWmts', () => {
+  it('fetches and parses the capabilities', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, text: async () => GIBS }));
+    vi.stubGlobal('fetch', fetchMock);
+    const caps = await discoverWmts('https://gibs/1.0.0/WMTSCapabilities.xml');
+    expect(fetchMock).toHaveBeenCalledWith('https://gibs/1.0.0/WMTSCapabilities.xml', undefined);
+    expect(caps.layers).toHaveLength(2);
+  });
+
+  it('throws when the server responds with an error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: false, status: 404, text: async () => '' }))
+    );
+    await expect(discoverWmts('https://e/wmts')).rejects.toThrow(/responded 404/);
+  });
+});
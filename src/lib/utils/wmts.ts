@@ -0,0 +1,405 @@
+import { expandTimeExtent } from '../time/isoTime';
+import { childElements, childText } from './xml';
+
+/**
+ * A dimension of a WMTS layer (time, elevation, …), with the values it takes.
+ */
+export interface WmtsDimension {
+  /** The dimension's identifier, e.g. `Time`. */
+  identifier: string;
+  /** The value used when a request leaves the dimension unset. */
+  default?: string;
+  /** The advertised values: instants or `start/end/period` intervals. */
+  values: string[];
+}
+
+/**
+ * A REST URL template of a WMTS layer.
+ */
+export interface WmtsResourceUrl {
+  /** Media type of the resource, e.g. `image/png`. */
+  format: string;
+  /** `tile` for tile templates (`FeatureInfo` ones are ignored). */
+  resourceType: string;
+  /** The template, with `{TileMatrix}`, `{TileRow}`, `{Time}`… placeholders. */
+  template: string;
+}
+
+/**
+ * One level of a tile matrix set.
+ */
+export interface WmtsTileMatrix {
+  identifier: string;
+  /** Columns of tiles at this level. */
+  matrixWidth: number;
+  /** Tile width in pixels. */
+  tileWidth: number;
+}
+
+/**
+ * A tile matrix set: the pyramid of tile grids a layer is served in.
+ */
+export interface WmtsTileMatrixSet {
+  identifier: string;
+  /** The CRS the set is defined in, e.g. `urn:ogc:def:crs:EPSG::3857`. */
+  crs?: string;
+  /** The levels, coarsest first. */
+  matrices: WmtsTileMatrix[];
+}
+
+/**
+ * A layer listed in a WMTS GetCapabilities document.
+ */
+export interface WmtsLayerInfo {
+  /** The layer identifier, as used in tile requests. */
+  identifier: string;
+  /** Human-readable title. */
+  title?: string;
+  /** Tile formats offered. */
+  formats: string[];
+  /** Style identifiers, the default first. */
+  styles: string[];
+  /** Identifiers of the tile matrix sets the layer is served in. */
+  tileMatrixSets: string[];
+  /** REST tile templates, when the server offers RESTful access. */
+  resourceUrls: WmtsResourceUrl[];
+  /** The layer's extent as `[west, south, east, north]`, when advertised. */
+  bounds?: [number, number, number, number];
+  /** The layer's dimensions. */
+  dimensions: WmtsDimension[];
+  /**
+   * The time dimension's values joined as one extent (e.g.
+   * `2000-02-24/2024-05-01/P1D`), when the layer has one.
+   */
+  timeExtent?: string;
+  /**
+   * The advertised times, expanded (see {@link expandTimeExtent}). Expanded on
+   * first read: a service like NASA GIBS lists around a thousand layers, most
+   * with thousands of daily times.
+   */
+  readonly dates: Date[];
+  /** Whether the advertised times carry a time of day, not just a date. */
+  hasTimeOfDay: boolean;
+}
+
+/**
+ * What {@link discoverWmts} learned about a WMTS service.
+ */
+export interface WmtsCapabilities {
+  /** The service title. */
+  title?: string;
+  /** Every layer, time-enabled ones first. */
+  layers: WmtsLayerInfo[];
+  /** The tile matrix sets, by identifier. */
+  tileMatrixSets: Record<string, WmtsTileMatrixSet>;
+  /** The KVP GetTile endpoint, for servers without REST templates. */
+  getTileUrl?: string;
+}
+
+/**
+ * Which tile request {@link wmtsTileTemplate} should build.
+ */
+export interface WmtsTileOptions {
+  /** Tile matrix set identifier. Defaults to the layer's first Web Mercator set. */
+  tileMatrixSet?: string;
+  /** Style identifier. Defaults to the layer's default style. */
+  style?: string;
+  /** Tile format. Defaults to the layer's first. */
+  format?: string;
+  /** Values for dimensions other than time. Defaults to each one's default. */
+  dimensions?: Record<string, string>;
+}
+
+/**
+ * A layer's tiles as a MapLibre raster source template.
+ */
+export interface WmtsTileTemplate {
+  /**
+   * Tile URL with `{z}/{x}/{y}` placeholders. A time-enabled layer's template
+   * keeps a `{<time dimension>}` placeholder (e.g. `{Time}`) for the date.
+   */
+  template: string;
+  /** The time dimension's identifier, when the layer has one. */
+  timeDimension?: string;
+  tileSize: number;
+  minzoom: number;
+  maxzoom: number;
+}
+
+/**
+ * Builds the GetCapabilities URL for a WMTS endpoint. A URL that already names
+ * a capabilities document (the RESTful `WMTSCapabilities.xml`, or a KVP
+ * `request=GetCapabilities`) is used as is.
+ *
+ * @param url - The capabilities document or the KVP endpoint
+ * @returns The GetCapabilities URL
+ */
+export function wmtsCapabilitiesUrl(url: string): string {
+  if (/\.xml($|\?)|[?&]request=getcapabilities/i.test(url)) return url;
+  const sep = url.includes('?') ? '&' : '?';
+  return `${url}${sep}service=WMTS&request=GetCapabilities`;
+}
+
+/**
+ * Reads a layer's `ows:WGS84BoundingBox`.
+ */
+function layerBounds(layer: Element): [number, number, number, number] | undefined {
+  const box = childElements(layer, 'WGS84BoundingBox')[0];
+  if (!box) return undefined;
+  const [west, south] = (childText(box, 'LowerCorner') ?? '').split(/\s+/).map(Number);
+  const [east, north] = (childText(box, 'UpperCorner') ?? '').split(/\s+/).map(Number);
+  const bounds: [number, number, number, number] = [west, south, east, north];
+  return bounds.every(Number.isFinite) ? bounds : undefined;
+}
+
+/**
+ * Reads a `Layer` element.
+ */
+function parseLayer(layer: Element): WmtsLayerInfo | undefined {
+  const identifier = childText(layer, 'Identifier');
+  if (!identifier) return undefined;
+  const styles = childElements(layer, 'Style');
+  const defaultStyle = styles.find((style) => style.getAttribute('isDefault') === 'true');
+  const dimensions = childElements(layer, 'Dimension').map((dimension) => ({
+    identifier: childText(dimension, 'Identifier') ?? '',
+    default: childText(dimension, 'Default'),
+    values: childElements(dimension, 'Value')
+      .map((value) => value.textContent?.trim() ?? '')
+      .filter(Boolean),
+  }));
+  const time = dimensions.find((d) => d.identifier.toLowerCase() === 'time');
+  const timeExtent = time && time.values.length > 0 ? time.values.join(',') : undefined;
+  let dates: Date[] | undefined;
+  return {
+    identifier,
+    title: childText(layer, 'Title'),
+    formats: childElements(layer, 'Format').map((format) => format.textContent?.trim() ?? ''),
+    styles: [
+      ...(defaultStyle ? [defaultStyle] : []),
+      ...styles.filter((style) => style !== defaultStyle),
+    ]
+      .map((style) => childText(style, 'Identifier'))
+      .filter((style): style is string => !!style),
+    tileMatrixSets: childElements(layer, 'TileMatrixSetLink')
+      .map((link) => childText(link, 'TileMatrixSet'))
+      .filter((set): set is string => !!set),
+    resourceUrls: childElements(layer, 'ResourceURL').map((resource) => ({
+      format: resource.getAttribute('format') ?? '',
+      resourceType: resource.getAttribute('resourceType') ?? '',
+      template: resource.getAttribute('template') ?? '',
+    })),
+    bounds: layerBounds(layer),
+    dimensions,
+    timeExtent,
+    get dates() {
+      return (dates ??= timeExtent ? expandTimeExtent(timeExtent) : []);
+    },
+    hasTimeOfDay: timeExtent ? /\dT\d/.test(timeExtent) : false,
+  };
+}
+
+/**
+ * Reads a `TileMatrixSet` element.
+ */
+function parseTileMatrixSet(set: Element): WmtsTileMatrixSet {
+  return {
+    identifier: childText(set, 'Identifier') ?? '',
+    crs: childText(set, 'SupportedCRS'),
+    matrices: childElements(set, 'TileMatrix').map((matrix) => ({
+      identifier: childText(matrix, 'Identifier') ?? '',
+      matrixWidth: Number(childText(matrix, 'MatrixWidth')),
+      tileWidth: Number(childText(matrix, 'TileWidth')),
+    })),
+  };
+}
+
+/**
+ * Parses a WMTS 1.0.0 GetCapabilities document.
+ *
+ * @param xml - The document text
+ * @returns The service's layers, tile matrix sets and GetTile endpoint
+ * @throws If the text is not a capabilities document
+ */
+export function parseWmtsCapabilities(xml: string): WmtsCapabilities {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'Capabilities') {
+    throw new Error('Not a WMTS GetCapabilities document.');
+  }
+  const contents = childElements(root, 'Contents')[0];
+  const layers = contents
+    ? childElements(contents, 'Layer')
+        .map(parseLayer)
+        .filter((layer): layer is WmtsLayerInfo => !!layer)
+    : [];
+  // Stable sort: time-enabled layers first, otherwise in document order.
+  layers.sort((a, b) => Number(!a.timeExtent) - Number(!b.timeExtent));
+  const tileMatrixSets: Record<string, WmtsTileMatrixSet> = {};
+  for (const element of contents ? childElements(contents, 'TileMatrixSet') : []) {
+    const set = parseTileMatrixSet(element);
+    tileMatrixSets[set.identifier] = set;
+  }
+  const serviceInfo = childElements(root, 'ServiceIdentification')[0];
+  const getTile = Array.from(root.getElementsByTagNameNS('*', 'Operation')).find(
+    (operation) => operation.getAttribute('name') === 'GetTile'
+  );
+  const getTileHref = getTile
+    ?.getElementsByTagNameNS('*', 'Get')[0]
+    ?.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+  return {
+    title: serviceInfo ? childText(serviceInfo, 'Title') : undefined,
+    layers,
+    tileMatrixSets,
+    getTileUrl: getTileHref || undefined,
+  };
+}
+
+/**
+ * Whether a tile matrix set is Web Mercator, the only projection MapLibre's
+ * raster sources tile in.
+ */
+function isWebMercator(set: WmtsTileMatrixSet): boolean {
+  return /\b(3857|900913|3785)\b/.test(set.crs ?? '') || /GoogleMaps/i.test(set.identifier);
+}
+
+/**
+ * Replaces a `{name}` placeholder, ignoring case as WMTS templates do.
+ */
+function fill(template: string, name: string, value: string): string {
+  return template.replace(new RegExp(`\\{${name}\\}`, 'gi'), () => value);
+}
+
+/**
+ * Builds the MapLibre tile template for a layer from its capabilities: picks
+ * the tile matrix set, style and format, maps the set's levels onto `{z}` and
+ * fills every dimension except time. REST templates are preferred; servers
+ * without them get a KVP GetTile URL.
+ *
+ * @param capabilities - The parsed capabilities
+ * @param layer - The layer to draw
+ * @param options - The tile matrix set, style, format and dimension values
+ * @returns The tile template and the zoom range it covers
+ * @throws If the layer has no usable Web Mercator tile matrix set or tile URL
+ */
+export function wmtsTileTemplate(
+  capabilities: WmtsCapabilities,
+  layer: WmtsLayerInfo,
+  options: WmtsTileOptions = {}
+): WmtsTileTemplate {
+  const setId =
+    options.tileMatrixSet ??
+    layer.tileMatrixSets.find((id) => {
+      const set = capabilities.tileMatrixSets[id];
+      return set && isWebMercator(set);
+    });
+  const set = setId ? capabilities.tileMatrixSets[setId] : undefined;
+  if (!set || !layer.tileMatrixSets.includes(set.identifier)) {
+    throw new Error(
+      options.tileMatrixSet
+        ? `WMTS layer ${layer.identifier} is not served in ${options.tileMatrixSet}.`
+        : `WMTS layer ${layer.identifier} has no Web Mercator tile matrix set.`
+    );
+  }
+
+  // A Web Mercator level with 2^z columns is zoom z. Identifiers are the zoom
+  // itself (GIBS) or the zoom behind a shared prefix (`EPSG:3857:5`).
+  const levels = set.matrices.map((matrix) => ({
+    zoom: Math.log2(matrix.matrixWidth),
+    prefix: matrix.identifier.replace(/\d+$/, ''),
+    matrix,
+  }));
+  const prefix = levels[0]?.prefix ?? '';
+  const usable = levels.every(
+    (level) =>
+      Number.isInteger(level.zoom) &&
+      level.prefix === prefix &&
+      level.matrix.identifier === `${prefix}${level.zoom}`
+  );
+  if (levels.length === 0 || !usable) {
+    throw new Error(`Tile matrix set ${set.identifier} does not follow Web Mercator zoom levels.`);
+  }
+
+  const style = options.style ?? layer.styles[0] ?? 'default';
+  const format = options.format ?? layer.formats[0];
+  const time = layer.dimensions.find((d) => d.identifier.toLowerCase() === 'time');
+  const others = layer.dimensions.filter((d) => d !== time);
+  const rest = layer.resourceUrls.find(
+    (resource) => resource.resourceType === 'tile' && (!format || resource.format === format)
+  );
+
+  let template: string;
+  if (rest) {
+    template = rest.template;
+    for (const [name, value] of [
+      ['TileMatrixSet', set.identifier],
+      ['TileMatrix', `${prefix}{z}`],
+      ['TileRow', '{y}'],
+      ['TileCol', '{x}'],
+      ['Style', style],
+    ]) {
+      template = fill(template, name, value);
+    }
+    for (const dimension of others) {
+      const value = options.dimensions?.[dimension.identifier] ?? dimension.default ?? '';
+      template = fill(template, dimension.identifier, encodeURIComponent(value));
+    }
+  } else if (capabilities.getTileUrl) {
+    const base = capabilities.getTileUrl.replace(/[?&]$/, '');
+    const params = [
+      'SERVICE=WMTS',
+      'REQUEST=GetTile',
+      'VERSION=1.0.0',
+      `LAYER=${encodeURIComponent(layer.identifier)}`,
+      `STYLE=${encodeURIComponent(style)}`,
+      `TILEMATRIXSET=${encodeURIComponent(set.identifier)}`,
+      `TILEMATRIX=${encodeURIComponent(prefix)}{z}`,
+      'TILEROW={y}',
+      'TILECOL={x}',
+      ...(format ? [`FORMAT=${encodeURIComponent(format)}`] : []),
+      ...others.map(
+        (d) =>
+          `${d.identifier}=${encodeURIComponent(options.dimensions?.[d.identifier] ?? d.default ?? '')}`
+      ),
+      ...(time ? [`${time.identifier}={${time.identifier}}`] : []),
+    ];
+    template = `${base}${base.includes('?') ? '&' : '?'}${params.join('&')}`;
+  } else {
+    throw new Error(`WMTS layer ${layer.identifier} has no tile URL.`);
+  }
+
+  return {
+    template,
+    timeDimension: time?.identifier,
+    tileSize: levels[0].matrix.tileWidth || 256,
+    minzoom: Math.min(...levels.map((level) => level.zoom)),
+    maxzoom: Math.max(...levels.map((level) => level.zoom)),
+  };
+}
+
+/**
+ * Fetches and parses a WMTS service's GetCapabilities document, listing its
+ * layers with their time dimensions expanded into dates ready for `setDates`.
+ *
+ * @param url - The capabilities document (e.g. GIBS's `1.0.0/WMTSCapabilities.xml`)
+ *   or the KVP endpoint
+ * @param init - Optional fetch options (headers, abort signal, credentials)
+ * @returns The service's layers and tile matrix sets
+ * @throws If the request fails or the response is not a capabilities document
+ *
+ * @example
+ * ```typescript
+ * const { layers } = await discoverWmts(
+ *   'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/1.0.0/WMTSCapabilities.xml'
+ * );
+ * const layer = layers.find((l) => l.identifier === 'MODIS_Terra_CorrectedReflectance_TrueColor')!;
+ * timeSlider.setDates(layer.dates);
+ * ```
+ */
+export async function discoverWmts(url: string, init?: RequestInit): Promise<WmtsCapabilities> {
+  const capabilitiesUrl = wmtsCapabilitiesUrl(url);
+  const response = await fetch(capabilitiesUrl, init);
+  if (!response.ok) {
+    throw new Error(`WMTS GetCapabilities failed: ${capabilitiesUrl} responded ${response.status}`);
+  }
+  return parseWmtsCapabilities(await response.text());
+}
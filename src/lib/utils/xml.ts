@@ -0,0 +1,22 @@
+/**
+ * The direct children of an element with a local name, ignoring namespaces
+ * (OGC capabilities mix unprefixed, `ows:` and default-namespaced elements).
+ *
+ * @param element - The parent element
+ * @param name - The local name to match
+ * @returns The matching children, in document order
+ */
+export function childElements(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter((child) => child.localName === name);
+}
+
+/**
+ * Trimmed text of an element's first direct child with a local name.
+ *
+ * @param element - The parent element
+ * @param name - The local name to match
+ * @returns The text, or undefined when the child is missing or empty
+ */
+export function childText(element: Element, name: string): string | undefined {
+  return childElements(element, name)[0]?.textContent?.trim() || undefined;
+}
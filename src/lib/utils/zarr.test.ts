@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createZarrStore, stubZarrFetch } from '../../../tests/zarrStore';
+import { openZarrArray, readZarrRegion } from './zarr';
+
+const STORE = 'https://e/cube.zarr';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A (time: 2, y: 3, x: 4) cube whose value encodes its own index: t*100 + y*10 + x.
+const cube = Array.from({ length: 24 }, (_, i) => {
+  const t = Math.floor(i / 12);
+  const y = Math.floor((i % 12) / 4);
+  return t * 100 + y * 10 + (i % 4);
+});
+
+describe('openZarrArray', () => {
+  it('reads the metadata and the dimension names', async () => {
+    stubZarrFetch(
+      STORE,
+      createZarrStore({
+        sst: { shape: [2, 3, 4], values: cube, attrs: { _ARRAY_DIMENSIONS: ['time', 'y', 'x'] } },
+      })
+    );
+    const array = await openZarrArray(`${STORE}/`, 'sst');
+    expect(array.store).toBe(STORE);
+    expect(array.meta.shape).toEqual([2, 3, 4]);
+    expect(array.dimensions).toEqual(['time', 'y', 'x']);
+  });
+
+  it('names unnamed dimensions and rejects what it cannot decode', async () => {
+    const files = createZarrStore({ a: { shape: [2], values: [1, 2] } });
+    files.delete('a/.zattrs');
+    files.set(
+      'b/.zarray',
+      new TextEncoder().encode(
+        JSON.stringify({
+          zarr_format: 2,
+          shape: [2],
+          chunks: [2],
+          dtype: '<U4',
+          compressor: null,
+          fill_value: null,
+          order: 'C',
+          filters: null,
+        })
+      )
+    );
+    stubZarrFetch(STORE, files);
+    expect((await openZarrArray(STORE, 'a')).dimensions).toEqual(['dim_0']);
+    await expect(openZarrArray(STORE, 'b')).rejects.toThrow(/dtype/);
+    await expect(openZarrArray(STORE, 'missing')).rejects.toThrow(/not found/);
+  });
+});
+
+describe('readZarrRegion', () => {
+  it('reads a slice across chunks and chunk edges', async () => {
+    const fetchMock = stubZarrFetch(
+      STORE,
+      createZarrStore({ sst: { shape: [2, 3, 4], chunks: [1, 2, 3], values: cube } })
+    );
+    const array = await openZarrArray(STORE, 'sst');
+    const { data, shape } = await readZarrRegion(array, [1, null, null]);
+    expect(shape).toEqual([3, 4]);
+    expect(Array.from(data)).toEqual(cube.slice(12));
+    // Only the second time step's four chunks are fetched.
+    const chunkUrls = fetchMock.mock.calls.map(([url]) => url).filter((url) => /\d$/.test(url));
+    expect(chunkUrls.sort()).toEqual(
+      ['1.0.0', '1.0.1', '1.1.0', '1.1.1'].map((key) => `${STORE}/sst/${key}`)
+    );
+  });
+
+  it('reads a column with the other dimensions fixed', async () => {
+    stubZarrFetch(
+      STORE,
+      createZarrStore({ sst: { shape: [2, 3, 4], chunks: [2, 2, 2], values: cube } })
+    );
+    const array = await openZarrArray(STORE, 'sst');
+    const { data, shape } = await readZarrRegion(array, [null, 2, 3]);
+    expect(shape).toEqual([2]);
+    expect(Array.from(data)).toEqual([23, 123]);
+  });
+
+  it('decodes big-endian integers, gzip and uncompressed chunks', async () => {
+    stubZarrFetch(
+      STORE,
+      createZarrStore({
+        a: { shape: [3], dtype: '>i2', values: [-1, 2, 300], compressor: 'gzip' },
+        b: { shape: [2], dtype: '|u1', values: [7, 255], compressor: null },
+      })
+    );
+    const a = await readZarrRegion(await openZarrArray(STORE, 'a'), [null]);
+    const b = await readZarrRegion(await openZarrArray(STORE, 'b'), [null]);
+    expect(Array.from(a.data)).toEqual([-1, 2, 300]);
+    expect(Array.from(b.data)).toEqual([7, 255]);
+  });
+
+  it('masks fill values and missing chunks, then unpacks CF scaling', async () => {
+    stubZarrFetch(
+      STORE,
+      createZarrStore({
+        t: {
+          shape: [4],
+          chunks: [2],
+          dtype: '<i2',
+          values: [10, -999, 30, 40],
+          fill_value: -999,
+          attrs: { scale_factor: 0.5, add_offset: 1 },
+          skip: ['1'],
+        },
+      })
+    );
+    const { data } = await readZarrRegion(await openZarrArray(STORE, 't'), [null]);
+    expect(Array.from(data)).toEqual([6, NaN, NaN, NaN]);
+  });
+
+  it('rejects selections that do not fit the array', async () => {
+    stubZarrFetch(STORE, createZarrStore({ a: { shape: [2, 2], values: [1, 2, 3, 4] } }));
+    const array = await openZarrArray(STORE, 'a');
+    await expect(readZarrRegion(array, [null])).rejects.toThrow(/dimensions/);
+    await expect(readZarrRegion(array, [2, null])).rejects.toThrow(/out of range/);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * The `.zarray` metadata of a Zarr v2 array.
+ */
+export interface ZarrArrayMetadata {
+  zarr_format: number;
+  shape: number[];
+  chunks: number[];
+  /** NumPy type string, e.g. `<f4` or `>i2`. */
+  dtype: string;
+  compressor: { id: string; [key: string]: unknown } | null;
+  fill_value: number | string | null;
+  order: 'C' | 'F';
+  filters: unknown[] | null;
+  dimension_separator?: '.' | '/';
+}
+
+/**
+ * A Zarr v2 array opened from a store: its metadata, attributes and dimension
+ * names.
+ */
+export interface ZarrArray {
+  /** The store URL, without a trailing slash. */
+  store: string;
+  /** The array's path in the store, e.g. `sst` or `group/sst`. */
+  path: string;
+  meta: ZarrArrayMetadata;
+  /** The array's `.zattrs` (CF attributes such as `units`). */
+  attrs: Record<string, unknown>;
+  /**
+   * Dimension names, from xarray's `_ARRAY_DIMENSIONS` attribute; `dim_<n>`
+   * where the store does not name them.
+   */
+  dimensions: string[];
+}
+
+/**
+ * A region read from a {@link ZarrArray}: the selected values in C order with
+ * fill values as `NaN` and CF packing (`scale_factor`, `add_offset`) applied.
+ */
+export interface ZarrRegion {
+  data: Float64Array;
+  /** The size of each dimension left free by the selection, in order. */
+  shape: number[];
+}
+
+/**
+ * Element readers for the NumPy types the reader decodes (floats and
+ * integers up to 32 bits), keyed by the type string without its byte order.
+ */
+const DTYPE_READERS: Record<string, (view: DataView, offset: number, le: boolean) => number> = {
+  f4: (view, offset, le) => view.getFloat32(offset, le),
+  f8: (view, offset, le) => view.getFloat64(offset, le),
+  i1: (view, offset) => view.getInt8(offset),
+  i2: (view, offset, le) => view.getInt16(offset, le),
+  i4: (view, offset, le) => view.getInt32(offset, le),
+  u1: (view, offset) => view.getUint8(offset),
+  u2: (view, offset, le) => view.getUint16(offset, le),
+  u4: (view, offset, le) => view.getUint32(offset, le),
+};
+
+/**
+ * Fetches a store key as JSON.
+ *
+ * @returns The parsed JSON, or undefined when the key does not exist
+ */
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T | undefined> {
+  const response = await fetch(url, init);
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw new Error(`Zarr request failed: ${url} responded ${response.status}`);
+  return (await response.json()) as T;
+}
+
+/**
+ * Opens a Zarr v2 array by reading its `.zarray` and `.zattrs`.
+ *
+ * @param store - The store URL (the `.zarr` directory)
+ * @param path - The array's path in the store
+ * @param init - Optional fetch options (headers, abort signal, credentials)
+ * @returns The opened array
+ * @throws If the array does not exist or is not a Zarr v2 array this reader decodes
+ */
+export async function openZarrArray(
+  store: string,
+  path: string,
+  init?: RequestInit
+): Promise<ZarrArray> {
+  const root = store.replace(/\/+$/, '');
+  const meta = await fetchJson<ZarrArrayMetadata>(`${root}/${path}/.zarray`, init);
+  if (!meta) throw new Error(`Zarr array not found: ${root}/${path}`);
+  if (meta.zarr_format !== 2) throw new Error(`Unsupported Zarr format: ${meta.zarr_format}`);
+  if (!DTYPE_READERS[meta.dtype.slice(1)]) throw new Error(`Unsupported Zarr dtype: ${meta.dtype}`);
+  if (meta.order !== 'C') throw new Error('Only C-ordered Zarr arrays are supported.');
+  if (meta.filters?.length) throw new Error('Zarr filters are not supported.');
+  const attrs = (await fetchJson<Record<string, unknown>>(`${root}/${path}/.zattrs`, init)) ?? {};
+  const named = attrs._ARRAY_DIMENSIONS;
+  return {
+    store: root,
+    path,
+    meta,
+    attrs,
+    dimensions: Array.isArray(named) ? named.map(String) : meta.shape.map((_, i) => `dim_${i}`),
+  };
+}
+
+/**
+ * Inflates a chunk. zlib and gzip go through the platform's
+ * `DecompressionStream`; Blosc, the other common codec, needs a WASM build and
+ * is not supported.
+ */
+async function decompress(
+  bytes: ArrayBuffer,
+  compressor: ZarrArrayMetadata['compressor']
+): Promise<ArrayBuffer> {
+  if (!compressor) return bytes;
+  const format =
+    compressor.id === 'zlib' ? 'deflate' : compressor.id === 'gzip' ? 'gzip' : undefined;
+  if (!format) throw new Error(`Unsupported Zarr compressor: ${compressor.id}`);
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream(format));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * The values CF attributes and the array's `fill_value` mark as missing.
+ */
+function missingValues(array: ZarrArray): number[] {
+  const candidates = [array.meta.fill_value, array.attrs._FillValue, array.attrs.missing_value];
+  return candidates.flat().filter((v): v is number => typeof v === 'number' && !Number.isNaN(v));
+}
+
+/**
+ * Reads a region of an array: each dimension either fixed at one index or
+ * taken whole. Only the chunks the region touches are fetched; chunks absent
+ * from the store read as missing.
+ *
+ * @param array - An array from {@link openZarrArray}
+ * @param selection - Per dimension, an index or `null` for the whole dimension
+ * @param init - Optional fetch options (headers, abort signal, credentials)
+ * @returns The region's values and shape
+ * @throws If a chunk request fails or the selection does not fit the array
+ *
+ * @example
+ * ```typescript
+ * const sst = await openZarrArray('https://example.com/sst.zarr', 'sst');
+ * // The map at the fourth time step of a (time, lat, lon) array.
+ * const { data, shape } = await readZarrRegion(sst, [3, null, null]);
+ * ```
+ */
+export async function readZarrRegion(
+  array: ZarrArray,
+  selection: (number | null)[],
+  init?: RequestInit
+): Promise<ZarrRegion> {
+  const { shape, chunks, dtype, compressor } = array.meta;
+  if (selection.length !== shape.length) {
+    throw new Error(`Selection has ${selection.length} dimensions; the array has ${shape.length}.`);
+  }
+  selection.forEach((index, dim) => {
+    if (index !== null && (index < 0 || index >= shape[dim] || !Number.isInteger(index))) {
+      throw new Error(`Index ${index} is out of range for dimension ${array.dimensions[dim]}.`);
+    }
+  });
+
+  const freeDims = selection.flatMap((index, dim) => (index === null ? [dim] : []));
+  const outShape = freeDims.map((dim) => shape[dim]);
+  const data = new Float64Array(outShape.reduce((n, size) => n * size, 1)).fill(NaN);
+  const outStrides = outShape.map((_, i) => outShape.slice(i + 1).reduce((n, s) => n * s, 1));
+
+  // Chunk grid indexes the region touches, per dimension.
+  const chunkRanges = selection.map((index, dim) =>
+    index === null
+      ? Array.from({ length: Math.ceil(shape[dim] / chunks[dim]) }, (_, i) => i)
+      : [Math.floor(index / chunks[dim])]
+  );
+  const chunkKeys = chunkRanges.reduce<number[][]>(
+    (keys, range) => keys.flatMap((key) => range.map((c) => [...key, c])),
+    [[]]
+  );
+
+  const read = DTYPE_READERS[dtype.slice(1)];
+  const littleEndian = dtype[0] !== '>';
+  const width = Number(dtype.slice(2));
+  const chunkStrides = chunks.map((_, i) => chunks.slice(i + 1).reduce((n, s) => n * s, 1));
+  const separator = array.meta.dimension_separator ?? '.';
+
+  await Promise.all(
+    chunkKeys.map(async (key) => {
+      const url = `${array.store}/${array.path}/${key.join(separator)}`;
+      const response = await fetch(url, init);
+      // Zarr leaves chunks holding only the fill value unwritten.
+      if (response.status === 404) return;
+      if (!response.ok) throw new Error(`Zarr request failed: ${url} responded ${response.status}`);
+      const view = new DataView(await decompress(await response.arrayBuffer(), compressor));
+
+      // Walk the region's cells inside this chunk. Edge chunks are stored
+      // full size, so chunk offsets use the nominal chunk shape.
+      const starts = key.map((c, dim) => selection[dim] ?? c * chunks[dim]);
+      const ends = key.map((c, dim) =>
+        selection[dim] !== null ? selection[dim]! + 1 : Math.min((c + 1) * chunks[dim], shape[dim])
+      );
+      const cursor = [...starts];
+      for (;;) {
+        let inChunk = 0;
+        let out = 0;
+        for (let dim = 0; dim < cursor.length; dim++) {
+          inChunk += (cursor[dim] - key[dim] * chunks[dim]) * chunkStrides[dim];
+        }
+        freeDims.forEach((dim, i) => (out += cursor[dim] * outStrides[i]));
+        data[out] = read(view, inChunk * width, littleEndian);
+
+        let dim = cursor.length - 1;
+        for (; dim >= 0; dim--) {
+          if (++cursor[dim] < ends[dim]) break;
+          cursor[dim] = starts[dim];
+        }
+        if (dim < 0) break;
+      }
+    })
+  );
+
+  const missing = missingValues(array);
+  const scale = typeof array.attrs.scale_factor === 'number' ? array.attrs.scale_factor : 1;
+  const offset = typeof array.attrs.add_offset === 'number' ? array.attrs.add_offset : 0;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = missing.includes(data[i]) ? NaN : data[i] * scale + offset;
+  }
+  return { data, shape: outShape };
+}
@@ -18,10 +18,31 @@ export type {
   CogSourceSpec,
   XyzSourceSpec,
   WmsSourceSpec,
+  StacSourceSpec,
+  WmtsSourceSpec,
+  ArcGisSourceSpec,
+  ZarrSourceSpec,
+  ImageSourceSpec,
+  ImageCoordinates,
+  VideoSourceSpec,
   GeoJsonSourceSpec,
+  VectorSourceSpec,
   CustomSourceSpec,
   GeoJsonTimeWindow,
+  GeoJsonTrail,
+  GeoJsonCluster,
+  GeoJsonSublayer,
+  GeoJsonStyle,
+  LegendEntry,
+  SourceLegend,
   GeoJsonPaint,
+  FeatureLayout,
+  TimeRange,
+  HistogramCounter,
+  RasterTransition,
+  SourceInspect,
+  AnimationFormat,
+  ExportAnimationOptions,
   TimeSliderOptions,
   TimeSliderState,
   TimeSliderConfig,
@@ -38,6 +59,48 @@ export {
   getTiTilerBounds,
   getTiTilerInfo,
   getTiTilerStatistics,
+  searchStac,
+  stacItemTime,
+  discoverWms,
+  parseWmsCapabilities,
+  wmsCapabilitiesUrl,
+  discoverWmts,
+  parseWmtsCapabilities,
+  wmtsCapabilitiesUrl,
+  wmtsTileTemplate,
+  getArcGisServiceInfo,
+  arcgisTimeExtent,
+  arcgisTimeUnit,
+  arcgisBounds,
+  openZarrArray,
+  readZarrRegion,
+  CLIENT_COLORMAPS,
+  colorizeGrid,
+  colormapTable,
+  valueRange,
 } from './lib/utils';
 
-export type { TiTilerOptions } from './lib/utils';
+export type {
+  TiTilerOptions,
+  StacItem,
+  StacSearchBody,
+  StacSearchOptions,
+  WmsCapabilities,
+  WmsLayerInfo,
+  WmtsCapabilities,
+  WmtsDimension,
+  WmtsLayerInfo,
+  WmtsResourceUrl,
+  WmtsTileMatrix,
+  WmtsTileMatrixSet,
+  WmtsTileOptions,
+  WmtsTileTemplate,
+  ArcGisServiceInfo,
+  ArcGisTimeInfo,
+  ArcGisTimeExtent,
+  ArcGisExtent,
+  ArcGisSpatialReference,
+  ZarrArray,
+  ZarrArrayMetadata,
+  ZarrRegion,
+} from './lib/utils';
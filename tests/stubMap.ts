@@ -5,11 +5,20 @@ import type { Map as MapLibreMap } from 'maplibre-gl';
  * A minimal in-memory stand-in for a MapLibre map, sufficient for exercising
  * adapters and the control without a real GL context. Sources and layers are
  * tracked so getSource/getLayer behave after add calls. Each source carries its
- * own `setTiles` spy.
+ * own `setTiles`, `updateImage` and `setData` spies; `setData` also replaces
+ * the source's `data`.
  */
 export interface StubMap {
   map: MapLibreMap;
-  sources: Map<string, { setTiles: ReturnType<typeof vi.fn>; data?: unknown }>;
+  sources: Map<
+    string,
+    {
+      setTiles: ReturnType<typeof vi.fn>;
+      updateImage: ReturnType<typeof vi.fn>;
+      setData: ReturnType<typeof vi.fn>;
+      data?: unknown;
+    }
+  >;
   layers: Map<string, { layer: Record<string, unknown>; beforeId?: string }>;
   container: HTMLElement;
 }
@@ -20,18 +29,30 @@ export interface StubMap {
  * @returns The stub map and its tracked state
  */
 export function createStubMap(): StubMap {
-  const sources = new Map<string, { setTiles: ReturnType<typeof vi.fn>; data?: unknown }>();
+  const sources: StubMap['sources'] = new Map();
   const layers = new Map<string, { layer: Record<string, unknown>; beforeId?: string }>();
   const container = document.createElement('div');
   Object.defineProperty(container, 'getBoundingClientRect', {
     value: () => ({ top: 0, left: 0, right: 800, bottom: 600, width: 800, height: 600 }),
   });
 
+  const canvas = document.createElement('canvas');
+  canvas.width = 4;
+  canvas.height = 2;
+
   const controls = new Set<{ onAdd: (m: MapLibreMap) => HTMLElement; onRemove: () => void }>();
 
   const map = {
     addSource: vi.fn((id: string, src: Record<string, unknown>) => {
-      sources.set(id, { setTiles: vi.fn(), data: src.data });
+      const source = {
+        setTiles: vi.fn(),
+        updateImage: vi.fn(),
+        setData: vi.fn((data: unknown) => {
+          source.data = data;
+        }),
+        data: src.data,
+      };
+      sources.set(id, source);
     }),
     getSource: vi.fn((id: string) => sources.get(id)),
     removeSource: vi.fn((id: string) => {
@@ -51,6 +72,21 @@ export function createStubMap(): StubMap {
     resize: vi.fn(),
     on: vi.fn(),
     off: vi.fn(),
+    // One-shot render/idle listeners fire on the next tick, as if the map had
+    // just finished drawing.
+    once: vi.fn((_type: string, listener: () => void) => {
+      setTimeout(listener, 0);
+    }),
+    triggerRepaint: vi.fn(),
+    getCanvas: vi.fn(() => canvas),
+    // A small viewport off West Africa, inside a single tile at low zooms.
+    getBounds: vi.fn(() => ({
+      toArray: () => [
+        [1, 1],
+        [10, 10],
+      ],
+    })),
+    getZoom: vi.fn(() => 2),
   } as unknown as MapLibreMap;
 
   // Control lifecycle (mirrors MapLibre): addControl invokes onAdd and mounts
@@ -0,0 +1,124 @@
+/// <reference types="node" />
+import { deflateSync, gzipSync } from 'node:zlib';
+import { vi } from 'vitest';
+
+/**
+ * An array to write into a fixture store: its values in C order, chunked and
+ * encoded as Zarr v2 would.
+ */
+export interface FixtureArray {
+  shape: number[];
+  chunks?: number[];
+  /** @default '<f4' */
+  dtype?: string;
+  values: number[];
+  attrs?: Record<string, unknown>;
+  /** @default 'zlib' */
+  compressor?: 'zlib' | 'gzip' | null;
+  fill_value?: number | null;
+  /** Chunk keys left unwritten, as Zarr does for all-fill chunks. */
+  skip?: string[];
+}
+
+const WRITERS: Record<string, (view: DataView, offset: number, v: number, le: boolean) => void> = {
+  f4: (view, offset, v, le) => view.setFloat32(offset, v, le),
+  f8: (view, offset, v, le) => view.setFloat64(offset, v, le),
+  i1: (view, offset, v) => view.setInt8(offset, v),
+  i2: (view, offset, v, le) => view.setInt16(offset, v, le),
+  i4: (view, offset, v, le) => view.setInt32(offset, v, le),
+  u1: (view, offset, v) => view.setUint8(offset, v),
+  u2: (view, offset, v, le) => view.setUint16(offset, v, le),
+  u4: (view, offset, v, le) => view.setUint32(offset, v, le),
+};
+
+/**
+ * Builds the files of an in-memory Zarr v2 store: each array's `.zarray`,
+ * `.zattrs` and chunks, keyed by path.
+ *
+ * @param arrays - The arrays, by path in the store
+ * @returns The store's files
+ */
+export function createZarrStore(
+  arrays: Record<string, FixtureArray>
+): Map<string, Uint8Array<ArrayBuffer>> {
+  const files = new Map<string, Uint8Array<ArrayBuffer>>();
+  const json = (value: unknown): Uint8Array<ArrayBuffer> =>
+    new TextEncoder().encode(JSON.stringify(value));
+  for (const [path, array] of Object.entries(arrays)) {
+    const { shape, values, attrs = {}, skip = [] } = array;
+    const chunks = array.chunks ?? shape;
+    const dtype = array.dtype ?? '<f4';
+    const compressor = array.compressor === undefined ? 'zlib' : array.compressor;
+    const fill = array.fill_value === undefined ? null : array.fill_value;
+    files.set(
+      `${path}/.zarray`,
+      json({
+        zarr_format: 2,
+        shape,
+        chunks,
+        dtype,
+        compressor: compressor ? { id: compressor, level: 1 } : null,
+        fill_value: fill,
+        order: 'C',
+        filters: null,
+      })
+    );
+    files.set(`${path}/.zattrs`, json(attrs));
+
+    const width = Number(dtype.slice(2));
+    const write = WRITERS[dtype.slice(1)];
+    const grid = shape.map((size, dim) => Math.ceil(size / chunks[dim]));
+    const chunkSize = chunks.reduce((n, c) => n * c, 1);
+    const keys = grid.reduce<number[][]>(
+      (acc, n) => acc.flatMap((key) => Array.from({ length: n }, (_, i) => [...key, i])),
+      [[]]
+    );
+    for (const key of keys) {
+      if (skip.includes(key.join('.'))) continue;
+      const bytes = new Uint8Array(chunkSize * width);
+      const view = new DataView(bytes.buffer);
+      for (let i = 0; i < chunkSize; i++) {
+        // The cell's index within the chunk, then within the array.
+        let rest = i;
+        let flat = 0;
+        let inside = true;
+        for (let dim = 0; dim < shape.length; dim++) {
+          const stride = chunks.slice(dim + 1).reduce((n, c) => n * c, 1);
+          const at = key[dim] * chunks[dim] + Math.floor(rest / stride);
+          rest %= stride;
+          if (at >= shape[dim]) inside = false;
+          flat = flat * shape[dim] + at;
+        }
+        write(view, i * width, inside ? values[flat] : (fill ?? 0), dtype[0] !== '>');
+      }
+      const encoded =
+        compressor === 'zlib'
+          ? deflateSync(bytes)
+          : compressor === 'gzip'
+            ? gzipSync(bytes)
+            : bytes;
+      files.set(`${path}/${key.join('.')}`, new Uint8Array(encoded));
+    }
+  }
+  return files;
+}
+
+/**
+ * Serves a fixture store at a URL through a stubbed `fetch`, answering 404
+ * for keys it lacks.
+ *
+ * @param url - The store URL
+ * @param files - The store from {@link createZarrStore}
+ * @returns The fetch mock
+ */
+export function stubZarrFetch(
+  url: string,
+  files: Map<string, Uint8Array<ArrayBuffer>>
+): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn(async (input: string) => {
+    const file = input.startsWith(`${url}/`) ? files.get(input.slice(url.length + 1)) : undefined;
+    return file ? new Response(file) : new Response(null, { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}